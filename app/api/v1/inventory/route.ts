@@ -0,0 +1,95 @@
+// API ROUTE - Inventory
+// GET  /api/v1/inventory?page=&limit=&store_id=&product_id=
+// POST /api/v1/inventory
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getStockLevelsPage, updateStock } from '@/lib/actions/products';
+import {
+  apiError,
+  apiUnexpectedError,
+  authenticateRequest,
+  parsePagination,
+  readJsonBody,
+  resolveStoreId,
+} from '@/lib/api';
+
+const ADJUSTMENT_TYPES = ['stock_in', 'adjustment', 'return'] as const;
+
+type AdjustmentType = (typeof ADJUSTMENT_TYPES)[number];
+
+// GET - List stock levels per store and product
+export async function GET(request: NextRequest) {
+  try {
+    const token = await authenticateRequest(request, 'read');
+    if (token instanceof NextResponse) return token;
+
+    const { searchParams } = request.nextUrl;
+    const pagination = parsePagination(searchParams);
+    if (pagination instanceof NextResponse) return pagination;
+
+    const storeId = resolveStoreId(token, searchParams.get('store_id'));
+    if (storeId instanceof NextResponse) return storeId;
+
+    const result = await getStockLevelsPage(
+      {
+        store_id: storeId,
+        product_id: searchParams.get('product_id') || undefined,
+      },
+      pagination
+    );
+
+    if (!result.success || !result.data) {
+      return apiError(400, result.error || 'Failed to load stock levels');
+    }
+
+    return NextResponse.json(result.data);
+  } catch (error) {
+    return apiUnexpectedError(error);
+  }
+}
+
+// POST - Adjust stock for one product in one store
+// Body: { store_id?, product_id, quantity_change, transaction_type, notes? }
+export async function POST(request: NextRequest) {
+  try {
+    const token = await authenticateRequest(request, 'write');
+    if (token instanceof NextResponse) return token;
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) return body;
+
+    const storeId = resolveStoreId(
+      token,
+      typeof body.store_id === 'string' ? body.store_id : undefined
+    );
+    if (storeId instanceof NextResponse) return storeId;
+    if (!storeId) {
+      return apiError(400, 'store_id is required');
+    }
+
+    if (typeof body.product_id !== 'string' || !body.product_id) {
+      return apiError(400, 'product_id is required');
+    }
+
+    if (!ADJUSTMENT_TYPES.includes(body.transaction_type as AdjustmentType)) {
+      return apiError(400, `transaction_type must be one of: ${ADJUSTMENT_TYPES.join(', ')}`);
+    }
+
+    const result = await updateStock(
+      body.product_id,
+      storeId,
+      Number(body.quantity_change),
+      body.transaction_type as AdjustmentType,
+      token.user_id,
+      typeof body.notes === 'string' ? body.notes : undefined
+    );
+
+    if (!result.success || !result.data) {
+      return apiError(400, result.error || 'Failed to update stock');
+    }
+
+    return NextResponse.json({ data: result.data }, { status: 201 });
+  } catch (error) {
+    return apiUnexpectedError(error);
+  }
+}
@@ -0,0 +1,34 @@
+// API ROUTE - Single order
+// GET /api/v1/orders/:id
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderById } from '@/lib/actions/orders';
+import { apiError, apiUnexpectedError, authenticateRequest } from '@/lib/api';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET - Order with items and payments
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const token = await authenticateRequest(request, 'read');
+    if (token instanceof NextResponse) return token;
+
+    const { id } = await params;
+    const result = await getOrderById(id);
+
+    // Store-bound tokens cannot see other stores' orders
+    if (
+      !result.success ||
+      !result.data ||
+      (token.store_id && result.data.store_id !== token.store_id)
+    ) {
+      return apiError(404, 'Order not found');
+    }
+
+    return NextResponse.json({ data: result.data });
+  } catch (error) {
+    return apiUnexpectedError(error);
+  }
+}
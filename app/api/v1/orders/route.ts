@@ -0,0 +1,146 @@
+// API ROUTE - Orders
+// GET  /api/v1/orders?page=&limit=&status=&store_id=&cashier_id=&customer_id=&start_date=&end_date=
+// POST /api/v1/orders
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createOrder, getOrdersPage } from '@/lib/actions/orders';
+import { getProductsByIds } from '@/lib/actions/products';
+import { getModifierGroups } from '@/lib/actions/modifiers';
+import {
+  apiError,
+  apiUnexpectedError,
+  authenticateRequest,
+  parsePagination,
+  readJsonBody,
+  resolveStoreId,
+} from '@/lib/api';
+import { CartItem, OrderStatus, PaymentTender } from '@/lib/types';
+import { resolveModifiers } from '@/lib/utils/modifiers';
+
+const ORDER_STATUSES: OrderStatus[] = [
+  'pending',
+  'completed',
+  'partially_refunded',
+  'refunded',
+  'cancelled',
+];
+
+// GET - List orders, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const token = await authenticateRequest(request, 'read');
+    if (token instanceof NextResponse) return token;
+
+    const { searchParams } = request.nextUrl;
+    const pagination = parsePagination(searchParams);
+    if (pagination instanceof NextResponse) return pagination;
+
+    const storeId = resolveStoreId(token, searchParams.get('store_id'));
+    if (storeId instanceof NextResponse) return storeId;
+
+    const status = searchParams.get('status');
+    if (status && !ORDER_STATUSES.includes(status as OrderStatus)) {
+      return apiError(400, `status must be one of: ${ORDER_STATUSES.join(', ')}`);
+    }
+
+    const result = await getOrdersPage(
+      {
+        status: (status as OrderStatus) || undefined,
+        store_id: storeId,
+        cashier_id: searchParams.get('cashier_id') || undefined,
+        customer_id: searchParams.get('customer_id') || undefined,
+        start_date: searchParams.get('start_date') || undefined,
+        end_date: searchParams.get('end_date') || undefined,
+      },
+      pagination
+    );
+
+    if (!result.success || !result.data) {
+      return apiError(400, result.error || 'Failed to load orders');
+    }
+
+    return NextResponse.json(result.data);
+  } catch (error) {
+    return apiUnexpectedError(error);
+  }
+}
+
+// POST - Create order as the token's user
+// Body: { store_id?, customer_id?, items: [{ product_id, quantity, modifier_ids? }], payments: PaymentTender[], notes? }
+export async function POST(request: NextRequest) {
+  try {
+    const token = await authenticateRequest(request, 'write');
+    if (token instanceof NextResponse) return token;
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) return body;
+
+    const storeId = resolveStoreId(
+      token,
+      typeof body.store_id === 'string' ? body.store_id : undefined
+    );
+    if (storeId instanceof NextResponse) return storeId;
+    if (!storeId) {
+      return apiError(400, 'store_id is required');
+    }
+
+    const lines: Array<{ product_id: string; quantity: number; modifier_ids?: string[] }> =
+      Array.isArray(body.items) ? body.items : [];
+    if (lines.length === 0) {
+      return apiError(400, 'items must be a non-empty array');
+    }
+    if (lines.some((line) => !line?.product_id || !Number.isInteger(line.quantity) || line.quantity < 1)) {
+      return apiError(400, 'Each item needs a product_id and a positive whole quantity');
+    }
+    if (lines.some((line) => line.modifier_ids !== undefined && !Array.isArray(line.modifier_ids))) {
+      return apiError(400, 'modifier_ids must be an array of modifier IDs');
+    }
+
+    const productsResult = await getProductsByIds(
+      lines.map((line) => line.product_id),
+      storeId
+    );
+    if (!productsResult.success || !productsResult.data) {
+      return apiError(400, productsResult.error || 'Failed to load products');
+    }
+
+    const modifiersResult = await getModifierGroups();
+    if (!modifiersResult.success || !modifiersResult.data) {
+      return apiError(400, modifiersResult.error || 'Failed to load modifiers');
+    }
+
+    const products = productsResult.data;
+    const items: CartItem[] = [];
+    for (const line of lines) {
+      const product = products.find((p) => p.id === line.product_id);
+      if (!product) {
+        return apiError(404, `Product not found: ${line.product_id}`);
+      }
+
+      const modifierIds = line.modifier_ids || [];
+      const modifiers = resolveModifiers(modifiersResult.data, modifierIds);
+      if (modifiers.length !== modifierIds.length) {
+        return apiError(404, `Modifier not found on ${line.product_id}`);
+      }
+
+      items.push({ product_id: product.id, quantity: line.quantity, product, modifiers });
+    }
+
+    const result = await createOrder(
+      token.user_id,
+      storeId,
+      items,
+      Array.isArray(body.payments) ? (body.payments as PaymentTender[]) : [],
+      typeof body.notes === 'string' ? body.notes : undefined,
+      { customer_id: typeof body.customer_id === 'string' ? body.customer_id : null }
+    );
+
+    if (!result.success || !result.data) {
+      return apiError(400, result.error || 'Failed to create order');
+    }
+
+    return NextResponse.json({ data: result.data }, { status: 201 });
+  } catch (error) {
+    return apiUnexpectedError(error);
+  }
+}
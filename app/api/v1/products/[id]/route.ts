@@ -0,0 +1,103 @@
+// API ROUTE - Single product
+// GET    /api/v1/products/:id?store_id=
+// PATCH  /api/v1/products/:id
+// DELETE /api/v1/products/:id (soft delete)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteProduct, getProductById, updateProduct } from '@/lib/actions/products';
+import {
+  apiError,
+  apiUnexpectedError,
+  authenticateRequest,
+  readJsonBody,
+  resolveStoreId,
+} from '@/lib/api';
+import { Product } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Fields the API may change; stock goes through /api/v1/inventory
+const UPDATABLE_FIELDS: Array<keyof Product> = [
+  'category_id',
+  'sku',
+  'name',
+  'description',
+  'price',
+  'cost',
+  'tax_rate',
+  'reorder_level',
+  'image_url',
+  'is_active',
+];
+
+// GET - Product by ID
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const token = await authenticateRequest(request, 'read');
+    if (token instanceof NextResponse) return token;
+
+    const storeId = resolveStoreId(token, request.nextUrl.searchParams.get('store_id'));
+    if (storeId instanceof NextResponse) return storeId;
+
+    const { id } = await params;
+    const result = await getProductById(id, storeId);
+
+    if (!result.success || !result.data) {
+      return apiError(404, 'Product not found');
+    }
+
+    return NextResponse.json({ data: result.data });
+  } catch (error) {
+    return apiUnexpectedError(error);
+  }
+}
+
+// PATCH - Update product fields
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const token = await authenticateRequest(request, 'write');
+    if (token instanceof NextResponse) return token;
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) return body;
+
+    const unknownFields = Object.keys(body).filter(
+      (field) => !UPDATABLE_FIELDS.includes(field as keyof Product)
+    );
+    if (unknownFields.length > 0) {
+      return apiError(400, `Fields cannot be updated: ${unknownFields.join(', ')}`);
+    }
+
+    const { id } = await params;
+    const result = await updateProduct(id, body as Partial<Product>);
+
+    if (!result.success || !result.data) {
+      return apiError(400, result.error || 'Failed to update product');
+    }
+
+    return NextResponse.json({ data: result.data });
+  } catch (error) {
+    return apiUnexpectedError(error);
+  }
+}
+
+// DELETE - Deactivate product
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const token = await authenticateRequest(request, 'write');
+    if (token instanceof NextResponse) return token;
+
+    const { id } = await params;
+    const result = await deleteProduct(id);
+
+    if (!result.success) {
+      return apiError(400, result.error || 'Failed to delete product');
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return apiUnexpectedError(error);
+  }
+}
@@ -0,0 +1,68 @@
+// API ROUTE - Products
+// GET  /api/v1/products?page=&limit=&search=&category_id=&store_id=
+// POST /api/v1/products
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createProduct, getProductsPage } from '@/lib/actions/products';
+import {
+  apiError,
+  apiUnexpectedError,
+  authenticateRequest,
+  parsePagination,
+  readJsonBody,
+  resolveStoreId,
+} from '@/lib/api';
+import { CreateProductFormData } from '@/lib/types';
+
+// GET - List active products (stock for store_id, or all stores)
+export async function GET(request: NextRequest) {
+  try {
+    const token = await authenticateRequest(request, 'read');
+    if (token instanceof NextResponse) return token;
+
+    const { searchParams } = request.nextUrl;
+    const pagination = parsePagination(searchParams);
+    if (pagination instanceof NextResponse) return pagination;
+
+    const storeId = resolveStoreId(token, searchParams.get('store_id'));
+    if (storeId instanceof NextResponse) return storeId;
+
+    const result = await getProductsPage(
+      {
+        search: searchParams.get('search') || undefined,
+        category_id: searchParams.get('category_id') || undefined,
+        store_id: storeId,
+      },
+      pagination
+    );
+
+    if (!result.success || !result.data) {
+      return apiError(400, result.error || 'Failed to load products');
+    }
+
+    return NextResponse.json(result.data);
+  } catch (error) {
+    return apiUnexpectedError(error);
+  }
+}
+
+// POST - Create product
+export async function POST(request: NextRequest) {
+  try {
+    const token = await authenticateRequest(request, 'write');
+    if (token instanceof NextResponse) return token;
+
+    const body = await readJsonBody<CreateProductFormData>(request);
+    if (body instanceof NextResponse) return body;
+
+    const result = await createProduct(body);
+
+    if (!result.success || !result.data) {
+      return apiError(400, result.error || 'Failed to create product');
+    }
+
+    return NextResponse.json({ data: result.data }, { status: 201 });
+  } catch (error) {
+    return apiUnexpectedError(error);
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Customers Page
+ * Look up customers and view their purchase history, lifetime spend and
+ * loyalty points
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getCustomerHistory, searchCustomers, updateCustomer } from '@/lib/actions/customers';
+import { getLoyaltyAccount } from '@/lib/actions/loyalty';
+import { useDebounce, useToast } from '@/lib/hooks';
+import { Customer, CustomerHistory, LoyaltyAccount } from '@/lib/types';
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils';
+import { Badge, Button, Card, Input, Spinner } from '@/components/ui';
+
+export default function CustomersPage() {
+  const { success, error } = useToast();
+
+  const [query, setQuery] = useState('');
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<CustomerHistory | null>(null);
+  const [loyalty, setLoyalty] = useState<LoyaltyAccount | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [editData, setEditData] = useState({ notes: '', is_tax_exempt: false });
+  const debouncedQuery = useDebounce(query, 300);
+
+  useEffect(() => {
+    searchCustomers(debouncedQuery).then((result) => {
+      if (result.success) {
+        setCustomers(result.data || []);
+      } else {
+        error(result.error || 'Failed to search customers');
+      }
+    });
+  }, [debouncedQuery, error]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+
+    Promise.all([getCustomerHistory(selectedId), getLoyaltyAccount(selectedId)]).then(
+      ([result, loyaltyResult]) => {
+        setLoyalty(loyaltyResult.success && loyaltyResult.data ? loyaltyResult.data : null);
+        if (result.success && result.data) {
+          setHistory(result.data);
+          setEditData({
+            notes: result.data.customer.notes || '',
+            is_tax_exempt: result.data.customer.is_tax_exempt,
+          });
+        } else {
+          error(result.error || 'Failed to load customer');
+        }
+        setLoadingHistory(false);
+      }
+    );
+  }, [selectedId, error]);
+
+  const handleSelect = (customerId: string) => {
+    setLoadingHistory(true);
+    setSelectedId(customerId);
+  };
+
+  const handleSave = async () => {
+    if (!history) return;
+
+    const result = await updateCustomer(history.customer.id, {
+      notes: editData.notes.trim() || null,
+      is_tax_exempt: editData.is_tax_exempt,
+    });
+
+    if (result.success && result.data) {
+      setHistory({ ...history, customer: result.data });
+      success('Customer updated successfully');
+    } else {
+      error(result.error || 'Failed to update customer');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Customers</h1>
+          <p className="text-gray-600">Purchase history and lifetime spend</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Search */}
+          <Card>
+            <Input
+              type="text"
+              placeholder="Search by phone or name..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <div className="mt-4 space-y-2">
+              {customers.length === 0 ? (
+                <p className="text-center text-gray-500 py-4 text-sm">
+                  {query.trim() ? 'No customers found' : 'Type a phone number or name'}
+                </p>
+              ) : (
+                customers.map((customer) => (
+                  <button
+                    key={customer.id}
+                    type="button"
+                    className={`w-full text-left border rounded-lg p-3 text-sm hover:bg-gray-50 ${
+                      customer.id === selectedId ? 'border-blue-500' : 'border-gray-200'
+                    }`}
+                    onClick={() => handleSelect(customer.id)}
+                  >
+                    <p className="font-semibold">{customer.name}</p>
+                    <p className="text-xs text-gray-500">{customer.phone || customer.email}</p>
+                  </button>
+                ))
+              )}
+            </div>
+          </Card>
+
+          {/* Detail */}
+          <div className="lg:col-span-2">
+            {loadingHistory ? (
+              <div className="flex justify-center py-12">
+                <Spinner size="lg" />
+              </div>
+            ) : !history ? (
+              <Card>
+                <p className="text-center text-gray-500 py-12">Select a customer</p>
+              </Card>
+            ) : (
+              <div className="space-y-6">
+                <Card>
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h2 className="text-xl font-semibold">{history.customer.name}</h2>
+                      <p className="text-sm text-gray-600">
+                        {[history.customer.phone, history.customer.email]
+                          .filter(Boolean)
+                          .join(' · ') || 'No contact details'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Customer since {formatDate(history.customer.created_at)}
+                      </p>
+                    </div>
+                    {history.customer.is_tax_exempt && (
+                      <Badge variant="warning">Tax exempt</Badge>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-4 gap-4 mb-4">
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-xs text-gray-500">Lifetime Spend</p>
+                      <p className="text-lg font-bold">{formatCurrency(history.lifetime_spend)}</p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-xs text-gray-500">Orders</p>
+                      <p className="text-lg font-bold">{history.order_count}</p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-xs text-gray-500">Loyalty Points</p>
+                      <p className="text-lg font-bold">{loyalty?.balance ?? 0}</p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-xs text-gray-500">Last Purchase</p>
+                      <p className="text-lg font-bold">
+                        {history.last_order_at ? formatDate(history.last_order_at) : '-'}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    <Input
+                      type="text"
+                      label="Notes"
+                      value={editData.notes}
+                      onChange={(e) => setEditData({ ...editData, notes: e.target.value })}
+                    />
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={editData.is_tax_exempt}
+                        onChange={(e) =>
+                          setEditData({ ...editData, is_tax_exempt: e.target.checked })
+                        }
+                        className="rounded"
+                      />
+                      Tax exempt
+                    </label>
+                    <Button size="sm" onClick={handleSave}>
+                      Save Changes
+                    </Button>
+                  </div>
+                </Card>
+
+                {loyalty && loyalty.entries.length > 0 && (
+                  <Card>
+                    <h3 className="text-lg font-semibold mb-4">Loyalty Points</h3>
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                      {loyalty.entries.map((entry) => (
+                        <div
+                          key={entry.id}
+                          className="flex justify-between text-sm border-b border-gray-100 pb-2"
+                        >
+                          <div>
+                            <span className="capitalize font-medium">{entry.entry_type}</span>
+                            {entry.notes && (
+                              <span className="text-gray-500"> - {entry.notes}</span>
+                            )}
+                            <p className="text-xs text-gray-500">
+                              {formatDateTime(entry.created_at)}
+                            </p>
+                          </div>
+                          <span
+                            className={entry.points > 0 ? 'text-green-600' : 'text-red-600'}
+                          >
+                            {entry.points > 0 ? '+' : ''}
+                            {entry.points}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </Card>
+                )}
+
+                <Card>
+                  <h3 className="text-lg font-semibold mb-4">
+                    Purchase History
+                    {history.order_count > history.orders.length && (
+                      <span className="ml-2 text-sm font-normal text-gray-500">
+                        latest {history.orders.length} of {history.order_count}
+                      </span>
+                    )}
+                  </h3>
+                  {history.orders.length === 0 ? (
+                    <p className="text-center text-gray-500 py-8">No orders yet</p>
+                  ) : (
+                    <table className="w-full">
+                      <thead>
+                        <tr className="bg-gray-50 border-b">
+                          <th className="px-4 py-3 text-left text-sm font-semibold">Order #</th>
+                          <th className="px-4 py-3 text-left text-sm font-semibold">Date</th>
+                          <th className="px-4 py-3 text-left text-sm font-semibold">Status</th>
+                          <th className="px-4 py-3 text-right text-sm font-semibold">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {history.orders.map((order) => (
+                          <tr key={order.id} className="border-b">
+                            <td className="px-4 py-3 text-sm font-medium">{order.order_number}</td>
+                            <td className="px-4 py-3 text-sm">{formatDateTime(order.created_at)}</td>
+                            <td className="px-4 py-3 text-sm">
+                              <Badge variant={order.status === 'completed' ? 'success' : 'warning'}>
+                                {order.status.replace('_', ' ')}
+                              </Badge>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right">
+                              {formatCurrency(order.total)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </Card>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+/**
+ * API Tokens Page
+ * Create, list and revoke the bearer tokens external scripts use to call
+ * the /api/v1 REST API
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { createApiToken, getApiTokens, revokeApiToken } from '@/lib/actions/api-tokens';
+import { listUsers } from '@/lib/actions/auth';
+import { getStores } from '@/lib/actions/stores';
+import { useModal, useToast, useUserProfile } from '@/lib/hooks';
+import { ApiToken, ApiTokenScope, Profile, Store } from '@/lib/types';
+import { formatDate, formatDateTime } from '@/lib/utils';
+import { Badge, Button, Card, Input, Modal, Select, Spinner } from '@/components/ui';
+import { Plus } from 'lucide-react';
+
+const SCOPES: Array<{ scope: ApiTokenScope; label: string }> = [
+  { scope: 'read', label: 'Read (GET)' },
+  { scope: 'write', label: 'Write (POST, PATCH, DELETE)' },
+];
+
+const emptyForm = {
+  name: '',
+  userId: '',
+  storeId: '',
+  scopes: ['read'] as ApiTokenScope[],
+  expiresOn: '',
+};
+
+export default function ApiTokensPage() {
+  const { success, error } = useToast();
+  const { profile } = useUserProfile();
+  const { isOpen: isCreateOpen, open: openCreate, close: closeCreate } = useModal();
+  const { isOpen: isRevokeOpen, open: openRevoke, close: closeRevoke } = useModal();
+
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [users, setUsers] = useState<Profile[]>([]);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  // Shown once, right after the token is created
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<ApiToken | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadTokens = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getApiTokens();
+      if (result.success && result.data) {
+        setTokens(result.data);
+      } else {
+        error(result.error || 'Failed to load API tokens');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [error]);
+
+  useEffect(() => {
+    loadTokens();
+    listUsers().then((result) => {
+      if (result.success && result.data) {
+        setUsers(result.data.filter((user) => user.is_active));
+      }
+    });
+    getStores().then((result) => {
+      if (result.success && result.data) {
+        setStores(result.data);
+      }
+    });
+  }, [loadTokens]);
+
+  const userName = (userId: string) => {
+    const user = users.find((candidate) => candidate.id === userId);
+    return user ? user.full_name || user.email : '-';
+  };
+
+  const storeName = (storeId: string | null) =>
+    storeId ? stores.find((store) => store.id === storeId)?.name || '-' : 'All stores';
+
+  const handleOpenCreate = () => {
+    // Orders created through the API are recorded against this user
+    setForm({ ...emptyForm, userId: profile?.id || '' });
+    openCreate();
+  };
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setForm({
+      ...form,
+      scopes: checked ? [...form.scopes, scope] : form.scopes.filter((s) => s !== scope),
+    });
+  };
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await createApiToken(
+        form.name,
+        form.userId,
+        form.scopes,
+        form.storeId || undefined,
+        // Valid through the end of the chosen day
+        form.expiresOn ? new Date(`${form.expiresOn}T23:59:59`).toISOString() : undefined
+      );
+      if (result.success && result.data) {
+        success(result.message || 'API token created');
+        setNewSecret(result.data.secret);
+        closeCreate();
+        loadTokens();
+      } else {
+        error(result.error || 'Failed to create API token');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpenRevoke = (token: ApiToken) => {
+    setRevoking(token);
+    openRevoke();
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+    setIsSubmitting(true);
+    try {
+      const result = await revokeApiToken(revoking.id);
+      if (result.success) {
+        success(result.message || 'API token revoked');
+        closeRevoke();
+        loadTokens();
+      } else {
+        error(result.error || 'Failed to revoke API token');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+    try {
+      await navigator.clipboard.writeText(newSecret);
+      success('Copied to clipboard');
+    } catch {
+      error('Copy failed; select the token and copy it manually');
+    }
+  };
+
+  const tokenStatus = (token: ApiToken) => {
+    if (token.revoked_at) return <Badge variant="danger">Revoked</Badge>;
+    if (token.expires_at && new Date(token.expires_at) < new Date()) {
+      return <Badge variant="warning">Expired</Badge>;
+    }
+    return <Badge variant="success">Active</Badge>;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">API Tokens</h1>
+            <p className="text-gray-600">Bearer tokens for scripts calling the /api/v1 REST API</p>
+          </div>
+          <Button onClick={handleOpenCreate}>
+            <Plus size={16} className="mr-2" />
+            New Token
+          </Button>
+        </div>
+
+        {newSecret && (
+          <Card className="mb-6 border border-yellow-300 bg-yellow-50">
+            <p className="text-sm font-semibold mb-2">
+              Copy this token now. It is stored hashed and will not be shown again.
+            </p>
+            <div className="flex gap-2 items-center">
+              <code className="flex-1 font-mono text-sm bg-white border border-gray-200 rounded px-3 py-2 break-all">
+                {newSecret}
+              </code>
+              <Button variant="secondary" onClick={handleCopy}>
+                Copy
+              </Button>
+              <Button variant="secondary" onClick={() => setNewSecret(null)}>
+                Done
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        <Card>
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Spinner size="lg" />
+            </div>
+          ) : tokens.length === 0 ? (
+            <p className="text-center text-gray-500 py-8 text-sm">No API tokens yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-600">
+                  <th className="py-2">Name</th>
+                  <th className="py-2">Token</th>
+                  <th className="py-2">Acts as</th>
+                  <th className="py-2">Store</th>
+                  <th className="py-2">Scopes</th>
+                  <th className="py-2">Last used</th>
+                  <th className="py-2">Expires</th>
+                  <th className="py-2"></th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {tokens.map((token) => (
+                  <tr key={token.id} className="border-b border-gray-100">
+                    <td className="py-2 font-medium">{token.name}</td>
+                    <td className="py-2 font-mono text-gray-500">{token.token_prefix}…</td>
+                    <td className="py-2">{userName(token.user_id)}</td>
+                    <td className="py-2">{storeName(token.store_id)}</td>
+                    <td className="py-2">{token.scopes.join(', ')}</td>
+                    <td className="py-2">
+                      {token.last_used_at ? formatDateTime(token.last_used_at) : 'Never'}
+                    </td>
+                    <td className="py-2">
+                      {token.expires_at ? formatDate(token.expires_at) : 'Never'}
+                    </td>
+                    <td className="py-2">{tokenStatus(token)}</td>
+                    <td className="py-2 text-right">
+                      {!token.revoked_at && (
+                        <Button variant="danger" size="sm" onClick={() => handleOpenRevoke(token)}>
+                          Revoke
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </Card>
+      </div>
+
+      {/* Create Token Modal */}
+      <Modal isOpen={isCreateOpen} onClose={closeCreate} title="New API Token">
+        <div className="space-y-4">
+          <Input
+            type="text"
+            label="Name"
+            placeholder="e.g. Accounting export"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <Select
+            label="Acts as"
+            value={form.userId}
+            onChange={(e) => setForm({ ...form, userId: e.target.value })}
+            options={users.map((user) => ({
+              value: user.id,
+              label: `${user.full_name || user.email} (${user.role})`,
+            }))}
+          />
+          <div className="flex flex-col gap-2">
+            <label className="text-sm font-medium text-gray-700">Store</label>
+            <select
+              value={form.storeId}
+              onChange={(e) => setForm({ ...form, storeId: e.target.value })}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All stores</option>
+              {stores.map((store) => (
+                <option key={store.id} value={store.id}>
+                  {store.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Scopes</p>
+            {SCOPES.map(({ scope, label }) => (
+              <label key={scope} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="rounded"
+                  checked={form.scopes.includes(scope)}
+                  onChange={(e) => toggleScope(scope, e.target.checked)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <Input
+            type="date"
+            label="Expires (optional)"
+            value={form.expiresOn}
+            onChange={(e) => setForm({ ...form, expiresOn: e.target.value })}
+          />
+          <div className="flex gap-2">
+            <Button variant="secondary" className="flex-1" onClick={closeCreate}>
+              Cancel
+            </Button>
+            <Button
+              className="flex-1"
+              isLoading={isSubmitting}
+              disabled={!form.name.trim() || !form.userId || form.scopes.length === 0}
+              onClick={handleCreate}
+            >
+              Create Token
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Revoke Token Modal */}
+      <Modal isOpen={isRevokeOpen} onClose={closeRevoke} title="Revoke API Token" size="sm">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Revoke &quot;{revoking?.name}&quot;? Scripts using it will get 401 responses. This
+            cannot be undone.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="secondary" className="flex-1" onClick={closeRevoke}>
+              Cancel
+            </Button>
+            <Button variant="danger" className="flex-1" isLoading={isSubmitting} onClick={handleRevoke}>
+              Revoke
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
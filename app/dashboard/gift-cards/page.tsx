@@ -0,0 +1,282 @@
+/**
+ * Gift Cards Page
+ * Look up gift cards and store credit balances, review their ledgers,
+ * deactivate lost cards and correct balances
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  adjustGiftCardBalance,
+  getGiftCardByCode,
+  getGiftCards,
+  setGiftCardActive,
+} from '@/lib/actions/gift-cards';
+import { useToast, useUserProfile } from '@/lib/hooks';
+import { GiftCardAccount } from '@/lib/types';
+import { capitalize, formatCurrency, formatDateTime, formatDecimal } from '@/lib/utils';
+import { Badge, Button, Card, Input, Spinner } from '@/components/ui';
+import { Search } from 'lucide-react';
+
+export default function GiftCardsPage() {
+  const { success, error } = useToast();
+  const { profile } = useUserProfile();
+
+  const [accounts, setAccounts] = useState<GiftCardAccount[]>([]);
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [lookupCode, setLookupCode] = useState('');
+  const [selected, setSelected] = useState<GiftCardAccount | null>(null);
+  const [adjustment, setAdjustment] = useState({ amount: '', notes: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadAccounts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getGiftCards(includeInactive);
+      if (result.success && result.data) {
+        const loaded = result.data;
+        setAccounts(loaded);
+        // Keep the open card in step with its refreshed ledger
+        setSelected((current) =>
+          current
+            ? loaded.find((account) => account.gift_card.id === current.gift_card.id) || current
+            : null
+        );
+      } else {
+        error(result.error || 'Failed to load gift cards');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive, error]);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const handleLookup = async () => {
+    const result = await getGiftCardByCode(lookupCode);
+    if (result.success && result.data) {
+      setSelected(result.data);
+    } else {
+      error(result.error || 'Gift card not found');
+    }
+  };
+
+  const handleToggleActive = async () => {
+    if (!selected) return;
+    setIsSubmitting(true);
+    try {
+      const result = await setGiftCardActive(selected.gift_card.id, !selected.gift_card.is_active);
+      if (result.success && result.data) {
+        success(result.message || 'Saved');
+        setSelected({ ...selected, gift_card: { ...selected.gift_card, ...result.data } });
+        loadAccounts();
+      } else {
+        error(result.error || 'Failed to update gift card');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAdjust = async () => {
+    if (!selected || !profile) return;
+    setIsSubmitting(true);
+    try {
+      const result = await adjustGiftCardBalance(
+        selected.gift_card.id,
+        parseFloat(adjustment.amount),
+        profile.id,
+        adjustment.notes
+      );
+      if (result.success && result.data) {
+        success(result.message || 'Saved');
+        setAdjustment({ amount: '', notes: '' });
+        setSelected({
+          ...selected,
+          balance: formatDecimal(selected.balance + result.data.amount),
+          entries: [result.data, ...selected.entries],
+        });
+        loadAccounts();
+      } else {
+        error(result.error || 'Failed to adjust balance');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Gift Cards</h1>
+          <p className="text-gray-600">Gift card and store credit balances and their ledgers</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Cards */}
+          <Card>
+            <div className="flex gap-2 items-end mb-4">
+              <div className="flex-1">
+                <Input
+                  type="text"
+                  label="Look up a card"
+                  placeholder="GC-XXXX-XXXX-XXXX"
+                  value={lookupCode}
+                  onChange={(e) => setLookupCode(e.target.value)}
+                />
+              </div>
+              <Button variant="secondary" disabled={!lookupCode.trim()} onClick={handleLookup}>
+                <Search size={16} />
+              </Button>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm mb-4">
+              <input
+                type="checkbox"
+                className="rounded"
+                checked={includeInactive}
+                onChange={(e) => setIncludeInactive(e.target.checked)}
+              />
+              Show inactive cards
+            </label>
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Spinner size="lg" />
+              </div>
+            ) : accounts.length === 0 ? (
+              <p className="text-center text-gray-500 py-8 text-sm">No gift cards yet</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-600">
+                    <th className="py-2">Card</th>
+                    <th className="py-2"></th>
+                    <th className="py-2 text-right">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {accounts.map((account) => (
+                    <tr
+                      key={account.gift_card.id}
+                      className={`border-b border-gray-100 cursor-pointer hover:bg-gray-50 ${
+                        selected?.gift_card.id === account.gift_card.id ? 'bg-blue-50' : ''
+                      }`}
+                      onClick={() => setSelected(account)}
+                    >
+                      <td className="py-2">
+                        {account.gift_card.is_store_credit ? (
+                          <span>Store credit: {account.gift_card.customer?.name || 'Customer'}</span>
+                        ) : (
+                          <span className="font-mono">{account.gift_card.code}</span>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        {!account.gift_card.is_active && <Badge variant="danger">Inactive</Badge>}
+                      </td>
+                      <td className="py-2 text-right font-medium">
+                        {formatCurrency(account.balance)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Card>
+
+          {/* Selected card */}
+          <Card>
+            {!selected ? (
+              <p className="text-center text-gray-500 py-8 text-sm">
+                Select or look up a card to see its ledger
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h2 className="text-xl font-semibold font-mono">{selected.gift_card.code}</h2>
+                    {selected.gift_card.is_store_credit && (
+                      <p className="text-sm text-gray-500">
+                        Store credit for {selected.gift_card.customer?.name || 'customer'}
+                      </p>
+                    )}
+                  </div>
+                  <p className="text-2xl font-bold text-blue-600">
+                    {formatCurrency(selected.balance)}
+                  </p>
+                </div>
+
+                <Button
+                  variant={selected.gift_card.is_active ? 'danger' : 'secondary'}
+                  size="sm"
+                  isLoading={isSubmitting}
+                  onClick={handleToggleActive}
+                >
+                  {selected.gift_card.is_active ? 'Deactivate' : 'Activate'}
+                </Button>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    label="Adjust (+/-)"
+                    value={adjustment.amount}
+                    onChange={(e) => setAdjustment({ ...adjustment, amount: e.target.value })}
+                  />
+                  <Input
+                    type="text"
+                    label="Reason"
+                    value={adjustment.notes}
+                    onChange={(e) => setAdjustment({ ...adjustment, notes: e.target.value })}
+                  />
+                  <Button
+                    isLoading={isSubmitting}
+                    disabled={!adjustment.amount || !adjustment.notes.trim()}
+                    onClick={handleAdjust}
+                  >
+                    Adjust
+                  </Button>
+                </div>
+
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                  {selected.entries.length === 0 ? (
+                    <p className="text-center text-gray-500 py-4 text-sm">No entries</p>
+                  ) : (
+                    selected.entries.map((entry) => (
+                      <div
+                        key={entry.id}
+                        className="flex justify-between text-sm border-b border-gray-100 py-2"
+                      >
+                        <div>
+                          <p className="font-medium">{capitalize(entry.entry_type)}</p>
+                          <p className="text-xs text-gray-500">
+                            {formatDateTime(entry.created_at)}
+                            {entry.notes && ` · ${entry.notes}`}
+                          </p>
+                        </div>
+                        <span
+                          className={
+                            entry.amount > 0 ? 'text-green-600 font-medium' : 'text-red-600 font-medium'
+                          }
+                        >
+                          {entry.amount > 0 ? '+' : '-'}
+                          {formatCurrency(Math.abs(entry.amount))}
+                        </span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
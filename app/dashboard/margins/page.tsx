@@ -0,0 +1,244 @@
+/**
+ * Gross Margin Page
+ * Revenue, cost of goods sold, gross profit and margin by product, category,
+ * cashier or day
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getMarginReport } from '@/lib/actions/orders';
+import { useToast, useUserProfile } from '@/lib/hooks';
+import { MarginGroupBy, MarginReport, MarginRow } from '@/lib/types';
+import { formatCurrency, formatDate, getEndOfDay, getStartOfDay } from '@/lib/utils';
+import { downloadCSV } from '@/lib/utils/csv';
+import { MARGIN_GROUP_LABELS, marginReportToCSV, sortMarginRows } from '@/lib/utils/margins';
+import { Button, Card, Input, Select, Spinner } from '@/components/ui';
+import { StoreSwitcher } from '@/components/dashboard/store-switcher';
+import { Download } from 'lucide-react';
+
+// Dates are picked as local YYYY-MM-DD
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`);
+
+// Month to date
+const thisMonth = () => {
+  const now = new Date();
+  return {
+    start: toDateInput(new Date(now.getFullYear(), now.getMonth(), 1)),
+    end: toDateInput(now),
+  };
+};
+
+const COLUMNS: Array<{ key: keyof MarginRow; label: string; numeric: boolean }> = [
+  { key: 'name', label: '', numeric: false },
+  { key: 'quantity', label: 'Units', numeric: true },
+  { key: 'revenue', label: 'Revenue', numeric: true },
+  { key: 'cogs', label: 'COGS', numeric: true },
+  { key: 'gross_profit', label: 'Gross Profit', numeric: true },
+  { key: 'margin_percent', label: 'Margin', numeric: true },
+];
+
+export default function MarginReportPage() {
+  const { error } = useToast();
+  const { profile } = useUserProfile();
+
+  const [period, setPeriod] = useState(thisMonth);
+  const [groupBy, setGroupBy] = useState<MarginGroupBy>('product');
+  // '' means all stores
+  const [storeId, setStoreId] = useState('');
+  const [report, setReport] = useState<MarginReport | null>(null);
+  // No column means the report's own order
+  const [sort, setSort] = useState<{ column: keyof MarginRow; ascending: boolean } | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getMarginReport(
+        getStartOfDay(fromDateInput(period.start)).toISOString(),
+        getEndOfDay(fromDateInput(period.end)).toISOString(),
+        groupBy,
+        storeId || undefined
+      );
+      if (result.success && result.data) {
+        setReport(result.data);
+        setSort(null);
+      } else {
+        error(result.error || 'Failed to load margin report');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [period, groupBy, storeId, error]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const rows = report
+    ? sort
+      ? sortMarginRows(report.rows, sort.column, sort.ascending)
+      : report.rows
+    : [];
+
+  const handleSort = (column: keyof MarginRow, numeric: boolean) => {
+    setSort((current) =>
+      current?.column === column
+        ? { column, ascending: !current.ascending }
+        : // Largest first for amounts, A-Z for names
+          { column, ascending: !numeric }
+    );
+  };
+
+  const handleExport = () => {
+    if (!report) return;
+    downloadCSV(
+      `margins-by-${report.group_by}-${period.start}-to-${period.end}.csv`,
+      marginReportToCSV(report, rows)
+    );
+  };
+
+  const formatRowName = (row: MarginRow) =>
+    report?.group_by === 'day' ? formatDate(row.name) : row.name;
+
+  const formatMargin = (row: MarginRow) =>
+    row.margin_percent === null ? '-' : `${row.margin_percent.toFixed(1)}%`;
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Gross Margin</h1>
+            <p className="text-gray-600">Revenue, cost of goods sold and gross profit, net of refunds</p>
+          </div>
+          {profile?.role === 'admin' && <StoreSwitcher value={storeId} onChange={setStoreId} />}
+        </div>
+
+        {/* Controls */}
+        <Card className="mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <Input
+              type="date"
+              label="From"
+              value={period.start}
+              onChange={(e) => setPeriod({ ...period, start: e.target.value })}
+            />
+            <Input
+              type="date"
+              label="To"
+              value={period.end}
+              onChange={(e) => setPeriod({ ...period, end: e.target.value })}
+            />
+            <Select
+              label="Group by"
+              value={groupBy}
+              onChange={(e) => e.target.value && setGroupBy(e.target.value as MarginGroupBy)}
+              options={Object.entries(MARGIN_GROUP_LABELS).map(([value, label]) => ({
+                value,
+                label,
+              }))}
+            />
+            <Button onClick={loadReport} isLoading={loading}>
+              Run Report
+            </Button>
+            <Button variant="secondary" onClick={handleExport} disabled={!report || loading}>
+              <Download size={16} className="mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </Card>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : report ? (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+              <Card>
+                <p className="text-gray-600 text-sm">Revenue</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {formatCurrency(report.totals.revenue)}
+                </p>
+              </Card>
+              <Card>
+                <p className="text-gray-600 text-sm">COGS</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {formatCurrency(report.totals.cogs)}
+                </p>
+              </Card>
+              <Card>
+                <p className="text-gray-600 text-sm">Gross Profit</p>
+                <p className="text-2xl font-bold text-blue-600">
+                  {formatCurrency(report.totals.gross_profit)}
+                </p>
+              </Card>
+              <Card>
+                <p className="text-gray-600 text-sm">Margin</p>
+                <p className="text-2xl font-bold text-gray-900">{formatMargin(report.totals)}</p>
+              </Card>
+            </div>
+
+            {/* By group */}
+            <Card>
+              {rows.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No sales in this period</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-left text-gray-600">
+                      {COLUMNS.map((column) => (
+                        <th
+                          key={column.key}
+                          className={`py-2 ${column.numeric ? 'text-right' : ''}`}
+                        >
+                          <button
+                            type="button"
+                            className="hover:text-gray-900"
+                            onClick={() => handleSort(column.key, column.numeric)}
+                          >
+                            {column.label || MARGIN_GROUP_LABELS[report.group_by]}
+                            {sort?.column === column.key && (sort.ascending ? ' ▲' : ' ▼')}
+                          </button>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => (
+                      <tr key={row.key} className="border-b border-gray-100">
+                        <td className="py-2">{formatRowName(row)}</td>
+                        <td className="py-2 text-right">{row.quantity}</td>
+                        <td className="py-2 text-right">{formatCurrency(row.revenue)}</td>
+                        <td className="py-2 text-right">{formatCurrency(row.cogs)}</td>
+                        <td
+                          className={`py-2 text-right font-medium ${
+                            row.gross_profit < 0 ? 'text-red-600' : ''
+                          }`}
+                        >
+                          {formatCurrency(row.gross_profit)}
+                        </td>
+                        <td className="py-2 text-right">{formatMargin(row)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <p className="text-xs text-gray-500 mt-4">
+                Revenue excludes tax. Cost is the unit cost when each item was sold. Refunds count
+                in the period they were given; unrestocked returns keep their cost. Cancelled
+                orders and gift cards are excluded.
+              </p>
+            </Card>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -6,39 +6,98 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { getAllOrders, getDailySales, getBestSellingProducts } from '@/lib/actions/orders';
+import { useRouter } from 'next/navigation';
+import {
+  getAllOrders,
+  getDailySalesTrend,
+  getBestSellingProducts,
+  getSalesAnalytics,
+} from '@/lib/actions/orders';
 import { getInventoryValue } from '@/lib/actions/products';
-import { useToast } from '@/lib/hooks';
-import { Order } from '@/lib/types';
-import { formatCurrency, formatDate, getDateRange } from '@/lib/utils';
-import { Card, Spinner, Badge } from '@/components/ui';
+import { getReceipt } from '@/lib/actions/receipts';
+import { useToast, useModal, useUserProfile } from '@/lib/hooks';
+import {
+  DailySalesTotals,
+  Order,
+  ReceiptData,
+  SalesAnalytics,
+} from '@/lib/types';
+import {
+  formatCurrency,
+  formatDate,
+  formatPaymentMethod,
+  getAnalyticsRange,
+  getComparisonRange,
+  getPercentChange,
+} from '@/lib/utils';
+import { Card, Spinner, Badge, Button, Modal } from '@/components/ui';
+import { ReturnForm } from '@/components/pos/return-form';
+import { ReceiptPreview } from '@/components/pos/receipt';
+import { StoreSwitcher } from '@/components/dashboard/store-switcher';
+import { DashboardRange, RangePicker } from '@/components/dashboard/range-picker';
+import { HourlyHeatmap } from '@/components/dashboard/hourly-heatmap';
 import { BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { TrendingUp, ShoppingCart, DollarSign, Package } from 'lucide-react';
 
+// Local YYYY-MM-DD
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
 export default function DashboardPage() {
-  const { error } = useToast();
+  const { success, error } = useToast();
+  const { profile } = useUserProfile();
+  const router = useRouter();
+  const { isOpen: isReturnOpen, open: openReturn, close: closeReturn } = useModal();
+  const { isOpen: isReceiptOpen, open: openReceipt, close: closeReceipt } = useModal();
 
   const [orders, setOrders] = useState<Order[]>([]);
-  const [dailySales, setDailySales] = useState(0);
+  // Figures for the picked range, and for the range it is compared with
+  const [analytics, setAnalytics] = useState<SalesAnalytics | null>(null);
+  const [comparisonAnalytics, setComparisonAnalytics] = useState<SalesAnalytics | null>(null);
+  const [salesTrend, setSalesTrend] = useState<DailySalesTotals[]>([]);
+  const [comparisonTrend, setComparisonTrend] = useState<DailySalesTotals[]>([]);
   const [inventoryValue, setInventoryValue] = useState(0);
   const [bestSellingProducts, setBestSellingProducts] = useState([]);
   const [loading, setLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
+  const [returnOrder, setReturnOrder] = useState<Order | null>(null);
+  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
+  // '' means all stores
+  const [storeId, setStoreId] = useState('');
+  // Count variant sales against their parent product
+  const [rollUpVariants, setRollUpVariants] = useState(false);
+  const [range, setRange] = useState<DashboardRange>(() => ({
+    preset: 'week',
+    start: toDateInput(new Date()),
+    end: toDateInput(new Date()),
+    comparison: 'previous_period',
+  }));
 
   useEffect(() => {
     console.log('Dashboard mounted, loading data...');
-    loadDashboardData();
+    loadDashboardData('');
   }, []);
 
-  const loadDashboardData = async () => {
+  const loadDashboardData = async (
+    selectedStoreId: string,
+    rollUp = rollUpVariants,
+    selectedRange = range
+  ) => {
+    const storeFilter = selectedStoreId || undefined;
+    const { start, end } = getAnalyticsRange(
+      selectedRange.preset,
+      selectedRange.start,
+      selectedRange.end
+    );
+    const comparison = getComparisonRange({ start, end }, selectedRange.comparison);
     setLoading(true);
     setLoadError(null);
     console.log('Starting dashboard data load...');
     
     try {
-      // Load orders
+      // Load recent orders
       console.log('Loading orders...');
-      const ordersResult = await getAllOrders(100);
+      const ordersResult = await getAllOrders(10, storeFilter);
       console.log('Orders result:', ordersResult);
       if (ordersResult.success && ordersResult.data) {
         setOrders(ordersResult.data);
@@ -46,20 +105,39 @@ export default function DashboardPage() {
         console.warn('Orders load failed:', ordersResult.error);
       }
 
-      // Load daily sales
-      const today = new Date().toISOString().split('T')[0];
-      console.log('Loading sales for:', today);
-      const salesResult = await getDailySales(today);
-      console.log('Sales result:', salesResult);
-      if (salesResult.success) {
-        setDailySales(salesResult.data || 0);
+      // Load sales totals, hours, categories and payment methods for the
+      // range and its comparison. The range is a span of days, counted in
+      // each store's time zone like the daily trend below
+      console.log('Loading sales analytics...');
+      const [analyticsResult, comparisonResult] = await Promise.all([
+        getSalesAnalytics(toDateInput(start), toDateInput(end), storeFilter),
+        getSalesAnalytics(toDateInput(comparison.start), toDateInput(comparison.end), storeFilter),
+      ]);
+      if (analyticsResult.success && comparisonResult.success) {
+        setAnalytics(analyticsResult.data || null);
+        setComparisonAnalytics(comparisonResult.data || null);
       } else {
-        console.warn('Daily sales load failed:', salesResult.error);
+        console.warn(
+          'Sales analytics load failed:',
+          analyticsResult.error || comparisonResult.error
+        );
+      }
+
+      // Load the daily trend from the daily sales rollup
+      const [trendResult, comparisonTrendResult] = await Promise.all([
+        getDailySalesTrend(toDateInput(start), toDateInput(end), storeFilter),
+        getDailySalesTrend(toDateInput(comparison.start), toDateInput(comparison.end), storeFilter),
+      ]);
+      if (trendResult.success && comparisonTrendResult.success) {
+        setSalesTrend(trendResult.data || []);
+        setComparisonTrend(comparisonTrendResult.data || []);
+      } else {
+        console.warn('Sales trend load failed:', trendResult.error || comparisonTrendResult.error);
       }
 
       // Load inventory value
       console.log('Loading inventory value...');
-      const inventoryResult = await getInventoryValue();
+      const inventoryResult = await getInventoryValue(storeFilter);
       console.log('Inventory result:', inventoryResult);
       if (inventoryResult.success) {
         setInventoryValue(inventoryResult.data || 0);
@@ -68,12 +146,13 @@ export default function DashboardPage() {
       }
 
       // Load best selling products
-      const { startDate, endDate } = getDateRange('month');
       console.log('Loading best products...');
       const bestResult = await getBestSellingProducts(
         5,
-        startDate.toISOString(),
-        endDate.toISOString()
+        toDateInput(start),
+        toDateInput(end),
+        storeFilter,
+        rollUp
       );
       console.log('Best products result:', bestResult);
       if (bestResult.success) {
@@ -81,6 +160,7 @@ export default function DashboardPage() {
       } else {
         console.warn('Best products load failed:', bestResult.error);
       }
+
       
       console.log('Dashboard data load completed');
     } catch (err) {
@@ -93,25 +173,85 @@ export default function DashboardPage() {
     }
   };
 
-  // Calculate metrics
-  const totalRevenue = orders.reduce((sum, order) => sum + order.total, 0);
-  const totalOrders = orders.length;
-  const avgOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
-
-  // Sales by date (last 7 days)
-  const last7Days = [];
-  for (let i = 6; i >= 0; i--) {
-    const date = new Date();
-    date.setDate(date.getDate() - i);
-    const dateStr = date.toISOString().split('T')[0];
-    const daySales = orders
-      .filter((o) => o.created_at.startsWith(dateStr))
-      .reduce((sum, o) => sum + o.total, 0);
-    last7Days.push({
-      date: formatDate(dateStr),
-      sales: parseFloat(daySales.toFixed(2)),
-    });
-  }
+  const handleOpenReturn = (order: Order) => {
+    setReturnOrder(order);
+    openReturn();
+  };
+
+  const handleReprintReceipt = async (order: Order) => {
+    const result = await getReceipt(order.id, true);
+    if (result.success && result.data) {
+      setReceipt(result.data);
+      openReceipt();
+    } else {
+      error(result.error || 'Failed to load receipt');
+    }
+  };
+
+  const handleReturnComplete = (_: unknown, message: string) => {
+    success(message);
+    closeReturn();
+    setReturnOrder(null);
+    loadDashboardData(storeId);
+  };
+
+  const handleStoreChange = (selectedStoreId: string) => {
+    setStoreId(selectedStoreId);
+    loadDashboardData(selectedStoreId);
+  };
+
+  const handleRangeChange = (selectedRange: DashboardRange) => {
+    setRange(selectedRange);
+    loadDashboardData(storeId, rollUpVariants, selectedRange);
+  };
+
+  const comparisonLabel =
+    range.comparison === 'previous_year' ? 'same period last year' : 'previous period';
+  const comparisonName = range.comparison === 'previous_year' ? 'Last year' : 'Previous period';
+
+  // Change against the comparison range, shown under a KPI
+  const renderChange = (current: number, previous: number) => {
+    const change = getPercentChange(current, previous);
+    return (
+      <p className="text-sm text-gray-500 mt-1">
+        {change === null ? (
+          'No sales'
+        ) : (
+          <span className={change >= 0 ? 'text-green-600' : 'text-red-600'}>
+            {change >= 0 ? '+' : ''}
+            {change.toFixed(1)}%
+          </span>
+        )}{' '}
+        vs {comparisonLabel}
+      </p>
+    );
+  };
+
+  // Daily sales, with the comparison range's days lined up alongside
+  const trendData = salesTrend.map((day, index) => ({
+    date: formatDate(day.sale_date),
+    sales: day.total_sales,
+    comparison: comparisonTrend[index]?.total_sales ?? 0,
+  }));
+
+  const categoryData = (analytics?.by_category || []).map((category) => ({
+    name: category.category_name,
+    sales: category.sales_total,
+    comparison:
+      comparisonAnalytics?.by_category.find(
+        (previous) => previous.category_id === category.category_id
+      )?.sales_total ?? 0,
+  }));
+
+  // Split tenders count under each method
+  const paymentData = (analytics?.by_payment_method || []).map((payment) => ({
+    name: formatPaymentMethod(payment.payment_method),
+    sales: payment.amount,
+    comparison:
+      comparisonAnalytics?.by_payment_method.find(
+        (previous) => previous.payment_method === payment.payment_method
+      )?.amount ?? 0,
+  }));
 
   const COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6'];
 
@@ -119,9 +259,36 @@ export default function DashboardPage() {
     <div className="min-h-screen bg-gray-100 p-6">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
+        <div className="mb-4 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Admin Dashboard</h1>
+            <p className="text-gray-600">Business metrics and analytics</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={() => router.push('/dashboard/taxes')}>
+              Tax Report
+            </Button>
+            <Button variant="secondary" onClick={() => router.push('/dashboard/reports')}>
+              X/Z Reports
+            </Button>
+            <Button variant="secondary" onClick={() => router.push('/dashboard/margins')}>
+              Margins
+            </Button>
+            <Button variant="secondary" onClick={() => router.push('/dashboard/gift-cards')}>
+              Gift Cards
+            </Button>
+            <Button variant="secondary" onClick={() => router.push('/dashboard/api-tokens')}>
+              API Tokens
+            </Button>
+            {profile?.role === 'admin' && (
+              <StoreSwitcher value={storeId} onChange={handleStoreChange} />
+            )}
+          </div>
+        </div>
+
+        {/* Range */}
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">Admin Dashboard</h1>
-          <p className="text-gray-600">Business metrics and analytics</p>
+          <RangePicker value={range} onChange={handleRangeChange} />
         </div>
 
         {loading ? (
@@ -134,7 +301,7 @@ export default function DashboardPage() {
             <p className="text-red-800 font-semibold">Error loading dashboard</p>
             <p className="text-red-600">{loadError}</p>
             <button 
-              onClick={loadDashboardData}
+              onClick={() => loadDashboardData(storeId)}
               className="mt-2 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
             >
               Retry
@@ -144,14 +311,18 @@ export default function DashboardPage() {
           <>
             {/* KPI Cards */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-              {/* Today's Sales */}
+              {/* Sales */}
               <Card>
                 <div className="flex items-start justify-between">
                   <div>
-                    <p className="text-gray-600 text-sm font-medium">Today's Sales</p>
+                    <p className="text-gray-600 text-sm font-medium">Sales</p>
                     <p className="text-3xl font-bold text-gray-900 mt-2">
-                      {formatCurrency(dailySales)}
+                      {formatCurrency(analytics?.sales_total || 0)}
                     </p>
+                    {renderChange(
+                      analytics?.sales_total || 0,
+                      comparisonAnalytics?.sales_total || 0
+                    )}
                   </div>
                   <div className="bg-blue-100 p-3 rounded-lg">
                     <DollarSign className="text-blue-600" size={24} />
@@ -159,35 +330,43 @@ export default function DashboardPage() {
                 </div>
               </Card>
 
-              {/* Total Revenue */}
+              {/* Orders Count */}
               <Card>
                 <div className="flex items-start justify-between">
                   <div>
-                    <p className="text-gray-600 text-sm font-medium">Total Revenue</p>
+                    <p className="text-gray-600 text-sm font-medium">Orders</p>
                     <p className="text-3xl font-bold text-gray-900 mt-2">
-                      {formatCurrency(totalRevenue)}
+                      {analytics?.order_count || 0}
                     </p>
+                    {renderChange(
+                      analytics?.order_count || 0,
+                      comparisonAnalytics?.order_count || 0
+                    )}
                   </div>
-                  <div className="bg-green-100 p-3 rounded-lg">
-                    <TrendingUp className="text-green-600" size={24} />
+                  <div className="bg-purple-100 p-3 rounded-lg">
+                    <ShoppingCart className="text-purple-600" size={24} />
                   </div>
                 </div>
               </Card>
 
-              {/* Orders Count */}
+              {/* Average Basket */}
               <Card>
                 <div className="flex items-start justify-between">
                   <div>
-                    <p className="text-gray-600 text-sm font-medium">Total Orders</p>
+                    <p className="text-gray-600 text-sm font-medium">Average Basket</p>
                     <p className="text-3xl font-bold text-gray-900 mt-2">
-                      {totalOrders}
+                      {formatCurrency(analytics?.avg_basket_value || 0)}
                     </p>
                     <p className="text-sm text-gray-500 mt-1">
-                      Avg: {formatCurrency(avgOrderValue)}
+                      {analytics?.avg_basket_size || 0} items per order
                     </p>
+                    {renderChange(
+                      analytics?.avg_basket_value || 0,
+                      comparisonAnalytics?.avg_basket_value || 0
+                    )}
                   </div>
-                  <div className="bg-purple-100 p-3 rounded-lg">
-                    <ShoppingCart className="text-purple-600" size={24} />
+                  <div className="bg-green-100 p-3 rounded-lg">
+                    <TrendingUp className="text-green-600" size={24} />
                   </div>
                 </div>
               </Card>
@@ -212,19 +391,28 @@ export default function DashboardPage() {
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
               {/* Sales Trend */}
               <Card className="lg:col-span-2">
-                <h3 className="text-lg font-semibold mb-4">Sales Trend (Last 7 Days)</h3>
+                <h3 className="text-lg font-semibold mb-4">Sales Trend</h3>
                 <ResponsiveContainer width="100%" height={300}>
-                  <LineChart data={last7Days}>
+                  <LineChart data={trendData}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="date" />
                     <YAxis />
                     <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                    <Legend />
                     <Line
                       type="monotone"
                       dataKey="sales"
+                      name="Sales"
                       stroke="#3b82f6"
                       strokeWidth={2}
                     />
+                    <Line
+                      type="monotone"
+                      dataKey="comparison"
+                      name={comparisonName}
+                      stroke="#9ca3af"
+                      strokeDasharray="5 5"
+                    />
                   </LineChart>
                 </ResponsiveContainer>
               </Card>
@@ -257,9 +445,53 @@ export default function DashboardPage() {
               </Card>
             </div>
 
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+              {/* Sales by Category */}
+              <Card>
+                <h3 className="text-lg font-semibold mb-4">Sales by Category</h3>
+                {categoryData.length > 0 ? (
+                  <ResponsiveContainer width="100%" height={250}>
+                    <BarChart data={categoryData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="name" />
+                      <YAxis />
+                      <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                      <Legend />
+                      <Bar dataKey="sales" name="Sales" fill="#3b82f6" />
+                      <Bar dataKey="comparison" name={comparisonName} fill="#d1d5db" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                ) : (
+                  <div className="text-center text-gray-500 py-8">
+                    No category data available
+                  </div>
+                )}
+              </Card>
+
+              {/* Sales by Hour */}
+              <Card>
+                <h3 className="text-lg font-semibold mb-4">Sales by Hour</h3>
+                <HourlyHeatmap data={analytics?.by_hour || []} />
+              </Card>
+            </div>
+
             {/* Product Performance Table */}
             <Card>
-              <h3 className="text-lg font-semibold mb-4">Product Performance</h3>
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold">Product Performance</h3>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={rollUpVariants}
+                    onChange={(e) => {
+                      setRollUpVariants(e.target.checked);
+                      loadDashboardData(storeId, e.target.checked);
+                    }}
+                    className="rounded"
+                  />
+                  Group variants under their product
+                </label>
+              </div>
               {bestSellingProducts.length > 0 ? (
                 <div className="overflow-x-auto">
                   <table className="w-full">
@@ -301,6 +533,28 @@ export default function DashboardPage() {
               )}
             </Card>
 
+            {/* Sales by Payment Method */}
+            <Card className="mt-6">
+              <h3 className="text-lg font-semibold mb-4">Sales by Payment Method</h3>
+              {paymentData.length > 0 ? (
+                <ResponsiveContainer width="100%" height={250}>
+                  <BarChart data={paymentData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" />
+                    <YAxis />
+                    <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                    <Legend />
+                    <Bar dataKey="sales" name="Sales" fill="#10b981" />
+                    <Bar dataKey="comparison" name={comparisonName} fill="#d1d5db" />
+                  </BarChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className="text-center text-gray-500 py-8">
+                  No payment data available
+                </div>
+              )}
+            </Card>
+
             {/* Recent Orders */}
             <Card className="mt-6">
               <h3 className="text-lg font-semibold mb-4">Recent Orders</h3>
@@ -324,10 +578,16 @@ export default function DashboardPage() {
                         <th className="px-4 py-3 text-left text-sm font-semibold">
                           Method
                         </th>
+                        <th className="px-4 py-3 text-left text-sm font-semibold">
+                          Status
+                        </th>
+                        <th className="px-4 py-3 text-left text-sm font-semibold">
+                          Actions
+                        </th>
                       </tr>
                     </thead>
                     <tbody>
-                      {orders.slice(0, 10).map((order) => (
+                      {orders.map((order) => (
                         <tr key={order.id} className="border-b hover:bg-gray-50">
                           <td className="px-4 py-3 text-sm font-medium">
                             {order.order_number}
@@ -346,6 +606,40 @@ export default function DashboardPage() {
                               {order.payment_method}
                             </Badge>
                           </td>
+                          <td className="px-4 py-3 text-sm">
+                            <Badge
+                              variant={
+                                order.status === 'completed'
+                                  ? 'success'
+                                  : order.status === 'partially_refunded'
+                                    ? 'warning'
+                                    : 'danger'
+                              }
+                            >
+                              {order.status.replace('_', ' ')}
+                            </Badge>
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleReprintReceipt(order)}
+                              >
+                                Receipt
+                              </Button>
+                              {(order.status === 'completed' ||
+                                order.status === 'partially_refunded') && (
+                                <Button
+                                  size="sm"
+                                  variant="secondary"
+                                  onClick={() => handleOpenReturn(order)}
+                                >
+                                  Return
+                                </Button>
+                              )}
+                            </div>
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -360,6 +654,35 @@ export default function DashboardPage() {
           </>
         )}
       </div>
+
+      {/* Return Modal */}
+      <Modal
+        isOpen={isReturnOpen}
+        onClose={closeReturn}
+        title={`Return: ${returnOrder?.order_number}`}
+        size="md"
+      >
+        {returnOrder && profile && (
+          <ReturnForm
+            orderId={returnOrder.id}
+            customerId={returnOrder.customer_id}
+            userId={profile.id}
+            onComplete={handleReturnComplete}
+            onError={error}
+            onCancel={closeReturn}
+          />
+        )}
+      </Modal>
+
+      {/* Receipt Reprint Modal */}
+      <Modal
+        isOpen={isReceiptOpen}
+        onClose={closeReceipt}
+        title={`Receipt: ${receipt?.order_number}`}
+        size="md"
+      >
+        {receipt && <ReceiptPreview receipt={receipt} />}
+      </Modal>
     </div>
   );
 }
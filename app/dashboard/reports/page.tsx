@@ -0,0 +1,257 @@
+/**
+ * X/Z Reports Page
+ * Read an X report mid-shift, close the day with a Z report, and reprint or
+ * export past Z reports
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { closeZReport, getXReport, getZReports } from '@/lib/actions/sales-reports';
+import { useModal, useToast, useUserProfile } from '@/lib/hooks';
+import { SalesReport, ZReport } from '@/lib/types';
+import { formatCurrency, formatDateTime } from '@/lib/utils';
+import { downloadCSV } from '@/lib/utils/csv';
+import {
+  printSalesReport,
+  renderSalesReportText,
+  salesReportToCSV,
+} from '@/lib/utils/sales-reports';
+import { Button, Card, Modal, Spinner } from '@/components/ui';
+import { StoreSwitcher } from '@/components/dashboard/store-switcher';
+import { Download, Printer } from 'lucide-react';
+
+export default function SalesReportsPage() {
+  const { success, error } = useToast();
+  const { profile } = useUserProfile();
+  const { isOpen: isCloseOpen, open: openClose, close: closeClose } = useModal();
+
+  // Reports are per store; defaults to the user's store
+  const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null);
+  const storeId = selectedStoreId ?? profile?.store_id ?? '';
+  const [report, setReport] = useState<SalesReport | null>(null);
+  const [zReports, setZReports] = useState<ZReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const loadZReports = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getZReports(storeId || undefined);
+      if (result.success && result.data) {
+        setZReports(result.data);
+      } else {
+        error(result.error || 'Failed to load Z reports');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, error]);
+
+  useEffect(() => {
+    setReport(null);
+    loadZReports();
+  }, [loadZReports]);
+
+  const handleRunX = async () => {
+    setIsRunning(true);
+    try {
+      const result = await getXReport(storeId);
+      if (result.success && result.data) {
+        setReport(result.data);
+      } else {
+        error(result.error || 'Failed to run X report');
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleCloseZ = async () => {
+    if (!profile) return;
+    setIsRunning(true);
+    try {
+      const result = await closeZReport(storeId, profile.id);
+      if (result.success && result.data) {
+        success(result.message || 'Z report closed');
+        setReport(result.data.report);
+        closeClose();
+        loadZReports();
+      } else {
+        error(result.error || 'Failed to close Z report');
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleExport = (salesReport: SalesReport) => {
+    const name =
+      salesReport.report_type === 'z'
+        ? `z-report-${salesReport.report_number}`
+        : `x-report-${salesReport.period_end.slice(0, 10)}`;
+    downloadCSV(`${name}.csv`, salesReportToCSV(salesReport));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">X/Z Reports</h1>
+            <p className="text-gray-600">
+              Sales, tax, tenders and cashiers since the last end-of-day close
+            </p>
+          </div>
+          {profile?.role === 'admin' && (
+            <StoreSwitcher value={storeId} onChange={setSelectedStoreId} />
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Current report */}
+          <Card>
+            <div className="flex gap-2 mb-4">
+              <Button
+                variant="secondary"
+                className="flex-1"
+                isLoading={isRunning}
+                disabled={!storeId}
+                onClick={handleRunX}
+              >
+                Run X Report
+              </Button>
+              <Button className="flex-1" disabled={!storeId || isRunning} onClick={openClose}>
+                Close Day (Z Report)
+              </Button>
+            </div>
+            {!storeId && (
+              <p className="text-sm text-gray-500 mb-4">Select a store to run its reports.</p>
+            )}
+
+            {report ? (
+              <>
+                <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-3 overflow-x-auto">
+                  {renderSalesReportText(report)}
+                </pre>
+                <div className="flex gap-2 mt-4">
+                  <Button
+                    variant="secondary"
+                    className="flex-1"
+                    onClick={() => printSalesReport(report)}
+                  >
+                    <Printer size={16} className="mr-2" />
+                    Print
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    className="flex-1"
+                    onClick={() => handleExport(report)}
+                  >
+                    <Download size={16} className="mr-2" />
+                    Export CSV
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <p className="text-center text-gray-500 py-8 text-sm">
+                Run an X report to see sales so far. It does not close the day.
+              </p>
+            )}
+          </Card>
+
+          {/* Past Z reports */}
+          <Card>
+            <h2 className="text-xl font-semibold mb-4">Closed Z Reports</h2>
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Spinner size="lg" />
+              </div>
+            ) : zReports.length === 0 ? (
+              <p className="text-center text-gray-500 py-8 text-sm">No Z reports yet</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-600">
+                    <th className="py-2">Report</th>
+                    <th className="py-2">Closed</th>
+                    <th className="py-2 text-right">Orders</th>
+                    <th className="py-2 text-right">Net Sales</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {zReports.map((zReport) => (
+                    <tr key={zReport.id} className="border-b border-gray-100">
+                      <td className="py-2">
+                        <button
+                          type="button"
+                          className="text-blue-600 hover:underline"
+                          onClick={() => setReport(zReport.report)}
+                        >
+                          {zReport.report.store_name} #{zReport.report_number}
+                        </button>
+                      </td>
+                      <td className="py-2">
+                        {formatDateTime(zReport.created_at)}
+                        <p className="text-xs text-gray-500">
+                          {zReport.closer?.full_name || zReport.closer?.email}
+                        </p>
+                      </td>
+                      <td className="py-2 text-right">{zReport.order_count}</td>
+                      <td className="py-2 text-right font-medium">
+                        {formatCurrency(zReport.net_sales)}
+                      </td>
+                      <td className="py-2 text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            onClick={() => printSalesReport(zReport.report)}
+                          >
+                            <Printer size={14} />
+                          </Button>
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            onClick={() => handleExport(zReport.report)}
+                          >
+                            <Download size={14} />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Card>
+        </div>
+      </div>
+
+      {/* Close Day Modal */}
+      <Modal isOpen={isCloseOpen} onClose={closeClose} title="Close Day" size="sm">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            This closes the period since the last Z report with the next numbered Z report.
+            Closed reports cannot be changed; the next report starts from now.
+          </p>
+          {report && report.report_type === 'x' && (
+            <p className="text-sm">
+              Net sales at the last X report: {formatCurrency(report.net_sales)}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Button variant="secondary" className="flex-1" onClick={closeClose}>
+              Cancel
+            </Button>
+            <Button className="flex-1" isLoading={isRunning} onClick={handleCloseZ}>
+              Close Day
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+/**
+ * Tax Liability Report Page
+ * Taxable sales, exempt sales and tax collected by rate for a filing period
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getTaxLiabilityReport } from '@/lib/actions/orders';
+import { useToast, useUserProfile } from '@/lib/hooks';
+import { TaxLiabilityReport } from '@/lib/types';
+import { formatCurrency, getEndOfDay, getStartOfDay } from '@/lib/utils';
+import { downloadCSV } from '@/lib/utils/csv';
+import { taxLiabilityReportToCSV } from '@/lib/utils/taxes';
+import { Button, Card, Input, Spinner } from '@/components/ui';
+import { StoreSwitcher } from '@/components/dashboard/store-switcher';
+import { Download } from 'lucide-react';
+
+// Dates are picked as local YYYY-MM-DD
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`);
+
+// Sales tax is filed monthly, so default to last month
+const lastMonth = () => {
+  const now = new Date();
+  return {
+    start: toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+    end: toDateInput(new Date(now.getFullYear(), now.getMonth(), 0)),
+  };
+};
+
+export default function TaxReportPage() {
+  const { error } = useToast();
+  const { profile } = useUserProfile();
+
+  const [period, setPeriod] = useState(lastMonth);
+  // '' means all stores
+  const [storeId, setStoreId] = useState('');
+  const [report, setReport] = useState<TaxLiabilityReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getTaxLiabilityReport(
+        getStartOfDay(fromDateInput(period.start)).toISOString(),
+        getEndOfDay(fromDateInput(period.end)).toISOString(),
+        storeId || undefined
+      );
+      if (result.success && result.data) {
+        setReport(result.data);
+      } else {
+        error(result.error || 'Failed to load tax report');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [period, storeId, error]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleExport = () => {
+    if (!report) return;
+    downloadCSV(`tax-liability-${period.start}-to-${period.end}.csv`, taxLiabilityReportToCSV(report));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Tax Liability</h1>
+            <p className="text-gray-600">Sales and tax by rate, net of refunds</p>
+          </div>
+          {profile?.role === 'admin' && <StoreSwitcher value={storeId} onChange={setStoreId} />}
+        </div>
+
+        {/* Controls */}
+        <Card className="mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <Input
+              type="date"
+              label="From"
+              value={period.start}
+              onChange={(e) => setPeriod({ ...period, start: e.target.value })}
+            />
+            <Input
+              type="date"
+              label="To"
+              value={period.end}
+              onChange={(e) => setPeriod({ ...period, end: e.target.value })}
+            />
+            <Button onClick={loadReport} isLoading={loading}>
+              Run Report
+            </Button>
+            <Button variant="secondary" onClick={handleExport} disabled={!report || loading}>
+              <Download size={16} className="mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </Card>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : report ? (
+          <>
+            {/* Totals */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+              <Card>
+                <p className="text-gray-600 text-sm">Taxable Sales</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {formatCurrency(report.taxable_sales)}
+                </p>
+              </Card>
+              <Card>
+                <p className="text-gray-600 text-sm">Exempt Sales</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {formatCurrency(report.exempt_sales)}
+                </p>
+              </Card>
+              <Card>
+                <p className="text-gray-600 text-sm">Tax Collected</p>
+                <p className="text-2xl font-bold text-blue-600">
+                  {formatCurrency(report.tax_collected)}
+                </p>
+              </Card>
+            </div>
+
+            {/* By rate */}
+            <Card>
+              {report.rows.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No sales in this period</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-left text-gray-600">
+                      <th className="py-2">Rate</th>
+                      <th className="py-2 text-right">Sales</th>
+                      <th className="py-2 text-right">Tax</th>
+                      <th className="py-2 text-right">Refunds</th>
+                      <th className="py-2 text-right">Refunded Tax</th>
+                      <th className="py-2 text-right">Net Sales</th>
+                      <th className="py-2 text-right">Net Tax</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.rows.map((row) => (
+                      <tr key={row.tax_rate} className="border-b border-gray-100">
+                        <td className="py-2">
+                          {row.tax_rate > 0 ? `${row.tax_rate}%` : 'Exempt / 0%'}
+                        </td>
+                        <td className="py-2 text-right">{formatCurrency(row.sales)}</td>
+                        <td className="py-2 text-right">{formatCurrency(row.sales_tax)}</td>
+                        <td className="py-2 text-right">-{formatCurrency(row.refunds)}</td>
+                        <td className="py-2 text-right">-{formatCurrency(row.refunds_tax)}</td>
+                        <td className="py-2 text-right font-medium">
+                          {formatCurrency(row.net_sales)}
+                        </td>
+                        <td className="py-2 text-right font-medium">
+                          {formatCurrency(row.net_tax)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <p className="text-xs text-gray-500 mt-4">
+                Sales count in the period they were made and refunds in the period they were
+                given. Cancelled orders are excluded.
+              </p>
+            </Card>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
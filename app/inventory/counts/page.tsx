@@ -0,0 +1,500 @@
+/**
+ * Stock Counts Page
+ * Run full or category stock takes, review variances and approve the
+ * resulting adjustments
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  approveStockCount,
+  cancelStockCount,
+  getStockCountById,
+  getStockCounts,
+  getStockCountVariance,
+  recordStockCounts,
+  startStockCount,
+  submitStockCount,
+} from '@/lib/actions/stock-counts';
+import { getCategories } from '@/lib/actions/products';
+import { useModal, useToast, useUserProfile } from '@/lib/hooks';
+import {
+  Category,
+  StockCount,
+  StockCountStatus,
+  StockCountVarianceReport,
+} from '@/lib/types';
+import { formatCurrency, formatDateTime } from '@/lib/utils';
+import { Badge, Button, Card, Input, Modal, Select, Spinner } from '@/components/ui';
+import { StoreSwitcher } from '@/components/dashboard/store-switcher';
+import { Plus } from 'lucide-react';
+
+const STATUS_BADGES: Record<
+  StockCountStatus,
+  { label: string; variant: 'primary' | 'secondary' | 'success' | 'danger' | 'warning' }
+> = {
+  counting: { label: 'Counting', variant: 'primary' },
+  submitted: { label: 'Awaiting approval', variant: 'warning' },
+  approved: { label: 'Approved', variant: 'success' },
+  cancelled: { label: 'Cancelled', variant: 'secondary' },
+};
+
+export default function StockCountsPage() {
+  const { success, error } = useToast();
+  const { profile } = useUserProfile();
+  const { isOpen: isStartOpen, open: openStart, close: closeStart } = useModal();
+
+  const [counts, setCounts] = useState<StockCount[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<StockCount | null>(null);
+  const [variance, setVariance] = useState<StockCountVarianceReport | null>(null);
+  const [detailKey, setDetailKey] = useState(0);
+  const [entries, setEntries] = useState<Record<string, string>>({});
+  const [lineFilter, setLineFilter] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [startData, setStartData] = useState({ category_id: '', is_blind: true, notes: '' });
+  // Counts belong to one store; defaults to the user's store
+  const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null);
+  const storeId = selectedStoreId ?? profile?.store_id ?? '';
+
+  useEffect(() => {
+    getStockCounts(storeId || undefined).then((result) => {
+      if (result.success) {
+        setCounts(result.data || []);
+      } else {
+        error(result.error || 'Failed to load stock counts');
+      }
+      setLoading(false);
+    });
+  }, [storeId, reloadKey, error]);
+
+  useEffect(() => {
+    getCategories().then((result) => {
+      if (result.success) setCategories(result.data || []);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) return;
+
+    getStockCountById(selectedId).then(async (result) => {
+      if (!result.success || !result.data) {
+        error(result.error || 'Failed to load stock count');
+        return;
+      }
+
+      const count = result.data;
+      setSelected(count);
+      setEntries(
+        Object.fromEntries(
+          (count.lines || [])
+            .filter((line) => line.counted_quantity !== null)
+            .map((line) => [line.id, String(line.counted_quantity)])
+        )
+      );
+
+      // Blind counts only show variances once submitted
+      if (!count.is_blind || count.status !== 'counting') {
+        const varianceResult = await getStockCountVariance(count.id);
+        setVariance(varianceResult.success && varianceResult.data ? varianceResult.data : null);
+      } else {
+        setVariance(null);
+      }
+    });
+  }, [selectedId, detailKey, error]);
+
+  const reloadAll = () => {
+    setLoading(true);
+    setReloadKey((key) => key + 1);
+    setDetailKey((key) => key + 1);
+  };
+
+  // ==========================================================================
+  // ACTIONS
+  // ==========================================================================
+
+  const handleStart = async () => {
+    if (!profile || !storeId) {
+      error('Select a store first');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await startStockCount(
+        {
+          store_id: storeId,
+          category_id: startData.category_id || undefined,
+          is_blind: startData.is_blind,
+          notes: startData.notes,
+        },
+        profile.id
+      );
+
+      if (result.success && result.data) {
+        success(result.message || 'Stock count started');
+        closeStart();
+        setSelectedId(result.data.id);
+        reloadAll();
+      } else {
+        error(result.error || 'Failed to start stock count');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSaveCounts = async () => {
+    if (!selected) return;
+
+    // Only lines with a typed-in value changed since the last save are sent
+    const changed = (selected.lines || [])
+      .filter((line) => entries[line.id] !== undefined && entries[line.id] !== '')
+      .filter((line) => String(line.counted_quantity) !== entries[line.id])
+      .map((line) => ({ line_id: line.id, counted_quantity: Number(entries[line.id]) }));
+
+    if (changed.length === 0) {
+      success('No changes to save');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await recordStockCounts(selected.id, changed);
+      if (result.success) {
+        success(result.message || 'Counts saved');
+        setDetailKey((key) => key + 1);
+      } else {
+        error(result.error || 'Failed to save counts');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStatusAction = async (
+    action: (id: string) => Promise<{ success: boolean; error?: string; message?: string }>
+  ) => {
+    if (!selected) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await action(selected.id);
+      if (result.success) {
+        success(result.message || 'Stock count updated');
+        reloadAll();
+      } else {
+        error(result.error || 'Failed to update stock count');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const visibleLines = (selected?.lines || []).filter((line) => {
+    const query = lineFilter.toLowerCase();
+    // Gift cards hold no stock, so they are never counted
+    if (line.product?.is_gift_card) return false;
+    return (
+      !query ||
+      line.product?.name.toLowerCase().includes(query) ||
+      line.product?.sku.toLowerCase().includes(query)
+    );
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Stock Counts</h1>
+            <p className="text-gray-600">Stock takes, cycle counts and variance approval</p>
+          </div>
+          <div className="flex gap-2">
+            {profile?.role === 'admin' && (
+              <StoreSwitcher value={storeId} onChange={setSelectedStoreId} />
+            )}
+            <Button onClick={openStart} disabled={!storeId}>
+              <Plus size={16} className="mr-1" />
+              New Count
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Counts */}
+          <Card>
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Spinner size="lg" />
+              </div>
+            ) : counts.length === 0 ? (
+              <p className="text-center text-gray-500 py-8 text-sm">No stock counts yet</p>
+            ) : (
+              <div className="space-y-2">
+                {counts.map((count) => (
+                  <button
+                    key={count.id}
+                    type="button"
+                    className={`w-full text-left border rounded-lg p-3 text-sm hover:bg-gray-50 ${
+                      count.id === selectedId ? 'border-blue-500' : 'border-gray-200'
+                    }`}
+                    onClick={() => setSelectedId(count.id)}
+                  >
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="font-semibold">{count.count_number}</span>
+                      <Badge variant={STATUS_BADGES[count.status].variant}>
+                        {STATUS_BADGES[count.status].label}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {count.category?.name || 'Full count'}
+                      {count.is_blind && ' · blind'} · {formatDateTime(count.created_at)}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          {/* Detail */}
+          <div className="lg:col-span-2 space-y-6">
+            {!selected ? (
+              <Card>
+                <p className="text-center text-gray-500 py-12">Select or start a count</p>
+              </Card>
+            ) : (
+              <>
+                {selected.status === 'counting' && (
+                  <Card>
+                    <div className="flex justify-between items-center mb-4">
+                      <h2 className="text-xl font-semibold">Count Sheet</h2>
+                      {selected.is_blind && <Badge variant="secondary">Blind count</Badge>}
+                    </div>
+
+                    <Input
+                      type="text"
+                      placeholder="Filter by name or SKU..."
+                      value={lineFilter}
+                      onChange={(e) => setLineFilter(e.target.value)}
+                    />
+
+                    <div className="mt-4 space-y-2 max-h-[32rem] overflow-y-auto">
+                      {visibleLines.map((line) => (
+                        <div
+                          key={line.id}
+                          className="flex items-center gap-4 border-b border-gray-100 py-2 text-sm"
+                        >
+                          <div className="flex-1">
+                            <p className="font-semibold">{line.product?.name}</p>
+                            <p className="text-xs text-gray-500">
+                              {line.product?.sku}
+                              {line.expected_quantity !== null &&
+                                ` · expected ${line.expected_quantity}`}
+                            </p>
+                          </div>
+                          <div className="w-28">
+                            <Input
+                              type="number"
+                              min={0}
+                              placeholder="Count"
+                              value={entries[line.id] ?? ''}
+                              onChange={(e) =>
+                                setEntries({ ...entries, [line.id]: e.target.value })
+                              }
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="flex gap-2 mt-4">
+                      <Button
+                        variant="secondary"
+                        className="flex-1"
+                        disabled={isSubmitting}
+                        onClick={() => handleStatusAction(cancelStockCount)}
+                      >
+                        Cancel Count
+                      </Button>
+                      <Button
+                        variant="secondary"
+                        className="flex-1"
+                        isLoading={isSubmitting}
+                        onClick={handleSaveCounts}
+                      >
+                        Save Counts
+                      </Button>
+                      <Button
+                        className="flex-1"
+                        disabled={isSubmitting}
+                        onClick={() => handleStatusAction(submitStockCount)}
+                      >
+                        Submit for Approval
+                      </Button>
+                    </div>
+                  </Card>
+                )}
+
+                {variance && (
+                  <Card>
+                    <h2 className="text-xl font-semibold mb-4">Variance Report</h2>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+                      <div>
+                        <p className="text-gray-500">Counted</p>
+                        <p className="font-semibold">
+                          {variance.counted_lines} of{' '}
+                          {variance.counted_lines + variance.uncounted_lines}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Units over</p>
+                        <p className="font-semibold text-green-600">+{variance.units_over}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Units short</p>
+                        <p className="font-semibold text-red-600">-{variance.units_short}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Cost impact</p>
+                        <p
+                          className={`font-semibold ${
+                            variance.total_cost_impact < 0 ? 'text-red-600' : 'text-green-600'
+                          }`}
+                        >
+                          {formatCurrency(variance.total_cost_impact)}
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="overflow-x-auto max-h-96">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b border-gray-200 text-left text-gray-600">
+                            <th className="py-2">Product</th>
+                            <th className="py-2 text-right">Expected</th>
+                            <th className="py-2 text-right">Counted</th>
+                            <th className="py-2 text-right">Variance</th>
+                            <th className="py-2 text-right">Cost impact</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {variance.lines.map((line) => (
+                            <tr key={line.product_id} className="border-b border-gray-100">
+                              <td className="py-2">
+                                {line.product_name}
+                                <span className="text-xs text-gray-500 ml-2">{line.sku}</span>
+                              </td>
+                              <td className="py-2 text-right">{line.expected_quantity}</td>
+                              <td className="py-2 text-right">
+                                {line.counted_quantity ?? (
+                                  <span className="text-gray-400">not counted</span>
+                                )}
+                              </td>
+                              <td
+                                className={`py-2 text-right ${
+                                  line.variance < 0
+                                    ? 'text-red-600'
+                                    : line.variance > 0
+                                      ? 'text-green-600'
+                                      : ''
+                                }`}
+                              >
+                                {line.variance > 0 ? `+${line.variance}` : line.variance}
+                              </td>
+                              <td className="py-2 text-right">
+                                {formatCurrency(line.cost_impact)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    {selected.status === 'submitted' && profile && (
+                      <div className="flex gap-2 mt-4">
+                        <Button
+                          variant="secondary"
+                          className="flex-1"
+                          disabled={isSubmitting}
+                          onClick={() => handleStatusAction(cancelStockCount)}
+                        >
+                          Reject
+                        </Button>
+                        <Button
+                          className="flex-1"
+                          isLoading={isSubmitting}
+                          onClick={() =>
+                            handleStatusAction((id) => approveStockCount(id, profile.id))
+                          }
+                        >
+                          Approve & Adjust Stock
+                        </Button>
+                      </div>
+                    )}
+
+                    {selected.approved_at && (
+                      <p className="text-xs text-gray-500 mt-4">
+                        Approved {formatDateTime(selected.approved_at)}
+                      </p>
+                    )}
+                  </Card>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Start Modal */}
+      <Modal isOpen={isStartOpen} onClose={closeStart} title="New Stock Count">
+        <div className="space-y-4">
+          <Select
+            label="Scope"
+            value={startData.category_id}
+            onChange={(e) => setStartData({ ...startData, category_id: e.target.value })}
+            options={[
+              { value: '', label: 'Full count (all products)' },
+              ...categories.map((category) => ({ value: category.id, label: category.name })),
+            ]}
+          />
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="isBlind"
+              checked={startData.is_blind}
+              onChange={(e) => setStartData({ ...startData, is_blind: e.target.checked })}
+              className="rounded"
+            />
+            <label htmlFor="isBlind" className="text-sm font-medium">
+              Blind count (hide expected quantities from counters)
+            </label>
+          </div>
+
+          <Input
+            type="text"
+            label="Notes"
+            value={startData.notes}
+            onChange={(e) => setStartData({ ...startData, notes: e.target.value })}
+          />
+
+          <div className="flex gap-2">
+            <Button variant="secondary" className="flex-1" onClick={closeStart}>
+              Cancel
+            </Button>
+            <Button className="flex-1" isLoading={isSubmitting} onClick={handleStart}>
+              Start Count
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
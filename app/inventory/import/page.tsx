@@ -0,0 +1,290 @@
+/**
+ * Product Import & Export Page
+ * Import the catalog from a CSV or XLSX file with column mapping and a dry
+ * run preview, and export it with stock levels
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { getCategories, getProducts, importProducts } from '@/lib/actions/products';
+import { useToast, useUserProfile } from '@/lib/hooks';
+import { ProductImportAction, ProductImportField, ProductImportResult } from '@/lib/types';
+import { downloadCSV, toCSV } from '@/lib/utils/csv';
+import { downloadXLSX, readSpreadsheetFile } from '@/lib/utils/xlsx';
+import {
+  guessColumnMapping,
+  PRODUCT_EXPORT_HEADERS,
+  PRODUCT_IMPORT_FIELDS,
+  ProductImportMapping,
+  toImportRows,
+  toProductExportRows,
+} from '@/lib/utils/product-import';
+import { Badge, Button, Card, Select } from '@/components/ui';
+import { StoreSwitcher } from '@/components/dashboard/store-switcher';
+import { Download, Upload } from 'lucide-react';
+
+const ACTION_BADGES: Record<
+  ProductImportAction,
+  { label: string; variant: 'primary' | 'success' | 'danger' }
+> = {
+  create: { label: 'Create', variant: 'success' },
+  update: { label: 'Update', variant: 'primary' },
+  error: { label: 'Error', variant: 'danger' },
+};
+
+export default function ProductImportPage() {
+  const { success, error } = useToast();
+  const { profile } = useUserProfile();
+
+  // Stock is imported into and exported from this store; '' means all
+  // stores for the export and no stock for the import
+  const [storeId, setStoreId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ProductImportMapping>({});
+  // Preview of the current file and mapping; cleared when either changes
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const headers = sheet[0] || [];
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setResult(null);
+    try {
+      const rows = await readSpreadsheetFile(file);
+      if (rows.length < 2) {
+        error('The file needs a header row and at least one product');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(rows);
+      setMapping(guessColumnMapping(rows[0]));
+    } catch (err) {
+      error(err instanceof Error ? err.message : 'Failed to read the file');
+    }
+  };
+
+  const handleMappingChange = (field: ProductImportField, column: string) => {
+    const next = { ...mapping };
+    if (column === '') {
+      delete next[field];
+    } else {
+      next[field] = Number(column);
+    }
+    setMapping(next);
+    setResult(null);
+  };
+
+  const handleStoreChange = (selectedStoreId: string) => {
+    setStoreId(selectedStoreId);
+    setResult(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!profile) return;
+    setIsWorking(true);
+    try {
+      const rows = toImportRows(sheet.slice(1), mapping);
+      const importResult = await importProducts(rows, profile.id, dryRun, storeId || undefined);
+      if (importResult.success && importResult.data) {
+        setResult(importResult.data);
+        if (!dryRun) {
+          success(importResult.message || 'Products imported');
+        }
+      } else {
+        error(importResult.error || 'Failed to import products');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setIsWorking(true);
+    try {
+      const [productsResult, categoriesResult] = await Promise.all([
+        getProducts(storeId || undefined),
+        getCategories(),
+      ]);
+      if (!productsResult.success || !categoriesResult.success) {
+        error(productsResult.error || categoriesResult.error || 'Failed to load products');
+        return;
+      }
+
+      const rows = toProductExportRows(productsResult.data || [], categoriesResult.data || []);
+      const filename = `products-${new Date().toISOString().slice(0, 10)}.${format}`;
+      if (format === 'csv') {
+        downloadCSV(filename, toCSV(PRODUCT_EXPORT_HEADERS, rows));
+      } else {
+        await downloadXLSX(filename, PRODUCT_EXPORT_HEADERS, rows, 'Products');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Rows are matched on SKU, so it must be mapped
+  const isSkuMapped = mapping.sku !== undefined;
+  const canImport =
+    result !== null && result.dry_run && result.created + result.updated > 0 && !isWorking;
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Import & Export Products</h1>
+            <p className="text-gray-600">
+              Load the catalog from a spreadsheet, or download it with stock levels
+            </p>
+          </div>
+          <StoreSwitcher value={storeId} onChange={handleStoreChange} />
+        </div>
+
+        {/* Export */}
+        <Card className="mb-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-semibold">Export Catalog</h2>
+              <p className="text-sm text-gray-500">
+                Active products with stock {storeId ? 'in the selected store' : 'across all stores'}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="secondary" disabled={isWorking} onClick={() => handleExport('csv')}>
+                <Download size={16} className="mr-2" />
+                CSV
+              </Button>
+              <Button variant="secondary" disabled={isWorking} onClick={() => handleExport('xlsx')}>
+                <Download size={16} className="mr-2" />
+                XLSX
+              </Button>
+            </div>
+          </div>
+        </Card>
+
+        {/* Import */}
+        <Card className="mb-6">
+          <h2 className="text-xl font-semibold mb-1">Import Products</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Rows are matched by SKU: new SKUs are created and existing products updated with the
+            columns given. Missing categories are created.{' '}
+            {storeId
+              ? 'Stock sets the quantity on hand in the selected store.'
+              : 'Select a store to import stock levels.'}
+          </p>
+
+          <label className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg bg-white cursor-pointer hover:bg-gray-50 text-sm">
+            <Upload size={16} className="mr-2" />
+            {fileName || 'Choose a .csv or .xlsx file'}
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+
+          {headers.length > 0 && (
+            <>
+              <h3 className="font-semibold mt-6 mb-2">
+                Columns <span className="text-sm font-normal text-gray-500">({sheet.length - 1} rows)</span>
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {PRODUCT_IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <Select
+                    key={field}
+                    label={required ? `${label} *` : label}
+                    value={mapping[field] === undefined ? '' : String(mapping[field])}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    options={headers.map((header, column) => ({
+                      value: String(column),
+                      label: header || `Column ${column + 1}`,
+                    }))}
+                  />
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                * Required to create a product. Updates only change the columns that are mapped
+                and filled in.
+              </p>
+
+              <div className="flex gap-2 mt-4">
+                <Button
+                  variant="secondary"
+                  isLoading={isWorking}
+                  disabled={!isSkuMapped}
+                  onClick={() => runImport(true)}
+                >
+                  Preview
+                </Button>
+                <Button disabled={!canImport} onClick={() => runImport(false)}>
+                  Import
+                </Button>
+              </div>
+              {!isSkuMapped && (
+                <p className="text-sm text-red-600 mt-2">Map the SKU column to continue.</p>
+              )}
+            </>
+          )}
+        </Card>
+
+        {/* Results */}
+        {result && (
+          <Card>
+            <div className="flex flex-wrap gap-4 mb-4 text-sm">
+              <span className="font-semibold">{result.dry_run ? 'Preview' : 'Import complete'}</span>
+              <span className="text-green-700">
+                {result.created} {result.dry_run ? 'to create' : 'created'}
+              </span>
+              <span className="text-blue-700">
+                {result.updated} {result.dry_run ? 'to update' : 'updated'}
+              </span>
+              <span className="text-red-600">{result.failed} with errors</span>
+              {result.new_categories.length > 0 && (
+                <span className="text-gray-600">
+                  New categories: {result.new_categories.join(', ')}
+                </span>
+              )}
+            </div>
+
+            <div className="max-h-[32rem] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-600">
+                    <th className="py-2">Row</th>
+                    <th className="py-2">SKU</th>
+                    <th className="py-2">Name</th>
+                    <th className="py-2"></th>
+                    <th className="py-2">Problems</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map((row) => (
+                    <tr key={row.row_number} className="border-b border-gray-100 align-top">
+                      <td className="py-2 text-gray-500">{row.row_number}</td>
+                      <td className="py-2 font-mono">{row.sku}</td>
+                      <td className="py-2">{row.name}</td>
+                      <td className="py-2">
+                        <Badge variant={ACTION_BADGES[row.action].variant}>
+                          {ACTION_BADGES[row.action].label}
+                        </Badge>
+                      </td>
+                      <td className="py-2 text-red-600">{row.errors.join('; ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
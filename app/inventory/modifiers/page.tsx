@@ -0,0 +1,508 @@
+/**
+ * Modifiers Page
+ * Manage modifier groups, their add-ons and ingredient stock, and which
+ * products or categories offer them
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  addModifier,
+  createModifierGroup,
+  getModifierGroups,
+  setModifierGroupLinks,
+  updateModifier,
+  updateModifierGroup,
+} from '@/lib/actions/modifiers';
+import { getCategories, getProducts } from '@/lib/actions/products';
+import { useModal, useToast } from '@/lib/hooks';
+import { Category, ModifierGroup, Product } from '@/lib/types';
+import { formatCurrency } from '@/lib/utils';
+import { Badge, Button, Card, Input, Modal, Select, Spinner } from '@/components/ui';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ModifierDraft {
+  name: string;
+  price_delta: string;
+  ingredient_product_id: string;
+  ingredient_quantity: string;
+}
+
+const EMPTY_MODIFIER: ModifierDraft = {
+  name: '',
+  price_delta: '0',
+  ingredient_product_id: '',
+  ingredient_quantity: '1',
+};
+
+const toModifierData = (draft: ModifierDraft) => ({
+  name: draft.name,
+  price_delta: parseFloat(draft.price_delta),
+  ingredient_product_id: draft.ingredient_product_id || undefined,
+  ingredient_quantity: parseInt(draft.ingredient_quantity) || 1,
+});
+
+export default function ModifiersPage() {
+  const { success, error } = useToast();
+  const { isOpen: isCreateOpen, open: openCreate, close: closeCreate } = useModal();
+
+  const [groups, setGroups] = useState<ModifierGroup[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [groupForm, setGroupForm] = useState({
+    name: '',
+    min_select: '0',
+    max_select: '',
+    modifiers: [{ ...EMPTY_MODIFIER }],
+  });
+  const [newModifier, setNewModifier] = useState<ModifierDraft>({ ...EMPTY_MODIFIER });
+  const [linkDraft, setLinkDraft] = useState<{ productIds: string[]; categoryIds: string[] }>({
+    productIds: [],
+    categoryIds: [],
+  });
+  const [productFilter, setProductFilter] = useState('');
+
+  const selected = groups.find((group) => group.id === selectedId) || null;
+
+  useEffect(() => {
+    getModifierGroups(true).then((result) => {
+      if (result.success) {
+        setGroups(result.data || []);
+      } else {
+        error(result.error || 'Failed to load modifier groups');
+      }
+      setLoading(false);
+    });
+  }, [reloadKey, error]);
+
+  useEffect(() => {
+    Promise.all([getProducts(), getCategories()]).then(([productsResult, categoriesResult]) => {
+      if (productsResult.success) setProducts(productsResult.data || []);
+      if (categoriesResult.success) setCategories(categoriesResult.data || []);
+    });
+  }, []);
+
+  // Start link editing from the selected group's saved links
+  useEffect(() => {
+    setLinkDraft({
+      productIds: selected?.product_ids || [],
+      categoryIds: selected?.category_ids || [],
+    });
+  }, [selected]);
+
+  const reload = () => setReloadKey((key) => key + 1);
+
+  // Variants inherit their parent's groups, so only top-level products are linked
+  const linkableProducts = products.filter((p) => !p.parent_id);
+  const productOptions = [
+    { value: '', label: 'No ingredient' },
+    ...products
+      .filter((p) => !p.option_axes)
+      .map((p) => ({ value: p.id, label: `${p.name} (${p.sku})` })),
+  ];
+
+  // ==========================================================================
+  // ACTIONS
+  // ==========================================================================
+
+  const runAction = async (
+    action: () => Promise<{ success: boolean; error?: string; message?: string }>,
+    onSuccess?: () => void
+  ) => {
+    setIsSubmitting(true);
+    try {
+      const result = await action();
+      if (result.success) {
+        success(result.message || 'Saved');
+        onSuccess?.();
+        reload();
+      } else {
+        error(result.error || 'Failed to save');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreate = () =>
+    runAction(
+      async () => {
+        const result = await createModifierGroup({
+          name: groupForm.name,
+          min_select: parseInt(groupForm.min_select) || 0,
+          max_select: groupForm.max_select === '' ? null : parseInt(groupForm.max_select),
+          modifiers: groupForm.modifiers.map(toModifierData),
+        });
+        if (result.success && result.data) setSelectedId(result.data.id);
+        return result;
+      },
+      () => {
+        closeCreate();
+        setGroupForm({ name: '', min_select: '0', max_select: '', modifiers: [{ ...EMPTY_MODIFIER }] });
+      }
+    );
+
+  const handleAddModifier = () => {
+    if (!selected) return;
+    runAction(
+      () => addModifier(selected.id, toModifierData(newModifier)),
+      () => setNewModifier({ ...EMPTY_MODIFIER })
+    );
+  };
+
+  const handleSaveLinks = () => {
+    if (!selected) return;
+    runAction(() =>
+      setModifierGroupLinks(selected.id, linkDraft.productIds, linkDraft.categoryIds)
+    );
+  };
+
+  const toggleId = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+
+  const updateDraftModifier = (index: number, changes: Partial<ModifierDraft>) =>
+    setGroupForm({
+      ...groupForm,
+      modifiers: groupForm.modifiers.map((modifier, i) =>
+        i === index ? { ...modifier, ...changes } : modifier
+      ),
+    });
+
+  const describeLimits = (group: ModifierGroup) =>
+    `${group.min_select > 0 ? `Required (min ${group.min_select})` : 'Optional'}` +
+    (group.max_select !== null ? ` · max ${group.max_select}` : '');
+
+  const visibleProducts = linkableProducts.filter((p) => {
+    const query = productFilter.toLowerCase();
+    return !query || p.name.toLowerCase().includes(query) || p.sku.toLowerCase().includes(query);
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Modifiers</h1>
+            <p className="text-gray-600">Add-ons and options offered on products at the POS</p>
+          </div>
+          <Button onClick={openCreate}>
+            <Plus size={16} className="mr-1" />
+            New Group
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Groups */}
+          <Card>
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Spinner size="lg" />
+              </div>
+            ) : groups.length === 0 ? (
+              <p className="text-center text-gray-500 py-8 text-sm">No modifier groups yet</p>
+            ) : (
+              <div className="space-y-2">
+                {groups.map((group) => (
+                  <button
+                    key={group.id}
+                    type="button"
+                    className={`w-full text-left border rounded-lg p-3 text-sm hover:bg-gray-50 ${
+                      group.id === selectedId ? 'border-blue-500' : 'border-gray-200'
+                    }`}
+                    onClick={() => setSelectedId(group.id)}
+                  >
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="font-semibold">{group.name}</span>
+                      {!group.is_active && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {describeLimits(group)} · {(group.modifiers || []).length} modifiers
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          {/* Detail */}
+          <div className="lg:col-span-2 space-y-6">
+            {!selected ? (
+              <Card>
+                <p className="text-center text-gray-500 py-12">Select or create a group</p>
+              </Card>
+            ) : (
+              <>
+                <Card>
+                  <div className="flex justify-between items-center mb-4">
+                    <div>
+                      <h2 className="text-xl font-semibold">{selected.name}</h2>
+                      <p className="text-sm text-gray-500">{describeLimits(selected)}</p>
+                    </div>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      disabled={isSubmitting}
+                      onClick={() =>
+                        runAction(() =>
+                          updateModifierGroup(selected.id, { is_active: !selected.is_active })
+                        )
+                      }
+                    >
+                      {selected.is_active ? 'Deactivate' : 'Activate'}
+                    </Button>
+                  </div>
+
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200 text-left text-gray-600">
+                        <th className="py-2">Modifier</th>
+                        <th className="py-2 text-right">Price</th>
+                        <th className="py-2">Ingredient</th>
+                        <th className="py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(selected.modifiers || []).map((modifier) => {
+                        const ingredient = products.find(
+                          (p) => p.id === modifier.ingredient_product_id
+                        );
+                        return (
+                          <tr key={modifier.id} className="border-b border-gray-100">
+                            <td className={`py-2 ${modifier.is_active ? '' : 'text-gray-400'}`}>
+                              {modifier.name}
+                            </td>
+                            <td className="py-2 text-right">
+                              {modifier.price_delta >= 0 ? '+' : ''}
+                              {formatCurrency(modifier.price_delta)}
+                            </td>
+                            <td className="py-2 text-gray-600">
+                              {ingredient
+                                ? `${modifier.ingredient_quantity} x ${ingredient.name}`
+                                : '-'}
+                            </td>
+                            <td className="py-2 text-right">
+                              <Button
+                                variant="secondary"
+                                size="sm"
+                                disabled={isSubmitting}
+                                onClick={() =>
+                                  runAction(() =>
+                                    updateModifier(modifier.id, { is_active: !modifier.is_active })
+                                  )
+                                }
+                              >
+                                {modifier.is_active ? 'Deactivate' : 'Activate'}
+                              </Button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mt-4 items-end">
+                    <Input
+                      type="text"
+                      label="New modifier"
+                      value={newModifier.name}
+                      onChange={(e) => setNewModifier({ ...newModifier, name: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      label="Price change"
+                      value={newModifier.price_delta}
+                      onChange={(e) =>
+                        setNewModifier({ ...newModifier, price_delta: e.target.value })
+                      }
+                    />
+                    <Select
+                      label="Ingredient"
+                      value={newModifier.ingredient_product_id}
+                      onChange={(e) =>
+                        setNewModifier({ ...newModifier, ingredient_product_id: e.target.value })
+                      }
+                      options={productOptions}
+                    />
+                    <Button isLoading={isSubmitting} onClick={handleAddModifier}>
+                      Add
+                    </Button>
+                  </div>
+                </Card>
+
+                <Card>
+                  <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-semibold">Offered On</h2>
+                    <Button size="sm" isLoading={isSubmitting} onClick={handleSaveLinks}>
+                      Save
+                    </Button>
+                  </div>
+
+                  <p className="text-sm font-medium text-gray-700 mb-2">Categories</p>
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {categories.map((category) => (
+                      <Button
+                        key={category.id}
+                        size="sm"
+                        variant={
+                          linkDraft.categoryIds.includes(category.id) ? 'primary' : 'secondary'
+                        }
+                        onClick={() =>
+                          setLinkDraft({
+                            ...linkDraft,
+                            categoryIds: toggleId(linkDraft.categoryIds, category.id),
+                          })
+                        }
+                      >
+                        {category.name}
+                      </Button>
+                    ))}
+                  </div>
+
+                  <p className="text-sm font-medium text-gray-700 mb-2">
+                    Products ({linkDraft.productIds.length} selected)
+                  </p>
+                  <Input
+                    type="text"
+                    placeholder="Filter by name or SKU..."
+                    value={productFilter}
+                    onChange={(e) => setProductFilter(e.target.value)}
+                  />
+                  <div className="mt-2 max-h-64 overflow-y-auto space-y-1">
+                    {visibleProducts.map((product) => (
+                      <label key={product.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          className="rounded"
+                          checked={linkDraft.productIds.includes(product.id)}
+                          onChange={() =>
+                            setLinkDraft({
+                              ...linkDraft,
+                              productIds: toggleId(linkDraft.productIds, product.id),
+                            })
+                          }
+                        />
+                        {product.name}
+                        <span className="text-xs text-gray-500">{product.sku}</span>
+                      </label>
+                    ))}
+                  </div>
+                </Card>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Create Modal */}
+      <Modal isOpen={isCreateOpen} onClose={closeCreate} title="New Modifier Group">
+        <div className="space-y-4">
+          <Input
+            type="text"
+            label="Name"
+            placeholder="e.g. Milk"
+            value={groupForm.name}
+            onChange={(e) => setGroupForm({ ...groupForm, name: e.target.value })}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              type="number"
+              min={0}
+              label="Minimum (1 = required)"
+              value={groupForm.min_select}
+              onChange={(e) => setGroupForm({ ...groupForm, min_select: e.target.value })}
+            />
+            <Input
+              type="number"
+              min={1}
+              label="Maximum (blank = no limit)"
+              value={groupForm.max_select}
+              onChange={(e) => setGroupForm({ ...groupForm, max_select: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            {groupForm.modifiers.map((modifier, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-4">
+                  <Input
+                    type="text"
+                    label={index === 0 ? 'Modifier' : undefined}
+                    value={modifier.name}
+                    onChange={(e) => updateDraftModifier(index, { name: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-3">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    label={index === 0 ? 'Price change' : undefined}
+                    value={modifier.price_delta}
+                    onChange={(e) => updateDraftModifier(index, { price_delta: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-4">
+                  <Select
+                    label={index === 0 ? 'Ingredient' : undefined}
+                    value={modifier.ingredient_product_id}
+                    onChange={(e) =>
+                      updateDraftModifier(index, { ingredient_product_id: e.target.value })
+                    }
+                    options={productOptions}
+                  />
+                </div>
+                <button
+                  type="button"
+                  className="col-span-1 text-red-600 hover:text-red-700 pb-2"
+                  disabled={groupForm.modifiers.length === 1}
+                  onClick={() =>
+                    setGroupForm({
+                      ...groupForm,
+                      modifiers: groupForm.modifiers.filter((_, i) => i !== index),
+                    })
+                  }
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() =>
+                setGroupForm({
+                  ...groupForm,
+                  modifiers: [...groupForm.modifiers, { ...EMPTY_MODIFIER }],
+                })
+              }
+            >
+              <Plus size={14} className="mr-1" />
+              Add Modifier
+            </Button>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Choose where the group is offered after creating it. An ingredient is deducted from
+            stock each time the modifier is sold.
+          </p>
+
+          <div className="flex gap-2">
+            <Button variant="secondary" className="flex-1" onClick={closeCreate}>
+              Cancel
+            </Button>
+            <Button className="flex-1" isLoading={isSubmitting} onClick={handleCreate}>
+              Create Group
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
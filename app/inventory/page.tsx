@@ -6,30 +6,70 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { getProducts, getLowStockProducts, updateProduct } from '@/lib/actions/products';
-import { useToast, useModal } from '@/lib/hooks';
-import { Product } from '@/lib/types';
-import { Button, Card, Input, Select, Modal, Table, Spinner, Alert, Badge } from '@/components/ui';
-import { AlertTriangle, Edit, Trash2, Plus } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import {
+  getProducts,
+  getLowStockProducts,
+  updateProduct,
+  updateStock,
+  addProductBarcode,
+  removeProductBarcode,
+  generateProductVariants,
+} from '@/lib/actions/products';
+import { getTaxClasses } from '@/lib/actions/taxes';
+import { useToast, useModal, useUserProfile } from '@/lib/hooks';
+import { Product, TaxClass } from '@/lib/types';
+import { formatOptionAxes, hasVariants, parseOptionAxes, variantLabel } from '@/lib/utils/variants';
+import { describeTaxClass } from '@/lib/utils/taxes';
+import {
+  Button,
+  Card,
+  Input,
+  Select,
+  Modal,
+  Table,
+  Spinner,
+  Alert,
+  Badge,
+  TextArea,
+} from '@/components/ui';
+import { StoreSwitcher } from '@/components/dashboard/store-switcher';
+import { AlertTriangle, Edit, Trash2, Plus, X } from 'lucide-react';
 
 export default function InventoryPage() {
   const { success, error } = useToast();
   const { isOpen: isEditOpen, open: openEdit, close: closeEdit } = useModal();
+  const { profile } = useUserProfile();
+  const router = useRouter();
 
   const [products, setProducts] = useState<Product[]>([]);
   const [lowStockOnly, setLowStockOnly] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(true);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  // Stock is per store; defaults to the user's store, '' means all stores
+  const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null);
+  const storeId = selectedStoreId ?? profile?.store_id ?? '';
   const [editData, setEditData] = useState({
     price: 0,
     cost: 0,
     quantity_on_hand: 0,
     reorder_level: 0,
+    tax_class_id: '',
+    is_gift_card: false,
   });
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
+  const [newBarcode, setNewBarcode] = useState('');
+  const [optionAxesText, setOptionAxesText] = useState('');
 
   useEffect(() => {
     loadProducts();
+  }, [storeId]);
+
+  useEffect(() => {
+    getTaxClasses().then((result) => {
+      if (result.success) setTaxClasses(result.data || []);
+    });
   }, []);
 
   const loadProducts = async () => {
@@ -37,9 +77,9 @@ export default function InventoryPage() {
     try {
       let result;
       if (lowStockOnly) {
-        result = await getLowStockProducts();
+        result = await getLowStockProducts(storeId || undefined);
       } else {
-        result = await getProducts();
+        result = await getProducts(storeId || undefined);
       }
 
       if (result.success && result.data) {
@@ -61,7 +101,11 @@ export default function InventoryPage() {
       cost: product.cost,
       quantity_on_hand: product.quantity_on_hand,
       reorder_level: product.reorder_level,
+      tax_class_id: product.tax_class_id || '',
+      is_gift_card: product.is_gift_card,
     });
+    setNewBarcode('');
+    setOptionAxesText(formatOptionAxes(product.option_axes));
     openEdit();
   };
 
@@ -69,19 +113,106 @@ export default function InventoryPage() {
     if (!selectedProduct) return;
 
     try {
-      const result = await updateProduct(selectedProduct.id, editData);
-      if (result.success) {
-        success('Product updated successfully');
-        loadProducts();
-        closeEdit();
-      } else {
+      const { quantity_on_hand, tax_class_id, ...productData } = editData;
+      const result = await updateProduct(selectedProduct.id, {
+        ...productData,
+        tax_class_id: tax_class_id || null,
+      });
+      if (!result.success) {
         error(result.error || 'Failed to update product');
+        return;
       }
+
+      // Stock changes are logged as an adjustment in the selected store
+      const quantityChange = quantity_on_hand - selectedProduct.quantity_on_hand;
+      if (storeId && profile && quantityChange !== 0) {
+        const stockResult = await updateStock(
+          selectedProduct.id,
+          storeId,
+          quantityChange,
+          'adjustment',
+          profile.id,
+          'Stock count from inventory page'
+        );
+        if (!stockResult.success) {
+          error(stockResult.error || 'Failed to update stock');
+          return;
+        }
+      }
+
+      success('Product updated successfully');
+      loadProducts();
+      closeEdit();
     } catch (err) {
       error('Failed to update product');
     }
   };
 
+  // Barcodes are saved immediately, separately from the other product fields
+  const handleAddBarcode = async () => {
+    if (!selectedProduct || !newBarcode.trim()) return;
+
+    try {
+      const barcode = newBarcode.trim();
+      const result = await addProductBarcode(selectedProduct.id, barcode);
+      if (!result.success) {
+        error(result.error || 'Failed to add barcode');
+        return;
+      }
+
+      setSelectedProduct({
+        ...selectedProduct,
+        barcodes: [...(selectedProduct.barcodes || []), barcode],
+      });
+      setNewBarcode('');
+      success('Barcode added');
+      loadProducts();
+    } catch {
+      error('Failed to add barcode');
+    }
+  };
+
+  const handleRemoveBarcode = async (barcode: string) => {
+    if (!selectedProduct) return;
+
+    try {
+      const result = await removeProductBarcode(selectedProduct.id, barcode);
+      if (!result.success) {
+        error(result.error || 'Failed to remove barcode');
+        return;
+      }
+
+      setSelectedProduct({
+        ...selectedProduct,
+        barcodes: (selectedProduct.barcodes || []).filter((code) => code !== barcode),
+      });
+      success('Barcode removed');
+      loadProducts();
+    } catch {
+      error('Failed to remove barcode');
+    }
+  };
+
+  // Variants are generated from "Name: value, value" lines, one per option
+  const handleGenerateVariants = async () => {
+    if (!selectedProduct) return;
+
+    try {
+      const axes = parseOptionAxes(optionAxesText);
+      const result = await generateProductVariants(selectedProduct.id, axes);
+      if (!result.success) {
+        error(result.error || 'Failed to generate variants');
+        return;
+      }
+
+      setSelectedProduct({ ...selectedProduct, option_axes: axes });
+      success(result.message || 'Variants generated');
+      loadProducts();
+    } catch {
+      error('Failed to generate variants');
+    }
+  };
+
   const filteredProducts = products.filter((p) => {
     const query = searchQuery.toLowerCase();
     return (
@@ -98,6 +229,16 @@ export default function InventoryPage() {
     {
       key: 'name' as const,
       label: 'Product Name',
+      render: (value: string, row: Product) => (
+        <div className="flex items-center gap-2">
+          <span>{value}</span>
+          {hasVariants(row) && (
+            <Badge variant="secondary">
+              {products.filter((p) => p.parent_id === row.id).length} variants
+            </Badge>
+          )}
+        </div>
+      ),
     },
     {
       key: 'price' as const,
@@ -141,9 +282,28 @@ export default function InventoryPage() {
     <div className="min-h-screen bg-gray-100 p-6">
       <div className="max-w-6xl mx-auto">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">Inventory Management</h1>
-          <p className="text-gray-600">Manage products, stock levels, and pricing</p>
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Inventory Management</h1>
+            <p className="text-gray-600">Manage products, stock levels, and pricing</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={() => router.push('/inventory/counts')}>
+              Stock Counts
+            </Button>
+            <Button variant="secondary" onClick={() => router.push('/inventory/modifiers')}>
+              Modifiers
+            </Button>
+            <Button variant="secondary" onClick={() => router.push('/inventory/taxes')}>
+              Taxes
+            </Button>
+            <Button variant="secondary" onClick={() => router.push('/inventory/import')}>
+              Import / Export
+            </Button>
+            {profile?.role === 'admin' && (
+              <StoreSwitcher value={storeId} onChange={setSelectedStoreId} />
+            )}
+          </div>
         </div>
 
         {/* Low Stock Alert */}
@@ -244,7 +404,14 @@ export default function InventoryPage() {
 
             <Input
               type="number"
-              label="Stock Quantity"
+              label={
+                hasVariants(selectedProduct)
+                  ? 'Stock Quantity (held by each variant)'
+                  : storeId
+                    ? 'Stock Quantity'
+                    : 'Stock Quantity (select a store to edit)'
+              }
+              disabled={!storeId || hasVariants(selectedProduct)}
               value={editData.quantity_on_hand}
               onChange={(e) =>
                 setEditData({
@@ -266,6 +433,94 @@ export default function InventoryPage() {
               }
             />
 
+            <Select
+              label="Tax Class"
+              value={editData.tax_class_id}
+              onChange={(e) => setEditData({ ...editData, tax_class_id: e.target.value })}
+              options={[
+                { value: '', label: `Product tax rate (${selectedProduct.tax_rate}%)` },
+                ...taxClasses.map((taxClass) => ({
+                  value: taxClass.id,
+                  label: describeTaxClass(taxClass),
+                })),
+              ]}
+            />
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="rounded"
+                checked={editData.is_gift_card}
+                onChange={(e) => setEditData({ ...editData, is_gift_card: e.target.checked })}
+              />
+              Gift card (sold at face value, untaxed, no stock)
+            </label>
+
+            {selectedProduct.parent_id ? (
+              <p className="text-sm text-gray-600">
+                Variant: {variantLabel(selectedProduct.variant_options)}
+              </p>
+            ) : (
+              <div>
+                <TextArea
+                  label="Variant options (one per line, e.g. Size: Small, Medium, Large)"
+                  rows={3}
+                  value={optionAxesText}
+                  onChange={(e) => setOptionAxesText(e.target.value)}
+                />
+                <Button
+                  variant="secondary"
+                  className="w-full mt-2"
+                  disabled={!optionAxesText.trim()}
+                  onClick={handleGenerateVariants}
+                >
+                  {hasVariants(selectedProduct) ? 'Update Variants' : 'Generate Variants'}
+                </Button>
+              </div>
+            )}
+
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-1">Barcodes (GTIN/UPC)</p>
+              {(selectedProduct.barcodes || []).length === 0 ? (
+                <p className="text-sm text-gray-500 mb-2">No barcodes</p>
+              ) : (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {(selectedProduct.barcodes || []).map((barcode) => (
+                    <span
+                      key={barcode}
+                      className="inline-flex items-center gap-1 bg-gray-100 rounded px-2 py-1 text-sm font-mono"
+                    >
+                      {barcode}
+                      <button
+                        type="button"
+                        className="text-gray-500 hover:text-red-600"
+                        onClick={() => handleRemoveBarcode(barcode)}
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Input
+                  type="text"
+                  placeholder="Scan or type a barcode"
+                  value={newBarcode}
+                  onChange={(e) => setNewBarcode(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleAddBarcode();
+                    }
+                  }}
+                />
+                <Button variant="secondary" onClick={handleAddBarcode}>
+                  Add
+                </Button>
+              </div>
+            </div>
+
             <div className="flex gap-2">
               <Button variant="secondary" className="flex-1" onClick={closeEdit}>
                 Cancel
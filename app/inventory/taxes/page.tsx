@@ -0,0 +1,363 @@
+/**
+ * Taxes Page
+ * Manage tax rates, the tax classes that combine them onto products, and
+ * whether each store's prices include tax
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  createTaxClass,
+  createTaxRate,
+  getTaxClasses,
+  getTaxRates,
+  setTaxClassRates,
+  updateTaxClass,
+  updateTaxRate,
+} from '@/lib/actions/taxes';
+import { getStores, updateStore } from '@/lib/actions/stores';
+import { useModal, useToast } from '@/lib/hooks';
+import { Store, TaxClass, TaxRate } from '@/lib/types';
+import { getEffectiveTaxRate } from '@/lib/utils';
+import { describeTaxClass, getTaxClassComponents } from '@/lib/utils/taxes';
+import { Badge, Button, Card, Input, Modal, Spinner } from '@/components/ui';
+import { Plus } from 'lucide-react';
+
+const EMPTY_CLASS_FORM = { name: '', description: '', tax_rate_ids: [] as string[] };
+
+export default function TaxesPage() {
+  const { success, error } = useToast();
+  const { isOpen: isClassOpen, open: openClass, close: closeClass } = useModal();
+
+  const [rates, setRates] = useState<TaxRate[]>([]);
+  const [classes, setClasses] = useState<TaxClass[]>([]);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [rateForm, setRateForm] = useState({ name: '', rate: '', is_compound: false });
+  // null while creating a class, otherwise the class being edited
+  const [editingClassId, setEditingClassId] = useState<string | null>(null);
+  const [classForm, setClassForm] = useState({ ...EMPTY_CLASS_FORM });
+
+  useEffect(() => {
+    Promise.all([getTaxRates(true), getTaxClasses(), getStores()]).then(
+      ([ratesResult, classesResult, storesResult]) => {
+        if (ratesResult.success) {
+          setRates(ratesResult.data || []);
+        } else {
+          error(ratesResult.error || 'Failed to load tax rates');
+        }
+        if (classesResult.success) setClasses(classesResult.data || []);
+        if (storesResult.success) setStores(storesResult.data || []);
+        setLoading(false);
+      }
+    );
+  }, [reloadKey, error]);
+
+  const reload = () => setReloadKey((key) => key + 1);
+
+  const activeRates = rates.filter((rate) => rate.is_active);
+
+  // ==========================================================================
+  // ACTIONS
+  // ==========================================================================
+
+  const runAction = async (
+    action: () => Promise<{ success: boolean; error?: string; message?: string }>,
+    onSuccess?: () => void
+  ) => {
+    setIsSubmitting(true);
+    try {
+      const result = await action();
+      if (result.success) {
+        success(result.message || 'Saved');
+        onSuccess?.();
+        reload();
+      } else {
+        error(result.error || 'Failed to save');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreateRate = () =>
+    runAction(
+      () =>
+        createTaxRate({
+          name: rateForm.name,
+          rate: parseFloat(rateForm.rate),
+          is_compound: rateForm.is_compound,
+        }),
+      () => setRateForm({ name: '', rate: '', is_compound: false })
+    );
+
+  const handleOpenClass = (taxClass?: TaxClass) => {
+    setEditingClassId(taxClass?.id || null);
+    setClassForm(
+      taxClass
+        ? {
+            name: taxClass.name,
+            description: taxClass.description || '',
+            tax_rate_ids: (taxClass.rates || []).map((rate) => rate.id),
+          }
+        : { ...EMPTY_CLASS_FORM }
+    );
+    openClass();
+  };
+
+  const handleSaveClass = () =>
+    runAction(
+      async () => {
+        if (!editingClassId) {
+          return createTaxClass(classForm);
+        }
+        const result = await updateTaxClass(editingClassId, {
+          name: classForm.name,
+          description: classForm.description.trim() || null,
+        });
+        if (!result.success) return result;
+        return setTaxClassRates(editingClassId, classForm.tax_rate_ids);
+      },
+      closeClass
+    );
+
+  // Rates are applied in the order they are ticked
+  const toggleClassRate = (rateId: string) =>
+    setClassForm({
+      ...classForm,
+      tax_rate_ids: classForm.tax_rate_ids.includes(rateId)
+        ? classForm.tax_rate_ids.filter((id) => id !== rateId)
+        : [...classForm.tax_rate_ids, rateId],
+    });
+
+  const formRates = classForm.tax_rate_ids
+    .map((id) => rates.find((rate) => rate.id === id))
+    .filter((rate): rate is TaxRate => rate !== undefined);
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Taxes</h1>
+            <p className="text-gray-600">Tax rates, tax classes and tax-inclusive pricing</p>
+          </div>
+          <Button onClick={() => handleOpenClass()}>
+            <Plus size={16} className="mr-1" />
+            New Tax Class
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Rates */}
+            <Card>
+              <h2 className="text-xl font-semibold mb-4">Tax Rates</h2>
+
+              {rates.length === 0 ? (
+                <p className="text-center text-gray-500 py-8 text-sm">No tax rates yet</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-left text-gray-600">
+                      <th className="py-2">Name</th>
+                      <th className="py-2 text-right">Rate</th>
+                      <th className="py-2"></th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rates.map((rate) => (
+                      <tr key={rate.id} className="border-b border-gray-100">
+                        <td className={`py-2 ${rate.is_active ? '' : 'text-gray-400'}`}>
+                          {rate.name}
+                        </td>
+                        <td className="py-2 text-right">{rate.rate}%</td>
+                        <td className="py-2 pl-2">
+                          {rate.is_compound && <Badge variant="primary">Compound</Badge>}
+                        </td>
+                        <td className="py-2 text-right">
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            disabled={isSubmitting}
+                            onClick={() =>
+                              runAction(() =>
+                                updateTaxRate(rate.id, { is_active: !rate.is_active })
+                              )
+                            }
+                          >
+                            {rate.is_active ? 'Deactivate' : 'Activate'}
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-4 items-end">
+                <Input
+                  type="text"
+                  label="New rate"
+                  placeholder="e.g. State"
+                  value={rateForm.name}
+                  onChange={(e) => setRateForm({ ...rateForm, name: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  step="0.0001"
+                  label="Rate (%)"
+                  value={rateForm.rate}
+                  onChange={(e) => setRateForm({ ...rateForm, rate: e.target.value })}
+                />
+                <Button isLoading={isSubmitting} onClick={handleCreateRate}>
+                  Add
+                </Button>
+              </div>
+              <label className="flex items-center gap-2 text-sm mt-2">
+                <input
+                  type="checkbox"
+                  className="rounded"
+                  checked={rateForm.is_compound}
+                  onChange={(e) => setRateForm({ ...rateForm, is_compound: e.target.checked })}
+                />
+                Compound (charged on the price plus the taxes before it)
+              </label>
+            </Card>
+
+            <div className="space-y-6">
+              {/* Classes */}
+              <Card>
+                <h2 className="text-xl font-semibold mb-4">Tax Classes</h2>
+                {classes.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8 text-sm">
+                    No tax classes yet. Products without one use their own tax rate.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {classes.map((taxClass) => (
+                      <button
+                        key={taxClass.id}
+                        type="button"
+                        className="w-full text-left border border-gray-200 rounded-lg p-3 text-sm hover:bg-gray-50"
+                        onClick={() => handleOpenClass(taxClass)}
+                      >
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="font-semibold">{describeTaxClass(taxClass)}</span>
+                          <span className="text-gray-600">
+                            {getEffectiveTaxRate(getTaxClassComponents(taxClass))}%
+                          </span>
+                        </div>
+                        {taxClass.description && (
+                          <p className="text-xs text-gray-500">{taxClass.description}</p>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </Card>
+
+              {/* Stores */}
+              <Card>
+                <h2 className="text-xl font-semibold mb-1">Store Pricing</h2>
+                <p className="text-sm text-gray-500 mb-4">
+                  With tax-inclusive pricing, shelf prices already contain tax and it is
+                  extracted at checkout instead of added.
+                </p>
+                <div className="space-y-2">
+                  {stores.map((store) => (
+                    <label key={store.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        {store.name} <span className="text-xs text-gray-500">{store.code}</span>
+                      </span>
+                      <span className="flex items-center gap-2">
+                        Prices include tax
+                        <input
+                          type="checkbox"
+                          className="rounded"
+                          disabled={isSubmitting}
+                          checked={store.prices_include_tax}
+                          onChange={(e) =>
+                            runAction(() =>
+                              updateStore(store.id, { prices_include_tax: e.target.checked })
+                            )
+                          }
+                        />
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Class Modal */}
+      <Modal
+        isOpen={isClassOpen}
+        onClose={closeClass}
+        title={editingClassId ? 'Edit Tax Class' : 'New Tax Class'}
+      >
+        <div className="space-y-4">
+          <Input
+            type="text"
+            label="Name"
+            placeholder="e.g. Standard"
+            value={classForm.name}
+            onChange={(e) => setClassForm({ ...classForm, name: e.target.value })}
+          />
+          <Input
+            type="text"
+            label="Description"
+            value={classForm.description}
+            onChange={(e) => setClassForm({ ...classForm, description: e.target.value })}
+          />
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">
+              Rates, applied in the order selected
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {activeRates.map((rate) => (
+                <Button
+                  key={rate.id}
+                  size="sm"
+                  variant={classForm.tax_rate_ids.includes(rate.id) ? 'primary' : 'secondary'}
+                  onClick={() => toggleClassRate(rate.id)}
+                >
+                  {rate.name} {rate.rate}%
+                </Button>
+              ))}
+            </div>
+            {formRates.length > 0 && (
+              <p className="text-xs text-gray-500 mt-2">
+                {formRates
+                  .map((rate) => `${rate.name}${rate.is_compound ? ' (compound)' : ''}`)
+                  .join(' → ')}
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="secondary" className="flex-1" onClick={closeClass}>
+              Cancel
+            </Button>
+            <Button className="flex-1" isLoading={isSubmitting} onClick={handleSaveClass}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -6,49 +6,221 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { getProducts, searchProducts } from '@/lib/actions/products';
+import {
+  getProducts,
+  searchProducts,
+  findProductByCode as findProductByCodeOnServer,
+} from '@/lib/actions/products';
 import { createOrder } from '@/lib/actions/orders';
-import { useUserProfile, useToast, useModal } from '@/lib/hooks';
-import { CartItem, Product, Order as OrderType } from '@/lib/types';
-import { calculateCartTotals, calculateLineTotal } from '@/lib/utils';
-import { POSCart, Receipt } from '@/components/pos/cart';
+import { getActivePromotions } from '@/lib/actions/promotions';
+import { getReceipt } from '@/lib/actions/receipts';
+import { getLoyaltyAccount, getLoyaltyRules } from '@/lib/actions/loyalty';
+import { getModifierGroups } from '@/lib/actions/modifiers';
+import { getTaxClasses } from '@/lib/actions/taxes';
+import { getStoreById } from '@/lib/actions/stores';
+import { getGiftCardByCode, getStoreCredit } from '@/lib/actions/gift-cards';
+import {
+  discardParkedCart,
+  getParkedCarts,
+  parkCart,
+  resumeParkedCart,
+} from '@/lib/actions/parked-carts';
+import {
+  useUserProfile,
+  useToast,
+  useModal,
+  useOnlineStatus,
+  useOfflineQueue,
+  useBarcodeScanner,
+} from '@/lib/hooks';
+import { cacheCatalog, getCachedCatalog } from '@/lib/offline';
+import {
+  CartItem,
+  CartItemModifier,
+  ModifierGroup,
+  Product,
+  Order as OrderType,
+  PaymentMethod,
+  PaymentTender,
+  Promotion,
+  QueuedSale,
+  ReceiptData,
+  TaxClass,
+  Customer,
+  GiftCardAccount,
+  LoyaltyAccount,
+  LoyaltyRule,
+} from '@/lib/types';
+import {
+  calculateLineTotal,
+  calculateTenderedTotal,
+  calculateChange,
+  formatCurrency,
+  formatDecimal,
+  formatPaymentMethod,
+  getDayOfWeek,
+  removeTax,
+} from '@/lib/utils';
+import { applyPromotions } from '@/lib/utils/promotions';
+import { findProductByCode, playScanTone } from '@/lib/utils/barcodes';
+import { hasVariants } from '@/lib/utils/variants';
+import { applyTaxClasses } from '@/lib/utils/taxes';
+import { normalizeGiftCardCode } from '@/lib/utils/gift-cards';
+import {
+  getCartItemKey,
+  getModifierGroupsForProduct,
+  resolveModifiers,
+} from '@/lib/utils/modifiers';
+import {
+  amountToPoints,
+  calculatePointsEarned,
+  getRedeemRate,
+  pointsToAmount,
+} from '@/lib/utils/loyalty';
+import { POSCart } from '@/components/pos/cart';
+import { ReceiptPreview } from '@/components/pos/receipt';
+import { CashDrawerPanel } from '@/components/pos/cash-drawer';
+import { OfflineQueuePanel } from '@/components/pos/offline-queue';
+import { CustomerLookupPanel } from '@/components/pos/customer-lookup';
+import { VariantPicker } from '@/components/pos/variant-picker';
+import { ModifierPicker } from '@/components/pos/modifier-picker';
+import { GiftCardPicker } from '@/components/pos/gift-card-picker';
+import { ParkedCartsPanel } from '@/components/pos/parked-carts';
 import { Input, Button, Select, Modal, Spinner, Badge } from '@/components/ui';
-import { ShoppingCart, Search, LogOut } from 'lucide-react';
+import {
+  ShoppingCart,
+  Search,
+  LogOut,
+  Trash2,
+  Wallet,
+  CloudOff,
+  ScanLine,
+  User,
+  X,
+  PauseCircle,
+  ClipboardList,
+} from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
 
 export default function POSPage() {
   const { profile } = useUserProfile();
   const { success, error } = useToast();
   const { isOpen: isCheckoutOpen, open: openCheckout, close: closeCheckout } = useModal();
   const { isOpen: isReceiptOpen, open: openReceipt, close: closeReceipt } = useModal();
+  const { isOpen: isDrawerOpen, open: openDrawer, close: closeDrawer } = useModal();
+  const { isOpen: isQueueOpen, open: openQueue, close: closeQueue } = useModal();
+  const { isOpen: isCustomerOpen, open: openCustomer, close: closeCustomer } = useModal();
+  const { isOpen: isVariantOpen, open: openVariant, close: closeVariant } = useModal();
+  const { isOpen: isModifierOpen, open: openModifier, close: closeModifier } = useModal();
+  const { isOpen: isGiftCardOpen, open: openGiftCard, close: closeGiftCard } = useModal();
+  const { isOpen: isParkOpen, open: openPark, close: closePark } = useModal();
+  const { isOpen: isParkedOpen, open: openParked, close: closeParked } = useModal();
+  const isOnline = useOnlineStatus();
+  const offlineQueue = useOfflineQueue();
 
   // State
   const [products, setProducts] = useState<Product[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
   const [cart, setCart] = useState<CartItem[]>([]);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [loyaltyAccount, setLoyaltyAccount] = useState<LoyaltyAccount | null>(null);
+  const [loyaltyRules, setLoyaltyRules] = useState<LoyaltyRule[]>([]);
+  const [storeCredit, setStoreCredit] = useState<GiftCardAccount | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(false);
+  // Bonus-day points follow the store's day; the terminal's clock is used offline
+  const [storeTimeZone, setStoreTimeZone] = useState<string | undefined>(undefined);
   const [loadingProducts, setLoadingProducts] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
-  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'card' | 'mobile'>('cash');
+  const [scanMode, setScanMode] = useState(true);
+  const [scanFailed, setScanFailed] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [tenderAmount, setTenderAmount] = useState('');
+  const [tenderCode, setTenderCode] = useState('');
+  const [payments, setPayments] = useState<PaymentTender[]>([]);
+  const [changeDue, setChangeDue] = useState(0);
   const [isCheckoutLoading, setIsCheckoutLoading] = useState(false);
   const [lastOrder, setLastOrder] = useState<OrderType | null>(null);
+  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
+  const [variantParent, setVariantParent] = useState<Product | null>(null);
+  const [modifierProduct, setModifierProduct] = useState<Product | null>(null);
+  const [giftCardProduct, setGiftCardProduct] = useState<Product | null>(null);
+  const [parkLabel, setParkLabel] = useState('');
+  const [isParking, setIsParking] = useState(false);
+  const [parkedCarts, setParkedCarts] = useState<OrderType[]>([]);
+  const [loadingParked, setLoadingParked] = useState(false);
 
-  // Calculations
-  const orderItems = cart.map((item) => ({
-    quantity: item.quantity,
-    unit_price: item.product.price,
-    tax_rate: item.product.tax_rate,
-  }));
-
-  const { subtotal, tax, total } = calculateCartTotals(orderItems);
+  // Calculations (promotions applied before tax; none for tax-exempt customers)
+  const taxedCart = applyTaxClasses(cart, taxClasses);
+  const pricedCart = applyPromotions(
+    customer?.is_tax_exempt ? removeTax(taxedCart, pricesIncludeTax) : taxedCart,
+    promotions,
+    pricesIncludeTax
+  );
+  const { subtotal, discount_total: discount, tax_total: tax, total } = pricedCart;
+  const amountPaid = calculateTenderedTotal(payments);
+  const amountDue = formatDecimal(Math.max(0, total - amountPaid));
+  // Loyalty: the balance shown is the attached customer's, less points already tendered
+  const pointsAccount =
+    customer && loyaltyAccount?.customer_id === customer.id ? loyaltyAccount : null;
+  const pointsTendered = calculateTenderedTotal(
+    payments.filter((payment) => payment.method === 'points')
+  );
+  const canPayWithPoints =
+    isOnline && pointsAccount !== null && getRedeemRate(loyaltyRules) > 0 && pointsAccount.balance > 0;
+  // Store credit: the attached customer's balance, less credit already tendered
+  const storeCreditAccount =
+    customer && storeCredit?.gift_card.customer_id === customer.id ? storeCredit : null;
+  const storeCreditAvailable = storeCreditAccount
+    ? formatDecimal(
+        storeCreditAccount.balance -
+          calculateTenderedTotal(payments.filter((payment) => payment.method === 'store_credit'))
+      )
+    : 0;
+  const canPayWithStoreCredit =
+    isOnline && storeCreditAccount?.gift_card.is_active === true && storeCreditAvailable > 0;
+  const pointsToEarn = customer
+    ? calculatePointsEarned(
+        pricedCart.items,
+        loyaltyRules,
+        total,
+        pointsTendered,
+        pricesIncludeTax,
+        getDayOfWeek(new Date(), storeTimeZone)
+      )
+    : 0;
+  const cashChange = formatDecimal(
+    payments.reduce(
+      (sum, payment) =>
+        sum + calculateChange(payment.tendered_amount ?? payment.amount, payment.amount),
+      0
+    )
+  );
 
-  // Load products on mount
+  // Load products once the cashier's store is known (stock is per store)
+  const storeId = profile?.store_id || null;
   useEffect(() => {
-    loadProducts();
-  }, []);
+    if (storeId) {
+      loadProducts();
+    }
+  }, [storeId]);
 
-  // Filter products based on search and category
+  // Variants of a parent product, for the variant picker and grid prices
+  const getVariants = (parent: Product) =>
+    products.filter((p) => p.parent_id === parent.id && p.is_active);
+
+  const getFromPrice = (parent: Product) => {
+    const variants = getVariants(parent);
+    return variants.length > 0 ? Math.min(...variants.map((v) => v.price)) : parent.price;
+  };
+
+  // Filter products based on search and category; variants are shown
+  // through their parent, which matches when any of its variants do
   useEffect(() => {
-    let filtered = products;
+    let filtered = products.filter((p) => !p.parent_id);
 
     if (selectedCategory) {
       filtered = filtered.filter((p) => p.category_id === selectedCategory);
@@ -56,10 +228,12 @@ export default function POSPage() {
 
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
+      const matches = (p: Product) =>
+        p.name.toLowerCase().includes(query) || p.sku.toLowerCase().includes(query);
       filtered = filtered.filter(
         (p) =>
-          p.name.toLowerCase().includes(query) ||
-          p.sku.toLowerCase().includes(query)
+          matches(p) ||
+          products.some((variant) => variant.parent_id === p.id && matches(variant))
       );
     }
 
@@ -69,48 +243,295 @@ export default function POSPage() {
   const loadProducts = async () => {
     setLoadingProducts(true);
     try {
-      const result = await getProducts();
+      const [result, promotionsResult, loyaltyResult, modifiersResult, taxesResult, storeResult] =
+        await Promise.all([
+          getProducts(storeId || undefined),
+          getActivePromotions(),
+          getLoyaltyRules(),
+          getModifierGroups(),
+          getTaxClasses(),
+          getStoreById(storeId!),
+        ]);
       if (result.success && result.data) {
         setProducts(result.data);
       } else {
         error(result.error || 'Failed to load products');
       }
+      if (promotionsResult.success && promotionsResult.data) {
+        setPromotions(promotionsResult.data);
+      }
+      if (loyaltyResult.success && loyaltyResult.data) {
+        setLoyaltyRules(loyaltyResult.data);
+      }
+      if (modifiersResult.success && modifiersResult.data) {
+        setModifierGroups(modifiersResult.data);
+      }
+      if (taxesResult.success && taxesResult.data) {
+        setTaxClasses(taxesResult.data);
+      }
+      const storePricesIncludeTax = storeResult.data?.prices_include_tax ?? false;
+      setPricesIncludeTax(storePricesIncludeTax);
+      setStoreTimeZone(storeResult.data?.time_zone);
+      if (storeId && result.success && result.data) {
+        cacheCatalog(
+          storeId,
+          result.data,
+          promotionsResult.data || [],
+          modifiersResult.data || [],
+          taxesResult.data || [],
+          storePricesIncludeTax
+        );
+      }
     } catch (err) {
-      error('Failed to load products');
+      // Server unreachable: fall back to the last cached catalog
+      const cached = storeId ? await getCachedCatalog(storeId) : null;
+      if (cached) {
+        setProducts(cached.products);
+        setPromotions(cached.promotions);
+        setModifierGroups(cached.modifier_groups || []);
+        setTaxClasses(cached.tax_classes || []);
+        setPricesIncludeTax(cached.prices_include_tax ?? false);
+        error('Offline: showing the catalog cached at ' + new Date(cached.cached_at).toLocaleString());
+      } else {
+        error('Failed to load products');
+      }
     } finally {
       setLoadingProducts(false);
     }
   };
 
-  const handleAddToCart = (product: Product) => {
+  // The same product with different modifiers (or a reload of a different
+  // gift card) goes on its own line
+  const handleAddToCart = (
+    product: Product,
+    modifiers: CartItemModifier[] = [],
+    giftCardCode?: string
+  ) => {
+    const line: CartItem = {
+      product_id: product.id,
+      quantity: 1,
+      product,
+      ...(modifiers.length > 0 && { modifiers }),
+      ...(giftCardCode && { gift_card_code: giftCardCode }),
+    };
+    const key = getCartItemKey(line);
     setCart((prev) => {
-      const existing = prev.find((item) => item.product_id === product.id);
+      const existing = prev.find((item) => getCartItemKey(item) === key);
       if (existing) {
         return prev.map((item) =>
-          item.product_id === product.id
+          getCartItemKey(item) === key
             ? { ...item, quantity: item.quantity + 1 }
             : item
         );
       }
-      return [...prev, { product_id: product.id, quantity: 1, product }];
+      return [...prev, line];
     });
     success(`${product.name} added to cart`);
   };
 
-  const handleUpdateQuantity = (productId: string, quantity: number) => {
+  // Products with modifier groups open the modifier picker first
+  const handleAddSellable = (product: Product) => {
+    if (getModifierGroupsForProduct(modifierGroups, product).length > 0) {
+      setModifierProduct(product);
+      openModifier();
+      return;
+    }
+    handleAddToCart(product);
+  };
+
+  // Parents open the variant picker and gift cards the gift card picker;
+  // everything else goes straight in
+  const handleSelectProduct = (product: Product) => {
+    if (product.is_gift_card) {
+      if (!isOnline) {
+        error('Gift cards can only be sold while online');
+        return;
+      }
+      setGiftCardProduct(product);
+      openGiftCard();
+      return;
+    }
+    if (hasVariants(product)) {
+      setVariantParent(product);
+      openVariant();
+      return;
+    }
+    handleAddSellable(product);
+  };
+
+  const handleSelectVariant = (variant: Product) => {
+    closeVariant();
+    handleAddSellable(variant);
+  };
+
+  const handleSelectModifiers = (product: Product, modifiers: CartItemModifier[]) => {
+    handleAddToCart(product, modifiers);
+    closeModifier();
+  };
+
+  const handleSelectGiftCard = (product: Product, giftCardCode?: string) => {
+    handleAddToCart(product, [], giftCardCode);
+    closeGiftCard();
+  };
+
+  // Scanned codes must match a SKU or barcode exactly; the loaded catalog is
+  // checked first, then the server (e.g. a barcode added since it loaded)
+  const handleScan = async (code: string) => {
+    setSearchQuery('');
+
+    let product = findProductByCode(products, code);
+    if (!product && isOnline) {
+      try {
+        const result = await findProductByCodeOnServer(code, storeId || undefined);
+        product = result.data || undefined;
+      } catch {
+        // Treated as not found
+      }
+    }
+
+    if (!product) {
+      playScanTone('error');
+      setScanFailed(true);
+      setTimeout(() => setScanFailed(false), 1000);
+      error(`No product found for code ${code}`);
+      return;
+    }
+
+    playScanTone('success');
+    handleSelectProduct(product);
+  };
+
+  // Paused while a modal is open so scans do not change the cart mid-checkout
+  useBarcodeScanner(handleScan, {
+    enabled:
+      scanMode &&
+      !isCheckoutOpen &&
+      !isReceiptOpen &&
+      !isDrawerOpen &&
+      !isQueueOpen &&
+      !isCustomerOpen &&
+      !isVariantOpen &&
+      !isModifierOpen &&
+      !isGiftCardOpen &&
+      !isParkOpen &&
+      !isParkedOpen,
+  });
+
+  const handleUpdateQuantity = (lineKey: string, quantity: number) => {
     if (quantity <= 0) {
-      handleRemoveFromCart(productId);
+      handleRemoveFromCart(lineKey);
       return;
     }
     setCart((prev) =>
       prev.map((item) =>
-        item.product_id === productId ? { ...item, quantity } : item
+        getCartItemKey(item) === lineKey ? { ...item, quantity } : item
       )
     );
   };
 
-  const handleRemoveFromCart = (productId: string) => {
-    setCart((prev) => prev.filter((item) => item.product_id !== productId));
+  const handleRemoveFromCart = (lineKey: string) => {
+    setCart((prev) => prev.filter((item) => getCartItemKey(item) !== lineKey));
+  };
+
+  const handleOpenCheckout = () => {
+    setPayments([]);
+    setPaymentMethod('cash');
+    setTenderAmount(total.toFixed(2));
+    setTenderCode('');
+    openCheckout();
+  };
+
+  const handleAddTender = async () => {
+    // Nothing left to pay: a cash tender would otherwise be recorded as 0.00
+    if (amountDue <= 0) {
+      error('The order is already paid in full');
+      return;
+    }
+
+    const amount = formatDecimal(parseFloat(tenderAmount));
+    if (!(amount > 0)) {
+      error('Enter a payment amount');
+      return;
+    }
+
+    // Cash may be over-tendered; only the balance due is applied and the rest is change
+    if (paymentMethod === 'cash') {
+      const applied = Math.min(amount, amountDue);
+      setPayments((prev) => [
+        ...prev,
+        { method: 'cash', amount: applied, tendered_amount: amount },
+      ]);
+      setTenderAmount(formatDecimal(amountDue - applied).toFixed(2));
+      return;
+    }
+
+    if (amount > amountDue) {
+      error(`Amount exceeds balance due of ${formatCurrency(amountDue)}`);
+      return;
+    }
+
+    if (paymentMethod === 'points') {
+      const points = amountToPoints(formatDecimal(pointsTendered + amount), loyaltyRules);
+      if (points === null) {
+        error('Amount must be a whole number of points');
+        return;
+      }
+      if (!pointsAccount || points > pointsAccount.balance) {
+        error(`Not enough points (balance: ${pointsAccount?.balance ?? 0})`);
+        return;
+      }
+    }
+
+    if (paymentMethod === 'store_credit' && amount > storeCreditAvailable) {
+      error(`Not enough store credit (available: ${formatCurrency(storeCreditAvailable)})`);
+      return;
+    }
+
+    // Gift cards may be spent in part; the balance is checked again at checkout
+    if (paymentMethod === 'gift_card') {
+      const code = normalizeGiftCardCode(tenderCode);
+      if (!code) {
+        error('Enter the gift card code');
+        return;
+      }
+
+      const result = await getGiftCardByCode(code);
+      if (!result.success || !result.data) {
+        error(result.error || 'Gift card not found');
+        return;
+      }
+      if (!result.data.gift_card.is_active) {
+        error('This gift card is inactive');
+        return;
+      }
+
+      const available = formatDecimal(
+        result.data.balance -
+          calculateTenderedTotal(
+            payments.filter(
+              (payment) => payment.method === 'gift_card' && payment.reference === code
+            )
+          )
+      );
+      if (amount > available) {
+        error(`Not enough on this card (available: ${formatCurrency(available)})`);
+        return;
+      }
+
+      setPayments((prev) => [...prev, { method: 'gift_card', amount, reference: code }]);
+      setTenderAmount(formatDecimal(amountDue - amount).toFixed(2));
+      setTenderCode('');
+      return;
+    }
+
+    setPayments((prev) => [...prev, { method: paymentMethod, amount }]);
+    setTenderAmount(formatDecimal(amountDue - amount).toFixed(2));
+  };
+
+  const handleRemoveTender = (index: number) => {
+    const removed = payments[index];
+    setPayments((prev) => prev.filter((_, i) => i !== index));
+    setTenderAmount(formatDecimal(amountDue + removed.amount).toFixed(2));
   };
 
   const handleCheckout = async () => {
@@ -119,44 +540,262 @@ export default function POSPage() {
       return;
     }
 
+    if (amountDue > 0) {
+      error(`Balance due: ${formatCurrency(amountDue)}`);
+      return;
+    }
+
     if (!profile) {
       error('User profile not loaded');
       return;
     }
 
+    if (!profile.store_id) {
+      error('You are not assigned to a store');
+      return;
+    }
+
+    // Generated up front so a sale queued after a dropped request is not
+    // created twice when it is replayed
+    const idempotencyKey = crypto.randomUUID();
+    const soldAt = new Date().toISOString();
+
+    if (!isOnline) {
+      await queueOfflineSale(profile.id, profile.store_id, idempotencyKey, soldAt);
+      return;
+    }
+
     setIsCheckoutLoading(true);
     try {
       const result = await createOrder(
         profile.id,
+        profile.store_id,
         cart,
-        paymentMethod
+        payments,
+        undefined,
+        { idempotency_key: idempotencyKey, created_at: soldAt, customer_id: customer?.id ?? null }
       );
 
       if (result.success && result.data) {
         success(`Order ${result.data.order_number} created successfully!`);
         setLastOrder(result.data);
+        setChangeDue(cashChange);
         setCart([]);
+        setCustomer(null);
+        setPayments([]);
         closeCheckout();
+        setReceipt(null);
         openReceipt();
+        getReceipt(result.data.id).then((receiptResult) => {
+          if (receiptResult.success && receiptResult.data) {
+            setReceipt(receiptResult.data);
+          } else {
+            error(receiptResult.error || 'Failed to load receipt');
+          }
+        });
       } else {
         error(result.error || 'Failed to create order');
       }
     } catch (err) {
-      error('Failed to process checkout');
+      // Network failure: keep the sale and replay it on reconnect
+      await queueOfflineSale(profile.id, profile.store_id, idempotencyKey, soldAt);
     } finally {
       setIsCheckoutLoading(false);
     }
   };
 
-  const handlePrintReceipt = () => {
-    const element = document.getElementById('receipt');
-    if (element) {
-      const printWindow = window.open('', '', 'height=400,width=600');
-      if (printWindow) {
-        printWindow.document.write(element.innerHTML);
-        printWindow.document.close();
-        printWindow.print();
+  const queueOfflineSale = async (
+    cashierId: string,
+    storeId: string,
+    idempotencyKey: string,
+    soldAt: string
+  ) => {
+    // Gift card balances live on the server, so these sales cannot wait
+    if (
+      cart.some((item) => item.product.is_gift_card) ||
+      payments.some((payment) => payment.method === 'gift_card' || payment.method === 'store_credit')
+    ) {
+      error('Gift card and store credit sales need a connection; try again when online');
+      return;
+    }
+
+    const sale: QueuedSale = {
+      id: idempotencyKey,
+      cashier_id: cashierId,
+      store_id: storeId,
+      items: cart,
+      payments,
+      customer_id: customer?.id ?? null,
+      total,
+      status: 'pending',
+      error: null,
+      attempts: 0,
+      created_at: soldAt,
+    };
+
+    try {
+      await offlineQueue.queueSale(sale);
+    } catch {
+      error('Failed to save sale offline');
+      return;
+    }
+
+    success(
+      cashChange > 0
+        ? `Offline: sale saved and will sync on reconnect. Change due: ${formatCurrency(cashChange)}`
+        : 'Offline: sale saved and will sync on reconnect'
+    );
+    setCart([]);
+    setCustomer(null);
+    setPayments([]);
+    closeCheckout();
+  };
+
+  // ==========================================================================
+  // PARKED CARTS
+  // ==========================================================================
+
+  const handleOpenPark = () => {
+    setParkLabel(customer?.name || '');
+    openPark();
+  };
+
+  const handlePark = async () => {
+    if (!profile?.store_id) {
+      error('No store assigned to this cashier');
+      return;
+    }
+
+    setIsParking(true);
+    try {
+      const result = await parkCart(profile.id, profile.store_id, cart, {
+        label: parkLabel,
+        customer_id: customer?.id ?? null,
+      });
+
+      if (result.success) {
+        success(result.message || 'Cart parked');
+        setCart([]);
+        setCustomer(null);
+        closePark();
+      } else {
+        error(result.error || 'Failed to park cart');
+      }
+    } catch {
+      error('Parking a cart needs a connection to the server');
+    } finally {
+      setIsParking(false);
+    }
+  };
+
+  const loadParkedCarts = async () => {
+    if (!storeId) return;
+
+    setLoadingParked(true);
+    try {
+      const result = await getParkedCarts(storeId);
+      if (result.success) {
+        setParkedCarts(result.data || []);
+      } else {
+        error(result.error || 'Failed to load parked carts');
       }
+    } catch {
+      error('Failed to load parked carts');
+    } finally {
+      setLoadingParked(false);
+    }
+  };
+
+  const handleOpenParked = () => {
+    openParked();
+    loadParkedCarts();
+  };
+
+  // Lines are rebuilt from this store's catalog so stock and prices are
+  // current; products or modifiers no longer sold are left out
+  const handleResumeParked = async (parked: OrderType) => {
+    const result = await resumeParkedCart(parked.id);
+    if (!result.success || !result.data) {
+      error(result.error || 'Failed to resume cart');
+      loadParkedCarts();
+      return;
+    }
+
+    let dropped = 0;
+    const resumed: CartItem[] = [];
+    for (const item of result.data.items || []) {
+      const product = products.find((p) => p.id === item.product_id && p.is_active);
+      const modifierIds = (item.modifiers || [])
+        .map((modifier) => modifier.modifier_id)
+        .filter((modifierId): modifierId is string => modifierId !== null);
+      const modifiers = resolveModifiers(modifierGroups, modifierIds);
+      if (!product || modifiers.length !== (item.modifiers || []).length) {
+        dropped += 1;
+        continue;
+      }
+      resumed.push({
+        product_id: product.id,
+        quantity: item.quantity,
+        product,
+        ...(modifiers.length > 0 && { modifiers }),
+      });
+    }
+
+    setCart(resumed);
+    if (result.data.customer) {
+      handleSelectCustomer(result.data.customer);
+    }
+    closeParked();
+    success(result.message || 'Cart resumed');
+    if (dropped > 0) {
+      error(`${dropped} item(s) are no longer available and were left out`);
+    }
+  };
+
+  const handleDiscardParked = async (parked: OrderType) => {
+    const result = await discardParkedCart(parked.id);
+    if (result.success) {
+      success(result.message || 'Parked cart discarded');
+    } else {
+      error(result.error || 'Failed to discard parked cart');
+    }
+    loadParkedCarts();
+  };
+
+  const handleSelectCustomer = (selected: Customer) => {
+    setCustomer(selected);
+    closeCustomer();
+    success(`${selected.name} attached to sale`);
+    getLoyaltyAccount(selected.id).then((result) => {
+      if (result.success && result.data) {
+        setLoyaltyAccount(result.data);
+      }
+    });
+    getStoreCredit(selected.id).then((result) => {
+      if (result.success) {
+        setStoreCredit(result.data ?? null);
+      }
+    });
+  };
+
+  const handleSyncQueue = async () => {
+    const { synced, conflicts } = await offlineQueue.syncQueue();
+    if (synced > 0) {
+      success(`${synced} offline sale(s) synced`);
+      loadProducts();
+    }
+    if (conflicts > 0) {
+      error(`${conflicts} offline sale(s) need review`);
+    }
+  };
+
+  const handleRetryQueuedSale = async (sale: QueuedSale) => {
+    const { synced } = await offlineQueue.retrySale(sale);
+    if (synced > 0) {
+      success('Offline sale synced');
+      loadProducts();
+    } else {
+      error('Sale still could not be completed');
     }
   };
 
@@ -172,7 +811,27 @@ export default function POSPage() {
             <p className="text-sm text-gray-600">Welcome, {profile?.full_name}</p>
           </div>
           <div className="flex items-center gap-4">
+            {!isOnline && (
+              <Badge variant="danger">
+                <CloudOff size={14} className="mr-1" />
+                Offline
+              </Badge>
+            )}
+            {offlineQueue.sales.length > 0 && (
+              <Button variant="secondary" size="sm" onClick={openQueue}>
+                {offlineQueue.conflictCount > 0
+                  ? `${offlineQueue.conflictCount} to review`
+                  : `${offlineQueue.pendingCount} queued`}
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={handleOpenParked} disabled={!isOnline}>
+              <ClipboardList size={16} className="mr-1" />
+              Parked
+            </Button>
             <Badge variant="primary">{cart.length} items in cart</Badge>
+            <Button variant="secondary" size="sm" onClick={openDrawer}>
+              <Wallet size={18} />
+            </Button>
             <Button variant="ghost" size="sm">
               <LogOut size={18} />
             </Button>
@@ -185,21 +844,49 @@ export default function POSPage() {
           {/* Products Section */}
           <div className="lg:col-span-3 space-y-4">
             {/* Search & Filter */}
-            <div className="bg-white rounded-lg shadow p-4 space-y-4">
+            <div
+              className={cn(
+                'bg-white rounded-lg shadow p-4 space-y-4 transition',
+                scanFailed && 'ring-4 ring-red-500'
+              )}
+            >
               <div className="flex gap-4">
                 <div className="flex-1">
                   <Input
                     type="text"
-                    placeholder="Search by name or SKU..."
+                    placeholder={
+                      scanMode
+                        ? 'Scan a barcode, or type a code and press Enter...'
+                        : 'Search by name or SKU...'
+                    }
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
+                    onKeyDown={(e) => {
+                      // Handled here so the page-wide scanner listener does not add it twice
+                      if (scanMode && e.key === 'Enter' && searchQuery.trim()) {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        handleScan(searchQuery);
+                      }
+                    }}
                     className="w-full"
                   />
                 </div>
+                <Button
+                  variant={scanMode ? 'primary' : 'secondary'}
+                  onClick={() => setScanMode((prev) => !prev)}
+                  title={scanMode ? 'Scanner mode on' : 'Scanner mode off'}
+                >
+                  <ScanLine size={18} />
+                </Button>
               </div>
 
               {/* Product Grid */}
-              {loadingProducts ? (
+              {profile && !storeId ? (
+                <div className="text-center py-12 text-gray-500">
+                  You are not assigned to a store. Ask an admin to assign one.
+                </div>
+              ) : loadingProducts ? (
                 <div className="flex justify-center py-12">
                   <Spinner size="lg" />
                 </div>
@@ -213,7 +900,7 @@ export default function POSPage() {
                     <div
                       key={product.id}
                       className="bg-white border border-gray-200 rounded-lg p-4 hover:shadow-lg transition cursor-pointer"
-                      onClick={() => handleAddToCart(product)}
+                      onClick={() => handleSelectProduct(product)}
                     >
                       {product.image_url && (
                         <img
@@ -229,9 +916,17 @@ export default function POSPage() {
                       <div className="flex justify-between items-end">
                         <div>
                           <p className="text-lg font-bold text-blue-600">
-                            ${product.price.toFixed(2)}
+                            {hasVariants(product)
+                              ? `from ${formatCurrency(getFromPrice(product))}`
+                              : `$${product.price.toFixed(2)}`}
                           </p>
-                          {product.quantity_on_hand <= product.reorder_level && (
+                          {hasVariants(product) ? (
+                            <Badge variant="secondary">
+                              {getVariants(product).length} options
+                            </Badge>
+                          ) : product.is_gift_card ? (
+                            <Badge variant="primary">Gift card</Badge>
+                          ) : product.quantity_on_hand <= product.reorder_level && (
                             <Badge variant="warning" className="text-xs mt-1">
                               Low Stock
                             </Badge>
@@ -241,7 +936,7 @@ export default function POSPage() {
                           size="sm"
                           onClick={(e) => {
                             e.stopPropagation();
-                            handleAddToCart(product);
+                            handleSelectProduct(product);
                           }}
                         >
                           <ShoppingCart size={14} />
@@ -255,15 +950,56 @@ export default function POSPage() {
           </div>
 
           {/* Cart Section */}
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-4">
+            {/* Customer */}
+            <div className="bg-white rounded-lg shadow p-4">
+              {customer ? (
+                <div className="flex items-start justify-between gap-2">
+                  <div className="text-sm">
+                    <p className="font-semibold">{customer.name}</p>
+                    {customer.phone && <p className="text-gray-500">{customer.phone}</p>}
+                    {pointsAccount && (
+                      <p className="text-gray-500">
+                        {pointsAccount.balance} points ({formatCurrency(pointsAccount.balance_value)})
+                      </p>
+                    )}
+                    {customer.is_tax_exempt && <Badge variant="warning">Tax exempt</Badge>}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setCustomer(null)}>
+                    <X size={16} />
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="secondary" className="w-full" onClick={openCustomer}>
+                  <User size={16} className="mr-2" />
+                  Attach Customer
+                </Button>
+              )}
+            </div>
+
+            {cart.length > 0 && (
+              <Button
+                variant="secondary"
+                className="w-full"
+                onClick={handleOpenPark}
+                disabled={!isOnline}
+              >
+                <PauseCircle size={16} className="mr-2" />
+                Park Cart
+              </Button>
+            )}
+
             <POSCart
-              items={cart}
+              items={pricedCart.items}
               onUpdateQuantity={handleUpdateQuantity}
               onRemoveItem={handleRemoveFromCart}
               subtotal={subtotal}
+              discount={discount}
               tax={tax}
+              taxBreakdown={pricedCart.tax_breakdown}
+              pricesIncludeTax={pricesIncludeTax}
               total={total}
-              onCheckout={openCheckout}
+              onCheckout={handleOpenCheckout}
               isCheckoutLoading={isCheckoutLoading}
             />
           </div>
@@ -278,32 +1014,141 @@ export default function POSPage() {
         size="sm"
       >
         <div className="space-y-4">
-          <Select
-            label="Payment Method"
-            value={paymentMethod}
-            onChange={(e) =>
-              setPaymentMethod(e.target.value as 'cash' | 'card' | 'mobile')
-            }
-            options={[
-              { value: 'cash', label: 'Cash' },
-              { value: 'card', label: 'Card' },
-              { value: 'mobile', label: 'Mobile Payment' },
-            ]}
-          />
+          <div className="flex gap-2 items-end">
+            <div className="flex-1">
+              <Select
+                label="Payment Method"
+                value={paymentMethod}
+                onChange={(e) =>
+                  setPaymentMethod(e.target.value as PaymentMethod)
+                }
+                options={[
+                  { value: 'cash', label: 'Cash' },
+                  { value: 'card', label: 'Card' },
+                  { value: 'mobile', label: 'Mobile Payment' },
+                  ...(canPayWithPoints && pointsAccount
+                    ? [
+                        {
+                          value: 'points',
+                          label: `Points (${formatCurrency(
+                            pointsToAmount(pointsAccount.balance, loyaltyRules) - pointsTendered
+                          )} available)`,
+                        },
+                      ]
+                    : []),
+                  ...(isOnline ? [{ value: 'gift_card', label: 'Gift Card' }] : []),
+                  ...(canPayWithStoreCredit
+                    ? [
+                        {
+                          value: 'store_credit',
+                          label: `Store Credit (${formatCurrency(storeCreditAvailable)} available)`,
+                        },
+                      ]
+                    : []),
+                ]}
+              />
+            </div>
+            <div className="w-28">
+              <Input
+                type="number"
+                label={paymentMethod === 'cash' ? 'Cash Tendered' : 'Amount'}
+                step="0.01"
+                min="0"
+                value={tenderAmount}
+                onChange={(e) => setTenderAmount(e.target.value)}
+              />
+            </div>
+            <Button
+              variant="secondary"
+              onClick={handleAddTender}
+              disabled={amountDue <= 0}
+            >
+              Add
+            </Button>
+          </div>
+
+          {paymentMethod === 'gift_card' && (
+            <Input
+              type="text"
+              label="Gift Card Code"
+              placeholder="GC-XXXX-XXXX-XXXX"
+              value={tenderCode}
+              onChange={(e) => setTenderCode(e.target.value)}
+            />
+          )}
+
+          {payments.length > 0 && (
+            <div className="space-y-2">
+              {payments.map((payment, index) => (
+                <div
+                  key={index}
+                  className="flex items-center justify-between text-sm border border-gray-200 rounded px-3 py-2"
+                >
+                  <span>
+                    {formatPaymentMethod(payment.method)}
+                    {payment.reference && (
+                      <span className="text-gray-500 font-mono"> {payment.reference}</span>
+                    )}
+                    {payment.tendered_amount !== undefined &&
+                      payment.tendered_amount > payment.amount && (
+                        <span className="text-gray-500">
+                          {' '}(tendered {formatCurrency(payment.tendered_amount)})
+                        </span>
+                      )}
+                  </span>
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium">{formatCurrency(payment.amount)}</span>
+                    <button
+                      onClick={() => handleRemoveTender(index)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
 
           <div className="bg-gray-50 p-4 rounded-lg space-y-2">
             <div className="flex justify-between text-sm">
               <span>Subtotal:</span>
               <span>${subtotal.toFixed(2)}</span>
             </div>
+            {discount > 0 && (
+              <div className="flex justify-between text-sm text-green-600">
+                <span>Discount:</span>
+                <span>-${discount.toFixed(2)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
-              <span>Tax:</span>
+              <span>{pricesIncludeTax ? 'Incl. tax:' : 'Tax:'}</span>
               <span>${tax.toFixed(2)}</span>
             </div>
             <div className="flex justify-between text-lg font-bold pt-2 border-t">
               <span>Total:</span>
               <span>${total.toFixed(2)}</span>
             </div>
+            {pointsToEarn > 0 && (
+              <div className="flex justify-between text-sm text-blue-600">
+                <span>Points to earn:</span>
+                <span>{pointsToEarn}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-sm">
+              <span>Paid:</span>
+              <span>${amountPaid.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between text-sm font-semibold">
+              <span>Balance Due:</span>
+              <span>${amountDue.toFixed(2)}</span>
+            </div>
+            {cashChange > 0 && (
+              <div className="flex justify-between text-lg font-bold text-green-600">
+                <span>Change Due:</span>
+                <span>${cashChange.toFixed(2)}</span>
+              </div>
+            )}
           </div>
 
           <div className="flex gap-2">
@@ -317,6 +1162,7 @@ export default function POSPage() {
             <Button
               className="flex-1"
               isLoading={isCheckoutLoading}
+              disabled={amountDue > 0}
               onClick={handleCheckout}
             >
               Complete Order
@@ -325,6 +1171,144 @@ export default function POSPage() {
         </div>
       </Modal>
 
+      {/* Cash Drawer Modal */}
+      <Modal
+        isOpen={isDrawerOpen}
+        onClose={closeDrawer}
+        title="Cash Drawer"
+        size="sm"
+      >
+        {profile && (
+          <CashDrawerPanel
+            cashierId={profile.id}
+            onSuccess={success}
+            onError={error}
+          />
+        )}
+      </Modal>
+
+      {/* Customer Lookup Modal */}
+      <Modal
+        isOpen={isCustomerOpen}
+        onClose={closeCustomer}
+        title="Customer"
+        size="sm"
+      >
+        <CustomerLookupPanel onSelect={handleSelectCustomer} onError={error} />
+      </Modal>
+
+      {/* Variant Picker Modal */}
+      <Modal
+        isOpen={isVariantOpen}
+        onClose={closeVariant}
+        title={variantParent?.name || 'Choose Option'}
+        size="sm"
+      >
+        {variantParent && (
+          <VariantPicker
+            key={variantParent.id}
+            parent={variantParent}
+            variants={getVariants(variantParent)}
+            onSelect={handleSelectVariant}
+            onCancel={closeVariant}
+          />
+        )}
+      </Modal>
+
+      {/* Modifier Picker Modal */}
+      <Modal
+        isOpen={isModifierOpen}
+        onClose={closeModifier}
+        title={modifierProduct?.name || 'Choose Options'}
+        size="sm"
+      >
+        {modifierProduct && (
+          <ModifierPicker
+            key={modifierProduct.id}
+            product={modifierProduct}
+            groups={getModifierGroupsForProduct(modifierGroups, modifierProduct)}
+            onSelect={handleSelectModifiers}
+            onCancel={closeModifier}
+          />
+        )}
+      </Modal>
+
+      {/* Gift Card Picker Modal */}
+      <Modal
+        isOpen={isGiftCardOpen}
+        onClose={closeGiftCard}
+        title={giftCardProduct?.name || 'Gift Card'}
+        size="sm"
+      >
+        {giftCardProduct && (
+          <GiftCardPicker
+            key={giftCardProduct.id}
+            product={giftCardProduct}
+            onSelect={handleSelectGiftCard}
+            onCancel={closeGiftCard}
+          />
+        )}
+      </Modal>
+
+      {/* Park Cart Modal */}
+      <Modal isOpen={isParkOpen} onClose={closePark} title="Park Cart" size="sm">
+        <div className="space-y-4">
+          <Input
+            type="text"
+            label="Label"
+            placeholder="e.g. Customer name or table"
+            value={parkLabel}
+            onChange={(e) => setParkLabel(e.target.value)}
+            autoFocus
+          />
+          <p className="text-xs text-gray-500">
+            Any terminal in this store can resume it. Stock is not reserved, and prices are
+            checked again at checkout.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="secondary" className="flex-1" onClick={closePark}>
+              Cancel
+            </Button>
+            <Button
+              className="flex-1"
+              isLoading={isParking}
+              disabled={!parkLabel.trim()}
+              onClick={handlePark}
+            >
+              Park
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Parked Carts Modal */}
+      <Modal isOpen={isParkedOpen} onClose={closeParked} title="Parked Carts" size="sm">
+        <ParkedCartsPanel
+          carts={parkedCarts}
+          isLoading={loadingParked}
+          canResume={cart.length === 0}
+          onResume={handleResumeParked}
+          onDiscard={handleDiscardParked}
+        />
+      </Modal>
+
+      {/* Offline Queue Modal */}
+      <Modal
+        isOpen={isQueueOpen}
+        onClose={closeQueue}
+        title="Offline Sales"
+        size="sm"
+      >
+        <OfflineQueuePanel
+          sales={offlineQueue.sales}
+          isOnline={isOnline}
+          isSyncing={offlineQueue.isSyncing}
+          onSync={handleSyncQueue}
+          onRetry={handleRetryQueuedSale}
+          onDiscard={offlineQueue.discardSale}
+        />
+      </Modal>
+
       {/* Receipt Modal */}
       <Modal
         isOpen={isReceiptOpen}
@@ -334,30 +1318,31 @@ export default function POSPage() {
       >
         {lastOrder && (
           <div className="space-y-4">
-            <div id="receipt" className="hidden">
-              {/* Receipt content will be printed */}
-            </div>
             <div className="bg-gray-50 p-4 rounded-lg text-sm">
               <p className="font-bold mb-2">Order: {lastOrder.order_number}</p>
               <p className="text-gray-600 mb-3">
                 Total: <span className="font-bold text-lg">${lastOrder.total.toFixed(2)}</span>
               </p>
+              {changeDue > 0 && (
+                <p className="text-green-700 font-semibold">
+                  Change Due: {formatCurrency(changeDue)}
+                </p>
+              )}
             </div>
-            <div className="flex gap-2">
-              <Button
-                variant="secondary"
-                className="flex-1"
-                onClick={closeReceipt}
-              >
-                Close
-              </Button>
-              <Button
-                className="flex-1"
-                onClick={handlePrintReceipt}
-              >
-                Print Receipt
-              </Button>
-            </div>
+            {receipt ? (
+              <ReceiptPreview receipt={receipt} />
+            ) : (
+              <div className="flex justify-center py-4">
+                <Spinner />
+              </div>
+            )}
+            <Button
+              variant="secondary"
+              className="w-full"
+              onClick={closeReceipt}
+            >
+              Close
+            </Button>
           </div>
         )}
       </Modal>
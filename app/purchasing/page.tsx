@@ -0,0 +1,547 @@
+/**
+ * Purchasing Page
+ * Raise purchase orders with suppliers and receive deliveries into stock
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  closePurchaseOrder,
+  createPurchaseOrder,
+  getPurchaseOrderById,
+  getPurchaseOrders,
+  receivePurchaseOrder,
+  sendPurchaseOrder,
+} from '@/lib/actions/purchase-orders';
+import { createSupplier, getSuppliers } from '@/lib/actions/suppliers';
+import { getProducts } from '@/lib/actions/products';
+import { useModal, useToast, useUserProfile } from '@/lib/hooks';
+import {
+  Product,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrderLine,
+  Supplier,
+} from '@/lib/types';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { Badge, Button, Card, Input, Modal, Select, Spinner } from '@/components/ui';
+import { StoreSwitcher } from '@/components/dashboard/store-switcher';
+import { ReceivePurchaseOrderForm } from '@/components/purchasing/receive-form';
+import { Plus, X } from 'lucide-react';
+
+const STATUS_BADGES: Record<
+  PurchaseOrderStatus,
+  { label: string; variant: 'primary' | 'secondary' | 'success' | 'danger' | 'warning' }
+> = {
+  draft: { label: 'Draft', variant: 'secondary' },
+  sent: { label: 'Sent', variant: 'primary' },
+  partially_received: { label: 'Partially received', variant: 'warning' },
+  received: { label: 'Received', variant: 'success' },
+  closed: { label: 'Closed', variant: 'secondary' },
+};
+
+interface DraftLine {
+  product_id: string;
+  quantity_ordered: number;
+  unit_cost: number;
+}
+
+const emptySupplier = { name: '', contact_name: '', email: '', phone: '' };
+
+export default function PurchasingPage() {
+  const { success, error } = useToast();
+  const { profile } = useUserProfile();
+  const { isOpen: isCreateOpen, open: openCreate, close: closeCreate } = useModal();
+  const { isOpen: isSuppliersOpen, open: openSuppliers, close: closeSuppliers } = useModal();
+  const { isOpen: isDetailOpen, open: openDetail, close: closeDetail } = useModal();
+  const { isOpen: isReceiveOpen, open: openReceive, close: closeReceive } = useModal();
+
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [selectedOrder, setSelectedOrder] = useState<PurchaseOrder | null>(null);
+  // Purchase orders belong to one store; defaults to the user's store
+  const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null);
+  const storeId = selectedStoreId ?? profile?.store_id ?? '';
+
+  const [draft, setDraft] = useState({ supplier_id: '', expected_at: '', notes: '' });
+  const [draftLines, setDraftLines] = useState<DraftLine[]>([]);
+  const [newSupplier, setNewSupplier] = useState(emptySupplier);
+
+  useEffect(() => {
+    getPurchaseOrders(storeId || undefined, statusFilter || undefined).then((result) => {
+      if (result.success) {
+        setPurchaseOrders(result.data || []);
+      } else {
+        error(result.error || 'Failed to load purchase orders');
+      }
+      setLoading(false);
+    });
+  }, [storeId, statusFilter, reloadKey, error]);
+
+  useEffect(() => {
+    Promise.all([getSuppliers(), getProducts()]).then(([suppliersResult, productsResult]) => {
+      if (suppliersResult.success) setSuppliers(suppliersResult.data || []);
+      if (productsResult.success) setProducts(productsResult.data || []);
+    });
+  }, []);
+
+  const reload = () => {
+    setLoading(true);
+    setReloadKey((key) => key + 1);
+  };
+
+  const refreshSelected = async (purchaseOrderId: string) => {
+    const result = await getPurchaseOrderById(purchaseOrderId);
+    if (result.success && result.data) {
+      setSelectedOrder(result.data);
+    }
+    reload();
+  };
+
+  const handleOpenOrder = (purchaseOrder: PurchaseOrder) => {
+    setSelectedOrder(purchaseOrder);
+    openDetail();
+  };
+
+  // ==========================================================================
+  // CREATE
+  // ==========================================================================
+
+  const handleOpenCreate = () => {
+    setDraft({ supplier_id: suppliers[0]?.id || '', expected_at: '', notes: '' });
+    setDraftLines([]);
+    openCreate();
+  };
+
+  const handleAddLine = (productId: string) => {
+    const product = products.find((p) => p.id === productId);
+    if (!product || draftLines.some((line) => line.product_id === productId)) return;
+    setDraftLines([
+      ...draftLines,
+      { product_id: product.id, quantity_ordered: 1, unit_cost: product.cost },
+    ]);
+  };
+
+  const updateDraftLine = (index: number, updates: Partial<DraftLine>) => {
+    setDraftLines(draftLines.map((line, i) => (i === index ? { ...line, ...updates } : line)));
+  };
+
+  const handleCreate = async () => {
+    if (!profile || !storeId) {
+      error('Select a store first');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await createPurchaseOrder(
+        {
+          store_id: storeId,
+          supplier_id: draft.supplier_id,
+          expected_at: draft.expected_at || undefined,
+          notes: draft.notes,
+          lines: draftLines,
+        },
+        profile.id
+      );
+
+      if (result.success) {
+        success(result.message || 'Purchase order created');
+        closeCreate();
+        reload();
+      } else {
+        error(result.error || 'Failed to create purchase order');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // ==========================================================================
+  // STATUS CHANGES
+  // ==========================================================================
+
+  const handleSend = async () => {
+    if (!selectedOrder) return;
+
+    const result = await sendPurchaseOrder(selectedOrder.id);
+    if (result.success) {
+      success(result.message || 'Purchase order sent');
+      refreshSelected(selectedOrder.id);
+    } else {
+      error(result.error || 'Failed to send purchase order');
+    }
+  };
+
+  const handleClose = async () => {
+    if (!selectedOrder) return;
+
+    const result = await closePurchaseOrder(selectedOrder.id);
+    if (result.success) {
+      success(result.message || 'Purchase order closed');
+      refreshSelected(selectedOrder.id);
+    } else {
+      error(result.error || 'Failed to close purchase order');
+    }
+  };
+
+  const handleReceive = async (lines: ReceivePurchaseOrderLine[], notes: string) => {
+    if (!selectedOrder || !profile) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await receivePurchaseOrder(selectedOrder.id, profile.id, lines, notes);
+      if (result.success) {
+        success(result.message || 'Goods received');
+        closeReceive();
+        refreshSelected(selectedOrder.id);
+      } else {
+        error(result.error || 'Failed to receive goods');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // ==========================================================================
+  // SUPPLIERS
+  // ==========================================================================
+
+  const handleCreateSupplier = async () => {
+    const result = await createSupplier(newSupplier);
+    if (result.success && result.data) {
+      setSuppliers(
+        [...suppliers, result.data].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setNewSupplier(emptySupplier);
+      success('Supplier created successfully');
+    } else {
+      error(result.error || 'Failed to create supplier');
+    }
+  };
+
+  const orderValue = (purchaseOrder: PurchaseOrder) =>
+    (purchaseOrder.lines || []).reduce(
+      (sum, line) => sum + line.quantity_ordered * line.unit_cost,
+      0
+    );
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Purchasing</h1>
+            <p className="text-gray-600">Purchase orders, suppliers and goods receiving</p>
+          </div>
+          {profile?.role === 'admin' && (
+            <StoreSwitcher value={storeId} onChange={setSelectedStoreId} />
+          )}
+        </div>
+
+        {/* Controls */}
+        <Card className="mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Select
+              value={statusFilter}
+              onChange={(e) => {
+                setLoading(true);
+                setStatusFilter(e.target.value as PurchaseOrderStatus | '');
+              }}
+              options={[
+                { value: '', label: 'All statuses' },
+                ...Object.entries(STATUS_BADGES).map(([value, badge]) => ({
+                  value,
+                  label: badge.label,
+                })),
+              ]}
+            />
+            <Button variant="secondary" onClick={openSuppliers}>
+              Suppliers
+            </Button>
+            <Button onClick={handleOpenCreate} disabled={!storeId}>
+              <Plus size={16} className="mr-1" />
+              New Purchase Order
+            </Button>
+          </div>
+        </Card>
+
+        {/* Purchase Orders */}
+        <Card>
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Spinner size="lg" />
+            </div>
+          ) : purchaseOrders.length === 0 ? (
+            <div className="text-center text-gray-500 py-12">No purchase orders found</div>
+          ) : (
+            <div className="space-y-2">
+              {purchaseOrders.map((purchaseOrder) => (
+                <button
+                  key={purchaseOrder.id}
+                  type="button"
+                  className="w-full text-left border border-gray-200 rounded-lg p-3 text-sm hover:bg-gray-50"
+                  onClick={() => handleOpenOrder(purchaseOrder)}
+                >
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <p className="font-semibold">{purchaseOrder.po_number}</p>
+                      <p className="text-xs text-gray-500">
+                        {purchaseOrder.supplier?.name} · {formatDate(purchaseOrder.created_at)}
+                        {purchaseOrder.expected_at &&
+                          ` · expected ${formatDate(purchaseOrder.expected_at)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-semibold">
+                        {formatCurrency(orderValue(purchaseOrder))}
+                      </span>
+                      <Badge variant={STATUS_BADGES[purchaseOrder.status].variant}>
+                        {STATUS_BADGES[purchaseOrder.status].label}
+                      </Badge>
+                    </div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+
+      {/* Create Modal */}
+      <Modal isOpen={isCreateOpen} onClose={closeCreate} title="New Purchase Order" size="lg">
+        <div className="space-y-4">
+          <Select
+            label="Supplier"
+            value={draft.supplier_id}
+            onChange={(e) => setDraft({ ...draft, supplier_id: e.target.value })}
+            options={[
+              { value: '', label: 'Select a supplier' },
+              ...suppliers.map((supplier) => ({ value: supplier.id, label: supplier.name })),
+            ]}
+          />
+
+          <Input
+            type="date"
+            label="Expected delivery"
+            value={draft.expected_at}
+            onChange={(e) => setDraft({ ...draft, expected_at: e.target.value })}
+          />
+
+          <Select
+            label="Add product"
+            value=""
+            onChange={(e) => handleAddLine(e.target.value)}
+            options={[
+              { value: '', label: 'Select a product' },
+              ...products
+                .filter((product) => !draftLines.some((line) => line.product_id === product.id))
+                .map((product) => ({ value: product.id, label: `${product.sku} - ${product.name}` })),
+            ]}
+          />
+
+          {draftLines.length > 0 && (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {draftLines.map((line, index) => (
+                <div key={line.product_id} className="flex items-end gap-2">
+                  <p className="flex-1 text-sm font-semibold pb-2">
+                    {products.find((p) => p.id === line.product_id)?.name}
+                  </p>
+                  <Input
+                    type="number"
+                    label="Qty"
+                    min={1}
+                    value={line.quantity_ordered}
+                    onChange={(e) =>
+                      updateDraftLine(index, { quantity_ordered: parseInt(e.target.value) })
+                    }
+                  />
+                  <Input
+                    type="number"
+                    label="Unit cost"
+                    step="0.01"
+                    min={0}
+                    value={line.unit_cost}
+                    onChange={(e) =>
+                      updateDraftLine(index, { unit_cost: parseFloat(e.target.value) })
+                    }
+                  />
+                  <button
+                    type="button"
+                    className="text-gray-500 hover:text-red-600 pb-3"
+                    onClick={() => setDraftLines(draftLines.filter((_, i) => i !== index))}
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Input
+            type="text"
+            label="Notes"
+            value={draft.notes}
+            onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+          />
+
+          <div className="flex gap-2">
+            <Button variant="secondary" className="flex-1" onClick={closeCreate}>
+              Cancel
+            </Button>
+            <Button
+              className="flex-1"
+              isLoading={isSubmitting}
+              disabled={!draft.supplier_id || draftLines.length === 0}
+              onClick={handleCreate}
+            >
+              Save Draft
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Detail Modal */}
+      <Modal
+        isOpen={isDetailOpen}
+        onClose={closeDetail}
+        title={selectedOrder?.po_number || 'Purchase Order'}
+        size="lg"
+      >
+        {selectedOrder && (
+          <div className="space-y-4">
+            <div className="flex justify-between items-start text-sm">
+              <div>
+                <p className="font-semibold">{selectedOrder.supplier?.name}</p>
+                <p className="text-gray-500">
+                  {[selectedOrder.supplier?.contact_name, selectedOrder.supplier?.email]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              </div>
+              <Badge variant={STATUS_BADGES[selectedOrder.status].variant}>
+                {STATUS_BADGES[selectedOrder.status].label}
+              </Badge>
+            </div>
+
+            <div className="space-y-1 max-h-64 overflow-y-auto text-sm">
+              {(selectedOrder.lines || []).map((line) => (
+                <div key={line.id} className="flex justify-between border-b border-gray-100 py-1">
+                  <span>
+                    {line.product?.name} ({line.quantity_received}/{line.quantity_ordered})
+                  </span>
+                  <span>
+                    {formatCurrency(line.unit_cost)}
+                    {line.received_unit_cost !== null &&
+                      line.received_unit_cost !== line.unit_cost &&
+                      ` → ${formatCurrency(line.received_unit_cost)}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {selectedOrder.notes && (
+              <p className="text-sm text-gray-600">{selectedOrder.notes}</p>
+            )}
+
+            <div className="flex gap-2">
+              {selectedOrder.status === 'draft' && (
+                <Button className="flex-1" onClick={handleSend}>
+                  Mark as Sent
+                </Button>
+              )}
+              {(selectedOrder.status === 'sent' ||
+                selectedOrder.status === 'partially_received') && (
+                <Button className="flex-1" onClick={openReceive}>
+                  Receive Goods
+                </Button>
+              )}
+              {['sent', 'partially_received', 'received'].includes(selectedOrder.status) && (
+                <Button variant="secondary" className="flex-1" onClick={handleClose}>
+                  Close PO
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Receive Modal */}
+      <Modal
+        isOpen={isReceiveOpen}
+        onClose={closeReceive}
+        title={`Receive ${selectedOrder?.po_number || ''}`}
+        size="lg"
+      >
+        {selectedOrder && (
+          <ReceivePurchaseOrderForm
+            key={`${selectedOrder.id}-${selectedOrder.updated_at}`}
+            purchaseOrder={selectedOrder}
+            isSubmitting={isSubmitting}
+            onSubmit={handleReceive}
+            onCancel={closeReceive}
+          />
+        )}
+      </Modal>
+
+      {/* Suppliers Modal */}
+      <Modal isOpen={isSuppliersOpen} onClose={closeSuppliers} title="Suppliers" size="lg">
+        <div className="space-y-4">
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {suppliers.length === 0 ? (
+              <p className="text-center text-gray-500 py-4 text-sm">No suppliers yet</p>
+            ) : (
+              suppliers.map((supplier) => (
+                <div key={supplier.id} className="border border-gray-200 rounded-lg p-2 text-sm">
+                  <p className="font-semibold">{supplier.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {[supplier.contact_name, supplier.phone, supplier.email]
+                      .filter(Boolean)
+                      .join(' · ') || 'No contact details'}
+                  </p>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="text"
+              label="Name"
+              value={newSupplier.name}
+              onChange={(e) => setNewSupplier({ ...newSupplier, name: e.target.value })}
+            />
+            <Input
+              type="text"
+              label="Contact"
+              value={newSupplier.contact_name}
+              onChange={(e) => setNewSupplier({ ...newSupplier, contact_name: e.target.value })}
+            />
+            <Input
+              type="email"
+              label="Email"
+              value={newSupplier.email}
+              onChange={(e) => setNewSupplier({ ...newSupplier, email: e.target.value })}
+            />
+            <Input
+              type="tel"
+              label="Phone"
+              value={newSupplier.phone}
+              onChange={(e) => setNewSupplier({ ...newSupplier, phone: e.target.value })}
+            />
+          </div>
+          <Button className="w-full" onClick={handleCreateSupplier}>
+            Add Supplier
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
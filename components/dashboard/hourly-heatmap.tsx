@@ -0,0 +1,64 @@
+/**
+ * Hourly Heatmap Component
+ * Sales by weekday and hour of day, shaded by how much was sold
+ */
+
+'use client';
+
+import { HourlySalesData } from '@/lib/types';
+import { formatCurrency } from '@/lib/utils';
+
+interface HourlyHeatmapProps {
+  data: HourlySalesData[];
+}
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export const HourlyHeatmap: React.FC<HourlyHeatmapProps> = ({ data }) => {
+  const cells = new Map(data.map((row) => [`${row.day_of_week}-${row.hour}`, row]));
+  const maxSales = Math.max(0, ...data.map((row) => row.sales_total));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-separate" style={{ borderSpacing: 2 }}>
+        <thead>
+          <tr>
+            <th></th>
+            {HOURS.map((hour) => (
+              <th key={hour} className="font-normal text-gray-500 w-6">
+                {hour % 3 === 0 ? hour : ''}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {DAYS.map((day, dayOfWeek) => (
+            <tr key={day}>
+              <th className="font-normal text-gray-500 text-left pr-2">{day}</th>
+              {HOURS.map((hour) => {
+                const cell = cells.get(`${dayOfWeek}-${hour}`);
+                const intensity = cell && maxSales > 0 ? cell.sales_total / maxSales : 0;
+                return (
+                  <td
+                    key={hour}
+                    className="w-6 h-6 rounded"
+                    style={{
+                      backgroundColor:
+                        intensity > 0 ? `rgba(59, 130, 246, ${0.15 + intensity * 0.85})` : '#f3f4f6',
+                    }}
+                    title={
+                      cell
+                        ? `${day} ${hour}:00 - ${cell.order_count} orders, ${formatCurrency(cell.sales_total)}`
+                        : `${day} ${hour}:00 - no sales`
+                    }
+                  />
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
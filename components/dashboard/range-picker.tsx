@@ -0,0 +1,86 @@
+/**
+ * Range Picker Component
+ * Picks the dashboard's date range (a preset or custom days) and the period
+ * it is compared with
+ */
+
+'use client';
+
+import { AnalyticsComparison, AnalyticsRangePreset } from '@/lib/types';
+
+export interface DashboardRange {
+  preset: AnalyticsRangePreset;
+  // Local YYYY-MM-DD days, used by the custom preset
+  start: string;
+  end: string;
+  comparison: AnalyticsComparison;
+}
+
+interface RangePickerProps {
+  value: DashboardRange;
+  onChange: (range: DashboardRange) => void;
+}
+
+const PRESETS: Array<{ value: AnalyticsRangePreset; label: string }> = [
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'This Week' },
+  { value: 'month', label: 'This Month' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const selectClassName =
+  'px-4 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const RangePicker: React.FC<RangePickerProps> = ({ value, onChange }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex rounded-lg border border-gray-300 bg-white overflow-hidden">
+        {PRESETS.map((preset) => (
+          <button
+            key={preset.value}
+            type="button"
+            className={`px-3 py-2 text-sm ${
+              value.preset === preset.value
+                ? 'bg-blue-600 text-white'
+                : 'text-gray-700 hover:bg-gray-50'
+            }`}
+            onClick={() => onChange({ ...value, preset: preset.value })}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {value.preset === 'custom' && (
+        <>
+          <input
+            type="date"
+            className={selectClassName}
+            value={value.start}
+            max={value.end}
+            onChange={(e) => e.target.value && onChange({ ...value, start: e.target.value })}
+          />
+          <span className="text-gray-500 text-sm">to</span>
+          <input
+            type="date"
+            className={selectClassName}
+            value={value.end}
+            min={value.start}
+            onChange={(e) => e.target.value && onChange({ ...value, end: e.target.value })}
+          />
+        </>
+      )}
+
+      <select
+        value={value.comparison}
+        onChange={(e) =>
+          onChange({ ...value, comparison: e.target.value as AnalyticsComparison })
+        }
+        className={selectClassName}
+      >
+        <option value="previous_period">vs previous period</option>
+        <option value="previous_year">vs same period last year</option>
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+/**
+ * Store Switcher Component
+ * Lets admins scope dashboard figures to one store or all stores
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getStores } from '@/lib/actions/stores';
+import { Store } from '@/lib/types';
+
+interface StoreSwitcherProps {
+  value: string;
+  onChange: (storeId: string) => void;
+}
+
+export const StoreSwitcher: React.FC<StoreSwitcherProps> = ({ value, onChange }) => {
+  const [stores, setStores] = useState<Store[]>([]);
+
+  useEffect(() => {
+    getStores().then((result) => {
+      if (result.success && result.data) {
+        setStores(result.data);
+      }
+    });
+  }, []);
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-4 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      <option value="">All Stores</option>
+      {stores.map((store) => (
+        <option key={store.id} value={store.id}>
+          {store.name}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -5,17 +5,24 @@
 
 'use client';
 
-import { CartItem, Product } from '@/lib/types';
+import { CartItem, Product, TaxBreakdownLine } from '@/lib/types';
 import { Button } from '@/components/ui';
-import { formatCurrency, calculateLineTotal } from '@/lib/utils';
+import { formatCurrency, getCartItemUnitPrice } from '@/lib/utils';
+import { getCartItemKey } from '@/lib/utils/modifiers';
 import { Trash2, Plus, Minus } from 'lucide-react';
 
 interface POSCartProps {
   items: CartItem[];
-  onUpdateQuantity: (productId: string, quantity: number) => void;
-  onRemoveItem: (productId: string) => void;
+  // Lines are identified by getCartItemKey (product plus modifiers or reload code)
+  onUpdateQuantity: (lineKey: string, quantity: number) => void;
+  onRemoveItem: (lineKey: string) => void;
   subtotal: number;
+  discount?: number;
   tax: number;
+  // Shown per rate when more than one tax applies
+  taxBreakdown?: TaxBreakdownLine[];
+  // Tax is already in the prices, so it is shown but not added
+  pricesIncludeTax?: boolean;
   total: number;
   onCheckout: () => void;
   isCheckoutLoading?: boolean;
@@ -26,7 +33,10 @@ export const POSCart: React.FC<POSCartProps> = ({
   onUpdateQuantity,
   onRemoveItem,
   subtotal,
+  discount = 0,
   tax,
+  taxBreakdown = [],
+  pricesIncludeTax = false,
   total,
   onCheckout,
   isCheckoutLoading = false,
@@ -44,11 +54,15 @@ export const POSCart: React.FC<POSCartProps> = ({
       {/* Cart Items */}
       <div className="flex-1 overflow-y-auto p-4 space-y-3">
         {items.map((item) => {
-          const lineTotal = item.product.price * item.quantity;
-          
+          const key = getCartItemKey(item);
+          const unitPrice = getCartItemUnitPrice(item);
+          const lineSubtotal = unitPrice * item.quantity;
+          const lineDiscount = item.discount_amount || 0;
+          const lineTotal = lineSubtotal - lineDiscount;
+
           return (
             <div
-              key={item.product_id}
+              key={key}
               className="bg-gray-50 rounded-lg p-3 border border-gray-200"
             >
               <div className="flex justify-between items-start mb-2">
@@ -57,9 +71,21 @@ export const POSCart: React.FC<POSCartProps> = ({
                     {item.product.name}
                   </h4>
                   <p className="text-xs text-gray-500">SKU: {item.product.sku}</p>
+                  {item.product.is_gift_card && (
+                    <p className="text-xs text-gray-600">
+                      {item.gift_card_code ? `Reload ${item.gift_card_code}` : 'New card'}
+                    </p>
+                  )}
+                  {item.modifiers?.map((modifier) => (
+                    <p key={modifier.modifier_id} className="text-xs text-gray-600">
+                      + {modifier.name}
+                      {modifier.price_delta !== 0 &&
+                        ` (${modifier.price_delta > 0 ? '+' : '-'}${formatCurrency(Math.abs(modifier.price_delta))})`}
+                    </p>
+                  ))}
                 </div>
                 <button
-                  onClick={() => onRemoveItem(item.product_id)}
+                  onClick={() => onRemoveItem(key)}
                   className="text-red-600 hover:text-red-700"
                 >
                   <Trash2 size={16} />
@@ -69,7 +95,7 @@ export const POSCart: React.FC<POSCartProps> = ({
               <div className="flex items-center gap-2 mb-2">
                 <button
                   onClick={() =>
-                    onUpdateQuantity(item.product_id, Math.max(1, item.quantity - 1))
+                    onUpdateQuantity(key, Math.max(1, item.quantity - 1))
                   }
                   className="p-1 hover:bg-gray-200 rounded"
                 >
@@ -80,21 +106,30 @@ export const POSCart: React.FC<POSCartProps> = ({
                   min="1"
                   value={item.quantity}
                   onChange={(e) =>
-                    onUpdateQuantity(item.product_id, parseInt(e.target.value) || 1)
+                    onUpdateQuantity(key, parseInt(e.target.value) || 1)
                   }
                   className="w-12 text-center border border-gray-300 rounded px-2 py-1"
                 />
                 <button
-                  onClick={() => onUpdateQuantity(item.product_id, item.quantity + 1)}
+                  onClick={() => onUpdateQuantity(key, item.quantity + 1)}
                   className="p-1 hover:bg-gray-200 rounded"
                 >
                   <Plus size={14} />
                 </button>
                 <span className="text-xs text-gray-600 ml-auto">
-                  {formatCurrency(item.product.price)}
+                  {formatCurrency(unitPrice)}
                 </span>
               </div>
 
+              {lineDiscount > 0 && (
+                <div className="flex justify-between text-xs text-green-600">
+                  <span className="line-through text-gray-400">
+                    {formatCurrency(lineSubtotal)}
+                  </span>
+                  <span>-{formatCurrency(lineDiscount)}</span>
+                </div>
+              )}
+
               <div className="text-right text-sm font-semibold text-gray-900">
                 {formatCurrency(lineTotal)}
               </div>
@@ -109,10 +144,28 @@ export const POSCart: React.FC<POSCartProps> = ({
           <span className="text-gray-600">Subtotal:</span>
           <span className="font-medium">{formatCurrency(subtotal)}</span>
         </div>
+        {discount > 0 && (
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Discount:</span>
+            <span className="font-medium text-green-600">-{formatCurrency(discount)}</span>
+          </div>
+        )}
         <div className="flex justify-between text-sm">
-          <span className="text-gray-600">Tax:</span>
+          <span className="text-gray-600">{pricesIncludeTax ? 'Incl. tax:' : 'Tax:'}</span>
           <span className="font-medium">{formatCurrency(tax)}</span>
         </div>
+        {taxBreakdown.length > 1 &&
+          taxBreakdown.map((line) => (
+            <div
+              key={`${line.tax_rate_id}-${line.name}-${line.rate}`}
+              className="flex justify-between text-xs text-gray-500 pl-2"
+            >
+              <span>
+                {line.name} {line.rate}%
+              </span>
+              <span>{formatCurrency(line.tax_amount)}</span>
+            </div>
+          ))}
         <div className="border-t border-gray-300 pt-2 mt-2 flex justify-between text-lg">
           <span className="font-bold text-gray-900">Total:</span>
           <span className="font-bold text-blue-600">{formatCurrency(total)}</span>
@@ -133,88 +186,3 @@ export const POSCart: React.FC<POSCartProps> = ({
     </div>
   );
 };
-
-// ============================================================================
-// RECEIPT PREVIEW COMPONENT
-// ============================================================================
-
-interface ReceiptProps {
-  orderNumber: string;
-  items: CartItem[];
-  subtotal: number;
-  tax: number;
-  total: number;
-  paymentMethod: string;
-  timestamp: Date;
-  cashierName?: string;
-}
-
-export const Receipt: React.FC<ReceiptProps> = ({
-  orderNumber,
-  items,
-  subtotal,
-  tax,
-  total,
-  paymentMethod,
-  timestamp,
-  cashierName,
-}) => {
-  return (
-    <div className="bg-white p-6 max-w-sm mx-auto font-mono text-sm" id="receipt">
-      {/* Header */}
-      <div className="text-center border-b-2 border-gray-400 pb-4 mb-4">
-        <h1 className="text-2xl font-bold">RECEIPT</h1>
-        <p className="text-gray-600">{orderNumber}</p>
-        <p className="text-gray-600 text-xs">
-          {timestamp.toLocaleDateString()} {timestamp.toLocaleTimeString()}
-        </p>
-      </div>
-
-      {/* Items */}
-      <div className="border-b border-gray-400 pb-4 mb-4">
-        <div className="flex justify-between mb-2 text-xs font-bold">
-          <span>ITEM</span>
-          <span>QTY</span>
-          <span className="text-right">TOTAL</span>
-        </div>
-        {items.map((item) => (
-          <div key={item.product_id} className="flex justify-between text-xs mb-1">
-            <span>{item.product.name}</span>
-            <span>{item.quantity}x</span>
-            <span className="text-right">
-              {formatCurrency(item.product.price * item.quantity)}
-            </span>
-          </div>
-        ))}
-      </div>
-
-      {/* Totals */}
-      <div className="space-y-1 mb-4">
-        <div className="flex justify-between">
-          <span>Subtotal:</span>
-          <span>{formatCurrency(subtotal)}</span>
-        </div>
-        <div className="flex justify-between">
-          <span>Tax:</span>
-          <span>{formatCurrency(tax)}</span>
-        </div>
-        <div className="flex justify-between text-base font-bold border-t border-gray-400 pt-2">
-          <span>TOTAL:</span>
-          <span>{formatCurrency(total)}</span>
-        </div>
-      </div>
-
-      {/* Payment */}
-      <div className="text-center border-t border-gray-400 pt-4 text-xs">
-        <p>Payment Method: {paymentMethod.toUpperCase()}</p>
-        {cashierName && <p>Cashier: {cashierName}</p>}
-      </div>
-
-      {/* Footer */}
-      <div className="text-center text-xs text-gray-600 mt-4 pt-4 border-t border-gray-400">
-        <p>Thank you for your purchase!</p>
-        <p>Please keep your receipt</p>
-      </div>
-    </div>
-  );
-};
@@ -0,0 +1,248 @@
+/**
+ * Cash Drawer Component
+ * Open/close the cashier's drawer, record pay-ins/pay-outs and show over/short
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  openCashSession,
+  getOpenCashSession,
+  recordCashMovement,
+  closeCashSession,
+} from '@/lib/actions/cash-sessions';
+import { CashSession, CashMovementType, CashSessionReport } from '@/lib/types';
+import { Button, Input, Select, Spinner } from '@/components/ui';
+import { formatCurrency, formatTime } from '@/lib/utils';
+
+interface CashDrawerPanelProps {
+  cashierId: string;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+export const CashDrawerPanel: React.FC<CashDrawerPanelProps> = ({
+  cashierId,
+  onSuccess,
+  onError,
+}) => {
+  const [session, setSession] = useState<CashSession | null>(null);
+  const [report, setReport] = useState<CashSessionReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [movementType, setMovementType] = useState<CashMovementType>('pay_out');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [countedAmount, setCountedAmount] = useState('');
+
+  // Load the cashier's open session, if any
+  useEffect(() => {
+    getOpenCashSession(cashierId).then((result) => {
+      if (result.success) {
+        setSession(result.data || null);
+      } else {
+        onError(result.error || 'Failed to load cash drawer');
+      }
+      setLoading(false);
+    });
+  }, [cashierId, onError]);
+
+  const handleOpen = async () => {
+    setSubmitting(true);
+    const result = await openCashSession(cashierId, parseFloat(openingFloat) || 0);
+    setSubmitting(false);
+    if (result.success && result.data) {
+      onSuccess(result.message || 'Cash drawer opened');
+      setReport(null);
+      setOpeningFloat('');
+      setSession({ ...result.data, movements: [] });
+    } else {
+      onError(result.error || 'Failed to open cash drawer');
+    }
+  };
+
+  const handleMovement = async () => {
+    if (!session) return;
+
+    setSubmitting(true);
+    const result = await recordCashMovement(
+      session.id,
+      movementType,
+      parseFloat(movementAmount),
+      movementReason,
+      cashierId
+    );
+    setSubmitting(false);
+    if (result.success && result.data) {
+      onSuccess(result.message || 'Cash movement recorded');
+      setMovementAmount('');
+      setMovementReason('');
+      setSession({ ...session, movements: [...(session.movements || []), result.data] });
+    } else {
+      onError(result.error || 'Failed to record cash movement');
+    }
+  };
+
+  const handleClose = async () => {
+    if (!session) return;
+
+    setSubmitting(true);
+    const result = await closeCashSession(session.id, parseFloat(countedAmount));
+    setSubmitting(false);
+    if (result.success && result.data) {
+      onSuccess(result.message || 'Cash drawer closed');
+      setCountedAmount('');
+      setSession(null);
+      setReport(result.data);
+    } else {
+      onError(result.error || 'Failed to close cash drawer');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="space-y-4">
+        {report && (
+          <div className="bg-gray-50 p-4 rounded-lg space-y-1 text-sm">
+            <p className="font-bold mb-2">Last Session</p>
+            <div className="flex justify-between">
+              <span>Opening Float:</span>
+              <span>{formatCurrency(report.opening_float)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Cash Sales ({report.order_count} orders):</span>
+              <span>{formatCurrency(report.cash_sales)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Pay-ins:</span>
+              <span>{formatCurrency(report.pay_ins)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Pay-outs:</span>
+              <span>-{formatCurrency(report.pay_outs)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Cash Refunds:</span>
+              <span>-{formatCurrency(report.cash_refunds)}</span>
+            </div>
+            <div className="flex justify-between font-semibold border-t pt-1">
+              <span>Expected:</span>
+              <span>{formatCurrency(report.expected_amount)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Counted:</span>
+              <span>{formatCurrency(report.counted_amount || 0)}</span>
+            </div>
+            <div
+              className={`flex justify-between font-bold ${
+                (report.over_short || 0) < 0 ? 'text-red-600' : 'text-green-600'
+              }`}
+            >
+              <span>{(report.over_short || 0) < 0 ? 'Short:' : 'Over:'}</span>
+              <span>{formatCurrency(Math.abs(report.over_short || 0))}</span>
+            </div>
+          </div>
+        )}
+
+        <Input
+          type="number"
+          label="Opening Float"
+          step="0.01"
+          min="0"
+          value={openingFloat}
+          onChange={(e) => setOpeningFloat(e.target.value)}
+        />
+        <Button className="w-full" isLoading={submitting} onClick={handleOpen}>
+          Open Drawer
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-50 p-4 rounded-lg text-sm">
+        <p className="font-bold">Drawer open since {formatTime(session.opened_at)}</p>
+        <p className="text-gray-600">Opening float: {formatCurrency(session.opening_float)}</p>
+        {(session.movements || []).map((movement) => (
+          <div key={movement.id} className="flex justify-between text-xs mt-1">
+            <span>
+              {movement.movement_type === 'pay_in' ? 'Pay-in' : 'Pay-out'}: {movement.reason}
+            </span>
+            <span>
+              {movement.movement_type === 'pay_in' ? '+' : '-'}
+              {formatCurrency(movement.amount)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <div className="w-32">
+            <Select
+              value={movementType}
+              onChange={(e) => setMovementType(e.target.value as CashMovementType)}
+              options={[
+                { value: 'pay_in', label: 'Pay-in' },
+                { value: 'pay_out', label: 'Pay-out' },
+              ]}
+            />
+          </div>
+          <Input
+            type="number"
+            placeholder="Amount"
+            step="0.01"
+            min="0"
+            value={movementAmount}
+            onChange={(e) => setMovementAmount(e.target.value)}
+          />
+        </div>
+        <Input
+          type="text"
+          placeholder="Reason"
+          value={movementReason}
+          onChange={(e) => setMovementReason(e.target.value)}
+        />
+        <Button
+          variant="secondary"
+          className="w-full"
+          isLoading={submitting}
+          onClick={handleMovement}
+        >
+          Record {movementType === 'pay_in' ? 'Pay-in' : 'Pay-out'}
+        </Button>
+      </div>
+
+      <div className="border-t pt-4 space-y-2">
+        <Input
+          type="number"
+          label="Counted Cash"
+          step="0.01"
+          min="0"
+          value={countedAmount}
+          onChange={(e) => setCountedAmount(e.target.value)}
+        />
+        <Button
+          variant="danger"
+          className="w-full"
+          isLoading={submitting}
+          disabled={countedAmount === ''}
+          onClick={handleClose}
+        >
+          Close Drawer
+        </Button>
+      </div>
+    </div>
+  );
+};
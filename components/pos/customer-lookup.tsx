@@ -0,0 +1,171 @@
+/**
+ * Customer Lookup Component
+ * Search customers by phone or name, or add a new one, to attach to the cart
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createCustomer, searchCustomers } from '@/lib/actions/customers';
+import { useDebounce } from '@/lib/hooks';
+import { Customer } from '@/lib/types';
+import { Badge, Button, Input, Spinner } from '@/components/ui';
+
+interface CustomerLookupPanelProps {
+  onSelect: (customer: Customer) => void;
+  onError: (message: string) => void;
+}
+
+export const CustomerLookupPanel: React.FC<CustomerLookupPanelProps> = ({
+  onSelect,
+  onError,
+}) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Customer[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newCustomer, setNewCustomer] = useState({
+    name: '',
+    phone: '',
+    email: '',
+    is_tax_exempt: false,
+  });
+  const debouncedQuery = useDebounce(query, 300);
+
+  // Search as the cashier types (empty queries return no results)
+  useEffect(() => {
+    searchCustomers(debouncedQuery).then((result) => {
+      if (result.success) {
+        setResults(result.data || []);
+      } else {
+        onError(result.error || 'Failed to search customers');
+      }
+      setSearching(false);
+    });
+  }, [debouncedQuery, onError]);
+
+  const handleCreate = async () => {
+    setSaving(true);
+    const result = await createCustomer(newCustomer);
+    setSaving(false);
+
+    if (result.success && result.data) {
+      onSelect(result.data);
+    } else {
+      onError(result.error || 'Failed to create customer');
+    }
+  };
+
+  if (isAdding) {
+    return (
+      <div className="space-y-4">
+        <Input
+          type="text"
+          label="Name"
+          value={newCustomer.name}
+          onChange={(e) => setNewCustomer({ ...newCustomer, name: e.target.value })}
+        />
+        <Input
+          type="tel"
+          label="Phone"
+          value={newCustomer.phone}
+          onChange={(e) => setNewCustomer({ ...newCustomer, phone: e.target.value })}
+        />
+        <Input
+          type="email"
+          label="Email"
+          value={newCustomer.email}
+          onChange={(e) => setNewCustomer({ ...newCustomer, email: e.target.value })}
+        />
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={newCustomer.is_tax_exempt}
+            onChange={(e) =>
+              setNewCustomer({ ...newCustomer, is_tax_exempt: e.target.checked })
+            }
+            className="rounded"
+          />
+          Tax exempt
+        </label>
+
+        <div className="flex gap-2">
+          <Button variant="secondary" className="flex-1" onClick={() => setIsAdding(false)}>
+            Back
+          </Button>
+          <Button
+            className="flex-1"
+            isLoading={saving}
+            disabled={newCustomer.name.trim().length === 0}
+            onClick={handleCreate}
+          >
+            Save & Attach
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Input
+        type="text"
+        placeholder="Search by phone or name..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setSearching(true);
+        }}
+        autoFocus
+      />
+
+      {searching ? (
+        <div className="flex justify-center py-4">
+          <Spinner />
+        </div>
+      ) : results.length === 0 ? (
+        <p className="text-center text-gray-500 py-4 text-sm">
+          {query.trim() ? 'No customers found' : 'Type a phone number or name'}
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {results.map((customer) => (
+            <button
+              key={customer.id}
+              type="button"
+              className="w-full text-left border border-gray-200 rounded-lg p-3 text-sm hover:bg-gray-50"
+              onClick={() => onSelect(customer)}
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-semibold">{customer.name}</span>
+                {customer.is_tax_exempt && <Badge variant="warning">Tax exempt</Badge>}
+              </div>
+              <p className="text-xs text-gray-500">
+                {[customer.phone, customer.email].filter(Boolean).join(' · ') || 'No contact details'}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Button
+        variant="secondary"
+        className="w-full"
+        onClick={() => {
+          // Carry the search over into the matching field
+          const isPhone = /^[\d\s()+-]+$/.test(query.trim());
+          setNewCustomer({
+            name: isPhone ? '' : query.trim(),
+            phone: isPhone ? query.trim() : '',
+            email: '',
+            is_tax_exempt: false,
+          });
+          setIsAdding(true);
+        }}
+      >
+        New Customer
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+/**
+ * Gift Card Picker Component
+ * Sell a new gift card, or look up an existing card by code to reload it
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { getGiftCardByCode } from '@/lib/actions/gift-cards';
+import { GiftCardAccount, Product } from '@/lib/types';
+import { Badge, Button, Input } from '@/components/ui';
+import { formatCurrency } from '@/lib/utils';
+
+interface GiftCardPickerProps {
+  product: Product;
+  // giftCardCode is set when reloading an existing card
+  onSelect: (product: Product, giftCardCode?: string) => void;
+  onCancel: () => void;
+}
+
+export const GiftCardPicker: React.FC<GiftCardPickerProps> = ({
+  product,
+  onSelect,
+  onCancel,
+}) => {
+  const [isReload, setIsReload] = useState(false);
+  const [code, setCode] = useState('');
+  const [account, setAccount] = useState<GiftCardAccount | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [isLooking, setIsLooking] = useState(false);
+
+  const handleLookup = async () => {
+    setIsLooking(true);
+    setAccount(null);
+    setLookupError(null);
+    try {
+      const result = await getGiftCardByCode(code);
+      if (result.success && result.data) {
+        setAccount(result.data);
+      } else {
+        setLookupError(result.error || 'Gift card not found');
+      }
+    } finally {
+      setIsLooking(false);
+    }
+  };
+
+  const canReload = account !== null && account.gift_card.is_active;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="flex-1"
+          variant={isReload ? 'secondary' : 'primary'}
+          onClick={() => setIsReload(false)}
+        >
+          New Card
+        </Button>
+        <Button
+          size="sm"
+          className="flex-1"
+          variant={isReload ? 'primary' : 'secondary'}
+          onClick={() => setIsReload(true)}
+        >
+          Reload Card
+        </Button>
+      </div>
+
+      {isReload ? (
+        <div className="space-y-2">
+          <div className="flex gap-2 items-end">
+            <div className="flex-1">
+              <Input
+                type="text"
+                label="Card code"
+                placeholder="GC-XXXX-XXXX-XXXX"
+                value={code}
+                onChange={(e) => {
+                  setCode(e.target.value);
+                  setAccount(null);
+                }}
+              />
+            </div>
+            <Button
+              variant="secondary"
+              isLoading={isLooking}
+              disabled={!code.trim()}
+              onClick={handleLookup}
+            >
+              Look Up
+            </Button>
+          </div>
+          {lookupError && <p className="text-sm text-red-600">{lookupError}</p>}
+          {account && (
+            <div className="bg-gray-50 rounded p-3 text-sm flex justify-between items-center">
+              <span className="font-mono">{account.gift_card.code}</span>
+              {account.gift_card.is_active ? (
+                <span>Balance {formatCurrency(account.balance)}</span>
+              ) : (
+                <Badge variant="danger">Inactive</Badge>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600">
+          A new card code is generated at checkout and printed on the receipt.
+        </p>
+      )}
+
+      <div className="bg-gray-50 rounded p-3 text-sm flex justify-between">
+        <span>{isReload ? 'Reload amount' : 'Card value'}</span>
+        <span className="font-semibold">{formatCurrency(product.price)}</span>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="secondary" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          className="flex-1"
+          disabled={isReload && !canReload}
+          onClick={() => onSelect(product, isReload ? account?.gift_card.code : undefined)}
+        >
+          Add to Cart
+        </Button>
+      </div>
+    </div>
+  );
+};
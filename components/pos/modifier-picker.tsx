@@ -0,0 +1,109 @@
+/**
+ * Modifier Picker Component
+ * Choose add-ons for a product (extra shot, oat milk) within each group's
+ * minimum and maximum before adding it to the cart
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { CartItemModifier, ModifierGroup, Product } from '@/lib/types';
+import { Button } from '@/components/ui';
+import { formatCurrency, formatDecimal } from '@/lib/utils';
+import { resolveModifiers, validateModifierSelection } from '@/lib/utils/modifiers';
+
+interface ModifierPickerProps {
+  product: Product;
+  groups: ModifierGroup[];
+  onSelect: (product: Product, modifiers: CartItemModifier[]) => void;
+  onCancel: () => void;
+}
+
+export const ModifierPicker: React.FC<ModifierPickerProps> = ({
+  product,
+  groups,
+  onSelect,
+  onCancel,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const selected = resolveModifiers(groups, selectedIds);
+  const selectionError = validateModifierSelection(groups, selected);
+  const unitPrice = formatDecimal(
+    product.price + selected.reduce((sum, modifier) => sum + modifier.price_delta, 0)
+  );
+
+  // Single-choice groups swap the choice; others toggle up to their maximum
+  const toggle = (group: ModifierGroup, modifierId: string) => {
+    const groupIds = (group.modifiers || []).map((modifier) => modifier.id);
+    const chosen = selectedIds.filter((id) => groupIds.includes(id));
+
+    if (selectedIds.includes(modifierId)) {
+      setSelectedIds(selectedIds.filter((id) => id !== modifierId));
+    } else if (group.max_select === 1) {
+      setSelectedIds([...selectedIds.filter((id) => !groupIds.includes(id)), modifierId]);
+    } else if (group.max_select === null || chosen.length < group.max_select) {
+      setSelectedIds([...selectedIds, modifierId]);
+    }
+  };
+
+  const describeLimits = (group: ModifierGroup) => {
+    if (group.min_select > 0 && group.max_select === group.min_select) {
+      return `Choose ${group.min_select}`;
+    }
+    if (group.min_select > 0) {
+      return group.max_select === null
+        ? `Choose at least ${group.min_select}`
+        : `Choose ${group.min_select}-${group.max_select}`;
+    }
+    return group.max_select === null ? 'Optional' : `Optional, up to ${group.max_select}`;
+  };
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => (
+        <div key={group.id}>
+          <div className="flex justify-between items-baseline mb-2">
+            <p className="text-sm font-medium text-gray-700">{group.name}</p>
+            <p className="text-xs text-gray-500">{describeLimits(group)}</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(group.modifiers || []).map((modifier) => (
+              <Button
+                key={modifier.id}
+                size="sm"
+                variant={selectedIds.includes(modifier.id) ? 'primary' : 'secondary'}
+                onClick={() => toggle(group, modifier.id)}
+              >
+                {modifier.name}
+                {modifier.price_delta !== 0 &&
+                  ` ${modifier.price_delta > 0 ? '+' : '-'}${formatCurrency(Math.abs(modifier.price_delta))}`}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="bg-gray-50 rounded p-3 text-sm flex justify-between items-center">
+        <div>
+          <p className="font-semibold">{product.name}</p>
+          {selectionError && <p className="text-xs text-gray-500">{selectionError}</p>}
+        </div>
+        <p className="text-lg font-bold text-blue-600">{formatCurrency(unitPrice)}</p>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="secondary" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          className="flex-1"
+          disabled={selectionError !== null || unitPrice < 0}
+          onClick={() => onSelect(product, selected)}
+        >
+          Add to Cart
+        </Button>
+      </div>
+    </div>
+  );
+};
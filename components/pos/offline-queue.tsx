@@ -0,0 +1,103 @@
+/**
+ * Offline Queue Component
+ * Sales made while offline, waiting to sync, and stock conflicts to review
+ */
+
+'use client';
+
+import { QueuedSale } from '@/lib/types';
+import { Badge, Button } from '@/components/ui';
+import { formatCurrency, formatDateTime, getCartItemUnitPrice } from '@/lib/utils';
+import { getCartItemKey } from '@/lib/utils/modifiers';
+
+interface OfflineQueuePanelProps {
+  sales: QueuedSale[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  onSync: () => void;
+  onRetry: (sale: QueuedSale) => void;
+  onDiscard: (saleId: string) => void;
+}
+
+export const OfflineQueuePanel: React.FC<OfflineQueuePanelProps> = ({
+  sales,
+  isOnline,
+  isSyncing,
+  onSync,
+  onRetry,
+  onDiscard,
+}) => {
+  if (sales.length === 0) {
+    return <p className="text-center text-gray-500 py-8">No queued sales</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {sales.map((sale) => (
+          <div key={sale.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+            <div className="flex justify-between items-center mb-1">
+              <span className="font-semibold">{formatDateTime(sale.created_at)}</span>
+              {sale.status === 'conflict' ? (
+                <Badge variant="danger">Needs review</Badge>
+              ) : (
+                <Badge variant="warning">Waiting to sync</Badge>
+              )}
+            </div>
+
+            {sale.items.map((item) => (
+              <div key={getCartItemKey(item)} className="flex justify-between text-xs text-gray-600">
+                <span>
+                  {item.product.name}
+                  {item.modifiers?.length
+                    ? ` (${item.modifiers.map((modifier) => modifier.name).join(', ')})`
+                    : ''}{' '}
+                  x{item.quantity}
+                </span>
+                <span>{formatCurrency(getCartItemUnitPrice(item) * item.quantity)}</span>
+              </div>
+            ))}
+
+            <div className="flex justify-between font-semibold mt-1">
+              <span>Total:</span>
+              <span>{formatCurrency(sale.total)}</span>
+            </div>
+
+            {sale.error && <p className="text-xs text-red-600 mt-2">{sale.error}</p>}
+
+            {sale.status === 'conflict' && (
+              <div className="flex gap-2 mt-2">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="flex-1"
+                  disabled={!isOnline || isSyncing}
+                  onClick={() => onRetry(sale)}
+                >
+                  Retry
+                </Button>
+                <Button
+                  size="sm"
+                  variant="danger"
+                  className="flex-1"
+                  onClick={() => onDiscard(sale.id)}
+                >
+                  Discard
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <Button
+        className="w-full"
+        isLoading={isSyncing}
+        disabled={!isOnline}
+        onClick={onSync}
+      >
+        {isOnline ? 'Sync Now' : 'Offline - will sync on reconnect'}
+      </Button>
+    </div>
+  );
+};
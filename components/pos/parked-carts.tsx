@@ -0,0 +1,93 @@
+/**
+ * Parked Carts Component
+ * Carts put aside at any terminal in the store, to resume or discard
+ */
+
+'use client';
+
+import { Order } from '@/lib/types';
+import { Button, Spinner } from '@/components/ui';
+import { formatCurrency, formatDateTime } from '@/lib/utils';
+
+interface ParkedCartsPanelProps {
+  carts: Order[];
+  isLoading: boolean;
+  canResume: boolean;
+  onResume: (cart: Order) => void;
+  onDiscard: (cart: Order) => void;
+}
+
+export const ParkedCartsPanel: React.FC<ParkedCartsPanelProps> = ({
+  carts,
+  isLoading,
+  canResume,
+  onResume,
+  onDiscard,
+}) => {
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (carts.length === 0) {
+    return <p className="text-center text-gray-500 py-8">No parked carts</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {!canResume && (
+        <p className="text-xs text-gray-500">Park or clear the current cart to resume another.</p>
+      )}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {carts.map((cart) => (
+          <div key={cart.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+            <div className="flex justify-between items-center mb-1">
+              <span className="font-semibold">{cart.parked_label}</span>
+              <span className="font-semibold">{formatCurrency(cart.total)}</span>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              {cart.cashier?.full_name || 'Unknown'} · {formatDateTime(cart.created_at)}
+              {cart.customer && ` · ${cart.customer.name}`}
+            </p>
+
+            <p className="text-xs text-gray-600 mt-1">
+              {(cart.items || [])
+                .map((item) => `${item.quantity} x ${item.product?.name || 'Item'}`)
+                .join(', ')}
+            </p>
+
+            {cart.expires_at && (
+              <p className="text-xs text-gray-400 mt-1">
+                Expires {formatDateTime(cart.expires_at)}
+              </p>
+            )}
+
+            <div className="flex gap-2 mt-2">
+              <Button
+                size="sm"
+                className="flex-1"
+                disabled={!canResume}
+                onClick={() => onResume(cart)}
+              >
+                Resume
+              </Button>
+              <Button
+                size="sm"
+                variant="danger"
+                className="flex-1"
+                onClick={() => onDiscard(cart)}
+              >
+                Discard
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+/**
+ * Receipt Preview Component
+ * On-screen copy of a receipt with print and ESC/POS download
+ */
+
+'use client';
+
+import { ReceiptData } from '@/lib/types';
+import { Button } from '@/components/ui';
+import { printReceipt, renderReceiptEscPos, renderReceiptText } from '@/lib/receipts';
+import { Printer, Download } from 'lucide-react';
+
+interface ReceiptPreviewProps {
+  receipt: ReceiptData;
+}
+
+export const ReceiptPreview: React.FC<ReceiptPreviewProps> = ({ receipt }) => {
+  // Raw bytes for thermal printers driven outside the browser's print dialog
+  const handleDownloadEscPos = () => {
+    const blob = new Blob([renderReceiptEscPos(receipt) as BlobPart], {
+      type: 'application/octet-stream',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${receipt.order_number}.bin`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <pre className="bg-white border border-gray-200 rounded p-3 text-xs font-mono max-h-96 overflow-y-auto mx-auto w-fit">
+        {renderReceiptText(receipt)}
+      </pre>
+
+      <div className="flex gap-2">
+        <Button variant="secondary" className="flex-1" onClick={handleDownloadEscPos}>
+          <Download size={16} className="mr-2" />
+          ESC/POS
+        </Button>
+        <Button className="flex-1" onClick={() => printReceipt(receipt)}>
+          <Printer size={16} className="mr-2" />
+          Print Receipt
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+/**
+ * Return Form Component
+ * Select order items and quantities to refund, with reason and restock choice
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getReturnableItems, processReturn } from '@/lib/actions/returns';
+import { OrderReturn, PaymentMethod, ReturnableOrderItem } from '@/lib/types';
+import { Button, Input, Select, Spinner } from '@/components/ui';
+import { formatCurrency, formatDecimal } from '@/lib/utils';
+
+interface ReturnFormProps {
+  orderId: string;
+  // Store credit is offered when the order has a customer
+  customerId?: string | null;
+  userId: string;
+  onComplete: (orderReturn: OrderReturn, message: string) => void;
+  onError: (message: string) => void;
+  onCancel: () => void;
+}
+
+export const ReturnForm: React.FC<ReturnFormProps> = ({
+  orderId,
+  customerId,
+  userId,
+  onComplete,
+  onError,
+  onCancel,
+}) => {
+  const [items, setItems] = useState<ReturnableOrderItem[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [restock, setRestock] = useState<Record<string, boolean>>({});
+  const [reason, setReason] = useState('');
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('cash');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Load order items with their remaining returnable quantities
+  useEffect(() => {
+    getReturnableItems(orderId).then((result) => {
+      if (result.success && result.data) {
+        setItems(result.data);
+      } else {
+        onError(result.error || 'Failed to load order items');
+      }
+      setLoading(false);
+    });
+  }, [orderId, onError]);
+
+  const refundTotal = formatDecimal(
+    items.reduce(
+      (sum, item) =>
+        sum + (item.line_total / item.quantity) * (quantities[item.id] || 0),
+      0
+    )
+  );
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    const result = await processReturn(
+      orderId,
+      userId,
+      items.map((item) => ({
+        order_item_id: item.id,
+        quantity: quantities[item.id] || 0,
+        restock: restock[item.id] ?? true,
+      })),
+      reason,
+      refundMethod
+    );
+    setSubmitting(false);
+
+    if (result.success && result.data) {
+      onComplete(result.data, result.message || 'Return processed');
+    } else {
+      onError(result.error || 'Failed to process return');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {items.map((item) => (
+          <div
+            key={item.id}
+            className="border border-gray-200 rounded-lg p-3 text-sm"
+          >
+            <div className="flex justify-between mb-2">
+              <span className="font-semibold">{item.product?.name || item.product_id}</span>
+              <span className="text-gray-500">
+                {item.quantity} sold, {item.returned_quantity} returned
+              </span>
+            </div>
+            <div className="flex items-center gap-3">
+              <input
+                type="number"
+                min="0"
+                max={item.returnable_quantity}
+                disabled={item.returnable_quantity === 0}
+                value={quantities[item.id] || 0}
+                onChange={(e) =>
+                  setQuantities({
+                    ...quantities,
+                    [item.id]: Math.min(
+                      item.returnable_quantity,
+                      Math.max(0, parseInt(e.target.value) || 0)
+                    ),
+                  })
+                }
+                className="w-16 text-center border border-gray-300 rounded px-2 py-1"
+              />
+              <label className="flex items-center gap-1 text-xs">
+                <input
+                  type="checkbox"
+                  checked={restock[item.id] ?? true}
+                  onChange={(e) => setRestock({ ...restock, [item.id]: e.target.checked })}
+                  className="rounded"
+                />
+                Return to stock
+              </label>
+              <span className="ml-auto text-xs text-gray-600">
+                {formatCurrency(item.line_total / item.quantity)} each
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Input
+        type="text"
+        label="Reason"
+        placeholder="e.g. Damaged, wrong item"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+      />
+
+      <Select
+        label="Refund To"
+        value={refundMethod}
+        onChange={(e) => setRefundMethod(e.target.value as PaymentMethod)}
+        options={[
+          { value: 'cash', label: 'Cash' },
+          { value: 'card', label: 'Card' },
+          { value: 'mobile', label: 'Mobile Payment' },
+          ...(customerId ? [{ value: 'store_credit', label: 'Store Credit' }] : []),
+        ]}
+      />
+
+      <div className="bg-gray-50 p-4 rounded-lg flex justify-between text-lg font-bold">
+        <span>Refund:</span>
+        <span>{formatCurrency(refundTotal)}</span>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="secondary" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          variant="danger"
+          className="flex-1"
+          isLoading={submitting}
+          disabled={refundTotal <= 0 || reason.trim().length === 0}
+          onClick={handleSubmit}
+        >
+          Process Return
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+/**
+ * Variant Picker Component
+ * Choose one value per option (e.g. size, milk) to pick the variant of a
+ * parent product to add to the cart
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Product } from '@/lib/types';
+import { Badge, Button } from '@/components/ui';
+import { formatCurrency } from '@/lib/utils';
+import { sameVariantOptions } from '@/lib/utils/variants';
+
+interface VariantPickerProps {
+  parent: Product;
+  variants: Product[];
+  onSelect: (variant: Product) => void;
+  onCancel: () => void;
+}
+
+export const VariantPicker: React.FC<VariantPickerProps> = ({
+  parent,
+  variants,
+  onSelect,
+  onCancel,
+}) => {
+  const axes = parent.option_axes || [];
+  const [selected, setSelected] = useState<Record<string, string>>({});
+
+  const variant = variants.find((candidate) =>
+    sameVariantOptions(candidate.variant_options, selected)
+  );
+
+  // A value is offered when some variant has it alongside the other choices made
+  const isAvailable = (axisName: string, value: string) =>
+    variants.some((candidate) =>
+      Object.entries({ ...selected, [axisName]: value }).every(
+        ([name, chosen]) => candidate.variant_options?.[name] === chosen
+      )
+    );
+
+  return (
+    <div className="space-y-4">
+      {axes.map((axis) => (
+        <div key={axis.name}>
+          <p className="text-sm font-medium text-gray-700 mb-2">{axis.name}</p>
+          <div className="flex flex-wrap gap-2">
+            {axis.values.map((value) => (
+              <Button
+                key={value}
+                size="sm"
+                variant={selected[axis.name] === value ? 'primary' : 'secondary'}
+                disabled={!isAvailable(axis.name, value)}
+                onClick={() => setSelected({ ...selected, [axis.name]: value })}
+              >
+                {value}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {variant && (
+        <div className="bg-gray-50 rounded p-3 text-sm flex justify-between items-center">
+          <div>
+            <p className="font-semibold">{variant.name}</p>
+            <p className="text-xs text-gray-500">SKU: {variant.sku}</p>
+          </div>
+          <div className="text-right">
+            <p className="text-lg font-bold text-blue-600">{formatCurrency(variant.price)}</p>
+            {variant.quantity_on_hand <= variant.reorder_level && (
+              <Badge variant="warning">{variant.quantity_on_hand} left</Badge>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="secondary" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button className="flex-1" disabled={!variant} onClick={() => variant && onSelect(variant)}>
+          Add to Cart
+        </Button>
+      </div>
+    </div>
+  );
+};
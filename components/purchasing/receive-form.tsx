@@ -0,0 +1,126 @@
+/**
+ * Receive Purchase Order Component
+ * Record quantities delivered against each open PO line and what they
+ * actually cost
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { PurchaseOrder, ReceivePurchaseOrderLine } from '@/lib/types';
+import { Button, Input } from '@/components/ui';
+import { formatCurrency } from '@/lib/utils';
+
+interface ReceivePurchaseOrderFormProps {
+  purchaseOrder: PurchaseOrder;
+  isSubmitting: boolean;
+  onSubmit: (lines: ReceivePurchaseOrderLine[], notes: string) => void;
+  onCancel: () => void;
+}
+
+export const ReceivePurchaseOrderForm: React.FC<ReceivePurchaseOrderFormProps> = ({
+  purchaseOrder,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const openLines = (purchaseOrder.lines || []).filter(
+    (line) => line.quantity_received < line.quantity_ordered
+  );
+
+  // Default to receiving everything outstanding at the last known cost
+  const [entries, setEntries] = useState<Record<string, { quantity: number; unit_cost: number }>>(
+    () =>
+      Object.fromEntries(
+        openLines.map((line) => [
+          line.id,
+          {
+            quantity: line.quantity_ordered - line.quantity_received,
+            unit_cost: line.received_unit_cost ?? line.unit_cost,
+          },
+        ])
+      )
+  );
+  const [notes, setNotes] = useState('');
+
+  const updateEntry = (lineId: string, field: 'quantity' | 'unit_cost', value: number) => {
+    setEntries({ ...entries, [lineId]: { ...entries[lineId], [field]: value } });
+  };
+
+  const receivedTotal = openLines.reduce((sum, line) => {
+    const entry = entries[line.id];
+    return sum + (entry.quantity || 0) * (entry.unit_cost || 0);
+  }, 0);
+
+  const handleSubmit = () => {
+    onSubmit(
+      openLines.map((line) => ({
+        line_id: line.id,
+        quantity: entries[line.id].quantity || 0,
+        unit_cost: entries[line.id].unit_cost || 0,
+      })),
+      notes
+    );
+  };
+
+  if (openLines.length === 0) {
+    return <p className="text-center text-gray-500 py-8">Nothing left to receive</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {openLines.map((line) => (
+          <div key={line.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+            <div className="flex justify-between mb-2">
+              <span className="font-semibold">{line.product?.name || line.product_id}</span>
+              <span className="text-gray-600">
+                {line.quantity_received} of {line.quantity_ordered} received
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="number"
+                label="Received now"
+                min={0}
+                max={line.quantity_ordered - line.quantity_received}
+                value={entries[line.id].quantity}
+                onChange={(e) => updateEntry(line.id, 'quantity', parseInt(e.target.value))}
+              />
+              <Input
+                type="number"
+                label={`Unit cost (ordered at ${formatCurrency(line.unit_cost)})`}
+                step="0.01"
+                min={0}
+                value={entries[line.id].unit_cost}
+                onChange={(e) => updateEntry(line.id, 'unit_cost', parseFloat(e.target.value))}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Input
+        type="text"
+        label="Notes"
+        placeholder="Delivery note or invoice number"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+      />
+
+      <div className="flex justify-between font-semibold">
+        <span>Received value:</span>
+        <span>{formatCurrency(receivedTotal)}</span>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="secondary" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button className="flex-1" isLoading={isSubmitting} onClick={handleSubmit}>
+          Receive Goods
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -8,14 +8,43 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 
 -- ============================================================================
--- 1. PROFILES TABLE (extends Supabase Auth users)
+-- 1. STORES TABLE
+-- ============================================================================
+CREATE TABLE stores (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  address TEXT,
+  phone TEXT,
+  is_active BOOLEAN DEFAULT true,
+  -- Receipt template
+  receipt_header TEXT,
+  receipt_footer TEXT DEFAULT 'Thank you for your purchase!',
+  receipt_width INTEGER NOT NULL DEFAULT 80 CHECK (receipt_width IN (58, 80)),
+  receipt_show_tax_breakdown BOOLEAN NOT NULL DEFAULT true,
+  receipt_show_qr_code BOOLEAN NOT NULL DEFAULT true,
+  -- Shelf prices include tax (gross pricing); tax is extracted from them
+  prices_include_tax BOOLEAN NOT NULL DEFAULT false,
+  -- IANA time zone (e.g. 'America/New_York'); the store's sales days, in the
+  -- daily_sales rollup and dashboard periods, run midnight to midnight here
+  time_zone TEXT NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_stores_is_active ON stores(is_active);
+
+ALTER TABLE stores ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 2. PROFILES TABLE (extends Supabase Auth users)
 -- ============================================================================
 CREATE TABLE profiles (
   id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
   email TEXT UNIQUE NOT NULL,
   full_name TEXT,
   role TEXT NOT NULL DEFAULT 'cashier' CHECK (role IN ('admin', 'cashier')),
-  store_id UUID,
+  store_id UUID REFERENCES stores(id) ON DELETE SET NULL,
   is_active BOOLEAN DEFAULT true,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
@@ -48,8 +77,33 @@ CREATE POLICY "Users can update their own profile"
   ON profiles FOR UPDATE
   USING (auth.uid() = id);
 
+-- Store of the signed-in user, used by store-scoped policies
+CREATE OR REPLACE FUNCTION auth_store_id()
+RETURNS UUID AS $$
+  SELECT store_id FROM profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE POLICY "Users can view their own store"
+  ON stores FOR SELECT
+  USING (
+    id = auth_store_id() OR
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can manage stores"
+  ON stores
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
 -- ============================================================================
--- 2. CATEGORIES TABLE
+-- 3. CATEGORIES TABLE
 -- ============================================================================
 CREATE TABLE categories (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -80,29 +134,124 @@ CREATE POLICY "Admins can manage categories"
   );
 
 -- ============================================================================
--- 3. PRODUCTS TABLE
+-- 4. TAX_RATES TABLE (named taxes, e.g. "State sales tax 6%")
+-- A compound rate is charged on the net amount plus the taxes applied
+-- before it in its tax class
+-- ============================================================================
+CREATE TABLE tax_rates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  rate DECIMAL(7, 4) NOT NULL CHECK (rate >= 0),
+  is_compound BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view tax rates"
+  ON tax_rates FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage tax rates"
+  ON tax_rates
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 5. TAX_CLASSES TABLE (the set of rates a product is taxed at, e.g.
+-- "Standard", "Reduced", "Zero rated")
+-- ============================================================================
+CREATE TABLE tax_classes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE tax_classes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view tax classes"
+  ON tax_classes FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage tax classes"
+  ON tax_classes
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 6. TAX_CLASS_RATES TABLE (rates in a class, applied in sort_order)
+-- ============================================================================
+CREATE TABLE tax_class_rates (
+  tax_class_id UUID NOT NULL REFERENCES tax_classes(id) ON DELETE CASCADE,
+  tax_rate_id UUID NOT NULL REFERENCES tax_rates(id) ON DELETE CASCADE,
+  sort_order INT NOT NULL DEFAULT 0,
+  PRIMARY KEY (tax_class_id, tax_rate_id)
+);
+
+ALTER TABLE tax_class_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view tax class rates"
+  ON tax_class_rates FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage tax class rates"
+  ON tax_class_rates
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 7. PRODUCTS TABLE
+-- A product with option_axes is a parent that is sold through its variants;
+-- each variant is a product of its own (SKU, price, cost, stock) pointing at
+-- the parent, with its option values in variant_options
 -- ============================================================================
 CREATE TABLE products (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   category_id UUID NOT NULL REFERENCES categories(id) ON DELETE RESTRICT,
+  parent_id UUID REFERENCES products(id) ON DELETE CASCADE,
   sku TEXT NOT NULL UNIQUE,
   name TEXT NOT NULL,
   description TEXT,
   price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
   cost DECIMAL(10, 2) NOT NULL CHECK (cost >= 0),
+  -- Products with a tax class are taxed at its rates; tax_rate is the single
+  -- rate used for products without one
   tax_rate DECIMAL(5, 2) DEFAULT 0 CHECK (tax_rate >= 0),
-  quantity_on_hand INT DEFAULT 0 CHECK (quantity_on_hand >= 0),
+  tax_class_id UUID REFERENCES tax_classes(id) ON DELETE SET NULL,
+  -- Gift cards are sold at face value (price) and hold no stock
+  is_gift_card BOOLEAN NOT NULL DEFAULT false,
   reorder_level INT DEFAULT 10,
   is_active BOOLEAN DEFAULT true,
   image_url TEXT,
+  -- Parent only: [{ "name": "Size", "values": ["Small", "Large"] }]
+  option_axes JSONB,
+  -- Variant only: { "Size": "Large" }
+  variant_options JSONB,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
 CREATE INDEX idx_products_category_id ON products(category_id);
+CREATE INDEX idx_products_parent_id ON products(parent_id);
+CREATE INDEX idx_products_tax_class_id ON products(tax_class_id);
 CREATE INDEX idx_products_sku ON products(sku);
 CREATE INDEX idx_products_is_active ON products(is_active);
-CREATE INDEX idx_products_quantity_on_hand ON products(quantity_on_hand);
 
 ALTER TABLE products ENABLE ROW LEVEL SECURITY;
 
@@ -120,33 +269,324 @@ CREATE POLICY "Admins can manage products"
   );
 
 -- ============================================================================
--- 4. ORDERS TABLE
+-- 8. PRODUCT_BARCODES TABLE (GTIN/UPC codes besides the SKU)
+-- ============================================================================
+CREATE TABLE product_barcodes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  barcode TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_product_barcodes_product_id ON product_barcodes(product_id);
+
+ALTER TABLE product_barcodes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view product barcodes"
+  ON product_barcodes FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage product barcodes"
+  ON product_barcodes
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 9. PRODUCT_STOCK TABLE (quantity on hand per store)
+-- ============================================================================
+CREATE TABLE product_stock (
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  quantity_on_hand INT NOT NULL DEFAULT 0 CHECK (quantity_on_hand >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (store_id, product_id)
+);
+
+CREATE INDEX idx_product_stock_product_id ON product_stock(product_id);
+
+ALTER TABLE product_stock ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view stock for their store"
+  ON product_stock FOR SELECT
+  USING (
+    store_id = auth_store_id() OR
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 10. MODIFIER_GROUPS TABLE (add-ons chosen on a line, e.g. "Milk", "Extras")
+-- min_select/max_select bound how many modifiers of the group a line takes;
+-- max_select NULL means no upper limit
+-- ============================================================================
+CREATE TABLE modifier_groups (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  min_select INT NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select INT CHECK (max_select IS NULL OR (max_select >= 1 AND max_select >= min_select)),
+  sort_order INT NOT NULL DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view active modifier groups"
+  ON modifier_groups FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage modifier groups"
+  ON modifier_groups
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 11. MODIFIERS TABLE
+-- A modifier can consume stock of an ingredient product (e.g. oat milk)
+-- ============================================================================
+CREATE TABLE modifiers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  group_id UUID NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Added to the line's unit price; may be negative ("no syrup")
+  price_delta DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  ingredient_product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  ingredient_quantity INT NOT NULL DEFAULT 1 CHECK (ingredient_quantity > 0),
+  sort_order INT NOT NULL DEFAULT 0,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_modifiers_group_id ON modifiers(group_id);
+
+ALTER TABLE modifiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view active modifiers"
+  ON modifiers FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage modifiers"
+  ON modifiers
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 12. MODIFIER_GROUP_LINKS TABLE (which products or categories offer a group)
+-- Variants are offered their parent product's groups
+-- ============================================================================
+CREATE TABLE modifier_group_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  group_id UUID NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK ((product_id IS NULL) <> (category_id IS NULL))
+);
+
+CREATE INDEX idx_modifier_group_links_group_id ON modifier_group_links(group_id);
+
+ALTER TABLE modifier_group_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view modifier group links"
+  ON modifier_group_links FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage modifier group links"
+  ON modifier_group_links
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 13. PROMOTIONS TABLE (discount rules applied at checkout)
+-- product_id set: applies to that product; category_id set: category-wide;
+-- neither set: order-level discount on the cart subtotal
+-- ============================================================================
+CREATE TABLE promotions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  promotion_type TEXT NOT NULL CHECK (promotion_type IN ('percentage', 'fixed_amount', 'buy_x_get_y')),
+  value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+  buy_quantity INT CHECK (buy_quantity > 0),
+  get_quantity INT CHECK (get_quantity > 0),
+  min_subtotal DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (min_subtotal >= 0),
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (product_id IS NULL OR category_id IS NULL),
+  CHECK (promotion_type <> 'percentage' OR value <= 100),
+  CHECK (promotion_type <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL))
+);
+
+CREATE INDEX idx_promotions_is_active ON promotions(is_active);
+CREATE INDEX idx_promotions_product_id ON promotions(product_id);
+CREATE INDEX idx_promotions_category_id ON promotions(category_id);
+
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view active promotions"
+  ON promotions FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage promotions"
+  ON promotions
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 14. CUSTOMERS TABLE
+-- ============================================================================
+CREATE TABLE customers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  phone TEXT,
+  email TEXT,
+  notes TEXT,
+  -- Tax-exempt customers are charged no tax at checkout
+  is_tax_exempt BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_customers_phone ON customers(phone);
+CREATE INDEX idx_customers_name ON customers(LOWER(name));
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view customers"
+  ON customers FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Staff can manage customers"
+  ON customers
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- 15. LOYALTY_RULES TABLE (how loyalty points are earned and redeemed)
+-- earn_rate: points per currency unit spent (before tax)
+-- category_multiplier: multiplies points earned on one category's lines
+-- bonus_day: multiplies all points earned on a day of the week (0 = Sunday)
+-- redeem_rate: currency value of one point when used as a tender
+-- ============================================================================
+CREATE TABLE loyalty_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('earn_rate', 'category_multiplier', 'bonus_day', 'redeem_rate')),
+  value DECIMAL(10, 4) NOT NULL CHECK (value >= 0),
+  category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+  day_of_week INT CHECK (day_of_week BETWEEN 0 AND 6),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (rule_type <> 'category_multiplier' OR category_id IS NOT NULL),
+  CHECK (rule_type <> 'bonus_day' OR day_of_week IS NOT NULL)
+);
+
+CREATE INDEX idx_loyalty_rules_is_active ON loyalty_rules(is_active);
+
+ALTER TABLE loyalty_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view active loyalty rules"
+  ON loyalty_rules FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage loyalty rules"
+  ON loyalty_rules
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 16. ORDERS TABLE
 -- ============================================================================
 CREATE TABLE orders (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
   cashier_id UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
   order_number TEXT UNIQUE NOT NULL,
-  status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'cancelled')),
+  status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'partially_refunded', 'refunded', 'cancelled')),
   subtotal DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (subtotal >= 0),
+  discount_total DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (discount_total >= 0),
   tax_total DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (tax_total >= 0),
   total DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (total >= 0),
-  payment_method TEXT NOT NULL CHECK (payment_method IN ('cash', 'card', 'mobile')),
+  -- Unpaid until checkout, so only parked (pending) carts have none
+  payment_method TEXT CHECK (payment_method IN ('cash', 'card', 'mobile', 'points', 'gift_card', 'store_credit', 'split')),
   notes TEXT,
+  -- Client-generated key; replays of the same sale return the existing order
+  idempotency_key TEXT UNIQUE,
+  -- Parked carts: a label for finding them again and when they are discarded
+  parked_label TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  -- Copied from the store: unit prices and line totals include tax
+  prices_include_tax BOOLEAN NOT NULL DEFAULT false,
+  -- When the sale happened; offline sales keep their time when they sync
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+  -- When the server recorded the order; X/Z report periods go by this so
+  -- a sale synced after a Z report closed lands in the next one.
+  -- create_order stamps it once it holds the store's report lock
+  inserted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  -- When the order was voided (server time); X/Z reports count the void then
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (status = 'pending' OR payment_method IS NOT NULL)
 );
 
+CREATE INDEX idx_orders_store_id ON orders(store_id);
 CREATE INDEX idx_orders_cashier_id ON orders(cashier_id);
+CREATE INDEX idx_orders_customer_id ON orders(customer_id);
 CREATE INDEX idx_orders_status ON orders(status);
 CREATE INDEX idx_orders_created_at ON orders(created_at);
+CREATE INDEX idx_orders_store_inserted_at ON orders(store_id, inserted_at);
+CREATE INDEX idx_orders_store_cancelled_at ON orders(store_id, cancelled_at) WHERE cancelled_at IS NOT NULL;
 CREATE INDEX idx_orders_order_number ON orders(order_number);
+CREATE INDEX idx_orders_parked ON orders(store_id, expires_at) WHERE status = 'pending';
 
 ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
 
-CREATE POLICY "Cashiers can view their own orders"
+CREATE POLICY "Cashiers can view orders from their store"
   ON orders FOR SELECT
   USING (
-    cashier_id = auth.uid() OR
+    store_id = auth_store_id() OR
     EXISTS (
       SELECT 1 FROM profiles
       WHERE id = auth.uid() AND role = 'admin'
@@ -163,7 +603,7 @@ CREATE POLICY "Admins can view all orders"
   );
 
 -- ============================================================================
--- 5. ORDER_ITEMS TABLE
+-- 17. ORDER_ITEMS TABLE
 -- ============================================================================
 CREATE TABLE order_items (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -171,8 +611,14 @@ CREATE TABLE order_items (
   product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
   quantity INT NOT NULL CHECK (quantity > 0),
   unit_price DECIMAL(10, 2) NOT NULL CHECK (unit_price >= 0),
-  tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  discount_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  promotion_id UUID REFERENCES promotions(id) ON DELETE SET NULL,
+  -- Combined rate of the line's taxes, as a percentage of its net amount
+  tax_rate DECIMAL(7, 4) NOT NULL DEFAULT 0,
   line_total DECIMAL(12, 2) NOT NULL CHECK (line_total >= 0),
+  -- Cost of one unit when sold: the product's cost plus its modifiers'
+  -- ingredients. Set at checkout; null on parked carts
+  unit_cost DECIMAL(10, 2) CHECK (unit_cost >= 0),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -187,7 +633,7 @@ CREATE POLICY "Users can view order items they have access to"
     EXISTS (
       SELECT 1 FROM orders
       WHERE orders.id = order_items.order_id AND (
-        orders.cashier_id = auth.uid() OR
+        orders.store_id = auth_store_id() OR
         EXISTS (
           SELECT 1 FROM profiles
           WHERE id = auth.uid() AND role = 'admin'
@@ -197,133 +643,2352 @@ CREATE POLICY "Users can view order items they have access to"
   );
 
 -- ============================================================================
--- 6. INVENTORY_LOGS TABLE (Audit trail)
+-- 18. ORDER_ITEM_MODIFIERS TABLE (modifiers chosen on an order line)
+-- Name and price are copied at sale time; order_items.unit_price already
+-- includes the price deltas
 -- ============================================================================
-CREATE TABLE inventory_logs (
+CREATE TABLE order_item_modifiers (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
-  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('sale', 'stock_in', 'adjustment', 'return')),
-  quantity_change INT NOT NULL,
-  reference_id UUID,
-  reference_type TEXT CHECK (reference_type IN ('order', 'manual', 'return')),
-  notes TEXT,
-  created_by UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  modifier_id UUID REFERENCES modifiers(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  price_delta DECIMAL(10, 2) NOT NULL DEFAULT 0,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
-CREATE INDEX idx_inventory_logs_product_id ON inventory_logs(product_id);
-CREATE INDEX idx_inventory_logs_created_at ON inventory_logs(created_at);
-CREATE INDEX idx_inventory_logs_transaction_type ON inventory_logs(transaction_type);
+CREATE INDEX idx_order_item_modifiers_order_item_id ON order_item_modifiers(order_item_id);
 
-ALTER TABLE inventory_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_item_modifiers ENABLE ROW LEVEL SECURITY;
 
-CREATE POLICY "Admins can view inventory logs"
-  ON inventory_logs FOR SELECT
+CREATE POLICY "Users can view order item modifiers they have access to"
+  ON order_item_modifiers FOR SELECT
   USING (
     EXISTS (
-      SELECT 1 FROM profiles
-      WHERE id = auth.uid() AND role = 'admin'
+      SELECT 1 FROM order_items
+      JOIN orders ON orders.id = order_items.order_id
+      WHERE order_items.id = order_item_modifiers.order_item_id AND (
+        orders.store_id = auth_store_id() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
     )
   );
 
 -- ============================================================================
--- 7. DAILY_SALES_SUMMARY (Materialized view for analytics)
+-- 19. ORDER_TAXES TABLE (tax charged on an order, one row per rate)
+-- Name and rate are copied at sale time
 -- ============================================================================
-CREATE TABLE daily_sales (
+CREATE TABLE order_taxes (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  sale_date DATE NOT NULL UNIQUE,
-  total_sales DECIMAL(12, 2) NOT NULL DEFAULT 0,
-  total_transactions INT NOT NULL DEFAULT 0,
-  total_items_sold INT NOT NULL DEFAULT 0,
-  avg_transaction DECIMAL(10, 2) NOT NULL DEFAULT 0,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  tax_rate_id UUID REFERENCES tax_rates(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  rate DECIMAL(7, 4) NOT NULL,
+  is_compound BOOLEAN NOT NULL DEFAULT false,
+  taxable_amount DECIMAL(12, 2) NOT NULL,
+  tax_amount DECIMAL(12, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
-CREATE INDEX idx_daily_sales_sale_date ON daily_sales(sale_date);
+CREATE INDEX idx_order_taxes_order_id ON order_taxes(order_id);
 
-ALTER TABLE daily_sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_taxes ENABLE ROW LEVEL SECURITY;
 
-CREATE POLICY "Admins can view sales"
-  ON daily_sales FOR SELECT
+CREATE POLICY "Users can view order taxes they have access to"
+  ON order_taxes FOR SELECT
   USING (
     EXISTS (
-      SELECT 1 FROM profiles
+      SELECT 1 FROM orders
+      WHERE orders.id = order_taxes.order_id AND (
+        orders.store_id = auth_store_id() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+-- ============================================================================
+-- 20. PAYMENTS TABLE (one row per tender, several per order)
+-- ============================================================================
+CREATE TABLE payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  -- Gift card tenders carry the card code in reference
+  method TEXT NOT NULL CHECK (method IN ('cash', 'card', 'mobile', 'points', 'gift_card', 'store_credit')),
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  tendered_amount DECIMAL(12, 2) CHECK (tendered_amount >= amount),
+  reference TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_payments_order_id ON payments(order_id);
+CREATE INDEX idx_payments_method ON payments(method);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payments they have access to"
+  ON payments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id AND (
+        orders.store_id = auth_store_id() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+-- ============================================================================
+-- 21. INVENTORY_LOGS TABLE (Audit trail)
+-- ============================================================================
+CREATE TABLE inventory_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('sale', 'stock_in', 'adjustment', 'return')),
+  quantity_change INT NOT NULL,
+  reference_id UUID,
+  reference_type TEXT CHECK (reference_type IN ('order', 'manual', 'return', 'purchase_order', 'stock_count')),
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_inventory_logs_store_id ON inventory_logs(store_id);
+CREATE INDEX idx_inventory_logs_product_id ON inventory_logs(product_id);
+CREATE INDEX idx_inventory_logs_created_at ON inventory_logs(created_at);
+CREATE INDEX idx_inventory_logs_transaction_type ON inventory_logs(transaction_type);
+
+ALTER TABLE inventory_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view inventory logs"
+  ON inventory_logs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 22. LOYALTY_LEDGER TABLE (append-only; a balance is the sum of its entries)
+-- ============================================================================
+CREATE TABLE loyalty_ledger (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('earn', 'redeem', 'reversal', 'adjustment')),
+  points INT NOT NULL CHECK (points <> 0),
+  order_id UUID REFERENCES orders(id) ON DELETE RESTRICT,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_loyalty_ledger_customer_id ON loyalty_ledger(customer_id);
+CREATE INDEX idx_loyalty_ledger_order_id ON loyalty_ledger(order_id);
+CREATE INDEX idx_loyalty_ledger_created_at ON loyalty_ledger(created_at);
+
+ALTER TABLE loyalty_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view loyalty ledger"
+  ON loyalty_ledger FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- 23. DAILY_SALES_SUMMARY (per-store daily rollup of sales for analytics;
+-- kept up to date by the orders_refresh_daily_sales trigger)
+-- ============================================================================
+CREATE TABLE daily_sales (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  -- Day the orders were placed, in the store's time zone
+  sale_date DATE NOT NULL,
+  total_sales DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  total_transactions INT NOT NULL DEFAULT 0,
+  total_items_sold INT NOT NULL DEFAULT 0,
+  avg_transaction DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(store_id, sale_date)
+);
+
+CREATE INDEX idx_daily_sales_sale_date ON daily_sales(sale_date);
+
+ALTER TABLE daily_sales ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sales"
+  ON daily_sales FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 24. CASH_SESSIONS TABLE (cash drawer open/close per cashier)
+-- ============================================================================
+CREATE TABLE cash_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  cashier_id UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opening_float DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  expected_amount DECIMAL(12, 2),
+  counted_amount DECIMAL(12, 2) CHECK (counted_amount >= 0),
+  over_short DECIMAL(12, 2),
+  notes TEXT,
+  opened_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_cash_sessions_cashier_id ON cash_sessions(cashier_id);
+CREATE INDEX idx_cash_sessions_opened_at ON cash_sessions(opened_at);
+-- Only one open drawer per cashier
+CREATE UNIQUE INDEX idx_cash_sessions_one_open ON cash_sessions(cashier_id) WHERE status = 'open';
+
+ALTER TABLE cash_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Cashiers can view their own cash sessions"
+  ON cash_sessions FOR SELECT
+  USING (
+    cashier_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 25. CASH_MOVEMENTS TABLE (pay-ins and pay-outs during a session)
+-- ============================================================================
+CREATE TABLE cash_movements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES cash_sessions(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('pay_in', 'pay_out')),
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_cash_movements_session_id ON cash_movements(session_id);
+
+ALTER TABLE cash_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view cash movements they have access to"
+  ON cash_movements FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM cash_sessions
+      WHERE cash_sessions.id = cash_movements.session_id AND (
+        cash_sessions.cashier_id = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+-- ============================================================================
+-- 26. RETURNS TABLE (refunds against an existing order)
+-- ============================================================================
+CREATE TABLE returns (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE RESTRICT,
+  processed_by UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  reason TEXT NOT NULL,
+  refund_method TEXT NOT NULL CHECK (refund_method IN ('cash', 'card', 'mobile', 'store_credit')),
+  refund_total DECIMAL(12, 2) NOT NULL CHECK (refund_total >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_returns_order_id ON returns(order_id);
+CREATE INDEX idx_returns_processed_by ON returns(processed_by);
+CREATE INDEX idx_returns_created_at ON returns(created_at);
+
+ALTER TABLE returns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view returns they have access to"
+  ON returns FOR SELECT
+  USING (
+    processed_by = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 27. RETURN_ITEMS TABLE
+-- ============================================================================
+CREATE TABLE return_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  return_id UUID NOT NULL REFERENCES returns(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE RESTRICT,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  quantity INT NOT NULL CHECK (quantity > 0),
+  refund_amount DECIMAL(12, 2) NOT NULL CHECK (refund_amount >= 0),
+  restock BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_return_items_return_id ON return_items(return_id);
+CREATE INDEX idx_return_items_order_item_id ON return_items(order_item_id);
+
+ALTER TABLE return_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view return items they have access to"
+  ON return_items FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM returns
+      WHERE returns.id = return_items.return_id AND (
+        returns.processed_by = auth.uid() OR
+        EXISTS (
+          SELECT 1 FROM profiles
+          WHERE id = auth.uid() AND role = 'admin'
+        )
+      )
+    )
+  );
+
+-- ============================================================================
+-- 28. GIFT_CARDS TABLE (gift cards and customer store credit accounts)
+-- A customer has at most one store credit account; it is used through the
+-- customer rather than its code
+-- ============================================================================
+CREATE TABLE gift_cards (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code TEXT NOT NULL UNIQUE,
+  customer_id UUID REFERENCES customers(id) ON DELETE RESTRICT,
+  is_store_credit BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (NOT is_store_credit OR customer_id IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX idx_gift_cards_store_credit ON gift_cards(customer_id) WHERE is_store_credit;
+
+ALTER TABLE gift_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view gift cards"
+  ON gift_cards FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage gift cards"
+  ON gift_cards
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 29. GIFT_CARD_LEDGER TABLE (append-only; a balance is the sum of its entries)
+-- ============================================================================
+CREATE TABLE gift_card_ledger (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  gift_card_id UUID NOT NULL REFERENCES gift_cards(id) ON DELETE RESTRICT,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('issue', 'reload', 'redeem', 'refund', 'reversal', 'adjustment')),
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount <> 0),
+  order_id UUID REFERENCES orders(id) ON DELETE RESTRICT,
+  -- The gift card line that issued or reloaded the card
+  order_item_id UUID REFERENCES order_items(id) ON DELETE RESTRICT,
+  return_id UUID REFERENCES returns(id) ON DELETE RESTRICT,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_gift_card_ledger_gift_card_id ON gift_card_ledger(gift_card_id);
+CREATE INDEX idx_gift_card_ledger_order_id ON gift_card_ledger(order_id);
+CREATE INDEX idx_gift_card_ledger_order_item_id ON gift_card_ledger(order_item_id);
+
+ALTER TABLE gift_card_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view gift card ledger"
+  ON gift_card_ledger FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- 30. API_TOKENS TABLE (bearer tokens for the /api/v1 REST API)
+-- ============================================================================
+CREATE TABLE api_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  -- SHA-256 of the secret; the secret itself is only shown once
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  -- Profile the token acts as (orders are recorded against this cashier)
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  -- When set, the token can only read and write this store's data
+  store_id UUID REFERENCES stores(id) ON DELETE CASCADE,
+  scopes TEXT[] NOT NULL DEFAULT ARRAY['read'] CHECK (scopes <@ ARRAY['read', 'write']),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_api_tokens_user_id ON api_tokens(user_id);
+
+ALTER TABLE api_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage API tokens"
+  ON api_tokens
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 31. SUPPLIERS TABLE
+-- ============================================================================
+CREATE TABLE suppliers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE,
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  notes TEXT,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_suppliers_is_active ON suppliers(is_active);
+
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage suppliers"
+  ON suppliers
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 32. PURCHASE_ORDERS TABLE (stock ordered from a supplier for one store)
+-- draft -> sent -> partially_received -> received -> closed; a PO can be
+-- closed early when the rest of the order will not arrive
+-- ============================================================================
+CREATE TABLE purchase_orders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  po_number TEXT UNIQUE NOT NULL,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'closed')),
+  expected_at DATE,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_purchase_orders_store_id ON purchase_orders(store_id);
+CREATE INDEX idx_purchase_orders_supplier_id ON purchase_orders(supplier_id);
+CREATE INDEX idx_purchase_orders_status ON purchase_orders(status);
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage purchase orders"
+  ON purchase_orders
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 33. PURCHASE_ORDER_LINES TABLE
+-- ============================================================================
+CREATE TABLE purchase_order_lines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  quantity_ordered INT NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INT NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  -- Agreed cost when ordered, and the actual cost of the latest delivery
+  unit_cost DECIMAL(10, 2) NOT NULL CHECK (unit_cost >= 0),
+  received_unit_cost DECIMAL(10, 2) CHECK (received_unit_cost >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(purchase_order_id, product_id),
+  CHECK (quantity_received <= quantity_ordered)
+);
+
+CREATE INDEX idx_purchase_order_lines_purchase_order_id ON purchase_order_lines(purchase_order_id);
+CREATE INDEX idx_purchase_order_lines_product_id ON purchase_order_lines(product_id);
+
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage purchase order lines"
+  ON purchase_order_lines
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
       WHERE id = auth.uid() AND role = 'admin'
     )
   );
 
 -- ============================================================================
--- TRIGGERS & FUNCTIONS
+-- 34. STOCK_COUNTS TABLE (stock take / cycle count sessions for one store)
+-- counting -> submitted -> approved; blind counts hide expected quantities
+-- from counters until the count is submitted
+-- ============================================================================
+CREATE TABLE stock_counts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  count_number TEXT UNIQUE NOT NULL,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  -- NULL for a full count of every active product
+  category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'submitted', 'approved', 'cancelled')),
+  is_blind BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  approved_by UUID REFERENCES profiles(id) ON DELETE RESTRICT,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_stock_counts_store_id ON stock_counts(store_id);
+CREATE INDEX idx_stock_counts_status ON stock_counts(status);
+
+ALTER TABLE stock_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage stock counts"
+  ON stock_counts
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 35. STOCK_COUNT_LINES TABLE
+-- Expected quantity and unit cost are snapshots taken when the count starts
+-- ============================================================================
+CREATE TABLE stock_count_lines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  stock_count_id UUID NOT NULL REFERENCES stock_counts(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  expected_quantity INT NOT NULL,
+  -- NULL until counted; uncounted lines are left alone on approval
+  counted_quantity INT CHECK (counted_quantity >= 0),
+  unit_cost DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  counted_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE(stock_count_id, product_id)
+);
+
+CREATE INDEX idx_stock_count_lines_stock_count_id ON stock_count_lines(stock_count_id);
+
+ALTER TABLE stock_count_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage stock count lines"
+  ON stock_count_lines
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- ============================================================================
+-- 36. Z_REPORTS TABLE (end-of-day sales reports, numbered per store)
+-- Immutable once closed; each report starts where the store's last one ended
+-- ============================================================================
+CREATE TABLE z_reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE RESTRICT,
+  report_number INT NOT NULL CHECK (report_number > 0),
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- The report as built at closing (SalesReport in lib/types), kept for reprints
+  report JSONB NOT NULL,
+  net_sales DECIMAL(12, 2) NOT NULL,
+  order_count INT NOT NULL,
+  closed_by UUID NOT NULL REFERENCES profiles(id) ON DELETE RESTRICT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(store_id, report_number),
+  CHECK (period_end > period_start)
+);
+
+CREATE INDEX idx_z_reports_store_id ON z_reports(store_id);
+
+ALTER TABLE z_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view their store's Z reports"
+  ON z_reports FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND (role = 'admin' OR store_id = z_reports.store_id)
+    )
+  );
+
+-- ============================================================================
+-- TRIGGERS & FUNCTIONS
+-- ============================================================================
+
+-- Update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = CURRENT_TIMESTAMP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_stores_updated_at BEFORE UPDATE ON stores
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_product_stock_updated_at BEFORE UPDATE ON product_stock
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_profiles_updated_at BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_categories_updated_at BEFORE UPDATE ON categories
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_tax_rates_updated_at BEFORE UPDATE ON tax_rates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_tax_classes_updated_at BEFORE UPDATE ON tax_classes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_products_updated_at BEFORE UPDATE ON products
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_modifier_groups_updated_at BEFORE UPDATE ON modifier_groups
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_promotions_updated_at BEFORE UPDATE ON promotions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_customers_updated_at BEFORE UPDATE ON customers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_loyalty_rules_updated_at BEFORE UPDATE ON loyalty_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_orders_updated_at BEFORE UPDATE ON orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_daily_sales_updated_at BEFORE UPDATE ON daily_sales
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_cash_sessions_updated_at BEFORE UPDATE ON cash_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON suppliers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_stock_counts_updated_at BEFORE UPDATE ON stock_counts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_gift_cards_updated_at BEFORE UPDATE ON gift_cards
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Closed Z reports are a permanent record
+CREATE OR REPLACE FUNCTION prevent_z_report_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Z reports cannot be changed or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER z_reports_immutable BEFORE UPDATE OR DELETE ON z_reports
+  FOR EACH ROW EXECUTE FUNCTION prevent_z_report_changes();
+
+-- Keep the daily_sales rollup in step with orders. Deferred to the end of
+-- the transaction so checkout has inserted the order's items by then
+CREATE OR REPLACE FUNCTION refresh_daily_sales_for_order()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_daily_sales(OLD.store_id, store_sale_date(OLD.store_id, OLD.created_at));
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_daily_sales(NEW.store_id, store_sale_date(NEW.store_id, NEW.created_at));
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE CONSTRAINT TRIGGER orders_refresh_daily_sales
+  AFTER INSERT OR UPDATE OF status, total, store_id, created_at OR DELETE ON orders
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION refresh_daily_sales_for_order();
+
+-- ============================================================================
+-- FUNCTION: Generate unique order numbers
+-- ============================================================================
+CREATE OR REPLACE FUNCTION generate_order_number()
+RETURNS TEXT AS $$
+BEGIN
+  RETURN 'ORD-' || TO_CHAR(CURRENT_TIMESTAMP, 'YYYYMMDD-HH24MISS-') || LPAD(FLOOR(RANDOM() * 10000)::TEXT, 4, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- FUNCTION: Stock a cart needs
+-- Quantity per product for a checkout's items (create_order p_items),
+-- including ingredient stock consumed by the lines' modifiers. Gift cards
+-- hold no stock
+-- ============================================================================
+CREATE OR REPLACE FUNCTION order_stock_demand(p_items JSONB)
+RETURNS TABLE (product_id UUID, quantity BIGINT) AS $$
+  SELECT demand.product_id, SUM(demand.quantity)
+  FROM (
+    SELECT (item.value->>'product_id')::UUID AS product_id,
+           (item.value->>'quantity')::INT AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    WHERE NOT EXISTS (
+      SELECT 1 FROM products p
+      WHERE p.id = (item.value->>'product_id')::UUID AND p.is_gift_card
+    )
+    UNION ALL
+    SELECT m.ingredient_product_id,
+           (item.value->>'quantity')::INT * m.ingredient_quantity
+    FROM jsonb_array_elements(p_items) AS item
+    CROSS JOIN jsonb_array_elements(COALESCE(item.value->'modifiers', '[]'::JSONB)) AS chosen
+    JOIN modifiers m ON m.id = (chosen.value->>'modifier_id')::UUID
+    WHERE m.ingredient_product_id IS NOT NULL
+  ) AS demand
+  GROUP BY demand.product_id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Gift card balance
+-- Sum of the card's ledger entries
+-- ============================================================================
+CREATE OR REPLACE FUNCTION gift_card_balance(p_gift_card_id UUID)
+RETURNS DECIMAL(12, 2) AS $$
+  SELECT COALESCE(SUM(amount), 0) FROM gift_card_ledger WHERE gift_card_id = p_gift_card_id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Gift card balance column
+-- Lets API queries select `balance` on gift_cards rows (a PostgREST
+-- computed field), so balances are summed here rather than from ledger rows
+-- ============================================================================
+CREATE OR REPLACE FUNCTION balance(gift_cards)
+RETURNS DECIMAL(12, 2) AS $$
+  SELECT gift_card_balance($1.id);
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Loyalty points balance
+-- Sum of the customer's ledger entries
+-- ============================================================================
+CREATE OR REPLACE FUNCTION loyalty_balance(p_customer_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(points), 0)::INTEGER FROM loyalty_ledger WHERE customer_id = p_customer_id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Atomic checkout
+-- Locks the cart's stock rows in the selling store, validates stock and
+-- writes the order, its items and their modifiers, its payment tenders, its
+-- per-rate taxes, the stock decrement (including modifier ingredients) and
+-- the inventory logs in one transaction. Gift card and store credit tenders
+-- are checked against and taken off their balances, and gift cards sold are
+-- issued (codes come with the line, one per unit) or reloaded.
+-- A repeated idempotency key returns the order already created for it, so
+-- offline sales can be replayed safely; when two replays of the same sale
+-- race, the loser's work is rolled back and it returns the winner's order.
+-- The store row is held shared until commit, so a Z report closing meanwhile
+-- waits for the order and counts it.
+-- Returns the created order with its items, payments and taxes as JSON.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION create_order(
+  p_store_id UUID,
+  p_cashier_id UUID,
+  p_order_number TEXT,
+  p_subtotal DECIMAL(12, 2),
+  p_discount_total DECIMAL(12, 2),
+  p_tax_total DECIMAL(12, 2),
+  p_total DECIMAL(12, 2),
+  p_items JSONB,
+  p_payments JSONB,
+  p_notes TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL,
+  p_points_earned INT DEFAULT 0,
+  p_points_redeemed INT DEFAULT 0,
+  p_prices_include_tax BOOLEAN DEFAULT false,
+  p_taxes JSONB DEFAULT '[]'::JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_line RECORD;
+  v_item RECORD;
+  v_order_item_id UUID;
+  v_payment_method TEXT;
+  v_points_balance INT;
+  v_tender RECORD;
+  v_gift_card gift_cards%ROWTYPE;
+  v_code TEXT;
+BEGIN
+  -- Replayed request: hand back the order it already created
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_order FROM orders WHERE idempotency_key = p_idempotency_key;
+    IF FOUND THEN
+      RETURN to_jsonb(v_order) || jsonb_build_object(
+        'items',
+        (SELECT jsonb_agg(to_jsonb(oi)) FROM order_items oi WHERE oi.order_id = v_order.id),
+        'payments',
+        (SELECT jsonb_agg(to_jsonb(pm)) FROM payments pm WHERE pm.order_id = v_order.id),
+        'taxes',
+        (SELECT jsonb_agg(to_jsonb(ot)) FROM order_taxes ot WHERE ot.order_id = v_order.id)
+      );
+    END IF;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'At least one payment is required';
+  END IF;
+
+  IF (SELECT SUM((value->>'amount')::DECIMAL(12, 2)) FROM jsonb_array_elements(p_payments)) <> p_total THEN
+    RAISE EXCEPTION 'Payments do not add up to the order total';
+  END IF;
+
+  -- A single tender keeps its method on the order, several are a split
+  SELECT CASE WHEN COUNT(DISTINCT value->>'method') = 1 THEN MIN(value->>'method') ELSE 'split' END
+  INTO v_payment_method
+  FROM jsonb_array_elements(p_payments);
+
+  -- Cashiers can only sell from their own store
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_cashier_id AND (store_id = p_store_id OR role = 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Cashier is not assigned to this store';
+  END IF;
+
+  -- Points can only be spent by the customer on the order, up to their
+  -- balance; the customer row is locked so concurrent redemptions queue
+  IF p_points_redeemed > 0 THEN
+    IF p_customer_id IS NULL THEN
+      RAISE EXCEPTION 'A customer is required to redeem loyalty points';
+    END IF;
+
+    PERFORM 1 FROM customers WHERE id = p_customer_id FOR UPDATE;
+
+    v_points_balance := loyalty_balance(p_customer_id);
+
+    IF v_points_balance < p_points_redeemed THEN
+      RAISE EXCEPTION 'Insufficient loyalty points (balance: %)', v_points_balance;
+    END IF;
+  END IF;
+
+  -- Gift card and store credit tenders are checked against the card's
+  -- balance; cards are locked in code order so concurrent redemptions queue
+  FOR v_tender IN
+    SELECT value->>'method' AS method, value->>'reference' AS code,
+           SUM((value->>'amount')::DECIMAL(12, 2)) AS amount
+    FROM jsonb_array_elements(p_payments)
+    WHERE value->>'method' IN ('gift_card', 'store_credit')
+    GROUP BY 1, 2
+    ORDER BY 2
+  LOOP
+    IF v_tender.method = 'store_credit' THEN
+      IF p_customer_id IS NULL THEN
+        RAISE EXCEPTION 'A customer is required to pay with store credit';
+      END IF;
+
+      SELECT * INTO v_gift_card FROM gift_cards
+      WHERE customer_id = p_customer_id AND is_store_credit
+      FOR UPDATE;
+    ELSE
+      SELECT * INTO v_gift_card FROM gift_cards
+      WHERE code = v_tender.code AND NOT is_store_credit
+      FOR UPDATE;
+    END IF;
+
+    IF NOT FOUND OR NOT v_gift_card.is_active THEN
+      RAISE EXCEPTION 'Gift card not found or inactive: %', COALESCE(v_tender.code, 'store credit');
+    END IF;
+
+    IF gift_card_balance(v_gift_card.id) < v_tender.amount THEN
+      RAISE EXCEPTION 'Insufficient balance on % (balance: %)',
+        COALESCE(v_tender.code, 'store credit'), gift_card_balance(v_gift_card.id);
+    END IF;
+  END LOOP;
+
+  -- Checkouts share the store's report lock; close_z_report takes it
+  -- exclusively, so inserted_at (stamped after this) never falls inside a
+  -- period that has already been closed
+  PERFORM 1 FROM stores WHERE id = p_store_id FOR SHARE;
+
+  -- Lock the store's stock for every product in the cart (and every
+  -- modifier ingredient), in product order so that concurrent checkouts
+  -- queue behind each other instead of deadlocking
+  PERFORM 1 FROM product_stock
+  WHERE store_id = p_store_id AND product_id IN (
+    SELECT product_id FROM order_stock_demand(p_items)
+  )
+  ORDER BY product_id
+  FOR UPDATE;
+
+  -- Validate stock against the locked rows
+  FOR v_line IN
+    SELECT product_id, quantity FROM order_stock_demand(p_items)
+  LOOP
+    IF NOT EXISTS (SELECT 1 FROM products WHERE id = v_line.product_id) THEN
+      RAISE EXCEPTION 'Product not found: %', v_line.product_id;
+    END IF;
+
+    IF COALESCE(
+      (SELECT quantity_on_hand FROM product_stock WHERE store_id = p_store_id AND product_id = v_line.product_id),
+      0
+    ) < v_line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for product: %',
+        (SELECT name FROM products WHERE id = v_line.product_id);
+    END IF;
+  END LOOP;
+
+  -- Create order
+  INSERT INTO orders (store_id, cashier_id, customer_id, order_number, status, subtotal, discount_total, tax_total, total, payment_method, notes, idempotency_key, prices_include_tax, created_at, inserted_at)
+  VALUES (p_store_id, p_cashier_id, p_customer_id, p_order_number, 'completed', p_subtotal, p_discount_total, p_tax_total, p_total, v_payment_method, p_notes,
+          p_idempotency_key, p_prices_include_tax, COALESCE(p_created_at, CURRENT_TIMESTAMP), clock_timestamp())
+  RETURNING * INTO v_order;
+
+  -- Tax charged, per rate
+  INSERT INTO order_taxes (order_id, tax_rate_id, name, rate, is_compound, taxable_amount, tax_amount)
+  SELECT v_order.id, tax_rate_id, name, rate, is_compound, taxable_amount, tax_amount
+  FROM jsonb_to_recordset(COALESCE(p_taxes, '[]'::JSONB)) AS x(
+    tax_rate_id UUID,
+    name TEXT,
+    rate DECIMAL(7, 4),
+    is_compound BOOLEAN,
+    taxable_amount DECIMAL(12, 2),
+    tax_amount DECIMAL(12, 2)
+  );
+
+  -- Record payment tenders
+  INSERT INTO payments (order_id, method, amount, tendered_amount, reference)
+  SELECT v_order.id, method, amount, tendered_amount, reference
+  FROM jsonb_to_recordset(p_payments) AS x(
+    method TEXT,
+    amount DECIMAL(12, 2),
+    tendered_amount DECIMAL(12, 2),
+    reference TEXT
+  );
+
+  -- Spend gift card and store credit balances
+  INSERT INTO gift_card_ledger (gift_card_id, entry_type, amount, order_id, created_by)
+  SELECT gc.id, 'redeem', -SUM(pm.amount), v_order.id, p_cashier_id
+  FROM payments pm
+  JOIN gift_cards gc
+    ON (pm.method = 'gift_card' AND gc.code = pm.reference AND NOT gc.is_store_credit)
+    OR (pm.method = 'store_credit' AND gc.customer_id = p_customer_id AND gc.is_store_credit)
+  WHERE pm.order_id = v_order.id
+  GROUP BY gc.id;
+
+  -- Create order items and the modifiers chosen on each, issuing or
+  -- reloading gift cards sold. Unit cost is copied from the product (and
+  -- its modifiers' ingredients) so later cost changes leave margins alone
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, discount_amount, promotion_id, tax_rate, line_total, unit_cost)
+    VALUES (
+      v_order.id,
+      (v_item.value->>'product_id')::UUID,
+      (v_item.value->>'quantity')::INT,
+      (v_item.value->>'unit_price')::DECIMAL(10, 2),
+      COALESCE((v_item.value->>'discount_amount')::DECIMAL(12, 2), 0),
+      (v_item.value->>'promotion_id')::UUID,
+      (v_item.value->>'tax_rate')::DECIMAL(7, 4),
+      (v_item.value->>'line_total')::DECIMAL(12, 2),
+      (SELECT cost FROM products WHERE id = (v_item.value->>'product_id')::UUID) +
+      COALESCE((
+        SELECT SUM(ingredient.cost * m.ingredient_quantity)
+        FROM jsonb_array_elements(COALESCE(v_item.value->'modifiers', '[]'::JSONB)) AS chosen
+        JOIN modifiers m ON m.id = (chosen.value->>'modifier_id')::UUID
+        JOIN products ingredient ON ingredient.id = m.ingredient_product_id
+      ), 0)
+    )
+    RETURNING id INTO v_order_item_id;
+
+    INSERT INTO order_item_modifiers (order_item_id, modifier_id, name, price_delta)
+    SELECT v_order_item_id, modifier_id, name, price_delta
+    FROM jsonb_to_recordset(COALESCE(v_item.value->'modifiers', '[]'::JSONB)) AS x(
+      modifier_id UUID,
+      name TEXT,
+      price_delta DECIMAL(10, 2)
+    );
+
+    IF (SELECT is_gift_card FROM products WHERE id = (v_item.value->>'product_id')::UUID) THEN
+      IF v_item.value ? 'gift_card_code' THEN
+        SELECT * INTO v_gift_card FROM gift_cards
+        WHERE code = v_item.value->>'gift_card_code' AND NOT is_store_credit
+        FOR UPDATE;
+
+        IF NOT FOUND OR NOT v_gift_card.is_active THEN
+          RAISE EXCEPTION 'Gift card not found or inactive: %', v_item.value->>'gift_card_code';
+        END IF;
+
+        INSERT INTO gift_card_ledger (gift_card_id, entry_type, amount, order_id, order_item_id, created_by)
+        VALUES (v_gift_card.id, 'reload',
+                (v_item.value->>'unit_price')::DECIMAL(10, 2) * (v_item.value->>'quantity')::INT,
+                v_order.id, v_order_item_id, p_cashier_id);
+      ELSE
+        IF jsonb_array_length(COALESCE(v_item.value->'gift_card_codes', '[]'::JSONB)) <> (v_item.value->>'quantity')::INT THEN
+          RAISE EXCEPTION 'A code is required for each gift card sold';
+        END IF;
+
+        FOR v_code IN
+          SELECT jsonb_array_elements_text(v_item.value->'gift_card_codes')
+        LOOP
+          INSERT INTO gift_cards (code) VALUES (v_code)
+          RETURNING * INTO v_gift_card;
+
+          INSERT INTO gift_card_ledger (gift_card_id, entry_type, amount, order_id, order_item_id, created_by)
+          VALUES (v_gift_card.id, 'issue', (v_item.value->>'unit_price')::DECIMAL(10, 2),
+                  v_order.id, v_order_item_id, p_cashier_id);
+        END LOOP;
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- Reduce inventory (items and modifier ingredients) and log each sale
+  FOR v_line IN
+    SELECT product_id, quantity FROM order_stock_demand(p_items)
+  LOOP
+    UPDATE product_stock SET quantity_on_hand = quantity_on_hand - v_line.quantity
+    WHERE store_id = p_store_id AND product_id = v_line.product_id;
+
+    INSERT INTO inventory_logs (store_id, product_id, transaction_type, quantity_change, reference_id, reference_type, created_by)
+    VALUES (p_store_id, v_line.product_id, 'sale', -v_line.quantity, v_order.id, 'order', p_cashier_id);
+  END LOOP;
+
+  -- Loyalty points spent and earned on this order
+  IF p_customer_id IS NOT NULL AND p_points_redeemed > 0 THEN
+    INSERT INTO loyalty_ledger (customer_id, entry_type, points, order_id, created_by)
+    VALUES (p_customer_id, 'redeem', -p_points_redeemed, v_order.id, p_cashier_id);
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND p_points_earned > 0 THEN
+    INSERT INTO loyalty_ledger (customer_id, entry_type, points, order_id, created_by)
+    VALUES (p_customer_id, 'earn', p_points_earned, v_order.id, p_cashier_id);
+  END IF;
+
+  RETURN to_jsonb(v_order) || jsonb_build_object(
+    'items',
+    (SELECT jsonb_agg(to_jsonb(oi)) FROM order_items oi WHERE oi.order_id = v_order.id),
+    'payments',
+    (SELECT jsonb_agg(to_jsonb(pm)) FROM payments pm WHERE pm.order_id = v_order.id),
+    'taxes',
+    (SELECT jsonb_agg(to_jsonb(ot)) FROM order_taxes ot WHERE ot.order_id = v_order.id)
+  );
+EXCEPTION
+  -- A concurrent replay inserted the same idempotency key first; everything
+  -- above is rolled back, so hand back the order it committed
+  WHEN unique_violation THEN
+    IF p_idempotency_key IS NOT NULL THEN
+      SELECT * INTO v_order FROM orders WHERE idempotency_key = p_idempotency_key;
+      IF FOUND THEN
+        RETURN to_jsonb(v_order) || jsonb_build_object(
+          'items',
+          (SELECT jsonb_agg(to_jsonb(oi)) FROM order_items oi WHERE oi.order_id = v_order.id),
+          'payments',
+          (SELECT jsonb_agg(to_jsonb(pm)) FROM payments pm WHERE pm.order_id = v_order.id),
+          'taxes',
+          (SELECT jsonb_agg(to_jsonb(ot)) FROM order_taxes ot WHERE ot.order_id = v_order.id)
+        );
+      END IF;
+    END IF;
+    RAISE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- FUNCTION: Process a return
+-- Refunds selected order items, optionally puts the stock back on the shelf
+-- and moves the order to partially_refunded / refunded in one transaction.
+-- Refunds to store credit are added to the order customer's store credit
+-- account, which is opened on first use. Gift cards cannot be returned.
+-- Holds the store's report lock like create_order, so the refund is dated
+-- inside the X/Z report period it is counted in.
+-- Returns the created return with its items as JSON.
 -- ============================================================================
+CREATE OR REPLACE FUNCTION process_return(
+  p_order_id UUID,
+  p_processed_by UUID,
+  p_reason TEXT,
+  p_refund_method TEXT,
+  p_items JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_return returns%ROWTYPE;
+  v_line RECORD;
+  v_returned INT;
+  v_refund_total DECIMAL(12, 2) := 0;
+  v_refund_amount DECIMAL(12, 2);
+  v_gift_card gift_cards%ROWTYPE;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'No items selected for return';
+  END IF;
 
--- Update updated_at timestamp
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
+  IF p_reason IS NULL OR LENGTH(TRIM(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A return reason is required';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found: %', p_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('completed', 'partially_refunded') THEN
+    RAISE EXCEPTION 'Order % cannot be returned (status: %)', v_order.order_number, v_order.status;
+  END IF;
+
+  IF p_refund_method = 'store_credit' AND v_order.customer_id IS NULL THEN
+    RAISE EXCEPTION 'Store credit refunds need a customer on the order';
+  END IF;
+
+  PERFORM 1 FROM stores WHERE id = v_order.store_id FOR SHARE;
+
+  INSERT INTO returns (order_id, processed_by, reason, refund_method, refund_total, created_at)
+  VALUES (p_order_id, p_processed_by, TRIM(p_reason), p_refund_method, 0, clock_timestamp())
+  RETURNING * INTO v_return;
+
+  FOR v_line IN
+    SELECT oi.id AS order_item_id, oi.product_id, oi.quantity AS sold, oi.line_total,
+           x.quantity, COALESCE(x.restock, true) AS restock, p.is_gift_card
+    FROM jsonb_to_recordset(p_items) AS x(order_item_id UUID, quantity INT, restock BOOLEAN)
+    LEFT JOIN order_items oi ON oi.id = x.order_item_id AND oi.order_id = p_order_id
+    LEFT JOIN products p ON p.id = oi.product_id
+  LOOP
+    IF v_line.order_item_id IS NULL THEN
+      RAISE EXCEPTION 'Item does not belong to order %', v_order.order_number;
+    END IF;
+
+    IF v_line.is_gift_card THEN
+      RAISE EXCEPTION 'Gift cards cannot be returned';
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Return quantity must be greater than zero';
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_returned
+    FROM return_items WHERE order_item_id = v_line.order_item_id;
+
+    IF v_returned + v_line.quantity > v_line.sold THEN
+      RAISE EXCEPTION 'Cannot return % of item % (% sold, % already returned)',
+        v_line.quantity, v_line.order_item_id, v_line.sold, v_returned;
+    END IF;
+
+    -- Refund the proportional share of the line, tax included
+    v_refund_amount := ROUND(v_line.line_total * v_line.quantity / v_line.sold, 2);
+    v_refund_total := v_refund_total + v_refund_amount;
+
+    INSERT INTO return_items (return_id, order_item_id, product_id, quantity, refund_amount, restock)
+    VALUES (v_return.id, v_line.order_item_id, v_line.product_id, v_line.quantity, v_refund_amount, v_line.restock);
+
+    IF v_line.restock THEN
+      INSERT INTO product_stock (store_id, product_id, quantity_on_hand)
+      VALUES (v_order.store_id, v_line.product_id, v_line.quantity)
+      ON CONFLICT (store_id, product_id)
+      DO UPDATE SET quantity_on_hand = product_stock.quantity_on_hand + EXCLUDED.quantity_on_hand;
+
+      INSERT INTO inventory_logs (store_id, product_id, transaction_type, quantity_change, reference_id, reference_type, notes, created_by)
+      VALUES (v_order.store_id, v_line.product_id, 'return', v_line.quantity, v_return.id, 'return',
+              'Return on order ' || v_order.order_number || ': ' || TRIM(p_reason), p_processed_by);
+    END IF;
+  END LOOP;
+
+  UPDATE returns SET refund_total = v_refund_total
+  WHERE id = v_return.id
+  RETURNING * INTO v_return;
+
+  IF p_refund_method = 'store_credit' AND v_refund_total > 0 THEN
+    INSERT INTO gift_cards (code, customer_id, is_store_credit)
+    VALUES ('SC-' || UPPER(SUBSTR(REPLACE(uuid_generate_v4()::TEXT, '-', ''), 1, 12)), v_order.customer_id, true)
+    ON CONFLICT (customer_id) WHERE is_store_credit DO NOTHING;
+
+    SELECT * INTO v_gift_card FROM gift_cards
+    WHERE customer_id = v_order.customer_id AND is_store_credit
+    FOR UPDATE;
+
+    INSERT INTO gift_card_ledger (gift_card_id, entry_type, amount, order_id, return_id, notes, created_by)
+    VALUES (v_gift_card.id, 'refund', v_refund_total, p_order_id, v_return.id,
+            'Return on order ' || v_order.order_number, p_processed_by);
+  END IF;
+
+  -- Fully refunded once every unit sold has come back
+  UPDATE orders SET status = CASE
+    WHEN (SELECT SUM(quantity) FROM order_items WHERE order_id = p_order_id) =
+         (SELECT SUM(ri.quantity) FROM return_items ri JOIN returns r ON r.id = ri.return_id WHERE r.order_id = p_order_id)
+    THEN 'refunded'
+    ELSE 'partially_refunded'
+  END
+  WHERE id = p_order_id;
+
+  RETURN to_jsonb(v_return) || jsonb_build_object(
+    'items',
+    (SELECT jsonb_agg(to_jsonb(ri)) FROM return_items ri WHERE ri.return_id = v_return.id)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- FUNCTION: Cancel (void) an order
+-- Restores the stock the sale took (items and modifier ingredients, from its
+-- sale logs), reverses the order's loyalty points and gift card entries and
+-- marks the order cancelled atomically. Gift cards sold on the order must
+-- not have been spent. cancelled_at is stamped under the store's report
+-- lock, like create_order, so the void lands in an open X/Z period
+-- ============================================================================
+CREATE OR REPLACE FUNCTION cancel_order(
+  p_order_id UUID,
+  p_user_id UUID
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_line RECORD;
 BEGIN
-  NEW.updated_at = CURRENT_TIMESTAMP;
-  RETURN NEW;
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found: %', p_order_id;
+  END IF;
+
+  -- Orders with returns must be reversed through the returns flow
+  IF v_order.status <> 'completed' THEN
+    RAISE EXCEPTION 'Order % cannot be cancelled (status: %)', v_order.order_number, v_order.status;
+  END IF;
+
+  PERFORM 1 FROM stores WHERE id = v_order.store_id FOR SHARE;
+
+  FOR v_line IN
+    SELECT product_id, -SUM(quantity_change) AS quantity
+    FROM inventory_logs
+    WHERE reference_id = p_order_id AND reference_type = 'order' AND transaction_type = 'sale'
+    GROUP BY product_id
+  LOOP
+    INSERT INTO product_stock (store_id, product_id, quantity_on_hand)
+    VALUES (v_order.store_id, v_line.product_id, v_line.quantity)
+    ON CONFLICT (store_id, product_id)
+    DO UPDATE SET quantity_on_hand = product_stock.quantity_on_hand + EXCLUDED.quantity_on_hand;
+
+    INSERT INTO inventory_logs (store_id, product_id, transaction_type, quantity_change, reference_id, reference_type, notes, created_by)
+    VALUES (v_order.store_id, v_line.product_id, 'return', v_line.quantity, p_order_id, 'order',
+            'Order ' || v_order.order_number || ' cancelled - inventory restored', p_user_id);
+  END LOOP;
+
+  -- Give back redeemed points and take back earned ones
+  INSERT INTO loyalty_ledger (customer_id, entry_type, points, order_id, notes, created_by)
+  SELECT customer_id, 'reversal', -SUM(points), p_order_id,
+         'Order ' || v_order.order_number || ' cancelled', p_user_id
+  FROM loyalty_ledger
+  WHERE order_id = p_order_id
+  GROUP BY customer_id
+  HAVING SUM(points) <> 0;
+
+  -- Give back gift card balances spent and take back balances sold
+  FOR v_line IN
+    SELECT gift_card_id, SUM(amount) AS amount
+    FROM gift_card_ledger
+    WHERE order_id = p_order_id
+    GROUP BY gift_card_id
+    HAVING SUM(amount) <> 0
+    ORDER BY gift_card_id
+  LOOP
+    PERFORM 1 FROM gift_cards WHERE id = v_line.gift_card_id FOR UPDATE;
+
+    IF v_line.amount > 0 AND gift_card_balance(v_line.gift_card_id) < v_line.amount THEN
+      RAISE EXCEPTION 'Order % sold a gift card that has already been spent', v_order.order_number;
+    END IF;
+
+    INSERT INTO gift_card_ledger (gift_card_id, entry_type, amount, order_id, notes, created_by)
+    VALUES (v_line.gift_card_id, 'reversal', -v_line.amount, p_order_id,
+            'Order ' || v_order.order_number || ' cancelled', p_user_id);
+  END LOOP;
+
+  UPDATE gift_cards SET is_active = false
+  WHERE id IN (
+    SELECT gift_card_id FROM gift_card_ledger
+    WHERE order_id = p_order_id AND entry_type = 'issue'
+  );
+
+  UPDATE orders SET status = 'cancelled', cancelled_at = clock_timestamp()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
 END;
 $$ LANGUAGE plpgsql;
 
-CREATE TRIGGER update_profiles_updated_at BEFORE UPDATE ON profiles
-  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+-- ============================================================================
+-- FUNCTION: Park a cart
+-- Saves a cart as a pending order with its items and modifiers so any
+-- terminal in the store can resume it. No stock is taken until checkout.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION park_cart(
+  p_store_id UUID,
+  p_cashier_id UUID,
+  p_order_number TEXT,
+  p_label TEXT,
+  p_expires_at TIMESTAMP WITH TIME ZONE,
+  p_subtotal DECIMAL(12, 2),
+  p_discount_total DECIMAL(12, 2),
+  p_tax_total DECIMAL(12, 2),
+  p_total DECIMAL(12, 2),
+  p_items JSONB,
+  p_customer_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_prices_include_tax BOOLEAN DEFAULT false
+)
+RETURNS orders AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_item RECORD;
+  v_order_item_id UUID;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
 
-CREATE TRIGGER update_categories_updated_at BEFORE UPDATE ON categories
-  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = p_cashier_id AND (store_id = p_store_id OR role = 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Cashier is not assigned to this store';
+  END IF;
 
-CREATE TRIGGER update_products_updated_at BEFORE UPDATE ON products
-  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  INSERT INTO orders (store_id, cashier_id, customer_id, order_number, status, subtotal, discount_total, tax_total, total, notes, parked_label, expires_at, prices_include_tax)
+  VALUES (p_store_id, p_cashier_id, p_customer_id, p_order_number, 'pending', p_subtotal, p_discount_total, p_tax_total, p_total, p_notes, p_label, p_expires_at, p_prices_include_tax)
+  RETURNING * INTO v_order;
 
-CREATE TRIGGER update_orders_updated_at BEFORE UPDATE ON orders
-  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, discount_amount, promotion_id, tax_rate, line_total)
+    VALUES (
+      v_order.id,
+      (v_item.value->>'product_id')::UUID,
+      (v_item.value->>'quantity')::INT,
+      (v_item.value->>'unit_price')::DECIMAL(10, 2),
+      COALESCE((v_item.value->>'discount_amount')::DECIMAL(12, 2), 0),
+      (v_item.value->>'promotion_id')::UUID,
+      (v_item.value->>'tax_rate')::DECIMAL(7, 4),
+      (v_item.value->>'line_total')::DECIMAL(12, 2)
+    )
+    RETURNING id INTO v_order_item_id;
 
-CREATE TRIGGER update_daily_sales_updated_at BEFORE UPDATE ON daily_sales
-  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+    INSERT INTO order_item_modifiers (order_item_id, modifier_id, name, price_delta)
+    SELECT v_order_item_id, modifier_id, name, price_delta
+    FROM jsonb_to_recordset(COALESCE(v_item.value->'modifiers', '[]'::JSONB)) AS x(
+      modifier_id UUID,
+      name TEXT,
+      price_delta DECIMAL(10, 2)
+    );
+  END LOOP;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql;
 
 -- ============================================================================
--- FUNCTION: Generate unique order numbers
+-- FUNCTION: Expire parked carts
+-- Deletes parked carts past their expiry. Called before parked carts are
+-- listed; can also be scheduled (e.g. pg_cron) to keep the table tidy.
 -- ============================================================================
-CREATE OR REPLACE FUNCTION generate_order_number()
-RETURNS TEXT AS $$
+CREATE OR REPLACE FUNCTION expire_parked_carts()
+RETURNS INT AS $$
+DECLARE
+  v_count INT;
 BEGIN
-  RETURN 'ORD-' || TO_CHAR(CURRENT_TIMESTAMP, 'YYYYMMDD-HH24MISS-') || LPAD(FLOOR(RANDOM() * 10000)::TEXT, 4, '0');
+  DELETE FROM orders
+  WHERE status = 'pending' AND expires_at < CURRENT_TIMESTAMP;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
 END;
 $$ LANGUAGE plpgsql;
 
 -- ============================================================================
--- FUNCTION: Update inventory on order creation
+-- FUNCTION: Adjust stock in a store
+-- Applies a signed quantity change to one product's stock in one store and
+-- logs it, refusing to go below zero. Returns the updated stock row.
 -- ============================================================================
-CREATE OR REPLACE FUNCTION update_inventory_on_order()
-RETURNS TRIGGER AS $$
+CREATE OR REPLACE FUNCTION adjust_stock(
+  p_store_id UUID,
+  p_product_id UUID,
+  p_quantity_change INT,
+  p_transaction_type TEXT,
+  p_user_id UUID,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS product_stock AS $$
+DECLARE
+  v_stock product_stock;
+BEGIN
+  INSERT INTO product_stock (store_id, product_id, quantity_on_hand)
+  VALUES (p_store_id, p_product_id, 0)
+  ON CONFLICT (store_id, product_id) DO NOTHING;
+
+  SELECT * INTO v_stock
+  FROM product_stock
+  WHERE store_id = p_store_id AND product_id = p_product_id
+  FOR UPDATE;
+
+  IF v_stock.quantity_on_hand + p_quantity_change < 0 THEN
+    RAISE EXCEPTION 'Stock cannot go below zero (on hand: %, change: %)', v_stock.quantity_on_hand, p_quantity_change;
+  END IF;
+
+  UPDATE product_stock SET quantity_on_hand = quantity_on_hand + p_quantity_change
+  WHERE store_id = p_store_id AND product_id = p_product_id
+  RETURNING * INTO v_stock;
+
+  INSERT INTO inventory_logs (store_id, product_id, transaction_type, quantity_change, reference_type, notes, created_by)
+  VALUES (p_store_id, p_product_id, p_transaction_type, p_quantity_change, 'manual', p_notes, p_user_id);
+
+  RETURN v_stock;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- FUNCTION: Receive goods against a purchase order
+-- Adds each received quantity to the PO store's stock, logs it as stock_in
+-- referencing the PO, records the actual unit cost on the line and as the
+-- product's cost, and moves the PO to partially_received or received.
+-- p_lines: [{ line_id, quantity, unit_cost }]
+-- ============================================================================
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_purchase_order_id UUID,
+  p_user_id UUID,
+  p_lines JSONB,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS purchase_orders AS $$
 DECLARE
-  v_quantity INT;
-  v_product_id UUID;
+  v_po purchase_orders%ROWTYPE;
+  v_line RECORD;
 BEGIN
-  -- Get product details from order_items
-  FOR v_product_id, v_quantity IN
-    SELECT product_id, quantity FROM order_items WHERE order_id = NEW.id
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found: %', p_purchase_order_id;
+  END IF;
+
+  IF v_po.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order % cannot be received (status: %)', v_po.po_number, v_po.status;
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Nothing to receive';
+  END IF;
+
+  FOR v_line IN
+    SELECT pol.id, pol.product_id, pol.quantity_ordered, pol.quantity_received,
+           x.quantity, x.unit_cost
+    FROM jsonb_to_recordset(p_lines) AS x(line_id UUID, quantity INT, unit_cost DECIMAL(10, 2))
+    LEFT JOIN purchase_order_lines pol
+      ON pol.id = x.line_id AND pol.purchase_order_id = p_purchase_order_id
+    ORDER BY pol.product_id
   LOOP
-    -- Reduce inventory
-    UPDATE products SET quantity_on_hand = quantity_on_hand - v_quantity
-    WHERE id = v_product_id;
-    
-    -- Log inventory transaction
-    INSERT INTO inventory_logs (product_id, transaction_type, quantity_change, reference_id, reference_type, created_by)
-    VALUES (v_product_id, 'sale', -v_quantity, NEW.id, 'order', NEW.cashier_id);
+    IF v_line.id IS NULL THEN
+      RAISE EXCEPTION 'Line is not on purchase order %', v_po.po_number;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Received quantities must be positive';
+    END IF;
+
+    IF v_line.quantity_received + v_line.quantity > v_line.quantity_ordered THEN
+      RAISE EXCEPTION 'Cannot receive more than ordered for product: %',
+        (SELECT name FROM products WHERE id = v_line.product_id);
+    END IF;
+
+    IF v_line.unit_cost IS NULL OR v_line.unit_cost < 0 THEN
+      RAISE EXCEPTION 'Unit cost must be zero or more';
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET quantity_received = quantity_received + v_line.quantity,
+        received_unit_cost = v_line.unit_cost
+    WHERE id = v_line.id;
+
+    INSERT INTO product_stock (store_id, product_id, quantity_on_hand)
+    VALUES (v_po.store_id, v_line.product_id, v_line.quantity)
+    ON CONFLICT (store_id, product_id)
+    DO UPDATE SET quantity_on_hand = product_stock.quantity_on_hand + EXCLUDED.quantity_on_hand;
+
+    INSERT INTO inventory_logs (store_id, product_id, transaction_type, quantity_change, reference_id, reference_type, notes, created_by)
+    VALUES (v_po.store_id, v_line.product_id, 'stock_in', v_line.quantity, p_purchase_order_id, 'purchase_order',
+            COALESCE(p_notes, 'Received on ' || v_po.po_number), p_user_id);
+
+    UPDATE products SET cost = v_line.unit_cost WHERE id = v_line.product_id;
   END LOOP;
-  
-  RETURN NEW;
+
+  UPDATE purchase_orders
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = p_purchase_order_id AND quantity_received < quantity_ordered
+    ) THEN 'partially_received'
+    ELSE 'received'
+  END
+  WHERE id = p_purchase_order_id
+  RETURNING * INTO v_po;
+
+  RETURN v_po;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- FUNCTION: Start a stock count
+-- Creates the count and snapshots expected quantity and cost for every
+-- active stocked product (optionally one category) in the store; variant
+-- parents and gift cards hold no stock and are left out
+-- ============================================================================
+CREATE OR REPLACE FUNCTION start_stock_count(
+  p_count_number TEXT,
+  p_store_id UUID,
+  p_category_id UUID,
+  p_is_blind BOOLEAN,
+  p_user_id UUID,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS stock_counts AS $$
+DECLARE
+  v_count stock_counts%ROWTYPE;
+BEGIN
+  INSERT INTO stock_counts (count_number, store_id, category_id, is_blind, notes, created_by)
+  VALUES (p_count_number, p_store_id, p_category_id, p_is_blind, p_notes, p_user_id)
+  RETURNING * INTO v_count;
+
+  INSERT INTO stock_count_lines (stock_count_id, product_id, expected_quantity, unit_cost)
+  SELECT v_count.id, p.id, COALESCE(ps.quantity_on_hand, 0), p.cost
+  FROM products p
+  LEFT JOIN product_stock ps ON ps.product_id = p.id AND ps.store_id = p_store_id
+  WHERE p.is_active = true
+    AND p.option_axes IS NULL
+    AND NOT p.is_gift_card
+    AND (p_category_id IS NULL OR p.category_id = p_category_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active products to count';
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- FUNCTION: Approve a submitted stock count
+-- Posts every counted variance as an adjustment log referencing the count,
+-- all in one transaction. The variance is applied as a change to current
+-- stock, so sales made while the count was open are kept.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION approve_stock_count(
+  p_stock_count_id UUID,
+  p_user_id UUID
+)
+RETURNS stock_counts AS $$
+DECLARE
+  v_count stock_counts%ROWTYPE;
+  v_line RECORD;
+  v_on_hand INT;
+  v_change INT;
+BEGIN
+  SELECT * INTO v_count FROM stock_counts WHERE id = p_stock_count_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found: %', p_stock_count_id;
+  END IF;
+
+  IF v_count.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Stock count % cannot be approved (status: %)', v_count.count_number, v_count.status;
+  END IF;
+
+  FOR v_line IN
+    SELECT scl.* FROM stock_count_lines scl
+    JOIN products p ON p.id = scl.product_id
+    WHERE scl.stock_count_id = p_stock_count_id
+      AND scl.counted_quantity IS NOT NULL
+      AND scl.counted_quantity <> scl.expected_quantity
+      -- Counts started before gift cards were excluded may still list them
+      AND NOT p.is_gift_card
+    ORDER BY scl.product_id
+  LOOP
+    INSERT INTO product_stock (store_id, product_id, quantity_on_hand)
+    VALUES (v_count.store_id, v_line.product_id, 0)
+    ON CONFLICT (store_id, product_id) DO NOTHING;
+
+    SELECT quantity_on_hand INTO v_on_hand
+    FROM product_stock
+    WHERE store_id = v_count.store_id AND product_id = v_line.product_id
+    FOR UPDATE;
+
+    -- Never take stock below zero
+    v_change := GREATEST(v_line.counted_quantity - v_line.expected_quantity, -v_on_hand);
+
+    UPDATE product_stock SET quantity_on_hand = quantity_on_hand + v_change
+    WHERE store_id = v_count.store_id AND product_id = v_line.product_id;
+
+    INSERT INTO inventory_logs (store_id, product_id, transaction_type, quantity_change, reference_id, reference_type, notes, created_by)
+    VALUES (v_count.store_id, v_line.product_id, 'adjustment', v_change, p_stock_count_id, 'stock_count',
+            'Stock count ' || v_count.count_number, p_user_id);
+  END LOOP;
+
+  UPDATE stock_counts
+  SET status = 'approved', approved_by = p_user_id, approved_at = CURRENT_TIMESTAMP
+  WHERE id = p_stock_count_id
+  RETURNING * INTO v_count;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- FUNCTION: Sales report for a period
+-- X/Z report for one store, summed in the database so no row limit applies.
+-- Periods are in server time: orders count by inserted_at, refunds by
+-- created_at (always the time the refund was recorded) and voids by
+-- cancelled_at, so an order voided after its period closed shows up in the
+-- next report. Returns a SalesReport (lib/types) as JSON.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION sales_report(
+  p_store_id UUID,
+  p_report_type TEXT,
+  p_period_start TIMESTAMP WITH TIME ZONE,
+  p_period_end TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB AS $$
+  WITH sales AS (
+    SELECT *
+    FROM orders
+    WHERE store_id = p_store_id
+      AND status IN ('completed', 'partially_refunded', 'refunded')
+      AND inserted_at > p_period_start
+      AND inserted_at <= p_period_end
+  ),
+  voids AS (
+    SELECT total
+    FROM orders
+    WHERE store_id = p_store_id
+      AND status = 'cancelled'
+      -- Orders voided before cancelled_at was recorded count when placed
+      AND COALESCE(cancelled_at, inserted_at) > p_period_start
+      AND COALESCE(cancelled_at, inserted_at) <= p_period_end
+  ),
+  refunds AS (
+    SELECT r.refund_method, r.refund_total
+    FROM returns r
+    JOIN orders o ON o.id = r.order_id
+    WHERE o.store_id = p_store_id
+      AND r.created_at > p_period_start
+      AND r.created_at <= p_period_end
+  ),
+  items AS (
+    SELECT oi.order_id, SUM(oi.quantity) AS item_count
+    FROM order_items oi
+    JOIN sales s ON s.id = oi.order_id
+    GROUP BY oi.order_id
+  ),
+  taxes AS (
+    SELECT ot.tax_rate_id, ot.name, ot.rate, ot.is_compound, ot.taxable_amount, ot.tax_amount
+    FROM order_taxes ot
+    JOIN sales s ON s.id = ot.order_id
+    UNION ALL
+    -- Orders from before per-rate taxes were recorded are split by each
+    -- line's rate, as calculateTaxBreakdown does
+    SELECT NULL, 'Tax', line.tax_rate, false, line.taxable, ROUND(line.taxable * line.tax_rate / 100, 2)
+    FROM (
+      SELECT oi.tax_rate,
+             ROUND(CASE
+               WHEN s.prices_include_tax
+                 THEN (oi.unit_price * oi.quantity - oi.discount_amount) / (1 + oi.tax_rate / 100)
+               ELSE oi.unit_price * oi.quantity - oi.discount_amount
+             END, 2) AS taxable
+      FROM order_items oi
+      JOIN sales s ON s.id = oi.order_id
+      WHERE oi.tax_rate > 0
+        AND NOT EXISTS (SELECT 1 FROM order_taxes ot WHERE ot.order_id = s.id)
+    ) AS line
+  ),
+  tenders AS (
+    SELECT pm.method, pm.amount
+    FROM payments pm
+    JOIN sales s ON s.id = pm.order_id
+    UNION ALL
+    -- Orders from before split tenders only record their method
+    SELECT s.payment_method, s.total
+    FROM sales s
+    WHERE s.payment_method <> 'split'
+      AND NOT EXISTS (SELECT 1 FROM payments pm WHERE pm.order_id = s.id)
+  ),
+  totals AS (
+    SELECT COUNT(*) AS order_count,
+           COALESCE(SUM(subtotal), 0) AS gross_sales,
+           COALESCE(SUM(discount_total), 0) AS discount_total,
+           COALESCE(SUM(tax_total), 0) AS tax_total,
+           COALESCE(SUM(total), 0) AS sales_total,
+           (SELECT COUNT(*) FROM refunds) AS refund_count,
+           (SELECT COALESCE(SUM(refund_total), 0) FROM refunds) AS refund_total
+    FROM sales
+  )
+  SELECT jsonb_build_object(
+    'report_type', p_report_type,
+    'report_number', NULL,
+    'store_id', st.id,
+    'store_name', st.name,
+    'period_start', p_period_start,
+    'period_end', p_period_end,
+    'order_count', t.order_count,
+    'item_count', (SELECT COALESCE(SUM(item_count), 0) FROM items),
+    'gross_sales', t.gross_sales,
+    'discount_total', t.discount_total,
+    'tax_total', t.tax_total,
+    'sales_total', t.sales_total,
+    'refund_count', t.refund_count,
+    'refund_total', t.refund_total,
+    'net_sales', t.sales_total - t.refund_total,
+    'void_count', (SELECT COUNT(*) FROM voids),
+    'void_total', (SELECT COALESCE(SUM(total), 0) FROM voids),
+    'taxes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'tax_rate_id', by_rate.tax_rate_id,
+        'name', by_rate.name,
+        'rate', by_rate.rate,
+        'is_compound', by_rate.is_compound,
+        'taxable_amount', by_rate.taxable_amount,
+        'tax_amount', by_rate.tax_amount
+      ) ORDER BY by_rate.rate)
+      FROM (
+        SELECT tax_rate_id, name, rate, is_compound,
+               SUM(taxable_amount) AS taxable_amount, SUM(tax_amount) AS tax_amount
+        FROM taxes
+        GROUP BY 1, 2, 3, 4
+      ) AS by_rate
+    ), '[]'::JSONB),
+    'tenders', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'method', by_method.method,
+        'count', by_method.count,
+        'amount', by_method.amount
+      ) ORDER BY by_method.amount DESC)
+      FROM (
+        SELECT method, COUNT(*) AS count, SUM(amount) AS amount
+        FROM tenders
+        GROUP BY method
+      ) AS by_method
+    ), '[]'::JSONB),
+    'refunds', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'method', by_method.refund_method,
+        'count', by_method.count,
+        'amount', by_method.amount
+      ) ORDER BY by_method.amount DESC)
+      FROM (
+        SELECT refund_method, COUNT(*) AS count, SUM(refund_total) AS amount
+        FROM refunds
+        GROUP BY refund_method
+      ) AS by_method
+    ), '[]'::JSONB),
+    'cashiers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'cashier_id', by_cashier.cashier_id,
+        'name', COALESCE(NULLIF(pr.full_name, ''), pr.email, 'Unknown'),
+        'order_count', by_cashier.order_count,
+        'item_count', by_cashier.item_count,
+        'sales_total', by_cashier.sales_total
+      ) ORDER BY by_cashier.sales_total DESC)
+      FROM (
+        SELECT s.cashier_id, COUNT(*) AS order_count,
+               COALESCE(SUM(i.item_count), 0) AS item_count, SUM(s.total) AS sales_total
+        FROM sales s
+        LEFT JOIN items i ON i.order_id = s.id
+        GROUP BY s.cashier_id
+      ) AS by_cashier
+      LEFT JOIN profiles pr ON pr.id = by_cashier.cashier_id
+    ), '[]'::JSONB)
+  )
+  FROM stores st
+  CROSS JOIN totals t
+  WHERE st.id = p_store_id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Close a Z report
+-- Builds, numbers and stores the report for everything since the store's
+-- last one ended (or since the store opened), so no sale is counted twice
+-- or missed. The store row is locked: checkouts, returns and voids hold it
+-- shared while they run, so the period ends only after those in flight have
+-- committed, and anything recorded later is stamped after it. Two closings
+-- cannot take the same number.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION close_z_report(
+  p_store_id UUID,
+  p_closed_by UUID
+)
+RETURNS z_reports AS $$
+DECLARE
+  v_store stores%ROWTYPE;
+  v_last z_reports%ROWTYPE;
+  v_report z_reports%ROWTYPE;
+  v_period_start TIMESTAMP WITH TIME ZONE;
+  v_period_end TIMESTAMP WITH TIME ZONE;
+  v_totals JSONB;
+  v_number INT;
+BEGIN
+  SELECT * INTO v_store FROM stores WHERE id = p_store_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store not found: %', p_store_id;
+  END IF;
+
+  SELECT * INTO v_last FROM z_reports
+  WHERE store_id = p_store_id
+  ORDER BY report_number DESC
+  LIMIT 1;
+
+  v_period_start := COALESCE(v_last.period_end, v_store.created_at);
+  v_period_end := clock_timestamp();
+  v_number := COALESCE(v_last.report_number, 0) + 1;
+  v_totals := sales_report(p_store_id, 'z', v_period_start, v_period_end)
+    || jsonb_build_object('report_number', v_number);
+
+  INSERT INTO z_reports (store_id, report_number, period_start, period_end, report, net_sales, order_count, closed_by)
+  VALUES (p_store_id, v_number, v_period_start, v_period_end, v_totals,
+          (v_totals->>'net_sales')::DECIMAL(12, 2), (v_totals->>'order_count')::INT, p_closed_by)
+  RETURNING * INTO v_report;
+
+  RETURN v_report;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- FUNCTION: A store's sales day for a point in time
+-- The calendar day in the store's time zone
+-- ============================================================================
+CREATE OR REPLACE FUNCTION store_sale_date(p_store_id UUID, p_at TIMESTAMP WITH TIME ZONE)
+RETURNS DATE AS $$
+  SELECT (p_at AT TIME ZONE COALESCE((SELECT time_zone FROM stores WHERE id = p_store_id), 'UTC'))::DATE;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Refresh a day of the daily_sales rollup
+-- Recounts one store's sales for one day (in the store's time zone) from
+-- its orders. Completed and (partially) refunded orders count at their
+-- original total, as the dashboard reports them; a day left with no sales
+-- has no row. Refreshes of the same day are serialized: without the lock,
+-- two checkouts committing together would each count without the other's
+-- order, and the last upsert would drop one of them.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION refresh_daily_sales(p_store_id UUID, p_sale_date DATE)
+RETURNS VOID AS $$
+DECLARE
+  v_time_zone TEXT;
+  v_total DECIMAL(12, 2);
+  v_transactions INT;
+  v_items INT;
+BEGIN
+  -- Held to the end of the transaction; the counts below are read after a
+  -- concurrent refresh of the same day has committed
+  PERFORM pg_advisory_xact_lock(hashtext(p_store_id::TEXT || p_sale_date::TEXT));
+
+  SELECT time_zone INTO v_time_zone FROM stores WHERE id = p_store_id;
+  v_time_zone := COALESCE(v_time_zone, 'UTC');
+
+  SELECT COALESCE(SUM(o.total), 0), COUNT(*)
+  INTO v_total, v_transactions
+  FROM orders o
+  WHERE o.store_id = p_store_id
+    AND o.status IN ('completed', 'partially_refunded', 'refunded')
+    AND o.created_at >= p_sale_date::TIMESTAMP AT TIME ZONE v_time_zone
+    AND o.created_at < (p_sale_date + 1)::TIMESTAMP AT TIME ZONE v_time_zone;
+
+  IF v_transactions = 0 THEN
+    DELETE FROM daily_sales WHERE store_id = p_store_id AND sale_date = p_sale_date;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(oi.quantity), 0)
+  INTO v_items
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE o.store_id = p_store_id
+    AND o.status IN ('completed', 'partially_refunded', 'refunded')
+    AND o.created_at >= p_sale_date::TIMESTAMP AT TIME ZONE v_time_zone
+    AND o.created_at < (p_sale_date + 1)::TIMESTAMP AT TIME ZONE v_time_zone;
+
+  INSERT INTO daily_sales (store_id, sale_date, total_sales, total_transactions, total_items_sold, avg_transaction)
+  VALUES (p_store_id, p_sale_date, v_total, v_transactions, v_items, ROUND(v_total / v_transactions, 2))
+  ON CONFLICT (store_id, sale_date) DO UPDATE SET
+    total_sales = EXCLUDED.total_sales,
+    total_transactions = EXCLUDED.total_transactions,
+    total_items_sold = EXCLUDED.total_items_sold,
+    avg_transaction = EXCLUDED.avg_transaction;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- FUNCTION: Backfill the daily_sales rollup
+-- Rebuilds the rollup for every store (or one store) and day in the range
+-- (all history when no dates are given). Safe to run again; returns the
+-- days refreshed. Run it for a store whose time zone has changed.
+--   SELECT backfill_daily_sales();
+--   SELECT backfill_daily_sales('2024-01-01', '2024-01-31');
+-- ============================================================================
+CREATE OR REPLACE FUNCTION backfill_daily_sales(
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_store_id UUID DEFAULT NULL
+)
+RETURNS INT AS $$
+DECLARE
+  v_day RECORD;
+  v_count INT := 0;
+BEGIN
+  -- Days whose orders have all gone (or never were sales) lose their row
+  DELETE FROM daily_sales
+  WHERE (p_start_date IS NULL OR sale_date >= p_start_date)
+    AND (p_end_date IS NULL OR sale_date <= p_end_date)
+    AND (p_store_id IS NULL OR store_id = p_store_id);
+
+  FOR v_day IN
+    SELECT DISTINCT o.store_id, (o.created_at AT TIME ZONE s.time_zone)::DATE AS sale_date
+    FROM orders o
+    JOIN stores s ON s.id = o.store_id
+    WHERE o.status IN ('completed', 'partially_refunded', 'refunded')
+      AND (p_store_id IS NULL OR o.store_id = p_store_id)
+      AND (p_start_date IS NULL OR (o.created_at AT TIME ZONE s.time_zone)::DATE >= p_start_date)
+      AND (p_end_date IS NULL OR (o.created_at AT TIME ZONE s.time_zone)::DATE <= p_end_date)
+  LOOP
+    PERFORM refresh_daily_sales(v_day.store_id, v_day.sale_date);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
 END;
 $$ LANGUAGE plpgsql;
 
-CREATE TRIGGER trg_update_inventory_on_order AFTER INSERT ON orders
-  FOR EACH ROW EXECUTE FUNCTION update_inventory_on_order();
+-- ============================================================================
+-- FUNCTION: Sales by payment method for a period
+-- Tenders on the sale orders placed from p_start_date to p_end_date
+-- (inclusive days in each store's time zone, like the daily_sales rollup),
+-- one row per method, largest first. A split order adds each tender's amount
+-- to its method and counts once per method it used, however many tenders of
+-- that method it had. Every store when p_store_id is null.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION sales_by_payment_method(
+  p_start_date DATE,
+  p_end_date DATE,
+  p_store_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'payment_method', by_method.method,
+    'amount', by_method.amount,
+    'transaction_count', by_method.transaction_count
+  ) ORDER BY by_method.amount DESC), '[]'::JSONB)
+  FROM (
+    SELECT pm.method, SUM(pm.amount) AS amount, COUNT(DISTINCT o.id) AS transaction_count
+    FROM payments pm
+    JOIN orders o ON o.id = pm.order_id
+    JOIN stores s ON s.id = o.store_id
+    WHERE o.status IN ('completed', 'partially_refunded', 'refunded')
+      -- A day's margin either side covers every UTC offset and lets the
+      -- created_at index narrow the scan; the store's day decides
+      AND o.created_at >= (p_start_date - 1)::TIMESTAMP AT TIME ZONE 'UTC'
+      AND o.created_at < (p_end_date + 2)::TIMESTAMP AT TIME ZONE 'UTC'
+      AND (o.created_at AT TIME ZONE s.time_zone)::DATE BETWEEN p_start_date AND p_end_date
+      AND (p_store_id IS NULL OR o.store_id = p_store_id)
+    GROUP BY pm.method
+  ) AS by_method;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Best selling products for a period
+-- Units sold and revenue (line totals) per product on the sale orders
+-- placed from p_start_date to p_end_date (days in each store's time zone;
+-- all time without dates), most units first. With p_roll_up_variants,
+-- variants count against their parent product.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION best_selling_products(
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_store_id UUID DEFAULT NULL,
+  p_limit INT DEFAULT 10,
+  p_roll_up_variants BOOLEAN DEFAULT false
+)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', top.product_id,
+    'product_name', top.product_name,
+    'quantity_sold', top.quantity_sold,
+    'revenue', top.revenue
+  ) ORDER BY top.quantity_sold DESC, top.revenue DESC), '[]'::JSONB)
+  FROM (
+    SELECT COALESCE(parent.id, p.id) AS product_id,
+           COALESCE(parent.name, p.name) AS product_name,
+           SUM(oi.quantity) AS quantity_sold,
+           SUM(oi.line_total) AS revenue
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN stores s ON s.id = o.store_id
+    JOIN products p ON p.id = oi.product_id
+    LEFT JOIN products parent ON p_roll_up_variants AND parent.id = p.parent_id
+    WHERE o.status IN ('completed', 'partially_refunded', 'refunded')
+      AND (p_start_date IS NULL OR (
+        o.created_at >= (p_start_date - 1)::TIMESTAMP AT TIME ZONE 'UTC'
+        AND (o.created_at AT TIME ZONE s.time_zone)::DATE >= p_start_date
+      ))
+      AND (p_end_date IS NULL OR (
+        o.created_at < (p_end_date + 2)::TIMESTAMP AT TIME ZONE 'UTC'
+        AND (o.created_at AT TIME ZONE s.time_zone)::DATE <= p_end_date
+      ))
+      AND (p_store_id IS NULL OR o.store_id = p_store_id)
+    GROUP BY 1, 2
+    ORDER BY quantity_sold DESC, revenue DESC
+    LIMIT p_limit
+  ) AS top;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Sales analytics for a period
+-- Totals, sales by hour of the week, by category and by payment method for
+-- the orders placed from p_start_date to p_end_date, aggregated in the
+-- database. Days, hours and weekdays are in each store's time zone, so the
+-- totals match the daily_sales rollup for the same days; every store when
+-- p_store_id is null.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION sales_analytics(
+  p_start_date DATE,
+  p_end_date DATE,
+  p_store_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  WITH sales AS (
+    SELECT o.id, o.total, o.created_at AT TIME ZONE s.time_zone AS local_at
+    FROM orders o
+    JOIN stores s ON s.id = o.store_id
+    WHERE o.status IN ('completed', 'partially_refunded', 'refunded')
+      -- A day's margin either side covers every UTC offset and lets the
+      -- created_at index narrow the scan; the store's day decides
+      AND o.created_at >= (p_start_date - 1)::TIMESTAMP AT TIME ZONE 'UTC'
+      AND o.created_at < (p_end_date + 2)::TIMESTAMP AT TIME ZONE 'UTC'
+      AND (o.created_at AT TIME ZONE s.time_zone)::DATE BETWEEN p_start_date AND p_end_date
+      AND (p_store_id IS NULL OR o.store_id = p_store_id)
+  ),
+  lines AS (
+    SELECT oi.quantity, oi.line_total, p.category_id
+    FROM order_items oi
+    JOIN sales s ON s.id = oi.order_id
+    JOIN products p ON p.id = oi.product_id
+  )
+  SELECT jsonb_build_object(
+    'order_count', (SELECT COUNT(*) FROM sales),
+    'sales_total', (SELECT COALESCE(SUM(total), 0) FROM sales),
+    'item_count', (SELECT COALESCE(SUM(quantity), 0) FROM lines),
+    'by_hour', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'day_of_week', hourly.day_of_week,
+        'hour', hourly.hour,
+        'order_count', hourly.order_count,
+        'sales_total', hourly.sales_total
+      ) ORDER BY hourly.day_of_week, hourly.hour)
+      FROM (
+        SELECT EXTRACT(DOW FROM local_at)::INT AS day_of_week,
+               EXTRACT(HOUR FROM local_at)::INT AS hour,
+               COUNT(*) AS order_count,
+               SUM(total) AS sales_total
+        FROM sales
+        GROUP BY 1, 2
+      ) AS hourly
+    ), '[]'::JSONB),
+    'by_category', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'category_id', by_category.category_id,
+        'category_name', COALESCE(c.name, 'Uncategorized'),
+        'quantity', by_category.quantity,
+        'sales_total', by_category.sales_total
+      ) ORDER BY by_category.sales_total DESC)
+      FROM (
+        SELECT category_id, SUM(quantity) AS quantity, SUM(line_total) AS sales_total
+        FROM lines
+        GROUP BY category_id
+      ) AS by_category
+      LEFT JOIN categories c ON c.id = by_category.category_id
+    ), '[]'::JSONB),
+    'by_payment_method', sales_by_payment_method(p_start_date, p_end_date, p_store_id)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Tax liability for a period
+-- Sales and refunds by line tax rate, net of tax, with the tax split out of
+-- each tax-inclusive line the way calculateTaxBreakdown does (tax on the net
+-- rounded to the cent). Sales count in the period they were made and
+-- refunds in the period they were given; cancelled orders and gift cards
+-- sold are left out. Every store when p_store_id is null.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION tax_liability(
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_store_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  WITH lines AS (
+    SELECT oi.tax_rate, oi.line_total AS sale_amount, 0::DECIMAL(12, 2) AS refund_amount
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN products p ON p.id = oi.product_id
+    WHERE o.status IN ('completed', 'partially_refunded', 'refunded')
+      AND NOT p.is_gift_card
+      AND o.created_at >= p_start
+      AND o.created_at <= p_end
+      AND (p_store_id IS NULL OR o.store_id = p_store_id)
+    UNION ALL
+    SELECT oi.tax_rate, 0, ri.refund_amount
+    FROM return_items ri
+    JOIN returns r ON r.id = ri.return_id
+    JOIN order_items oi ON oi.id = ri.order_item_id
+    JOIN orders o ON o.id = oi.order_id
+    WHERE r.created_at >= p_start
+      AND r.created_at <= p_end
+      AND (p_store_id IS NULL OR o.store_id = p_store_id)
+  ),
+  split AS (
+    SELECT tax_rate, sale_amount, refund_amount,
+           ROUND(ROUND(sale_amount / (1 + tax_rate / 100), 2) * tax_rate / 100, 2) AS sale_tax,
+           ROUND(ROUND(refund_amount / (1 + tax_rate / 100), 2) * tax_rate / 100, 2) AS refund_tax
+    FROM lines
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'tax_rate', by_rate.tax_rate,
+    'sales', by_rate.sales,
+    'sales_tax', by_rate.sales_tax,
+    'refunds', by_rate.refunds,
+    'refunds_tax', by_rate.refunds_tax
+  ) ORDER BY by_rate.tax_rate), '[]'::JSONB)
+  FROM (
+    SELECT tax_rate,
+           SUM(sale_amount - sale_tax) AS sales,
+           SUM(sale_tax) AS sales_tax,
+           SUM(refund_amount - refund_tax) AS refunds,
+           SUM(refund_tax) AS refunds_tax
+    FROM split
+    GROUP BY tax_rate
+  ) AS by_rate;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Gross margin for a period
+-- Quantity, revenue (line total less tax) and cost of goods sold grouped by
+-- p_group_by: 'product', 'category', 'cashier' or 'day' (UTC). COGS uses the
+-- unit cost recorded at sale, or the product's cost for older lines.
+-- Refunds count in the period they were given and take back their revenue,
+-- and their cost when restocked. Cancelled orders and gift cards are left
+-- out; every store when p_store_id is null.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION margin_report(
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE,
+  p_group_by TEXT,
+  p_store_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  WITH lines AS (
+    SELECT p.id AS product_id, o.cashier_id, (o.created_at AT TIME ZONE 'UTC')::DATE AS day,
+           oi.quantity,
+           oi.line_total - ROUND(ROUND(oi.line_total / (1 + oi.tax_rate / 100), 2) * oi.tax_rate / 100, 2) AS revenue,
+           oi.quantity * COALESCE(oi.unit_cost, p.cost) AS cogs
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    JOIN products p ON p.id = oi.product_id
+    WHERE o.status IN ('completed', 'partially_refunded', 'refunded')
+      AND NOT p.is_gift_card
+      AND o.created_at >= p_start
+      AND o.created_at <= p_end
+      AND (p_store_id IS NULL OR o.store_id = p_store_id)
+    UNION ALL
+    -- Stock not put back is still a cost of the sale
+    SELECT p.id, o.cashier_id, (r.created_at AT TIME ZONE 'UTC')::DATE,
+           -ri.quantity,
+           -(ri.refund_amount - ROUND(ROUND(ri.refund_amount / (1 + oi.tax_rate / 100), 2) * oi.tax_rate / 100, 2)),
+           CASE WHEN ri.restock THEN -ri.quantity * COALESCE(oi.unit_cost, p.cost) ELSE 0 END
+    FROM return_items ri
+    JOIN returns r ON r.id = ri.return_id
+    JOIN order_items oi ON oi.id = ri.order_item_id
+    JOIN orders o ON o.id = oi.order_id
+    JOIN products p ON p.id = oi.product_id
+    WHERE NOT p.is_gift_card
+      AND r.created_at >= p_start
+      AND r.created_at <= p_end
+      AND (p_store_id IS NULL OR o.store_id = p_store_id)
+  ),
+  keyed AS (
+    SELECT CASE p_group_by
+             WHEN 'product' THEN l.product_id::TEXT
+             WHEN 'category' THEN COALESCE(p.category_id::TEXT, 'uncategorized')
+             WHEN 'cashier' THEN l.cashier_id::TEXT
+             ELSE l.day::TEXT
+           END AS key,
+           CASE p_group_by
+             WHEN 'product' THEN p.name
+             WHEN 'category' THEN COALESCE(c.name, 'Uncategorized')
+             WHEN 'cashier' THEN COALESCE(NULLIF(pr.full_name, ''), pr.email, 'Unknown')
+             ELSE l.day::TEXT
+           END AS name,
+           l.quantity, l.revenue, l.cogs
+    FROM lines l
+    JOIN products p ON p.id = l.product_id
+    LEFT JOIN categories c ON c.id = p.category_id
+    LEFT JOIN profiles pr ON pr.id = l.cashier_id
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'key', groups.key,
+    'name', groups.name,
+    'quantity', groups.quantity,
+    'revenue', groups.revenue,
+    'cogs', groups.cogs
+  )), '[]'::JSONB)
+  FROM (
+    SELECT key, MIN(name) AS name, SUM(quantity) AS quantity, SUM(revenue) AS revenue, SUM(cogs) AS cogs
+    FROM keyed
+    GROUP BY key
+  ) AS groups;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Cash drawer totals for a session
+-- Cash taken on the cashier's sale orders, cash refunds they gave and the
+-- session's pay-ins and pay-outs, from opening to close (or now), summed in
+-- the database so no row limit applies.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION cash_session_totals(p_session_id UUID)
+RETURNS JSONB AS $$
+  WITH session AS (
+    SELECT id, cashier_id, opened_at, COALESCE(closed_at, CURRENT_TIMESTAMP) AS ended_at
+    FROM cash_sessions
+    WHERE id = p_session_id
+  ),
+  cash_sales AS (
+    SELECT pm.order_id, pm.amount
+    FROM payments pm
+    JOIN orders o ON o.id = pm.order_id
+    JOIN session s ON s.cashier_id = o.cashier_id
+    WHERE pm.method = 'cash'
+      AND o.status IN ('completed', 'partially_refunded', 'refunded')
+      AND o.created_at >= s.opened_at
+      AND o.created_at <= s.ended_at
+  )
+  SELECT jsonb_build_object(
+    'cash_sales', (SELECT COALESCE(SUM(amount), 0) FROM cash_sales),
+    'order_count', (SELECT COUNT(DISTINCT order_id) FROM cash_sales),
+    'cash_refunds', (
+      SELECT COALESCE(SUM(r.refund_total), 0)
+      FROM returns r
+      JOIN session s ON s.cashier_id = r.processed_by
+      WHERE r.refund_method = 'cash'
+        AND r.created_at >= s.opened_at
+        AND r.created_at <= s.ended_at
+    ),
+    'pay_ins', (
+      SELECT COALESCE(SUM(amount), 0) FROM cash_movements
+      WHERE session_id = p_session_id AND movement_type = 'pay_in'
+    ),
+    'pay_outs', (
+      SELECT COALESCE(SUM(amount), 0) FROM cash_movements
+      WHERE session_id = p_session_id AND movement_type = 'pay_out'
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: Customer purchase totals
+-- A customer's sale orders, lifetime spend (sales less what was refunded on
+-- them) and last purchase, summed in the database so no row limit applies.
+-- Parked carts and cancelled orders do not count.
+-- ============================================================================
+CREATE OR REPLACE FUNCTION customer_totals(p_customer_id UUID)
+RETURNS JSONB AS $$
+  WITH sales AS (
+    SELECT id, total, created_at
+    FROM orders
+    WHERE customer_id = p_customer_id
+      AND status IN ('completed', 'partially_refunded', 'refunded')
+  )
+  SELECT jsonb_build_object(
+    'order_count', (SELECT COUNT(*) FROM sales),
+    'lifetime_spend',
+      (SELECT COALESCE(SUM(total), 0) FROM sales) -
+      (SELECT COALESCE(SUM(r.refund_total), 0) FROM returns r JOIN sales s ON s.id = r.order_id),
+    'last_order_at', (SELECT MAX(created_at) FROM sales)
+  );
+$$ LANGUAGE sql STABLE;
 
 -- ============================================================================
 -- SAMPLE DATA (Optional - for development)
 -- ============================================================================
 
+-- Insert sample store
+INSERT INTO stores (code, name) VALUES
+  ('MAIN', 'Main Store')
+ON CONFLICT DO NOTHING;
+
 -- Insert sample categories
 INSERT INTO categories (name, description, icon) VALUES
   ('Beverages', 'Hot and cold drinks', '☕'),
@@ -333,7 +2998,7 @@ INSERT INTO categories (name, description, icon) VALUES
 ON CONFLICT DO NOTHING;
 
 -- Insert sample products (requires categories to exist)
-INSERT INTO products (category_id, sku, name, description, price, cost, tax_rate, quantity_on_hand, reorder_level) 
+INSERT INTO products (category_id, sku, name, description, price, cost, tax_rate, reorder_level) 
 SELECT 
   (SELECT id FROM categories WHERE name = 'Beverages'),
   'BEV001',
@@ -342,10 +3007,23 @@ SELECT
   3.50,
   1.00,
   0,
-  50,
   20
 ON CONFLICT (sku) DO NOTHING;
 
+-- Insert sample stock (requires store and products to exist)
+INSERT INTO product_stock (store_id, product_id, quantity_on_hand)
+SELECT
+  (SELECT id FROM stores WHERE code = 'MAIN'),
+  (SELECT id FROM products WHERE sku = 'BEV001'),
+  50
+ON CONFLICT DO NOTHING;
+
+-- Insert sample loyalty rules: 1 point per unit spent, 100 points = 1.00
+INSERT INTO loyalty_rules (name, rule_type, value) VALUES
+  ('1 point per unit spent', 'earn_rate', 1),
+  ('Points worth 1 cent', 'redeem_rate', 0.01)
+ON CONFLICT DO NOTHING;
+
 -- ============================================================================
 -- CREATE DEMO USER (admin@example.com / Test@1234)
 -- NOTE: This uses Supabase's built-in auth functions
@@ -370,8 +3048,8 @@ BEGIN
       in Supabase Authentication → Users';
   ELSE
     -- Create profile for existing user
-    INSERT INTO profiles (id, email, full_name, role, is_active)
-    VALUES (v_user_id, 'admin@example.com', 'Demo Admin', 'admin', true)
+    INSERT INTO profiles (id, email, full_name, role, store_id, is_active)
+    VALUES (v_user_id, 'admin@example.com', 'Demo Admin', 'admin', (SELECT id FROM stores WHERE code = 'MAIN'), true)
     ON CONFLICT (id) DO NOTHING;
     
     RAISE NOTICE 'Demo user profile created successfully!';
@@ -0,0 +1,206 @@
+'use server';
+
+/**
+ * Server Actions for API Tokens
+ * Bearer tokens used by external scripts to call the /api/v1 REST API
+ */
+
+import { randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { hashToken, TOKEN_COLUMNS } from '@/lib/api/tokens';
+import { ApiResponse, ApiToken, ApiTokenScope } from '@/lib/types';
+
+/**
+ * Check that the signed-in user (from the session cookie, not an argument
+ * the client could forge) is an active admin
+ * Returns an error message, or null when they are
+ */
+async function checkAdmin(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const authClient = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+      },
+    }
+  );
+
+  const {
+    data: { user },
+  } = await authClient.auth.getUser();
+
+  if (!user) {
+    return 'Not authenticated';
+  }
+
+  const { data: profile } = await createServerSupabaseClient()
+    .from('profiles')
+    .select('role, is_active')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (!profile || profile.role !== 'admin' || !profile.is_active) {
+    return 'Only admins can manage API tokens';
+  }
+
+  return null;
+}
+
+// ============================================================================
+// TOKEN ACTIONS
+// ============================================================================
+
+/**
+ * Create an API token (Admin only)
+ * The secret is returned once and only its hash is stored
+ */
+export async function createApiToken(
+  name: string,
+  userId: string,
+  scopes: ApiTokenScope[],
+  storeId?: string,
+  expiresAt?: string
+): Promise<ApiResponse<{ token: ApiToken; secret: string }>> {
+  try {
+    const adminError = await checkAdmin();
+    if (adminError) {
+      return {
+        success: false,
+        error: adminError,
+      };
+    }
+
+    if (!name || name.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Token name is required',
+      };
+    }
+
+    if (!scopes || scopes.length === 0) {
+      return {
+        success: false,
+        error: 'At least one scope is required',
+      };
+    }
+
+    const secret = `pos_${randomBytes(24).toString('hex')}`;
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('api_tokens')
+      .insert({
+        name: name.trim(),
+        token_hash: hashToken(secret),
+        token_prefix: secret.slice(0, 12),
+        user_id: userId,
+        store_id: storeId || null,
+        scopes,
+        expires_at: expiresAt || null,
+      })
+      .select(TOKEN_COLUMNS)
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: { token: data as ApiToken, secret },
+      message: 'API token created. Copy the secret now; it will not be shown again',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get all API tokens (Admin only)
+ */
+export async function getApiTokens(): Promise<ApiResponse<ApiToken[]>> {
+  try {
+    const adminError = await checkAdmin();
+    if (adminError) {
+      return {
+        success: false,
+        error: adminError,
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('api_tokens')
+      .select(TOKEN_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: (data || []) as ApiToken[],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Revoke an API token (Admin only)
+ */
+export async function revokeApiToken(tokenId: string): Promise<ApiResponse<null>> {
+  try {
+    const adminError = await checkAdmin();
+    if (adminError) {
+      return {
+        success: false,
+        error: adminError,
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { error } = await supabase
+      .from('api_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', tokenId);
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      message: 'API token revoked',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
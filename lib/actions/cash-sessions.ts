@@ -0,0 +1,392 @@
+'use server';
+
+/**
+ * Server Actions for Cash Drawer Sessions
+ * Opening float, pay-ins/pay-outs, closing count and over/short reporting
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import {
+  ApiResponse,
+  CashSession,
+  CashMovement,
+  CashMovementType,
+  CashSessionReport,
+} from '@/lib/types';
+import { formatDecimal, isValidPrice } from '@/lib/utils';
+
+// ============================================================================
+// SESSION ACTIONS
+// ============================================================================
+
+/**
+ * Open a cash drawer session with a starting float
+ */
+export async function openCashSession(
+  cashierId: string,
+  openingFloat: number,
+  notes?: string
+): Promise<ApiResponse<CashSession>> {
+  try {
+    if (!isValidPrice(openingFloat)) {
+      return {
+        success: false,
+        error: 'Opening float must be a non-negative number',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: existing } = await supabase
+      .from('cash_sessions')
+      .select('id')
+      .eq('cashier_id', cashierId)
+      .eq('status', 'open')
+      .maybeSingle();
+
+    if (existing) {
+      return {
+        success: false,
+        error: 'A cash drawer session is already open for this cashier',
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('cash_sessions')
+      .insert({
+        cashier_id: cashierId,
+        opening_float: formatDecimal(openingFloat),
+        notes,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: 'Cash drawer opened',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get the open cash drawer session for a cashier, if any
+ */
+export async function getOpenCashSession(
+  cashierId: string
+): Promise<ApiResponse<CashSession | null>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('cash_sessions')
+      .select(
+        `
+        *,
+        movements:cash_movements (*)
+        `
+      )
+      .eq('cashier_id', cashierId)
+      .eq('status', 'open')
+      .maybeSingle();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || null,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Record a pay-in or pay-out against an open session
+ */
+export async function recordCashMovement(
+  sessionId: string,
+  movementType: CashMovementType,
+  amount: number,
+  reason: string,
+  userId: string
+): Promise<ApiResponse<CashMovement>> {
+  try {
+    if (!(amount > 0)) {
+      return {
+        success: false,
+        error: 'Amount must be greater than zero',
+      };
+    }
+
+    if (!reason || reason.trim().length === 0) {
+      return {
+        success: false,
+        error: 'A reason is required',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: session, error: sessionError } = await supabase
+      .from('cash_sessions')
+      .select('status')
+      .eq('id', sessionId)
+      .single();
+
+    if (sessionError || !session) {
+      return {
+        success: false,
+        error: 'Cash session not found',
+      };
+    }
+
+    if (session.status !== 'open') {
+      return {
+        success: false,
+        error: 'Cash session is already closed',
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('cash_movements')
+      .insert({
+        session_id: sessionId,
+        movement_type: movementType,
+        amount: formatDecimal(amount),
+        reason: reason.trim(),
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: movementType === 'pay_in' ? 'Pay-in recorded' : 'Pay-out recorded',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Close a session with the counted drawer amount
+ * Stores the expected amount and over/short at the time of closing
+ */
+export async function closeCashSession(
+  sessionId: string,
+  countedAmount: number,
+  notes?: string
+): Promise<ApiResponse<CashSessionReport>> {
+  try {
+    if (!isValidPrice(countedAmount)) {
+      return {
+        success: false,
+        error: 'Counted amount must be a non-negative number',
+      };
+    }
+
+    const reportResult = await getCashSessionReport(sessionId);
+    if (!reportResult.success || !reportResult.data) {
+      return reportResult;
+    }
+
+    if (reportResult.data.session.status !== 'open') {
+      return {
+        success: false,
+        error: 'Cash session is already closed',
+      };
+    }
+
+    const expected = reportResult.data.expected_amount;
+    const counted = formatDecimal(countedAmount);
+    const overShort = formatDecimal(counted - expected);
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: session, error } = await supabase
+      .from('cash_sessions')
+      .update({
+        status: 'closed',
+        closed_at: new Date().toISOString(),
+        expected_amount: expected,
+        counted_amount: counted,
+        over_short: overShort,
+        notes: notes ?? reportResult.data.session.notes,
+      })
+      .eq('id', sessionId)
+      .eq('status', 'open')
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        ...reportResult.data,
+        session,
+        counted_amount: counted,
+        over_short: overShort,
+      },
+      message: 'Cash drawer closed',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Get over/short report for a session
+ * Expected cash = opening float + cash taken on the cashier's completed
+ * orders during the session + pay-ins - pay-outs - cash refunds, totalled
+ * by the cash_session_totals database function
+ */
+export async function getCashSessionReport(
+  sessionId: string
+): Promise<ApiResponse<CashSessionReport>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data: session, error: sessionError } = await supabase
+      .from('cash_sessions')
+      .select(
+        `
+        *,
+        movements:cash_movements (*)
+        `
+      )
+      .eq('id', sessionId)
+      .single();
+
+    if (sessionError || !session) {
+      return {
+        success: false,
+        error: sessionError?.message || 'Cash session not found',
+      };
+    }
+
+    const { data: totals, error: totalsError } = await supabase.rpc('cash_session_totals', {
+      p_session_id: sessionId,
+    });
+
+    if (totalsError || !totals) {
+      return {
+        success: false,
+        error: totalsError?.message || 'Failed to total the session',
+      };
+    }
+
+    const openingFloat = Number(session.opening_float);
+    const cashSales = formatDecimal(Number(totals.cash_sales));
+    const payIns = formatDecimal(Number(totals.pay_ins));
+    const payOuts = formatDecimal(Number(totals.pay_outs));
+    const cashRefunds = formatDecimal(Number(totals.cash_refunds));
+    const expected = formatDecimal(openingFloat + cashSales + payIns - payOuts - cashRefunds);
+
+    return {
+      success: true,
+      data: {
+        session,
+        opening_float: openingFloat,
+        cash_sales: cashSales,
+        pay_ins: payIns,
+        pay_outs: payOuts,
+        cash_refunds: cashRefunds,
+        expected_amount: expected,
+        counted_amount: session.counted_amount,
+        over_short: session.over_short,
+        order_count: Number(totals.order_count),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get recent cash sessions (Admin only)
+ */
+export async function getCashSessions(limit = 50): Promise<ApiResponse<CashSession[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('cash_sessions')
+      .select(
+        `
+        *,
+        cashier:cashier_id (
+          id,
+          email,
+          full_name
+        )
+        `
+      )
+      .order('opened_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
@@ -0,0 +1,253 @@
+'use server';
+
+/**
+ * Server Actions for Customers
+ * Customer accounts attached to orders at the POS
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import {
+  ApiResponse,
+  Customer,
+  CustomerHistory,
+  CreateCustomerFormData,
+  Order,
+} from '@/lib/types';
+import { formatDecimal, isValidEmail, SALE_ORDER_STATUSES } from '@/lib/utils';
+
+// ============================================================================
+// CUSTOMER ACTIONS
+// ============================================================================
+
+/**
+ * Search customers by name or phone number
+ */
+export async function searchCustomers(query: string): Promise<ApiResponse<Customer[]>> {
+  try {
+    if (!query || query.trim().length === 0) {
+      return {
+        success: true,
+        data: [],
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+    const searchTerm = `%${query.trim()}%`;
+
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .or(`name.ilike.${searchTerm},phone.ilike.${searchTerm}`)
+      .order('name', { ascending: true })
+      .limit(20);
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get customer by ID
+ */
+export async function getCustomerById(customerId: string): Promise<ApiResponse<Customer>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('id', customerId)
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Create new customer
+ */
+export async function createCustomer(
+  data: CreateCustomerFormData
+): Promise<ApiResponse<Customer>> {
+  try {
+    if (!data.name || data.name.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Customer name is required',
+      };
+    }
+
+    if (data.email && !isValidEmail(data.email.trim())) {
+      return {
+        success: false,
+        error: 'Invalid email address',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .insert({
+        name: data.name.trim(),
+        phone: data.phone?.trim() || null,
+        email: data.email?.trim() || null,
+        notes: data.notes?.trim() || null,
+        is_tax_exempt: data.is_tax_exempt ?? false,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: customer,
+      message: 'Customer created successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Update customer
+ */
+export async function updateCustomer(
+  customerId: string,
+  updates: Partial<Customer>
+): Promise<ApiResponse<Customer>> {
+  try {
+    if (updates.email && !isValidEmail(updates.email.trim())) {
+      return {
+        success: false,
+        error: 'Invalid email address',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('customers')
+      .update(updates)
+      .eq('id', customerId)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: 'Customer updated successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get a customer's purchase history and lifetime spend
+ * Totals are summed in the database by the customer_totals function; lifetime
+ * spend counts completed sales less anything refunded on them. Lists the
+ * customer's latest sales, newest first; parked carts and cancelled orders
+ * are left out
+ */
+export async function getCustomerHistory(
+  customerId: string,
+  limit: number = 50
+): Promise<ApiResponse<CustomerHistory>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const customerResult = await getCustomerById(customerId);
+    if (!customerResult.success || !customerResult.data) {
+      return {
+        success: false,
+        error: customerResult.error || 'Customer not found',
+      };
+    }
+
+    const [ordersResult, totalsResult] = await Promise.all([
+      supabase
+        .from('orders')
+        .select('*')
+        .eq('customer_id', customerId)
+        .in('status', SALE_ORDER_STATUSES)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      supabase.rpc('customer_totals', { p_customer_id: customerId }),
+    ]);
+
+    const queryError = ordersResult.error || totalsResult.error;
+    if (queryError) {
+      return {
+        success: false,
+        error: queryError.message,
+      };
+    }
+
+    const totals = totalsResult.data;
+
+    return {
+      success: true,
+      data: {
+        customer: customerResult.data,
+        orders: (ordersResult.data || []) as Order[],
+        order_count: Number(totals.order_count),
+        lifetime_spend: formatDecimal(Number(totals.lifetime_spend)),
+        last_order_at: totals.last_order_at,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
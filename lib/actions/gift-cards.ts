@@ -0,0 +1,292 @@
+'use server';
+
+/**
+ * Server Actions for Gift Cards & Store Credit
+ * Cards are issued and spent through checkout; a card's balance is always
+ * the sum of its ledger entries, summed in the database. Store credit is a
+ * card held by a customer and used through the customer rather than a code
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { ApiResponse, GiftCard, GiftCardAccount, GiftCardLedgerEntry } from '@/lib/types';
+import { normalizeGiftCardCode } from '@/lib/utils/gift-cards';
+
+// Entries returned with each card, newest first
+const LEDGER_ENTRY_LIMIT = 50;
+
+// A card with its balance (the `balance` computed column) and latest entries
+const GIFT_CARD_ACCOUNT_SELECT = '*, balance, entries:gift_card_ledger (*)';
+
+type GiftCardAccountRow = GiftCard & {
+  balance: number;
+  entries: GiftCardLedgerEntry[] | null;
+};
+
+/**
+ * Split a card row with its balance and latest entries into an account
+ */
+function toGiftCardAccount(row: GiftCardAccountRow): GiftCardAccount {
+  const { balance, entries, ...giftCard } = row;
+
+  return {
+    gift_card: giftCard,
+    balance: Number(balance),
+    entries: entries || [],
+  };
+}
+
+// ============================================================================
+// GIFT CARD ACTIONS
+// ============================================================================
+
+/**
+ * Get gift cards and store credit accounts with their balances
+ * Active cards only unless includeInactive is set
+ */
+export async function getGiftCards(
+  includeInactive: boolean = false
+): Promise<ApiResponse<GiftCardAccount[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    let query = supabase
+      .from('gift_cards')
+      .select(`${GIFT_CARD_ACCOUNT_SELECT}, customer:customer_id (*)`)
+      .order('created_at', { referencedTable: 'entries', ascending: false })
+      .limit(LEDGER_ENTRY_LIMIT, { referencedTable: 'entries' });
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: (data || []).map(toGiftCardAccount),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Look up a gift card's balance and ledger by its code
+ */
+export async function getGiftCardByCode(code: string): Promise<ApiResponse<GiftCardAccount>> {
+  try {
+    const normalized = normalizeGiftCardCode(code || '');
+    if (!normalized) {
+      return {
+        success: false,
+        error: 'Gift card code is required',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('gift_cards')
+      .select(`${GIFT_CARD_ACCOUNT_SELECT}, customer:customer_id (*)`)
+      .order('created_at', { referencedTable: 'entries', ascending: false })
+      .limit(LEDGER_ENTRY_LIMIT, { referencedTable: 'entries' })
+      .eq('code', normalized)
+      .eq('is_store_credit', false)
+      .maybeSingle();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: 'Gift card not found',
+      };
+    }
+
+    return {
+      success: true,
+      data: toGiftCardAccount(data),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get a customer's store credit balance and ledger
+ * Returns null when the customer has never been given store credit
+ */
+export async function getStoreCredit(
+  customerId: string
+): Promise<ApiResponse<GiftCardAccount | null>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('gift_cards')
+      .select(GIFT_CARD_ACCOUNT_SELECT)
+      .order('created_at', { referencedTable: 'entries', ascending: false })
+      .limit(LEDGER_ENTRY_LIMIT, { referencedTable: 'entries' })
+      .eq('customer_id', customerId)
+      .eq('is_store_credit', true)
+      .maybeSingle();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data ? toGiftCardAccount(data) : null,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Activate or deactivate a card, e.g. when it is reported lost (Admin only)
+ * Inactive cards cannot be spent or reloaded
+ */
+export async function setGiftCardActive(
+  giftCardId: string,
+  isActive: boolean
+): Promise<ApiResponse<GiftCard>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('gift_cards')
+      .update({ is_active: isActive })
+      .eq('id', giftCardId)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: isActive ? 'Gift card activated' : 'Gift card deactivated',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+// ============================================================================
+// LEDGER ACTIONS
+// ============================================================================
+
+/**
+ * Add or remove value by hand (Admin only)
+ * Corrections are new entries; existing entries are never changed, and a
+ * balance cannot be taken below zero
+ */
+export async function adjustGiftCardBalance(
+  giftCardId: string,
+  amount: number,
+  userId: string,
+  notes: string
+): Promise<ApiResponse<GiftCardLedgerEntry>> {
+  try {
+    if (!isFinite(amount) || Math.round(amount * 100) === 0) {
+      return {
+        success: false,
+        error: 'Amount must be other than zero',
+      };
+    }
+
+    if (!notes || notes.trim().length === 0) {
+      return {
+        success: false,
+        error: 'A reason is required',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    if (amount < 0) {
+      const { data: balanceData, error: balanceError } = await supabase.rpc('gift_card_balance', {
+        p_gift_card_id: giftCardId,
+      });
+
+      if (balanceError) {
+        return {
+          success: false,
+          error: balanceError.message,
+        };
+      }
+
+      const balance = Number(balanceData);
+      if (balance + amount < 0) {
+        return {
+          success: false,
+          error: `Cannot remove more than the balance of ${balance.toFixed(2)}`,
+        };
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('gift_card_ledger')
+      .insert({
+        gift_card_id: giftCardId,
+        entry_type: 'adjustment',
+        amount,
+        notes: notes.trim(),
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: 'Gift card balance adjusted',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
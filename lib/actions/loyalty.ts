@@ -0,0 +1,282 @@
+'use server';
+
+/**
+ * Server Actions for Loyalty Points
+ * Earn/redeem rules and the append-only points ledger; a customer's balance
+ * is always the sum of their ledger entries
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import {
+  ApiResponse,
+  LoyaltyAccount,
+  LoyaltyLedgerEntry,
+  LoyaltyRule,
+  CreateLoyaltyRuleFormData,
+} from '@/lib/types';
+import { pointsToAmount } from '@/lib/utils/loyalty';
+
+// ============================================================================
+// LOYALTY RULE ACTIONS
+// ============================================================================
+
+/**
+ * Get active loyalty rules
+ */
+export async function getLoyaltyRules(): Promise<ApiResponse<LoyaltyRule[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('loyalty_rules')
+      .select('*')
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Create loyalty rule (Admin only)
+ */
+export async function createLoyaltyRule(
+  data: CreateLoyaltyRuleFormData
+): Promise<ApiResponse<LoyaltyRule>> {
+  try {
+    if (!data.name || data.name.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Rule name is required',
+      };
+    }
+
+    if (!(data.value >= 0)) {
+      return {
+        success: false,
+        error: 'Rule value must be zero or more',
+      };
+    }
+
+    if (data.rule_type === 'category_multiplier' && !data.category_id) {
+      return {
+        success: false,
+        error: 'Category multipliers need a category',
+      };
+    }
+
+    if (
+      data.rule_type === 'bonus_day' &&
+      (data.day_of_week === undefined || data.day_of_week < 0 || data.day_of_week > 6)
+    ) {
+      return {
+        success: false,
+        error: 'Bonus days need a day of the week (0 = Sunday to 6 = Saturday)',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: rule, error } = await supabase
+      .from('loyalty_rules')
+      .insert({
+        name: data.name.trim(),
+        rule_type: data.rule_type,
+        value: data.value,
+        category_id: data.category_id || null,
+        day_of_week: data.day_of_week ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: rule,
+      message: 'Loyalty rule created successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Update loyalty rule, e.g. to deactivate it (Admin only)
+ */
+export async function updateLoyaltyRule(
+  ruleId: string,
+  updates: Partial<LoyaltyRule>
+): Promise<ApiResponse<LoyaltyRule>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('loyalty_rules')
+      .update(updates)
+      .eq('id', ruleId)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: 'Loyalty rule updated successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+// ============================================================================
+// LEDGER ACTIONS
+// ============================================================================
+
+/**
+ * Get a customer's points balance and latest ledger entries, newest first
+ * The balance is summed in the database over every entry
+ */
+export async function getLoyaltyAccount(
+  customerId: string,
+  limit: number = 50
+): Promise<ApiResponse<LoyaltyAccount>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const [entriesResult, balanceResult] = await Promise.all([
+      supabase
+        .from('loyalty_ledger')
+        .select('*')
+        .eq('customer_id', customerId)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      supabase.rpc('loyalty_balance', { p_customer_id: customerId }),
+    ]);
+
+    const queryError = entriesResult.error || balanceResult.error;
+    if (queryError) {
+      return {
+        success: false,
+        error: queryError.message,
+      };
+    }
+
+    const rulesResult = await getLoyaltyRules();
+    if (!rulesResult.success) {
+      return {
+        success: false,
+        error: rulesResult.error,
+      };
+    }
+
+    const entries: LoyaltyLedgerEntry[] = entriesResult.data || [];
+    const balance = Number(balanceResult.data);
+
+    return {
+      success: true,
+      data: {
+        customer_id: customerId,
+        balance,
+        balance_value: pointsToAmount(balance, rulesResult.data || []),
+        entries,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Add or remove points by hand (Admin only)
+ * Corrections are new entries; existing entries are never changed
+ */
+export async function adjustLoyaltyPoints(
+  customerId: string,
+  points: number,
+  userId: string,
+  notes: string
+): Promise<ApiResponse<LoyaltyLedgerEntry>> {
+  try {
+    if (!Number.isInteger(points) || points === 0) {
+      return {
+        success: false,
+        error: 'Points must be a whole number other than zero',
+      };
+    }
+
+    if (!notes || notes.trim().length === 0) {
+      return {
+        success: false,
+        error: 'A reason is required',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('loyalty_ledger')
+      .insert({
+        customer_id: customerId,
+        entry_type: 'adjustment',
+        points,
+        notes: notes.trim(),
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: 'Loyalty points adjusted',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
@@ -0,0 +1,422 @@
+'use server';
+
+/**
+ * Server Actions for Modifiers
+ * Add-ons chosen on a line (extra shot, oat milk) and the products or
+ * categories that offer them
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import {
+  ApiResponse,
+  CreateModifierGroupFormData,
+  Modifier,
+  ModifierGroup,
+} from '@/lib/types';
+
+type ModifierGroupRow = Omit<ModifierGroup, 'modifiers' | 'product_ids' | 'category_ids'> & {
+  links: { product_id: string | null; category_id: string | null }[] | null;
+  modifiers: Modifier[] | null;
+};
+
+/**
+ * Flatten a group row's links into product and category IDs and keep its
+ * modifiers in display order
+ */
+function toModifierGroup(row: ModifierGroupRow, includeInactive: boolean): ModifierGroup {
+  const { links, modifiers, ...group } = row;
+  const linkRows = links || [];
+
+  return {
+    ...group,
+    modifiers: (modifiers || [])
+      .filter((modifier) => includeInactive || modifier.is_active)
+      .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name)),
+    product_ids: linkRows.filter((link) => link.product_id).map((link) => link.product_id!),
+    category_ids: linkRows.filter((link) => link.category_id).map((link) => link.category_id!),
+  };
+}
+
+/**
+ * Check a group's selection limits
+ */
+function validateLimits(minSelect: number, maxSelect: number | null): string | null {
+  if (!Number.isInteger(minSelect) || minSelect < 0) {
+    return 'Minimum selection must be a whole number of zero or more';
+  }
+  if (maxSelect !== null && (!Number.isInteger(maxSelect) || maxSelect < Math.max(minSelect, 1))) {
+    return 'Maximum selection must be at least 1 and not below the minimum';
+  }
+  return null;
+}
+
+// ============================================================================
+// MODIFIER GROUP ACTIONS
+// ============================================================================
+
+/**
+ * Get modifier groups with their modifiers and links
+ * Active groups and modifiers only unless includeInactive is set
+ */
+export async function getModifierGroups(
+  includeInactive: boolean = false
+): Promise<ApiResponse<ModifierGroup[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    let query = supabase
+      .from('modifier_groups')
+      .select('*, modifiers (*), links:modifier_group_links (product_id, category_id)');
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: (data || []).map((row) => toModifierGroup(row, includeInactive)),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Create a modifier group with its modifiers and links (Admin only)
+ */
+export async function createModifierGroup(
+  data: CreateModifierGroupFormData
+): Promise<ApiResponse<ModifierGroup>> {
+  try {
+    if (!data.name || data.name.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Group name is required',
+      };
+    }
+
+    const limitsError = validateLimits(data.min_select, data.max_select);
+    if (limitsError) {
+      return {
+        success: false,
+        error: limitsError,
+      };
+    }
+
+    const modifiers = (data.modifiers || []).filter((modifier) => modifier.name.trim());
+    if (modifiers.length === 0) {
+      return {
+        success: false,
+        error: 'Add at least one modifier',
+      };
+    }
+
+    if (data.min_select > modifiers.length) {
+      return {
+        success: false,
+        error: 'Minimum selection is more than the number of modifiers',
+      };
+    }
+
+    if (modifiers.some((modifier) => isNaN(modifier.price_delta))) {
+      return {
+        success: false,
+        error: 'Invalid modifier price',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: group, error } = await supabase
+      .from('modifier_groups')
+      .insert({
+        name: data.name.trim(),
+        min_select: data.min_select,
+        max_select: data.max_select,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    const { error: modifiersError } = await supabase.from('modifiers').insert(
+      modifiers.map((modifier, index) => ({
+        group_id: group.id,
+        name: modifier.name.trim(),
+        price_delta: modifier.price_delta,
+        ingredient_product_id: modifier.ingredient_product_id || null,
+        ingredient_quantity: modifier.ingredient_quantity || 1,
+        sort_order: index,
+      }))
+    );
+
+    if (modifiersError) {
+      await supabase.from('modifier_groups').delete().eq('id', group.id);
+      return {
+        success: false,
+        error: modifiersError.message,
+      };
+    }
+
+    const linksResult = await setModifierGroupLinks(
+      group.id,
+      data.product_ids || [],
+      data.category_ids || []
+    );
+    if (!linksResult.success) {
+      return {
+        success: false,
+        error: `Group created but links failed: ${linksResult.error}`,
+      };
+    }
+
+    return {
+      success: true,
+      data: group,
+      message: 'Modifier group created successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Update a modifier group's name, limits or active flag (Admin only)
+ */
+export async function updateModifierGroup(
+  groupId: string,
+  updates: Partial<Pick<ModifierGroup, 'name' | 'min_select' | 'max_select' | 'sort_order' | 'is_active'>>
+): Promise<ApiResponse<ModifierGroup>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    if (updates.min_select !== undefined || updates.max_select !== undefined) {
+      const { data: current, error: currentError } = await supabase
+        .from('modifier_groups')
+        .select('min_select, max_select')
+        .eq('id', groupId)
+        .single();
+
+      if (currentError) {
+        return {
+          success: false,
+          error: currentError.message,
+        };
+      }
+
+      const limitsError = validateLimits(
+        updates.min_select ?? current.min_select,
+        updates.max_select !== undefined ? updates.max_select : current.max_select
+      );
+      if (limitsError) {
+        return {
+          success: false,
+          error: limitsError,
+        };
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('modifier_groups')
+      .update(updates)
+      .eq('id', groupId)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: 'Modifier group updated successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Replace the products and categories a group is offered on (Admin only)
+ */
+export async function setModifierGroupLinks(
+  groupId: string,
+  productIds: string[],
+  categoryIds: string[]
+): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { error: deleteError } = await supabase
+      .from('modifier_group_links')
+      .delete()
+      .eq('group_id', groupId);
+
+    if (deleteError) {
+      return {
+        success: false,
+        error: deleteError.message,
+      };
+    }
+
+    const links = [
+      ...Array.from(new Set(productIds)).map((productId) => ({
+        group_id: groupId,
+        product_id: productId,
+      })),
+      ...Array.from(new Set(categoryIds)).map((categoryId) => ({
+        group_id: groupId,
+        category_id: categoryId,
+      })),
+    ];
+
+    if (links.length > 0) {
+      const { error } = await supabase.from('modifier_group_links').insert(links);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data: null,
+      message: 'Modifier group links saved',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+// ============================================================================
+// MODIFIER ACTIONS
+// ============================================================================
+
+/**
+ * Add a modifier to a group (Admin only)
+ */
+export async function addModifier(
+  groupId: string,
+  data: CreateModifierGroupFormData['modifiers'][number]
+): Promise<ApiResponse<Modifier>> {
+  try {
+    if (!data.name || data.name.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Modifier name is required',
+      };
+    }
+
+    if (isNaN(data.price_delta)) {
+      return {
+        success: false,
+        error: 'Invalid modifier price',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: modifier, error } = await supabase
+      .from('modifiers')
+      .insert({
+        group_id: groupId,
+        name: data.name.trim(),
+        price_delta: data.price_delta,
+        ingredient_product_id: data.ingredient_product_id || null,
+        ingredient_quantity: data.ingredient_quantity || 1,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: modifier,
+      message: 'Modifier added successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Update a modifier (Admin only)
+ * Past orders keep the name and price they were sold with
+ */
+export async function updateModifier(
+  modifierId: string,
+  updates: Partial<Omit<Modifier, 'id' | 'group_id' | 'created_at'>>
+): Promise<ApiResponse<Modifier>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('modifiers')
+      .update(updates)
+      .eq('id', modifierId)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: 'Modifier updated successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
@@ -6,8 +6,71 @@
  */
 
 import { createServerSupabaseClient } from '@/lib/supabase';
-import { ApiResponse, Order, OrderItem, CartItem, Product } from '@/lib/types';
-import { generateOrderNumber, calculateCartTotals, formatDecimal } from '@/lib/utils';
+import {
+  ApiResponse,
+  DailySalesTotals,
+  MarginGroupBy,
+  MarginGroupTotals,
+  MarginReport,
+  Order,
+  OrderItem,
+  CartItem,
+  Product,
+  PaymentTender,
+  PaymentMethodSalesData,
+  HourlySalesData,
+  CategorySalesData,
+  ProductSalesData,
+  SalesAnalytics,
+  TaxLiabilityReport,
+  TaxLiabilityRow,
+  CreateOrderOptions,
+  PaginatedResponse,
+  PaginationParams,
+  OrderFilters,
+} from '@/lib/types';
+import {
+  generateOrderNumber,
+  getPageRange,
+  toPaginatedResponse,
+  calculateCartTotals,
+  calculateLineTotal,
+  calculateTenderedTotal,
+  formatDecimal,
+  getCartItemUnitPrice,
+  getDayOfWeek,
+  getEffectiveTaxRate,
+  removeTax,
+  SALE_ORDER_STATUSES,
+} from '@/lib/utils';
+import { applyPromotions } from '@/lib/utils/promotions';
+import { amountToPoints, calculatePointsEarned } from '@/lib/utils/loyalty';
+import { hasVariants } from '@/lib/utils/variants';
+import { applyTaxClasses } from '@/lib/utils/taxes';
+import { generateGiftCardCode, normalizeGiftCardCode } from '@/lib/utils/gift-cards';
+import { buildMarginReport } from '@/lib/utils/margins';
+import {
+  getModifierGroupsForProduct,
+  resolveModifiers,
+  validateModifierSelection,
+} from '@/lib/utils/modifiers';
+import { getActivePromotions } from '@/lib/actions/promotions';
+import { getLoyaltyRules } from '@/lib/actions/loyalty';
+import { getModifierGroups } from '@/lib/actions/modifiers';
+import { getProductsByIds } from '@/lib/actions/products';
+import { getTaxClasses } from '@/lib/actions/taxes';
+
+/**
+ * Sales by payment method rows as returned by the sales_by_payment_method
+ * database function
+ */
+function toPaymentMethodSales(rows: PaymentMethodSalesData[] | null): PaymentMethodSalesData[] {
+  return (rows || []).map((row) => ({
+    payment_method: row.payment_method,
+    amount: formatDecimal(Number(row.amount)),
+    transaction_count: Number(row.transaction_count),
+  }));
+}
 
 // ============================================================================
 // ORDER ACTIONS
@@ -15,15 +78,38 @@ import { generateOrderNumber, calculateCartTotals, formatDecimal } from '@/lib/u
 
 /**
  * Create new order from cart
- * Handles inventory update, order creation, and order items
+ * Runs checkout through the create_order database function, which locks
+ * the store's stock rows, validates stock and writes the order, items and
+ * inventory logs in a single transaction. Active promotions are applied here, so
+ * the discounted total is authoritative. Payments may be split across
+ * several tenders, which must add up to the order total. An idempotency
+ * key makes retries (e.g. offline sales replayed on reconnect) safe.
+ * Taxes come from each product's tax class, and are extracted from the
+ * price rather than added when the store's prices include tax. Sales to
+ * a tax-exempt customer are charged no tax. With a customer
+ * attached, loyalty points are earned and may be spent as a 'points' tender.
+ * Gift card lines issue a new card per unit, or reload the card in
+ * gift_card_code; gift cards and the customer's store credit may be spent
+ * as tenders, in part or in full, up to their balance. Lines are priced
+ * from the catalog; only the product IDs, quantities and chosen modifiers
+ * of the items passed in are used
  */
 export async function createOrder(
   cashierId: string,
+  storeId: string,
   items: CartItem[],
-  paymentMethod: 'cash' | 'card' | 'mobile',
-  notes?: string
+  payments: PaymentTender[],
+  notes?: string,
+  options: CreateOrderOptions = {}
 ): Promise<ApiResponse<Order>> {
   try {
+    if (!storeId) {
+      return {
+        success: false,
+        error: 'No store selected for this order',
+      };
+    }
+
     // Validate cart
     if (!items || items.length === 0) {
       return {
@@ -32,111 +118,341 @@ export async function createOrder(
       };
     }
 
+    // The client's copy of each product is ignored: price, tax class,
+    // category and gift card flag all come from the catalog
+    const productsResult = await getProductsByIds(
+      items.map((item) => item.product_id),
+      storeId
+    );
+    if (!productsResult.success) {
+      return {
+        success: false,
+        error: productsResult.error || 'Failed to load products',
+      };
+    }
+
+    const products = productsResult.data || [];
+    const catalogItems: CartItem[] = [];
+    for (const item of items) {
+      const product = products.find((candidate) => candidate.id === item.product_id);
+      if (!product) {
+        return {
+          success: false,
+          error: `${item.product?.name || 'A product'} is no longer available`,
+        };
+      }
+      catalogItems.push({ ...item, product });
+    }
+
+    // Parents are sold through their variants
+    const parentItem = catalogItems.find((item) => hasVariants(item.product));
+    if (parentItem) {
+      return {
+        success: false,
+        error: `Choose a variant of ${parentItem.product.name}`,
+      };
+    }
+
+    // Gift cards are sold at face value
+    const invalidGiftCard = catalogItems.find(
+      (item) =>
+        item.product.is_gift_card &&
+        (!(item.product.price > 0) || (item.modifiers || []).length > 0)
+    );
+    if (invalidGiftCard) {
+      return {
+        success: false,
+        error: `${invalidGiftCard.product.name} must have a price and no modifiers`,
+      };
+    }
+
     const supabase = createServerSupabaseClient();
 
-    // Validate product availability
-    for (const cartItem of items) {
-      const { data: product, error } = await supabase
-        .from('products')
-        .select('quantity_on_hand')
-        .eq('id', cartItem.product_id)
-        .single();
+    // Apply promotions, then calculate totals with tax after discounts
+    const promotionsResult = await getActivePromotions();
+    if (!promotionsResult.success) {
+      return {
+        success: false,
+        error: promotionsResult.error || 'Failed to load promotions',
+      };
+    }
+
+    // Modifiers are re-priced from the catalog and checked against the
+    // min/max rules of the groups each product offers
+    const groupsResult = await getModifierGroups();
+    if (!groupsResult.success) {
+      return {
+        success: false,
+        error: groupsResult.error || 'Failed to load modifiers',
+      };
+    }
+
+    const modifierGroups = groupsResult.data || [];
+    const resolvedItems: CartItem[] = [];
+    for (const item of catalogItems) {
+      const chosen = item.modifiers || [];
+      const modifiers = resolveModifiers(
+        modifierGroups,
+        chosen.map((modifier) => modifier.modifier_id)
+      );
+      if (modifiers.length !== chosen.length) {
+        return {
+          success: false,
+          error: `A modifier on ${item.product.name} is no longer available`,
+        };
+      }
 
-      if (error || !product) {
+      const selectionError = validateModifierSelection(
+        getModifierGroupsForProduct(modifierGroups, item.product),
+        modifiers
+      );
+      if (selectionError) {
         return {
           success: false,
-          error: `Product not found: ${cartItem.product_id}`,
+          error: `${item.product.name}: ${selectionError}`,
         };
       }
 
-      if (product.quantity_on_hand < cartItem.quantity) {
+      const resolved = { ...item, modifiers };
+      if (getCartItemUnitPrice(resolved) < 0) {
+        return {
+          success: false,
+          error: `${item.product.name} cannot have a negative price`,
+        };
+      }
+      resolvedItems.push(resolved);
+    }
+
+    const { data: store, error: storeError } = await supabase
+      .from('stores')
+      .select('prices_include_tax, time_zone')
+      .eq('id', storeId)
+      .single();
+
+    if (storeError || !store) {
+      return {
+        success: false,
+        error: 'Store not found',
+      };
+    }
+
+    const pricesIncludeTax = store.prices_include_tax;
+
+    const taxClassesResult = await getTaxClasses();
+    if (!taxClassesResult.success) {
+      return {
+        success: false,
+        error: taxClassesResult.error || 'Failed to load tax classes',
+      };
+    }
+
+    const taxedItems = applyTaxClasses(resolvedItems, taxClassesResult.data || []);
+
+    let pricedItems = taxedItems;
+    if (options.customer_id) {
+      const { data: customer, error: customerError } = await supabase
+        .from('customers')
+        .select('is_tax_exempt')
+        .eq('id', options.customer_id)
+        .single();
+
+      if (customerError || !customer) {
         return {
           success: false,
-          error: `Insufficient stock for product: ${cartItem.product.name}`,
+          error: 'Customer not found',
         };
       }
+
+      if (customer.is_tax_exempt) {
+        pricedItems = removeTax(taxedItems, pricesIncludeTax);
+      }
     }
 
-    // Calculate totals
-    const orderItems = items.map((item) => ({
+    const cart = applyPromotions(pricedItems, promotionsResult.data || [], pricesIncludeTax);
+
+    const orderItems = cart.items.map((item) => ({
       product_id: item.product_id,
       quantity: item.quantity,
-      unit_price: item.product.price,
-      tax_rate: item.product.tax_rate,
+      unit_price: getCartItemUnitPrice(item),
+      discount_amount: item.discount_amount || 0,
+      promotion_id: item.promotion_id || null,
+      tax_rate: getEffectiveTaxRate(item.tax_rates || []),
+      tax_rates: item.tax_rates || [],
     }));
 
-    const totals = calculateCartTotals(orderItems);
-    const orderNumber = generateOrderNumber();
+    const totals = calculateCartTotals(orderItems, pricesIncludeTax);
 
-    // Create order
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .insert({
-        cashier_id: cashierId,
-        order_number: orderNumber,
-        status: 'completed',
-        subtotal: totals.subtotal,
-        tax_total: totals.tax,
-        total: totals.total,
-        payment_method: paymentMethod,
-        notes,
-      })
-      .select()
-      .single();
+    // Validate payments
+    if (!payments || payments.length === 0) {
+      return {
+        success: false,
+        error: 'At least one payment is required',
+      };
+    }
 
-    if (orderError || !order) {
+    if (payments.some((payment) => !(payment.amount > 0))) {
       return {
         success: false,
-        error: orderError?.message || 'Failed to create order',
+        error: 'Payment amounts must be greater than zero',
+      };
+    }
+
+    if (
+      payments.some(
+        (payment) =>
+          payment.tendered_amount !== undefined &&
+          (payment.method !== 'cash' || payment.tendered_amount < payment.amount)
+      )
+    ) {
+      return {
+        success: false,
+        error: 'Cash tendered must cover the cash payment amount',
       };
     }
 
-    // Create order items
-    const lineItems = items.map((item) => {
-      const { subtotal, tax, total } = calculateCartTotals([
-        {
-          quantity: item.quantity,
-          unit_price: item.product.price,
-          tax_rate: item.product.tax_rate,
-        },
-      ]);
+    if (payments.some((payment) => payment.method === 'gift_card' && !payment.reference?.trim())) {
+      return {
+        success: false,
+        error: 'Gift card payments need the card code',
+      };
+    }
 
+    if (!options.customer_id && payments.some((payment) => payment.method === 'store_credit')) {
       return {
-        order_id: order.id,
-        product_id: item.product_id,
-        quantity: item.quantity,
-        unit_price: item.product.price,
-        tax_rate: item.product.tax_rate,
-        line_total: total,
+        success: false,
+        error: 'A customer is required to pay with store credit',
       };
-    });
+    }
 
-    const { error: itemsError } = await supabase
-      .from('order_items')
-      .insert(lineItems);
+    // Carts are rung up at the POS's cached prices (for sales queued offline,
+    // possibly long ago); a catalog change since then shows up here
+    const tendered = calculateTenderedTotal(payments);
+    if (tendered !== totals.total) {
+      return {
+        success: false,
+        error: `Payments total ${tendered.toFixed(2)} does not match order total ${totals.total.toFixed(2)} at current prices`,
+      };
+    }
+
+    // Loyalty points: tenders paid with points are converted to points, and
+    // points are earned on the rest of the order
+    const pointsAmount = calculateTenderedTotal(
+      payments.filter((payment) => payment.method === 'points')
+    );
+    let pointsRedeemed = 0;
+    let pointsEarned = 0;
+
+    if (options.customer_id) {
+      const rulesResult = await getLoyaltyRules();
+      if (!rulesResult.success) {
+        return {
+          success: false,
+          error: rulesResult.error || 'Failed to load loyalty rules',
+        };
+      }
+
+      const rules = rulesResult.data || [];
+      if (pointsAmount > 0) {
+        const points = amountToPoints(pointsAmount, rules);
+        if (points === null) {
+          return {
+            success: false,
+            error: 'Points payments must be a whole number of points',
+          };
+        }
+        pointsRedeemed = points;
+      }
+
+      pointsEarned = calculatePointsEarned(
+        cart.items,
+        rules,
+        totals.total,
+        pointsAmount,
+        pricesIncludeTax,
+        getDayOfWeek(
+          options.created_at ? new Date(options.created_at) : new Date(),
+          store.time_zone
+        )
+      );
+    } else if (pointsAmount > 0) {
+      return {
+        success: false,
+        error: 'A customer is required to pay with loyalty points',
+      };
+    }
+
+    const orderNumber = generateOrderNumber();
 
-    if (itemsError) {
-      // Soft delete order if items creation fails
-      await supabase
-        .from('orders')
-        .update({ status: 'cancelled' })
-        .eq('id', order.id);
+    // New gift cards get their codes here, one per unit sold
+    const giftCardFields = (cartItem: CartItem, quantity: number) => {
+      if (!cartItem.product.is_gift_card) return {};
+      return cartItem.gift_card_code
+        ? { gift_card_code: normalizeGiftCardCode(cartItem.gift_card_code) }
+        : { gift_card_codes: Array.from({ length: quantity }, generateGiftCardCode) };
+    };
+
+    const lineItems = orderItems.map(({ tax_rates, ...item }, index) => ({
+      ...item,
+      ...giftCardFields(cart.items[index], item.quantity),
+      line_total: calculateLineTotal(
+        item.unit_price,
+        item.quantity,
+        tax_rates,
+        item.discount_amount,
+        pricesIncludeTax
+      ).total,
+      modifiers: (cart.items[index].modifiers || []).map((modifier) => ({
+        modifier_id: modifier.modifier_id,
+        name: modifier.name,
+        price_delta: modifier.price_delta,
+      })),
+    }));
 
+    const { data: order, error: orderError } = await supabase.rpc('create_order', {
+      p_store_id: storeId,
+      p_cashier_id: cashierId,
+      p_order_number: orderNumber,
+      p_subtotal: totals.subtotal,
+      p_discount_total: totals.discount,
+      p_tax_total: totals.tax,
+      p_total: totals.total,
+      p_items: lineItems,
+      p_payments: payments.map((payment) => ({
+        method: payment.method,
+        amount: formatDecimal(payment.amount),
+        tendered_amount:
+          payment.tendered_amount !== undefined ? formatDecimal(payment.tendered_amount) : null,
+        // Store credit is found through the customer, gift cards by code
+        reference:
+          payment.method === 'store_credit'
+            ? null
+            : payment.method === 'gift_card'
+              ? normalizeGiftCardCode(payment.reference!)
+              : (payment.reference ?? null),
+      })),
+      p_notes: notes ?? null,
+      p_idempotency_key: options.idempotency_key ?? null,
+      p_created_at: options.created_at ?? null,
+      p_customer_id: options.customer_id ?? null,
+      p_points_earned: pointsEarned,
+      p_points_redeemed: pointsRedeemed,
+      p_prices_include_tax: pricesIncludeTax,
+      p_taxes: totals.tax_breakdown,
+    });
+
+    if (orderError || !order) {
       return {
         success: false,
-        error: 'Failed to create order items',
+        error: orderError?.message || 'Failed to create order',
       };
     }
 
-    // Update inventory (trigger will handle this via database function)
-    // The update_inventory_on_order trigger will automatically:
-    // 1. Reduce quantity_on_hand for each product
-    // 2. Create inventory_logs entries
+    const created = order as Order;
 
     return {
       success: true,
-      data: order,
-      message: `Order ${orderNumber} created successfully`,
+      data: created,
+      message: `Order ${created.order_number} created successfully`,
     };
   } catch (error: any) {
     return {
@@ -164,10 +480,15 @@ export async function getOrderById(orderId: string): Promise<ApiResponse<Order>>
           full_name,
           role
         ),
+        customer:customer_id (*),
         items:order_items (
           *,
-          product:product_id (*)
-        )
+          product:product_id (*),
+          modifiers:order_item_modifiers (*),
+          gift_card_entries:gift_card_ledger (*, gift_card:gift_card_id (code))
+        ),
+        payments (*),
+        taxes:order_taxes (*)
         `
       )
       .eq('id', orderId)
@@ -211,7 +532,7 @@ export async function getOrdersByCashier(
         `
       )
       .eq('cashier_id', cashierId)
-      .eq('status', 'completed')
+      .in('status', SALE_ORDER_STATUSES)
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -235,15 +556,17 @@ export async function getOrdersByCashier(
 }
 
 /**
- * Get all orders (Admin only)
+ * Get all orders, excluding parked carts (Admin only)
+ * Limited to one store when storeId is given
  */
 export async function getAllOrders(
-  limit = 100
+  limit = 100,
+  storeId?: string
 ): Promise<ApiResponse<Order[]>> {
   try {
     const supabase = createServerSupabaseClient();
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('orders')
       .select(
         `
@@ -256,9 +579,17 @@ export async function getAllOrders(
         items:order_items (
           *,
           product:product_id (name, sku)
-        )
+        ),
+        payments (*)
         `
       )
+      .neq('status', 'pending');
+
+    if (storeId) {
+      query = query.eq('store_id', storeId);
+    }
+
+    const { data, error } = await query
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -281,23 +612,103 @@ export async function getAllOrders(
   }
 }
 
+/**
+ * Get one page of orders with items and payments (Admin only)
+ * Filters by status, store, cashier and created_at range
+ */
+export async function getOrdersPage(
+  filters: OrderFilters,
+  pagination: PaginationParams
+): Promise<ApiResponse<PaginatedResponse<Order>>> {
+  try {
+    const supabase = createServerSupabaseClient();
+    const { from, to } = getPageRange(pagination);
+
+    let query = supabase
+      .from('orders')
+      .select(
+        `
+        *,
+        items:order_items (*),
+        payments (*)
+        `,
+        { count: 'exact' }
+      );
+
+    // Parked carts are only listed when asked for
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    } else {
+      query = query.neq('status', 'pending');
+    }
+
+    if (filters.store_id) {
+      query = query.eq('store_id', filters.store_id);
+    }
+
+    if (filters.cashier_id) {
+      query = query.eq('cashier_id', filters.cashier_id);
+    }
+
+    if (filters.customer_id) {
+      query = query.eq('customer_id', filters.customer_id);
+    }
+
+    if (filters.start_date) {
+      query = query.gte('created_at', filters.start_date);
+    }
+
+    if (filters.end_date) {
+      query = query.lte('created_at', filters.end_date);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(from, to);
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: toPaginatedResponse(data || [], count || 0, pagination),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
 /**
  * Get orders by date range (Admin only)
+ * Limited to one store when storeId is given
  */
 export async function getOrdersByDateRange(
   startDate: string,
-  endDate: string
+  endDate: string,
+  storeId?: string
 ): Promise<ApiResponse<Order[]>> {
   try {
     const supabase = createServerSupabaseClient();
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('orders')
       .select('*')
       .gte('created_at', startDate)
       .lte('created_at', endDate)
-      .eq('status', 'completed')
-      .order('created_at', { ascending: false });
+      .in('status', SALE_ORDER_STATUSES);
+
+    if (storeId) {
+      query = query.eq('store_id', storeId);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
 
     if (error) {
       return {
@@ -318,6 +729,74 @@ export async function getOrdersByDateRange(
   }
 }
 
+/**
+ * Get the tax liability for a period, grouped by rate (Admin only)
+ * Built from each line's rate and line_total, so tax is split out the same
+ * way whether or not prices included it. Sales count in the period they
+ * were made and refunds in the period they were given; cancelled orders
+ * are void and never count. Lines at 0% are exempt or zero-rated sales;
+ * gift cards sold are stored value, not sales, and are left out.
+ * Summed by the tax_liability database function.
+ * Limited to one store when storeId is given
+ */
+export async function getTaxLiabilityReport(
+  startDate: string,
+  endDate: string,
+  storeId?: string
+): Promise<ApiResponse<TaxLiabilityReport>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc('tax_liability', {
+      p_start: startDate,
+      p_end: endDate,
+      p_store_id: storeId || null,
+    });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    const rows = (data || []) as Array<
+      Pick<TaxLiabilityRow, 'tax_rate' | 'sales' | 'sales_tax' | 'refunds' | 'refunds_tax'>
+    >;
+
+    const results = rows.map((row) => ({
+      tax_rate: Number(row.tax_rate),
+      sales: formatDecimal(Number(row.sales)),
+      sales_tax: formatDecimal(Number(row.sales_tax)),
+      refunds: formatDecimal(Number(row.refunds)),
+      refunds_tax: formatDecimal(Number(row.refunds_tax)),
+      net_sales: formatDecimal(Number(row.sales) - Number(row.refunds)),
+      net_tax: formatDecimal(Number(row.sales_tax) - Number(row.refunds_tax)),
+    }));
+
+    return {
+      success: true,
+      data: {
+        start_date: startDate,
+        end_date: endDate,
+        rows: results,
+        taxable_sales: formatDecimal(
+          results.filter((row) => row.tax_rate > 0).reduce((sum, row) => sum + row.net_sales, 0)
+        ),
+        exempt_sales: formatDecimal(
+          results.filter((row) => row.tax_rate === 0).reduce((sum, row) => sum + row.net_sales, 0)
+        ),
+        tax_collected: formatDecimal(results.reduce((sum, row) => sum + row.net_tax, 0)),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
 /**
  * Get order items for an order
  */
@@ -361,52 +840,18 @@ export async function getOrderItems(orderId: string): Promise<ApiResponse<OrderI
 
 /**
  * Cancel order (Admin only)
- * Also restores inventory
+ * Restores inventory, reverses the order's loyalty points and voids the
+ * order in one transaction via the cancel_order database function. Orders
+ * with returns cannot be cancelled
  */
 export async function cancelOrder(orderId: string, userId: string): Promise<ApiResponse<Order>> {
   try {
     const supabase = createServerSupabaseClient();
 
-    // Get order items first
-    const { data: orderItems, error: itemsError } = await supabase
-      .from('order_items')
-      .select('*')
-      .eq('order_id', orderId);
-
-    if (itemsError || !orderItems) {
-      return {
-        success: false,
-        error: 'Failed to fetch order items',
-      };
-    }
-
-    // Restore inventory
-    for (const item of orderItems) {
-      // Update product quantity (add back)
-      await supabase.rpc('increment', {
-        row_id: item.product_id,
-        amount: item.quantity,
-      });
-
-      // Log reverse transaction
-      await supabase.from('inventory_logs').insert({
-        product_id: item.product_id,
-        transaction_type: 'return',
-        quantity_change: item.quantity,
-        reference_id: orderId,
-        reference_type: 'order',
-        notes: `Order ${orderId} cancelled - inventory restored`,
-        created_by: userId,
-      });
-    }
-
-    // Cancel order
-    const { data: order, error: cancelError } = await supabase
-      .from('orders')
-      .update({ status: 'cancelled' })
-      .eq('id', orderId)
-      .select()
-      .single();
+    const { data: order, error: cancelError } = await supabase.rpc('cancel_order', {
+      p_order_id: orderId,
+      p_user_id: userId,
+    });
 
     if (cancelError) {
       return {
@@ -417,7 +862,7 @@ export async function cancelOrder(orderId: string, userId: string): Promise<ApiR
 
     return {
       success: true,
-      data: order,
+      data: order as Order,
       message: 'Order cancelled and inventory restored',
     };
   } catch (error: any) {
@@ -434,23 +879,53 @@ export async function cancelOrder(orderId: string, userId: string): Promise<ApiR
 
 /**
  * Get daily sales
+ * Read from the daily_sales rollup for the day (YYYY-MM-DD, in each store's
+ * time zone). Limited to one store when storeId is given
+ */
+export async function getDailySales(
+  date: string,
+  storeId?: string
+): Promise<ApiResponse<number>> {
+  const result = await getDailySalesTrend(date, date, storeId);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error,
+    };
+  }
+
+  return {
+    success: true,
+    data: result.data?.[0]?.total_sales ?? 0,
+  };
+}
+
+/**
+ * Get daily sales totals for a range of days (YYYY-MM-DD, inclusive, in
+ * each store's time zone)
+ * Read from the daily_sales rollup, one entry per day including days without
+ * sales, oldest first. Summed over all stores unless storeId is given
  */
-export async function getDailySales(date: string): Promise<ApiResponse<number>> {
+export async function getDailySalesTrend(
+  startDate: string,
+  endDate: string,
+  storeId?: string
+): Promise<ApiResponse<DailySalesTotals[]>> {
   try {
     const supabase = createServerSupabaseClient();
 
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
+    let query = supabase
+      .from('daily_sales')
+      .select('sale_date, total_sales, total_transactions, total_items_sold')
+      .gte('sale_date', startDate)
+      .lte('sale_date', endDate);
 
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+    if (storeId) {
+      query = query.eq('store_id', storeId);
+    }
 
-    const { data, error } = await supabase
-      .from('orders')
-      .select('total')
-      .eq('status', 'completed')
-      .gte('created_at', startOfDay.toISOString())
-      .lte('created_at', endOfDay.toISOString());
+    const { data, error } = await query;
 
     if (error) {
       return {
@@ -459,11 +934,105 @@ export async function getDailySales(date: string): Promise<ApiResponse<number>>
       };
     }
 
-    const totalSales = (data || []).reduce((sum, order) => sum + (order.total || 0), 0);
+    const days = new Map<string, DailySalesTotals>();
+    const day = new Date(`${startDate}T00:00:00Z`);
+    const last = new Date(`${endDate}T00:00:00Z`);
+    while (day <= last) {
+      const saleDate = day.toISOString().split('T')[0];
+      days.set(saleDate, {
+        sale_date: saleDate,
+        total_sales: 0,
+        total_transactions: 0,
+        total_items_sold: 0,
+        avg_transaction: 0,
+      });
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+
+    (data || []).forEach((row) => {
+      const totals = days.get(row.sale_date);
+      if (!totals) return;
+      totals.total_sales = formatDecimal(totals.total_sales + Number(row.total_sales));
+      totals.total_transactions += row.total_transactions;
+      totals.total_items_sold += row.total_items_sold;
+    });
+
+    days.forEach((totals) => {
+      totals.avg_transaction =
+        totals.total_transactions > 0
+          ? formatDecimal(totals.total_sales / totals.total_transactions)
+          : 0;
+    });
+
+    return {
+      success: true,
+      data: [...days.values()],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get sales analytics for a period: totals, average basket, sales by hour
+ * of the week, by category and by payment method
+ * Aggregated in the database by the sales_analytics function. The period
+ * is a range of days (YYYY-MM-DD, inclusive); days and hours are in each
+ * store's time zone, as in the daily_sales rollup. Limited to one store
+ * when storeId is given
+ */
+export async function getSalesAnalytics(
+  startDate: string,
+  endDate: string,
+  storeId?: string
+): Promise<ApiResponse<SalesAnalytics>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc('sales_analytics', {
+      p_start_date: startDate,
+      p_end_date: endDate,
+      p_store_id: storeId || null,
+    });
+
+    if (error || !data) {
+      return {
+        success: false,
+        error: error?.message || 'Failed to load sales analytics',
+      };
+    }
+
+    const orderCount = Number(data.order_count);
+    const salesTotal = formatDecimal(Number(data.sales_total));
+    const itemCount = Number(data.item_count);
 
     return {
       success: true,
-      data: formatDecimal(totalSales),
+      data: {
+        start_date: startDate,
+        end_date: endDate,
+        order_count: orderCount,
+        sales_total: salesTotal,
+        item_count: itemCount,
+        avg_basket_value: orderCount > 0 ? formatDecimal(salesTotal / orderCount) : 0,
+        avg_basket_size: orderCount > 0 ? formatDecimal(itemCount / orderCount, 1) : 0,
+        by_hour: ((data.by_hour || []) as HourlySalesData[]).map((row) => ({
+          day_of_week: row.day_of_week,
+          hour: row.hour,
+          order_count: Number(row.order_count),
+          sales_total: formatDecimal(Number(row.sales_total)),
+        })),
+        by_category: ((data.by_category || []) as CategorySalesData[]).map((row) => ({
+          category_id: row.category_id,
+          category_name: row.category_name,
+          quantity: Number(row.quantity),
+          sales_total: formatDecimal(Number(row.sales_total)),
+        })),
+        by_payment_method: toPaymentMethodSales(data.by_payment_method),
+      },
     };
   } catch (error: any) {
     return {
@@ -474,12 +1043,18 @@ export async function getDailySales(date: string): Promise<ApiResponse<number>>
 }
 
 /**
- * Get best selling products
+ * Get best selling products on sale orders placed in the period
+ * (YYYY-MM-DD days, inclusive, in each store's time zone)
+ * Aggregated in the database by the best_selling_products function.
+ * Limited to one store when storeId is given. With rollUpVariants, sales of
+ * variants are counted against their parent product
  */
 export async function getBestSellingProducts(
   limit = 10,
   startDate?: string,
-  endDate?: string
+  endDate?: string,
+  storeId?: string,
+  rollUpVariants = false
 ): Promise<
   ApiResponse<
     Array<{
@@ -493,24 +1068,61 @@ export async function getBestSellingProducts(
   try {
     const supabase = createServerSupabaseClient();
 
-    let query = supabase
-      .from('order_items')
-      .select(
-        `
-        product_id,
-        quantity,
-        line_total,
-        products:product_id (name)
-        `
-      );
+    const { data, error } = await supabase.rpc('best_selling_products', {
+      p_start_date: startDate || null,
+      p_end_date: endDate || null,
+      p_store_id: storeId || null,
+      p_limit: limit,
+      p_roll_up_variants: rollUpVariants,
+    });
 
-    if (startDate && endDate) {
-      query = query
-        .gte('created_at', startDate)
-        .lte('created_at', endDate);
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
     }
 
-    const { data, error } = await query;
+    const results = ((data || []) as ProductSalesData[]).map((row) => ({
+      product_id: row.product_id,
+      product_name: row.product_name,
+      quantity_sold: Number(row.quantity_sold),
+      revenue: formatDecimal(Number(row.revenue)),
+    }));
+
+    return {
+      success: true,
+      data: results,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get sales by payment method for a range of days (YYYY-MM-DD, inclusive,
+ * in each store's time zone)
+ * Split orders add each tender's amount to its method and count as one
+ * transaction for every method they used.
+ * Aggregated in the database by the sales_by_payment_method function.
+ * Limited to one store when storeId is given
+ */
+export async function getSalesByPaymentMethod(
+  startDate: string,
+  endDate: string,
+  storeId?: string
+): Promise<ApiResponse<PaymentMethodSalesData[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc('sales_by_payment_method', {
+      p_start_date: startDate,
+      p_end_date: endDate,
+      p_store_id: storeId || null,
+    });
 
     if (error) {
       return {
@@ -519,36 +1131,7 @@ export async function getBestSellingProducts(
       };
     }
 
-    // Group and aggregate
-    const grouped = (data || []).reduce(
-      (acc, item) => {
-        const productId = item.product_id;
-        if (!acc[productId]) {
-          acc[productId] = {
-            product_id: productId,
-            product_name: item.products?.name || 'Unknown',
-            quantity_sold: 0,
-            revenue: 0,
-          };
-        }
-        acc[productId].quantity_sold += item.quantity;
-        acc[productId].revenue += item.line_total;
-        return acc;
-      },
-      {} as Record<
-        string,
-        {
-          product_id: string;
-          product_name: string;
-          quantity_sold: number;
-          revenue: number;
-        }
-      >
-    );
-
-    const results = Object.values(grouped)
-      .sort((a, b) => b.quantity_sold - a.quantity_sold)
-      .slice(0, limit);
+    const results = toPaymentMethodSales(data);
 
     return {
       success: true,
@@ -561,3 +1144,56 @@ export async function getBestSellingProducts(
     };
   }
 }
+
+/**
+ * Get the gross margin report, grouped by product, category, cashier or day
+ * Revenue is each line's total less tax; COGS is its quantity at the unit
+ * cost recorded when it was sold (the product's current cost for orders
+ * from before costs were recorded). Refunds count in the period they were
+ * given and take back their revenue, and their cost when restocked.
+ * Cancelled orders and gift cards are left out. Summed by the margin_report
+ * database function.
+ * Limited to one store when storeId is given
+ */
+export async function getMarginReport(
+  startDate: string,
+  endDate: string,
+  groupBy: MarginGroupBy,
+  storeId?: string
+): Promise<ApiResponse<MarginReport>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc('margin_report', {
+      p_start: startDate,
+      p_end: endDate,
+      p_group_by: groupBy,
+      p_store_id: storeId || null,
+    });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    const groups = ((data || []) as MarginGroupTotals[]).map((group) => ({
+      key: group.key,
+      name: group.name,
+      quantity: Number(group.quantity),
+      revenue: Number(group.revenue),
+      cogs: Number(group.cogs),
+    }));
+
+    return {
+      success: true,
+      data: buildMarginReport(groupBy, startDate, endDate, groups),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
@@ -0,0 +1,391 @@
+'use server';
+
+/**
+ * Server Actions for Parked Carts
+ * Carts put aside at the POS are stored as pending orders so any terminal
+ * in the store can resume them
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { getActivePromotions } from '@/lib/actions/promotions';
+import { getModifierGroups } from '@/lib/actions/modifiers';
+import { getOrderById } from '@/lib/actions/orders';
+import { getProductsByIds } from '@/lib/actions/products';
+import { getTaxClasses } from '@/lib/actions/taxes';
+import { ApiResponse, CartItem, Order, ParkCartOptions } from '@/lib/types';
+import {
+  calculateCartTotals,
+  calculateLineTotal,
+  generateOrderNumber,
+  getCartItemUnitPrice,
+  getEffectiveTaxRate,
+  PARKED_CART_TTL_HOURS,
+} from '@/lib/utils';
+import { resolveModifiers } from '@/lib/utils/modifiers';
+import { applyPromotions } from '@/lib/utils/promotions';
+import { applyTaxClasses } from '@/lib/utils/taxes';
+
+// ============================================================================
+// PARKED CART ACTIONS
+// ============================================================================
+
+/**
+ * Park a cart under a label
+ * Runs through the park_cart database function, which writes the pending
+ * order with its items and modifiers in one transaction. Stock is not
+ * touched; prices, promotions and stock are checked again at checkout.
+ * Lines are priced from the catalog, like at checkout
+ */
+export async function parkCart(
+  cashierId: string,
+  storeId: string,
+  items: CartItem[],
+  options: ParkCartOptions
+): Promise<ApiResponse<Order>> {
+  try {
+    if (!storeId) {
+      return {
+        success: false,
+        error: 'No store selected for this cart',
+      };
+    }
+
+    if (!items || items.length === 0) {
+      return {
+        success: false,
+        error: 'Cart is empty',
+      };
+    }
+
+    if (!options.label || options.label.trim().length === 0) {
+      return {
+        success: false,
+        error: 'A label is required to park a cart',
+      };
+    }
+
+    // Parked lines do not keep the card to reload
+    if (items.some((item) => item.gift_card_code)) {
+      return {
+        success: false,
+        error: 'Gift card reloads cannot be parked',
+      };
+    }
+
+    const productsResult = await getProductsByIds(
+      items.map((item) => item.product_id),
+      storeId
+    );
+    if (!productsResult.success) {
+      return {
+        success: false,
+        error: productsResult.error || 'Failed to load products',
+      };
+    }
+
+    const groupsResult = await getModifierGroups();
+    if (!groupsResult.success) {
+      return {
+        success: false,
+        error: groupsResult.error || 'Failed to load modifiers',
+      };
+    }
+
+    const products = productsResult.data || [];
+    const catalogItems: CartItem[] = [];
+    for (const item of items) {
+      const product = products.find((candidate) => candidate.id === item.product_id);
+      if (!product) {
+        return {
+          success: false,
+          error: `${item.product?.name || 'A product'} is no longer available`,
+        };
+      }
+
+      const chosen = item.modifiers || [];
+      const modifiers = resolveModifiers(
+        groupsResult.data || [],
+        chosen.map((modifier) => modifier.modifier_id)
+      );
+      if (modifiers.length !== chosen.length) {
+        return {
+          success: false,
+          error: `A modifier on ${product.name} is no longer available`,
+        };
+      }
+      catalogItems.push({ ...item, product, modifiers });
+    }
+
+    const promotionsResult = await getActivePromotions();
+    if (!promotionsResult.success) {
+      return {
+        success: false,
+        error: promotionsResult.error || 'Failed to load promotions',
+      };
+    }
+
+    const taxClassesResult = await getTaxClasses();
+    if (!taxClassesResult.success) {
+      return {
+        success: false,
+        error: taxClassesResult.error || 'Failed to load tax classes',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: store, error: storeError } = await supabase
+      .from('stores')
+      .select('prices_include_tax')
+      .eq('id', storeId)
+      .single();
+
+    if (storeError || !store) {
+      return {
+        success: false,
+        error: 'Store not found',
+      };
+    }
+
+    const pricesIncludeTax = store.prices_include_tax;
+
+    // Totals are a snapshot for the parked carts list
+    const cart = applyPromotions(
+      applyTaxClasses(catalogItems, taxClassesResult.data || []),
+      promotionsResult.data || [],
+      pricesIncludeTax
+    );
+
+    const orderItems = cart.items.map((item) => ({
+      product_id: item.product_id,
+      quantity: item.quantity,
+      unit_price: getCartItemUnitPrice(item),
+      discount_amount: item.discount_amount || 0,
+      promotion_id: item.promotion_id || null,
+      tax_rate: getEffectiveTaxRate(item.tax_rates || []),
+      tax_rates: item.tax_rates || [],
+    }));
+
+    const totals = calculateCartTotals(orderItems, pricesIncludeTax);
+
+    const lineItems = orderItems.map(({ tax_rates, ...item }, index) => ({
+      ...item,
+      line_total: calculateLineTotal(
+        item.unit_price,
+        item.quantity,
+        tax_rates,
+        item.discount_amount,
+        pricesIncludeTax
+      ).total,
+      modifiers: (cart.items[index].modifiers || []).map((modifier) => ({
+        modifier_id: modifier.modifier_id,
+        name: modifier.name,
+        price_delta: modifier.price_delta,
+      })),
+    }));
+
+    const expiresAt = new Date(Date.now() + PARKED_CART_TTL_HOURS * 60 * 60 * 1000);
+
+    const { data, error } = await supabase.rpc('park_cart', {
+      p_store_id: storeId,
+      p_cashier_id: cashierId,
+      p_order_number: generateOrderNumber('PARK'),
+      p_label: options.label.trim(),
+      p_expires_at: expiresAt.toISOString(),
+      p_subtotal: totals.subtotal,
+      p_discount_total: totals.discount,
+      p_tax_total: totals.tax,
+      p_total: totals.total,
+      p_items: lineItems,
+      p_customer_id: options.customer_id || null,
+      p_notes: options.notes?.trim() || null,
+      p_prices_include_tax: pricesIncludeTax,
+    });
+
+    if (error || !data) {
+      return {
+        success: false,
+        error: error?.message || 'Failed to park cart',
+      };
+    }
+
+    return {
+      success: true,
+      data: data as Order,
+      message: `Cart parked as "${options.label.trim()}"`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get a store's parked carts, oldest first
+ * Expired carts are removed first so they never show up
+ */
+export async function getParkedCarts(storeId: string): Promise<ApiResponse<Order[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { error: expireError } = await supabase.rpc('expire_parked_carts');
+
+    if (expireError) {
+      return {
+        success: false,
+        error: expireError.message,
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select(
+        `
+        *,
+        cashier:cashier_id (
+          id,
+          email,
+          full_name
+        ),
+        customer:customer_id (*),
+        items:order_items (
+          *,
+          product:product_id (name, sku),
+          modifiers:order_item_modifiers (*)
+        )
+        `
+      )
+      .eq('store_id', storeId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Resume a parked cart, removing it from the parked list
+ * Returns the cart with its items, customer and modifiers. Only one
+ * terminal can resume a cart; the others are told it is gone.
+ */
+export async function resumeParkedCart(orderId: string): Promise<ApiResponse<Order>> {
+  try {
+    const orderResult = await getOrderById(orderId);
+    if (!orderResult.success || !orderResult.data) {
+      return {
+        success: false,
+        error: 'This cart is no longer parked',
+      };
+    }
+
+    const order = orderResult.data;
+
+    if (order.status !== 'pending') {
+      return {
+        success: false,
+        error: 'This cart is no longer parked',
+      };
+    }
+
+    if (order.expires_at && new Date(order.expires_at) < new Date()) {
+      return {
+        success: false,
+        error: 'This parked cart has expired',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('orders')
+      .delete()
+      .eq('id', orderId)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: 'This cart was already resumed on another terminal',
+      };
+    }
+
+    return {
+      success: true,
+      data: order,
+      message: `Resumed "${order.parked_label}"`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Discard a parked cart without selling it
+ */
+export async function discardParkedCart(orderId: string): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('orders')
+      .delete()
+      .eq('id', orderId)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: 'This cart is no longer parked',
+      };
+    }
+
+    return {
+      success: true,
+      data: null,
+      message: 'Parked cart discarded',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
@@ -12,8 +12,67 @@ import {
   Category,
   CreateProductFormData,
   InventoryLog,
+  ProductStock,
+  PaginatedResponse,
+  PaginationParams,
+  ProductFilters,
+  ProductImportResult,
+  ProductImportRow,
+  ProductImportRowResult,
+  ProductOptionAxis,
+  StockFilters,
+  StockLevel,
 } from '@/lib/types';
-import { isValidPrice, isValidSKU } from '@/lib/utils';
+import {
+  isValidPrice,
+  isValidSKU,
+  isValidGTIN,
+  calculateInventoryValue,
+  getPageRange,
+  toPaginatedResponse,
+} from '@/lib/utils';
+import {
+  generateVariantCombinations,
+  hasVariants,
+  sameVariantOptions,
+  variantLabel,
+  variantSku,
+} from '@/lib/utils/variants';
+import { parseImportNumber, validateImportRow } from '@/lib/utils/product-import';
+
+// Upper bound on variants generated for one parent
+const MAX_VARIANTS = 100;
+
+// Upper bound on rows in one catalog import, and SKUs looked up per query
+const MAX_IMPORT_ROWS = 5000;
+const IMPORT_LOOKUP_CHUNK = 200;
+
+// Embedded per-store stock and barcode rows, flattened by toProduct
+const PRODUCT_RELATIONS =
+  'stock:product_stock (store_id, quantity_on_hand), barcodes:product_barcodes (barcode)';
+
+type ProductRow = Omit<Product, 'quantity_on_hand' | 'barcodes'> & {
+  stock: Pick<ProductStock, 'store_id' | 'quantity_on_hand'>[] | null;
+  barcodes: { barcode: string }[] | null;
+};
+
+/**
+ * Flatten a product row's per-store stock into quantity_on_hand and its
+ * barcode rows into a list of codes
+ * Uses the given store's stock, or the total across stores when omitted
+ */
+function toProduct(row: ProductRow, storeId?: string): Product {
+  const { stock, barcodes, ...product } = row;
+  const quantity = (stock || [])
+    .filter((entry) => !storeId || entry.store_id === storeId)
+    .reduce((sum, entry) => sum + entry.quantity_on_hand, 0);
+
+  return {
+    ...product,
+    quantity_on_hand: quantity,
+    barcodes: (barcodes || []).map((entry) => entry.barcode),
+  };
+}
 
 // ============================================================================
 // CATEGORY ACTIONS
@@ -142,8 +201,9 @@ export async function updateCategory(
 
 /**
  * Get all active products with categories
+ * Stock is for the given store, or the total across stores when omitted
  */
-export async function getProducts(): Promise<ApiResponse<Product[]>> {
+export async function getProducts(storeId?: string): Promise<ApiResponse<Product[]>> {
   try {
     const supabase = createServerSupabaseClient();
 
@@ -152,7 +212,8 @@ export async function getProducts(): Promise<ApiResponse<Product[]>> {
       .select(
         `
         *,
-        categories:category_id (*)
+        categories:category_id (*),
+        ${PRODUCT_RELATIONS}
         `
       )
       .eq('is_active', true)
@@ -167,7 +228,101 @@ export async function getProducts(): Promise<ApiResponse<Product[]>> {
 
     return {
       success: true,
-      data: data || [],
+      data: (data || []).map((row) => toProduct(row, storeId)),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get one page of active products, with optional search/category filters
+ */
+export async function getProductsPage(
+  filters: ProductFilters,
+  pagination: PaginationParams
+): Promise<ApiResponse<PaginatedResponse<Product>>> {
+  try {
+    const supabase = createServerSupabaseClient();
+    const { from, to } = getPageRange(pagination);
+
+    let query = supabase
+      .from('products')
+      .select(
+        `
+        *,
+        categories:category_id (*),
+        ${PRODUCT_RELATIONS}
+        `,
+        { count: 'exact' }
+      )
+      .eq('is_active', true);
+
+    if (filters.category_id) {
+      query = query.eq('category_id', filters.category_id);
+    }
+
+    if (filters.search && filters.search.trim().length > 0) {
+      const searchTerm = `%${filters.search.trim()}%`;
+      query = query.or(`name.ilike.${searchTerm},sku.ilike.${searchTerm}`);
+    }
+
+    const { data, error, count } = await query
+      .order('name', { ascending: true })
+      .range(from, to);
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: toPaginatedResponse(
+        (data || []).map((row) => toProduct(row, filters.store_id)),
+        count || 0,
+        pagination
+      ),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get active products by ID
+ */
+export async function getProductsByIds(
+  productIds: string[],
+  storeId?: string
+): Promise<ApiResponse<Product[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('products')
+      .select(`*, ${PRODUCT_RELATIONS}`)
+      .in('id', productIds)
+      .eq('is_active', true);
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: (data || []).map((row) => toProduct(row, storeId)),
     };
   } catch (error: any) {
     return {
@@ -180,7 +335,10 @@ export async function getProducts(): Promise<ApiResponse<Product[]>> {
 /**
  * Get product by ID
  */
-export async function getProductById(productId: string): Promise<ApiResponse<Product>> {
+export async function getProductById(
+  productId: string,
+  storeId?: string
+): Promise<ApiResponse<Product>> {
   try {
     const supabase = createServerSupabaseClient();
 
@@ -189,7 +347,8 @@ export async function getProductById(productId: string): Promise<ApiResponse<Pro
       .select(
         `
         *,
-        categories:category_id (*)
+        categories:category_id (*),
+        ${PRODUCT_RELATIONS}
         `
       )
       .eq('id', productId)
@@ -204,7 +363,7 @@ export async function getProductById(productId: string): Promise<ApiResponse<Pro
 
     return {
       success: true,
-      data,
+      data: toProduct(data, storeId),
     };
   } catch (error: any) {
     return {
@@ -218,14 +377,15 @@ export async function getProductById(productId: string): Promise<ApiResponse<Pro
  * Get products by category
  */
 export async function getProductsByCategory(
-  categoryId: string
+  categoryId: string,
+  storeId?: string
 ): Promise<ApiResponse<Product[]>> {
   try {
     const supabase = createServerSupabaseClient();
 
     const { data, error } = await supabase
       .from('products')
-      .select('*')
+      .select(`*, ${PRODUCT_RELATIONS}`)
       .eq('category_id', categoryId)
       .eq('is_active', true)
       .order('name', { ascending: true });
@@ -239,7 +399,7 @@ export async function getProductsByCategory(
 
     return {
       success: true,
-      data: data || [],
+      data: (data || []).map((row) => toProduct(row, storeId)),
     };
   } catch (error: any) {
     return {
@@ -278,6 +438,21 @@ export async function createProduct(
       };
     }
 
+    if (data.is_gift_card && !(data.price > 0)) {
+      return {
+        success: false,
+        error: 'Gift cards need a face value above zero',
+      };
+    }
+
+    const barcodes = (data.barcodes || []).map((barcode) => barcode.trim()).filter(Boolean);
+    if (barcodes.some((barcode) => !isValidGTIN(barcode))) {
+      return {
+        success: false,
+        error: 'Barcodes must be valid GTIN/UPC codes',
+      };
+    }
+
     const supabase = createServerSupabaseClient();
 
     const { data: product, error } = await supabase
@@ -290,6 +465,8 @@ export async function createProduct(
         price: data.price,
         cost: data.cost,
         tax_rate: data.tax_rate,
+        tax_class_id: data.tax_class_id || null,
+        is_gift_card: data.is_gift_card ?? false,
         reorder_level: data.reorder_level,
         image_url: data.image_url,
       })
@@ -303,9 +480,22 @@ export async function createProduct(
       };
     }
 
+    if (barcodes.length > 0) {
+      const { error: barcodeError } = await supabase
+        .from('product_barcodes')
+        .insert(barcodes.map((barcode) => ({ product_id: product.id, barcode })));
+
+      if (barcodeError) {
+        return {
+          success: false,
+          error: `Product created but barcodes failed: ${barcodeError.message}`,
+        };
+      }
+    }
+
     return {
       success: true,
-      data: product,
+      data: { ...toProduct(product), barcodes },
       message: 'Product created successfully',
     };
   } catch (error: any) {
@@ -318,6 +508,7 @@ export async function createProduct(
 
 /**
  * Update product (Admin only)
+ * Stock is per store and changes through updateStock, not here
  */
 export async function updateProduct(
   productId: string,
@@ -326,11 +517,20 @@ export async function updateProduct(
   try {
     const supabase = createServerSupabaseClient();
 
+    const productUpdates = { ...updates };
+    // Stock and barcodes live in their own tables; variants are managed
+    // through generateProductVariants
+    delete productUpdates.quantity_on_hand;
+    delete productUpdates.barcodes;
+    delete productUpdates.parent_id;
+    delete productUpdates.option_axes;
+    delete productUpdates.variant_options;
+
     const { data, error } = await supabase
       .from('products')
-      .update(updates)
+      .update(productUpdates)
       .eq('id', productId)
-      .select()
+      .select(`*, ${PRODUCT_RELATIONS}`)
       .single();
 
     if (error) {
@@ -342,7 +542,7 @@ export async function updateProduct(
 
     return {
       success: true,
-      data,
+      data: toProduct(data),
       message: 'Product updated successfully',
     };
   } catch (error: any) {
@@ -388,7 +588,10 @@ export async function deleteProduct(productId: string): Promise<ApiResponse<null
 /**
  * Search products by name or SKU
  */
-export async function searchProducts(query: string): Promise<ApiResponse<Product[]>> {
+export async function searchProducts(
+  query: string,
+  storeId?: string
+): Promise<ApiResponse<Product[]>> {
   try {
     if (!query || query.trim().length === 0) {
       return {
@@ -402,7 +605,7 @@ export async function searchProducts(query: string): Promise<ApiResponse<Product
 
     const { data, error } = await supabase
       .from('products')
-      .select('*')
+      .select(`*, ${PRODUCT_RELATIONS}`)
       .eq('is_active', true)
       .or(`name.ilike.${searchTerm},sku.ilike.${searchTerm}`)
       .limit(20);
@@ -416,7 +619,392 @@ export async function searchProducts(query: string): Promise<ApiResponse<Product
 
     return {
       success: true,
-      data: data || [],
+      data: (data || []).map((row) => toProduct(row, storeId)),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+// ============================================================================
+// BARCODE ACTIONS
+// ============================================================================
+
+/**
+ * Find an active product by exact SKU or barcode (for scanners)
+ */
+export async function findProductByCode(
+  code: string,
+  storeId?: string
+): Promise<ApiResponse<Product | null>> {
+  try {
+    const trimmed = (code || '').trim();
+    if (trimmed.length === 0) {
+      return {
+        success: true,
+        data: null,
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    // SKUs are stored upper-case
+    const { data: bySku, error: skuError } = await supabase
+      .from('products')
+      .select(`*, ${PRODUCT_RELATIONS}`)
+      .eq('is_active', true)
+      .eq('sku', trimmed.toUpperCase())
+      .maybeSingle();
+
+    if (skuError) {
+      return {
+        success: false,
+        error: skuError.message,
+      };
+    }
+
+    if (bySku) {
+      return {
+        success: true,
+        data: toProduct(bySku, storeId),
+      };
+    }
+
+    const { data: byBarcode, error: barcodeError } = await supabase
+      .from('product_barcodes')
+      .select('product_id')
+      .eq('barcode', trimmed)
+      .maybeSingle();
+
+    if (barcodeError) {
+      return {
+        success: false,
+        error: barcodeError.message,
+      };
+    }
+
+    if (!byBarcode) {
+      return {
+        success: true,
+        data: null,
+      };
+    }
+
+    const productResult = await getProductById(byBarcode.product_id, storeId);
+    if (!productResult.success || !productResult.data?.is_active) {
+      return {
+        success: true,
+        data: null,
+      };
+    }
+
+    return {
+      success: true,
+      data: productResult.data,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Add a barcode to a product (Admin only)
+ */
+export async function addProductBarcode(
+  productId: string,
+  barcode: string
+): Promise<ApiResponse<null>> {
+  try {
+    const trimmed = (barcode || '').trim();
+    if (!isValidGTIN(trimmed)) {
+      return {
+        success: false,
+        error: 'Barcode must be a valid GTIN/UPC code',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { error } = await supabase
+      .from('product_barcodes')
+      .insert({ product_id: productId, barcode: trimmed });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.code === '23505' ? 'Barcode is already in use' : error.message,
+      };
+    }
+
+    return {
+      success: true,
+      message: 'Barcode added',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Remove a barcode from a product (Admin only)
+ */
+export async function removeProductBarcode(
+  productId: string,
+  barcode: string
+): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { error } = await supabase
+      .from('product_barcodes')
+      .delete()
+      .eq('product_id', productId)
+      .eq('barcode', barcode);
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      message: 'Barcode removed',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+// ============================================================================
+// VARIANT ACTIONS
+// ============================================================================
+
+/**
+ * Get a parent product's variants
+ */
+export async function getProductVariants(
+  parentId: string,
+  storeId?: string
+): Promise<ApiResponse<Product[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('products')
+      .select(`*, ${PRODUCT_RELATIONS}`)
+      .eq('parent_id', parentId)
+      .order('sku', { ascending: true });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: (data || []).map((row) => toProduct(row, storeId)),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Set a product's option axes and generate its variants (Admin only)
+ * One variant per combination of option values, starting from the parent's
+ * price, cost and tax rate. Existing variants are kept; variants whose
+ * options are no longer offered are deactivated rather than deleted so
+ * past orders still resolve. Gift cards cannot have variants, and a parent
+ * holding stock must be adjusted to zero first, since only its variants are
+ * sold and counted.
+ */
+export async function generateProductVariants(
+  parentId: string,
+  axes: ProductOptionAxis[]
+): Promise<ApiResponse<Product[]>> {
+  try {
+    const optionAxes = (axes || [])
+      .map((axis) => ({
+        name: axis.name.trim(),
+        values: axis.values.map((value) => value.trim()).filter(Boolean),
+      }))
+      .filter((axis) => axis.name && axis.values.length > 0);
+
+    if (optionAxes.length === 0) {
+      return {
+        success: false,
+        error: 'Add at least one option with values',
+      };
+    }
+
+    if (new Set(optionAxes.map((axis) => axis.name.toLowerCase())).size !== optionAxes.length) {
+      return {
+        success: false,
+        error: 'Option names must be unique',
+      };
+    }
+
+    const combinations = generateVariantCombinations(optionAxes);
+    if (combinations.length > MAX_VARIANTS) {
+      return {
+        success: false,
+        error: `Too many variants (${combinations.length}); the limit is ${MAX_VARIANTS}`,
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: parent, error: parentError } = await supabase
+      .from('products')
+      .select('*')
+      .eq('id', parentId)
+      .single();
+
+    if (parentError) {
+      return {
+        success: false,
+        error: parentError.message,
+      };
+    }
+
+    if (parent.parent_id) {
+      return {
+        success: false,
+        error: 'A variant cannot have variants of its own',
+      };
+    }
+
+    if (parent.is_gift_card) {
+      return {
+        success: false,
+        error: 'Gift cards cannot have variants',
+      };
+    }
+
+    const { data: parentStock, error: stockError } = await supabase
+      .from('product_stock')
+      .select('quantity_on_hand')
+      .eq('product_id', parentId)
+      .gt('quantity_on_hand', 0)
+      .limit(1);
+
+    if (stockError) {
+      return {
+        success: false,
+        error: stockError.message,
+      };
+    }
+
+    if (parentStock && parentStock.length > 0) {
+      return {
+        success: false,
+        error: `${parent.name} has stock on hand; adjust it to zero or move it to the variants first`,
+      };
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('products')
+      .select('id, variant_options, is_active')
+      .eq('parent_id', parentId);
+
+    if (existingError) {
+      return {
+        success: false,
+        error: existingError.message,
+      };
+    }
+
+    const current = existing || [];
+    const missing = combinations.filter(
+      (options) => !current.some((variant) => sameVariantOptions(variant.variant_options, options))
+    );
+
+    if (missing.length > 0) {
+      const { error: insertError } = await supabase.from('products').insert(
+        missing.map((options) => ({
+          parent_id: parent.id,
+          category_id: parent.category_id,
+          sku: variantSku(parent.sku, options),
+          name: `${parent.name} - ${variantLabel(options)}`,
+          description: parent.description,
+          price: parent.price,
+          cost: parent.cost,
+          tax_rate: parent.tax_rate,
+          tax_class_id: parent.tax_class_id,
+          reorder_level: parent.reorder_level,
+          image_url: parent.image_url,
+          variant_options: options,
+        }))
+      );
+
+      if (insertError) {
+        return {
+          success: false,
+          error: insertError.message,
+        };
+      }
+    }
+
+    // Reactivate variants offered again, deactivate ones no longer offered
+    for (const variant of current) {
+      const offered = combinations.some((options) =>
+        sameVariantOptions(variant.variant_options, options)
+      );
+      if (offered !== variant.is_active) {
+        const { error: toggleError } = await supabase
+          .from('products')
+          .update({ is_active: offered })
+          .eq('id', variant.id);
+
+        if (toggleError) {
+          return {
+            success: false,
+            error: toggleError.message,
+          };
+        }
+      }
+    }
+
+    const { error: axesError } = await supabase
+      .from('products')
+      .update({ option_axes: optionAxes })
+      .eq('id', parentId);
+
+    if (axesError) {
+      return {
+        success: false,
+        error: axesError.message,
+      };
+    }
+
+    const variantsResult = await getProductVariants(parentId);
+    if (!variantsResult.success) {
+      return variantsResult;
+    }
+
+    return {
+      success: true,
+      data: variantsResult.data,
+      message: `${missing.length} variant(s) created`,
     };
   } catch (error: any) {
     return {
@@ -432,17 +1020,16 @@ export async function searchProducts(query: string): Promise<ApiResponse<Product
 
 /**
  * Get low stock products (quantity <= reorder_level)
+ * Checked per store when storeId is given, otherwise against total stock
  */
-export async function getLowStockProducts(): Promise<ApiResponse<Product[]>> {
+export async function getLowStockProducts(storeId?: string): Promise<ApiResponse<Product[]>> {
   try {
     const supabase = createServerSupabaseClient();
 
     const { data, error } = await supabase
       .from('products')
-      .select('*')
-      .eq('is_active', true)
-      .filter('quantity_on_hand', 'lte', 'reorder_level')
-      .order('quantity_on_hand', { ascending: true });
+      .select(`*, ${PRODUCT_RELATIONS}`)
+      .eq('is_active', true);
 
     if (error) {
       return {
@@ -451,9 +1038,16 @@ export async function getLowStockProducts(): Promise<ApiResponse<Product[]>> {
       };
     }
 
+    const lowStock = (data || [])
+      .map((row) => toProduct(row, storeId))
+      // Parents hold no stock of their own; their variants are checked instead
+      .filter((product) => !hasVariants(product))
+      .filter((product) => product.quantity_on_hand <= product.reorder_level)
+      .sort((a, b) => a.quantity_on_hand - b.quantity_on_hand);
+
     return {
       success: true,
-      data: data || [],
+      data: lowStock,
     };
   } catch (error: any) {
     return {
@@ -464,59 +1058,101 @@ export async function getLowStockProducts(): Promise<ApiResponse<Product[]>> {
 }
 
 /**
- * Update stock (Stock in / Adjustment)
+ * Update stock in a store (Stock in / Adjustment)
+ * Runs through the adjust_stock database function, which locks the stock
+ * row, rejects negative stock and writes the inventory log
  */
 export async function updateStock(
   productId: string,
+  storeId: string,
   quantityChange: number,
   transactionType: 'stock_in' | 'adjustment' | 'return',
   userId: string,
   notes?: string
-): Promise<ApiResponse<{ product: Product; log: InventoryLog }>> {
+): Promise<ApiResponse<ProductStock>> {
   try {
+    if (!Number.isInteger(quantityChange) || quantityChange === 0) {
+      return {
+        success: false,
+        error: 'Quantity change must be a non-zero whole number',
+      };
+    }
+
     const supabase = createServerSupabaseClient();
 
-    // Update product quantity
-    const { data: product, error: updateError } = await supabase
-      .from('products')
-      .update({
-        quantity_on_hand: supabase.from('products').select('quantity_on_hand').eq('id', productId),
-      })
-      .eq('id', productId)
-      .select()
-      .single();
+    const { data, error } = await supabase.rpc('adjust_stock', {
+      p_store_id: storeId,
+      p_product_id: productId,
+      p_quantity_change: quantityChange,
+      p_transaction_type: transactionType,
+      p_user_id: userId,
+      p_notes: notes || null,
+    });
 
-    if (updateError) {
+    if (error || !data) {
       return {
         success: false,
-        error: updateError.message,
+        error: error?.message || 'Failed to update stock',
       };
     }
 
-    // Log transaction
-    const { data: log, error: logError } = await supabase
-      .from('inventory_logs')
-      .insert({
-        product_id: productId,
-        transaction_type: transactionType,
-        quantity_change: quantityChange,
-        notes,
-        created_by: userId,
-      })
-      .select()
-      .single();
+    return {
+      success: true,
+      data: data as ProductStock,
+      message: 'Stock updated successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get one page of stock levels (one row per store and product)
+ */
+export async function getStockLevelsPage(
+  filters: StockFilters,
+  pagination: PaginationParams
+): Promise<ApiResponse<PaginatedResponse<StockLevel>>> {
+  try {
+    const supabase = createServerSupabaseClient();
+    const { from, to } = getPageRange(pagination);
+
+    let query = supabase
+      .from('product_stock')
+      .select(
+        `
+        *,
+        product:product_id (id, sku, name, reorder_level, cost)
+        `,
+        { count: 'exact' }
+      );
+
+    if (filters.store_id) {
+      query = query.eq('store_id', filters.store_id);
+    }
+
+    if (filters.product_id) {
+      query = query.eq('product_id', filters.product_id);
+    }
+
+    const { data, error, count } = await query
+      .order('store_id', { ascending: true })
+      .order('product_id', { ascending: true })
+      .range(from, to);
 
-    if (logError) {
+    if (error) {
       return {
         success: false,
-        error: logError.message,
+        error: error.message,
       };
     }
 
     return {
       success: true,
-      data: { product, log },
-      message: 'Stock updated successfully',
+      data: toPaginatedResponse((data || []) as StockLevel[], count || 0, pagination),
     };
   } catch (error: any) {
     return {
@@ -530,12 +1166,13 @@ export async function updateStock(
  * Get inventory logs for product
  */
 export async function getInventoryLogs(
-  productId: string
+  productId: string,
+  storeId?: string
 ): Promise<ApiResponse<InventoryLog[]>> {
   try {
     const supabase = createServerSupabaseClient();
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('inventory_logs')
       .select(
         `
@@ -543,8 +1180,13 @@ export async function getInventoryLogs(
         products:product_id (*)
         `
       )
-      .eq('product_id', productId)
-      .order('created_at', { ascending: false });
+      .eq('product_id', productId);
+
+    if (storeId) {
+      query = query.eq('store_id', storeId);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
 
     if (error) {
       return {
@@ -567,14 +1209,15 @@ export async function getInventoryLogs(
 
 /**
  * Calculate total inventory value
+ * For one store when storeId is given, otherwise across all stores
  */
-export async function getInventoryValue(): Promise<ApiResponse<number>> {
+export async function getInventoryValue(storeId?: string): Promise<ApiResponse<number>> {
   try {
     const supabase = createServerSupabaseClient();
 
     const { data, error } = await supabase
       .from('products')
-      .select('quantity_on_hand, cost')
+      .select(`cost, ${PRODUCT_RELATIONS}`)
       .eq('is_active', true);
 
     if (error) {
@@ -584,9 +1227,10 @@ export async function getInventoryValue(): Promise<ApiResponse<number>> {
       };
     }
 
-    const totalValue = (data || []).reduce((sum, product) => {
-      return sum + product.quantity_on_hand * product.cost;
-    }, 0);
+    // Only cost and stock are selected, which is all the value needs
+    const totalValue = calculateInventoryValue(
+      (data || []).map((row) => toProduct(row as ProductRow, storeId))
+    );
 
     return {
       success: true,
@@ -599,3 +1243,222 @@ export async function getInventoryValue(): Promise<ApiResponse<number>> {
     };
   }
 }
+
+// ============================================================================
+// CATALOG IMPORT
+// ============================================================================
+
+/**
+ * Import products from spreadsheet rows (Admin only), matched by SKU
+ * New SKUs are created and existing ones updated with the fields given.
+ * Categories are matched by name (ignoring case) and created when missing.
+ * A Stock value sets the product's quantity in storeId, logged as an
+ * adjustment. With dryRun nothing is written: each row reports whether it
+ * would be created, updated or rejected. Rows are saved one by one, so a
+ * failing row does not stop the rest
+ */
+export async function importProducts(
+  rows: ProductImportRow[],
+  userId: string,
+  dryRun: boolean,
+  storeId?: string
+): Promise<ApiResponse<ProductImportResult>> {
+  try {
+    if (rows.length === 0) {
+      return {
+        success: false,
+        error: 'The file has no product rows',
+      };
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return {
+        success: false,
+        error: `Import at most ${MAX_IMPORT_ROWS} rows at a time`,
+      };
+    }
+
+    if (!storeId && rows.some((row) => row.values.quantity_on_hand !== undefined)) {
+      return {
+        success: false,
+        error: 'Choose a store to import stock levels into',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const skus = [
+      ...new Set(rows.map((row) => (row.values.sku || '').trim().toUpperCase()).filter(Boolean)),
+    ];
+    const existing = new Map<string, Product>();
+    for (let i = 0; i < skus.length; i += IMPORT_LOOKUP_CHUNK) {
+      const { data, error } = await supabase
+        .from('products')
+        .select(`*, ${PRODUCT_RELATIONS}`)
+        .in('sku', skus.slice(i, i + IMPORT_LOOKUP_CHUNK));
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      (data || []).forEach((row) => {
+        const product = toProduct(row, storeId);
+        existing.set(product.sku.toUpperCase(), product);
+      });
+    }
+
+    const { data: categories, error: categoriesError } = await supabase
+      .from('categories')
+      .select('id, name');
+
+    if (categoriesError) {
+      return {
+        success: false,
+        error: categoriesError.message,
+      };
+    }
+
+    const categoryIds = new Map(
+      (categories || []).map((category) => [category.name.toLowerCase(), category.id as string])
+    );
+    const newCategories = new Map<string, string>();
+    const firstRowBySku = new Map<string, number>();
+
+    const results: ProductImportRowResult[] = rows.map((row) => {
+      const sku = (row.values.sku || '').trim().toUpperCase();
+      const product = existing.get(sku);
+      const errors = validateImportRow(row, !product);
+
+      const firstRow = firstRowBySku.get(sku);
+      if (sku && firstRow !== undefined) {
+        errors.push(`SKU is already on row ${firstRow}`);
+      } else if (sku) {
+        firstRowBySku.set(sku, row.row_number);
+      }
+
+      if (
+        product &&
+        row.values.quantity_on_hand !== undefined &&
+        (hasVariants(product) || product.is_gift_card)
+      ) {
+        errors.push('Stock cannot be set on a product with variants or a gift card');
+      }
+
+      const category = row.values.category?.trim();
+      if (errors.length === 0 && category && !categoryIds.has(category.toLowerCase())) {
+        newCategories.set(category.toLowerCase(), category);
+      }
+
+      return {
+        row_number: row.row_number,
+        sku,
+        name: row.values.name || product?.name || '',
+        action: errors.length > 0 ? 'error' : product ? 'update' : 'create',
+        errors,
+      };
+    });
+
+    if (!dryRun && newCategories.size > 0) {
+      const { data: created, error: createError } = await supabase
+        .from('categories')
+        .insert([...newCategories.values()].map((name) => ({ name })))
+        .select('id, name');
+
+      if (createError) {
+        return {
+          success: false,
+          error: `Failed to create categories: ${createError.message}`,
+        };
+      }
+
+      (created || []).forEach((category) => categoryIds.set(category.name.toLowerCase(), category.id));
+    }
+
+    if (!dryRun) {
+      for (const [index, result] of results.entries()) {
+        if (result.action === 'error') continue;
+
+        const { values } = rows[index];
+        const fields: Record<string, unknown> = {};
+        if (values.name) fields.name = values.name;
+        if (values.category) fields.category_id = categoryIds.get(values.category.toLowerCase());
+        if (values.description) fields.description = values.description;
+        if (values.price) fields.price = parseImportNumber(values.price);
+        if (values.cost) fields.cost = parseImportNumber(values.cost);
+        if (values.tax_rate) fields.tax_rate = parseImportNumber(values.tax_rate);
+        if (values.reorder_level) fields.reorder_level = parseImportNumber(values.reorder_level);
+
+        const product = existing.get(result.sku);
+        let productId = product?.id;
+
+        if (product) {
+          if (Object.keys(fields).length > 0) {
+            const { error } = await supabase.from('products').update(fields).eq('id', product.id);
+            if (error) {
+              result.action = 'error';
+              result.errors.push(error.message);
+              continue;
+            }
+          }
+        } else {
+          const { data: inserted, error } = await supabase
+            .from('products')
+            .insert({ sku: result.sku, cost: 0, ...fields })
+            .select('id')
+            .single();
+          if (error || !inserted) {
+            result.action = 'error';
+            result.errors.push(error?.message || 'Failed to create product');
+            continue;
+          }
+          productId = inserted.id;
+        }
+
+        const quantity = parseImportNumber(values.quantity_on_hand);
+        const quantityChange = quantity === undefined ? 0 : quantity - (product?.quantity_on_hand || 0);
+        if (storeId && productId && quantityChange !== 0) {
+          const { error } = await supabase.rpc('adjust_stock', {
+            p_store_id: storeId,
+            p_product_id: productId,
+            p_quantity_change: quantityChange,
+            p_transaction_type: 'adjustment',
+            p_user_id: userId,
+            p_notes: 'Product import',
+          });
+          if (error) {
+            result.errors.push(`Saved, but stock was not set: ${error.message}`);
+          }
+        }
+      }
+    }
+
+    const count = (action: ProductImportRowResult['action']) =>
+      results.filter((result) => result.action === action).length;
+    const created = count('create');
+    const updated = count('update');
+    const failed = count('error');
+
+    return {
+      success: true,
+      data: {
+        dry_run: dryRun,
+        rows: results,
+        created,
+        updated,
+        failed,
+        new_categories: [...newCategories.values()],
+      },
+      message: dryRun
+        ? `Preview: ${created} to create, ${updated} to update, ${failed} with errors`
+        : `Imported: ${created} created, ${updated} updated, ${failed} failed`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
@@ -0,0 +1,239 @@
+'use server';
+
+/**
+ * Server Actions for Promotions
+ * Discount rules applied to the cart at checkout
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { ApiResponse, Promotion, CreatePromotionFormData } from '@/lib/types';
+import { isValidPrice } from '@/lib/utils';
+
+// ============================================================================
+// PROMOTION ACTIONS
+// ============================================================================
+
+/**
+ * Get promotions that are active right now
+ */
+export async function getActivePromotions(): Promise<ApiResponse<Promotion[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('promotions')
+      .select('*')
+      .eq('is_active', true)
+      .or(`starts_at.is.null,starts_at.lte.${now}`)
+      .or(`ends_at.is.null,ends_at.gte.${now}`)
+      .order('name', { ascending: true });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get all promotions (Admin only)
+ */
+export async function getPromotions(): Promise<ApiResponse<Promotion[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('promotions')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Create new promotion (Admin only)
+ */
+export async function createPromotion(
+  data: CreatePromotionFormData
+): Promise<ApiResponse<Promotion>> {
+  try {
+    if (!data.name || data.name.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Promotion name is required',
+      };
+    }
+
+    if (!isValidPrice(data.value)) {
+      return {
+        success: false,
+        error: 'Promotion value must be a non-negative number',
+      };
+    }
+
+    if (data.promotion_type === 'percentage' && data.value > 100) {
+      return {
+        success: false,
+        error: 'Percentage cannot exceed 100',
+      };
+    }
+
+    if (data.product_id && data.category_id) {
+      return {
+        success: false,
+        error: 'A promotion can target a product or a category, not both',
+      };
+    }
+
+    if (data.promotion_type === 'buy_x_get_y') {
+      if (!data.buy_quantity || !data.get_quantity) {
+        return {
+          success: false,
+          error: 'Buy and get quantities are required',
+        };
+      }
+
+      if (!data.product_id && !data.category_id) {
+        return {
+          success: false,
+          error: 'Buy X get Y promotions need a product or category',
+        };
+      }
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: promotion, error } = await supabase
+      .from('promotions')
+      .insert({
+        name: data.name.trim(),
+        promotion_type: data.promotion_type,
+        value: data.value,
+        product_id: data.product_id || null,
+        category_id: data.category_id || null,
+        buy_quantity: data.buy_quantity || null,
+        get_quantity: data.get_quantity || null,
+        min_subtotal: data.min_subtotal || 0,
+        starts_at: data.starts_at || null,
+        ends_at: data.ends_at || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: promotion,
+      message: 'Promotion created successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Update promotion (Admin only)
+ */
+export async function updatePromotion(
+  promotionId: string,
+  updates: Partial<Promotion>
+): Promise<ApiResponse<Promotion>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('promotions')
+      .update(updates)
+      .eq('id', promotionId)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: 'Promotion updated successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Deactivate promotion (Admin only)
+ */
+export async function deactivatePromotion(promotionId: string): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    // Soft delete - keeps history for orders that used it
+    const { error } = await supabase
+      .from('promotions')
+      .update({ is_active: false })
+      .eq('id', promotionId);
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      message: 'Promotion deactivated',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
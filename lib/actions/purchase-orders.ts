@@ -0,0 +1,363 @@
+'use server';
+
+/**
+ * Server Actions for Purchase Orders
+ * Ordering stock from suppliers and receiving it into a store
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import {
+  ApiResponse,
+  CreatePurchaseOrderFormData,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrderLine,
+} from '@/lib/types';
+import { generateOrderNumber, isValidPrice } from '@/lib/utils';
+
+const PURCHASE_ORDER_RELATIONS = `
+  supplier:supplier_id (*),
+  lines:purchase_order_lines (
+    *,
+    product:product_id (*)
+  )
+`;
+
+// ============================================================================
+// PURCHASE ORDER QUERIES
+// ============================================================================
+
+/**
+ * Get purchase orders, newest first
+ */
+export async function getPurchaseOrders(
+  storeId?: string,
+  status?: PurchaseOrderStatus
+): Promise<ApiResponse<PurchaseOrder[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    let query = supabase.from('purchase_orders').select(`*, ${PURCHASE_ORDER_RELATIONS}`);
+
+    if (storeId) {
+      query = query.eq('store_id', storeId);
+    }
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get purchase order by ID with its supplier and lines
+ */
+export async function getPurchaseOrderById(
+  purchaseOrderId: string
+): Promise<ApiResponse<PurchaseOrder>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .select(`*, ${PURCHASE_ORDER_RELATIONS}`)
+      .eq('id', purchaseOrderId)
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+// ============================================================================
+// PURCHASE ORDER ACTIONS
+// ============================================================================
+
+/**
+ * Create a draft purchase order (Admin only)
+ */
+export async function createPurchaseOrder(
+  data: CreatePurchaseOrderFormData,
+  userId: string
+): Promise<ApiResponse<PurchaseOrder>> {
+  try {
+    if (!data.store_id || !data.supplier_id) {
+      return {
+        success: false,
+        error: 'Store and supplier are required',
+      };
+    }
+
+    const lines = data.lines || [];
+    if (lines.length === 0) {
+      return {
+        success: false,
+        error: 'Add at least one product',
+      };
+    }
+
+    if (lines.some((line) => !Number.isInteger(line.quantity_ordered) || line.quantity_ordered < 1)) {
+      return {
+        success: false,
+        error: 'Ordered quantities must be positive whole numbers',
+      };
+    }
+
+    if (lines.some((line) => !isValidPrice(line.unit_cost))) {
+      return {
+        success: false,
+        error: 'Invalid unit cost',
+      };
+    }
+
+    const productIds = lines.map((line) => line.product_id);
+    if (new Set(productIds).size !== productIds.length) {
+      return {
+        success: false,
+        error: 'Each product can only appear once per purchase order',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: purchaseOrder, error } = await supabase
+      .from('purchase_orders')
+      .insert({
+        po_number: generateOrderNumber('PO'),
+        store_id: data.store_id,
+        supplier_id: data.supplier_id,
+        expected_at: data.expected_at || null,
+        notes: data.notes?.trim() || null,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    const { error: linesError } = await supabase.from('purchase_order_lines').insert(
+      lines.map((line) => ({
+        purchase_order_id: purchaseOrder.id,
+        product_id: line.product_id,
+        quantity_ordered: line.quantity_ordered,
+        unit_cost: line.unit_cost,
+      }))
+    );
+
+    if (linesError) {
+      await supabase.from('purchase_orders').delete().eq('id', purchaseOrder.id);
+      return {
+        success: false,
+        error: linesError.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: purchaseOrder,
+      message: `Purchase order ${purchaseOrder.po_number} created`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Mark a draft purchase order as sent to the supplier
+ */
+export async function sendPurchaseOrder(
+  purchaseOrderId: string
+): Promise<ApiResponse<PurchaseOrder>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .update({ status: 'sent', sent_at: new Date().toISOString() })
+      .eq('id', purchaseOrderId)
+      .eq('status', 'draft')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: 'Only draft purchase orders can be sent',
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: `Purchase order ${data.po_number} sent`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Close a purchase order
+ * Anything still outstanding on a partially received order is written off
+ */
+export async function closePurchaseOrder(
+  purchaseOrderId: string
+): Promise<ApiResponse<PurchaseOrder>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .update({ status: 'closed', closed_at: new Date().toISOString() })
+      .eq('id', purchaseOrderId)
+      .in('status', ['sent', 'partially_received', 'received'])
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: 'Only sent or received purchase orders can be closed',
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: `Purchase order ${data.po_number} closed`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Receive goods against a purchase order
+ * Runs through the receive_purchase_order database function, which adds
+ * stock, logs inventory against the PO, updates product cost to the actual
+ * unit cost and moves the PO to partially_received or received
+ */
+export async function receivePurchaseOrder(
+  purchaseOrderId: string,
+  userId: string,
+  lines: ReceivePurchaseOrderLine[],
+  notes?: string
+): Promise<ApiResponse<PurchaseOrder>> {
+  try {
+    const selected = (lines || []).filter((line) => line.quantity > 0);
+
+    if (selected.length === 0) {
+      return {
+        success: false,
+        error: 'Enter a received quantity for at least one line',
+      };
+    }
+
+    if (selected.some((line) => !Number.isInteger(line.quantity))) {
+      return {
+        success: false,
+        error: 'Received quantities must be whole numbers',
+      };
+    }
+
+    if (selected.some((line) => !isValidPrice(line.unit_cost))) {
+      return {
+        success: false,
+        error: 'Invalid unit cost',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc('receive_purchase_order', {
+      p_purchase_order_id: purchaseOrderId,
+      p_user_id: userId,
+      p_lines: selected,
+      p_notes: notes?.trim() || null,
+    });
+
+    if (error || !data) {
+      return {
+        success: false,
+        error: error?.message || 'Failed to receive purchase order',
+      };
+    }
+
+    const purchaseOrder = data as PurchaseOrder;
+
+    return {
+      success: true,
+      data: purchaseOrder,
+      message:
+        purchaseOrder.status === 'received'
+          ? `Purchase order ${purchaseOrder.po_number} fully received`
+          : `Partial delivery recorded on ${purchaseOrder.po_number}`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
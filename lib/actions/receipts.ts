@@ -0,0 +1,78 @@
+'use server';
+
+/**
+ * Server Actions for Receipts
+ * Build receipts for new and past orders, using the order's store template
+ */
+
+import { getOrderById } from '@/lib/actions/orders';
+import { getStoreById } from '@/lib/actions/stores';
+import { buildReceipt, renderReceiptHtml, renderReceiptText } from '@/lib/receipts';
+import { ApiResponse, ReceiptData } from '@/lib/types';
+
+// ============================================================================
+// RECEIPT ACTIONS
+// ============================================================================
+
+/**
+ * Get receipt data for an order
+ * Pass isReprint to mark the receipt as a reprint of a past order
+ */
+export async function getReceipt(
+  orderId: string,
+  isReprint = false
+): Promise<ApiResponse<ReceiptData>> {
+  try {
+    const orderResult = await getOrderById(orderId);
+    if (!orderResult.success || !orderResult.data) {
+      return {
+        success: false,
+        error: orderResult.error || 'Order not found',
+      };
+    }
+
+    // A missing store still prints, with the default template
+    const storeResult = await getStoreById(orderResult.data.store_id);
+
+    return {
+      success: true,
+      data: buildReceipt(orderResult.data, storeResult.data || null, { isReprint }),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get an order's receipt as an HTML document and plain text (e.g. for email)
+ */
+export async function getReceiptDocument(
+  orderId: string,
+  isReprint = false
+): Promise<ApiResponse<{ html: string; text: string }>> {
+  try {
+    const result = await getReceipt(orderId, isReprint);
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        html: await renderReceiptHtml(result.data),
+        text: renderReceiptText(result.data),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
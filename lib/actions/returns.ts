@@ -0,0 +1,249 @@
+'use server';
+
+/**
+ * Server Actions for Returns & Refunds
+ * Partial and full returns against existing orders
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import {
+  ApiResponse,
+  OrderReturn,
+  ReturnItemInput,
+  ReturnableOrderItem,
+  PaymentMethod,
+} from '@/lib/types';
+
+// ============================================================================
+// RETURN ACTIONS
+// ============================================================================
+
+/**
+ * Process a return against an order
+ * Runs through the process_return database function, which validates
+ * quantities, restocks where requested, logs inventory and updates the
+ * order status in a single transaction. Refunds to store credit are added
+ * to the order's customer's store credit balance
+ */
+export async function processReturn(
+  orderId: string,
+  userId: string,
+  items: ReturnItemInput[],
+  reason: string,
+  refundMethod: PaymentMethod
+): Promise<ApiResponse<OrderReturn>> {
+  try {
+    const selected = (items || []).filter((item) => item.quantity > 0);
+
+    if (selected.length === 0) {
+      return {
+        success: false,
+        error: 'No items selected for return',
+      };
+    }
+
+    if (selected.some((item) => !Number.isInteger(item.quantity))) {
+      return {
+        success: false,
+        error: 'Return quantities must be whole numbers',
+      };
+    }
+
+    if (!reason || reason.trim().length === 0) {
+      return {
+        success: false,
+        error: 'A return reason is required',
+      };
+    }
+
+    if (refundMethod === 'points' || refundMethod === 'gift_card') {
+      return {
+        success: false,
+        error: 'Refunds go to cash, card, mobile or store credit',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc('process_return', {
+      p_order_id: orderId,
+      p_processed_by: userId,
+      p_reason: reason.trim(),
+      p_refund_method: refundMethod,
+      p_items: selected,
+    });
+
+    if (error || !data) {
+      return {
+        success: false,
+        error: error?.message || 'Failed to process return',
+      };
+    }
+
+    const orderReturn = data as OrderReturn;
+
+    return {
+      success: true,
+      data: orderReturn,
+      message: `Refund of ${Number(orderReturn.refund_total).toFixed(2)} processed`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get returns for an order
+ */
+export async function getReturnsByOrder(orderId: string): Promise<ApiResponse<OrderReturn[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('returns')
+      .select(
+        `
+        *,
+        items:return_items (
+          *,
+          product:product_id (name, sku)
+        )
+        `
+      )
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get order items with the quantities still available to return
+ */
+export async function getReturnableItems(
+  orderId: string
+): Promise<ApiResponse<ReturnableOrderItem[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data: orderItems, error: itemsError } = await supabase
+      .from('order_items')
+      .select(
+        `
+        *,
+        product:product_id (*)
+        `
+      )
+      .eq('order_id', orderId);
+
+    if (itemsError) {
+      return {
+        success: false,
+        error: itemsError.message,
+      };
+    }
+
+    const { data: returned, error: returnedError } = await supabase
+      .from('return_items')
+      .select('order_item_id, quantity, returns!inner (order_id)')
+      .eq('returns.order_id', orderId);
+
+    if (returnedError) {
+      return {
+        success: false,
+        error: returnedError.message,
+      };
+    }
+
+    const returnedByItem = (returned || []).reduce(
+      (acc, item) => {
+        acc[item.order_item_id] = (acc[item.order_item_id] || 0) + item.quantity;
+        return acc;
+      },
+      {} as Record<string, number>
+    );
+
+    const results = (orderItems || []).map((item) => {
+      const returnedQuantity = returnedByItem[item.id] || 0;
+      return {
+        ...item,
+        returned_quantity: returnedQuantity,
+        returnable_quantity: item.quantity - returnedQuantity,
+      };
+    });
+
+    return {
+      success: true,
+      data: results,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Get returns by date range (Admin only)
+ */
+export async function getReturnsByDateRange(
+  startDate: string,
+  endDate: string
+): Promise<ApiResponse<OrderReturn[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('returns')
+      .select(
+        `
+        *,
+        order:order_id (order_number),
+        items:return_items (*)
+        `
+      )
+      .gte('created_at', startDate)
+      .lte('created_at', endDate)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
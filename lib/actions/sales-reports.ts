@@ -0,0 +1,192 @@
+'use server';
+
+/**
+ * Server Actions for X/Z Sales Reports
+ * An X report reads the store's sales since its last Z report and changes
+ * nothing. A Z report closes that period: it is numbered, stored as built
+ * and never changed, so it can be reprinted exactly
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { ApiResponse, SalesReport, ZReport } from '@/lib/types';
+
+/**
+ * Build an X report for everything since the store's last Z report (or
+ * since the store opened)
+ * Totalled by the sales_report database function. Periods go by when the
+ * server recorded each order, refund and void, not when the sale happened,
+ * so an offline sale synced after a Z report closed is counted in the next
+ * report instead of none
+ */
+async function buildReportSinceLastZ(storeId: string): Promise<ApiResponse<SalesReport>> {
+  const supabase = createServerSupabaseClient();
+
+  const { data: store, error: storeError } = await supabase
+    .from('stores')
+    .select('id, created_at')
+    .eq('id', storeId)
+    .single();
+
+  if (storeError || !store) {
+    return {
+      success: false,
+      error: 'Store not found',
+    };
+  }
+
+  const { data: lastReport, error: lastError } = await supabase
+    .from('z_reports')
+    .select('period_end')
+    .eq('store_id', storeId)
+    .order('report_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lastError) {
+    return {
+      success: false,
+      error: lastError.message,
+    };
+  }
+
+  const { data, error } = await supabase.rpc('sales_report', {
+    p_store_id: storeId,
+    p_report_type: 'x',
+    p_period_start: lastReport?.period_end ?? store.created_at,
+    p_period_end: new Date().toISOString(),
+  });
+
+  if (error || !data) {
+    return {
+      success: false,
+      error: error?.message || 'Failed to build report',
+    };
+  }
+
+  return {
+    success: true,
+    data: data as SalesReport,
+  };
+}
+
+// ============================================================================
+// REPORT ACTIONS
+// ============================================================================
+
+/**
+ * Get an X report: sales since the store's last Z report, as of now
+ */
+export async function getXReport(storeId: string): Promise<ApiResponse<SalesReport>> {
+  try {
+    if (!storeId) {
+      return {
+        success: false,
+        error: 'Select a store for the report',
+      };
+    }
+
+    return await buildReportSinceLastZ(storeId);
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Close the day with a Z report
+ * Runs through the close_z_report database function, which builds the
+ * report with the store locked, so checkouts, returns and voids in flight
+ * are counted in it or in the next one, and gives it the store's next number
+ */
+export async function closeZReport(
+  storeId: string,
+  userId: string
+): Promise<ApiResponse<ZReport>> {
+  try {
+    if (!storeId) {
+      return {
+        success: false,
+        error: 'Select a store for the report',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc('close_z_report', {
+      p_store_id: storeId,
+      p_closed_by: userId,
+    });
+
+    if (error || !data) {
+      return {
+        success: false,
+        error: error?.message || 'Failed to close Z report',
+      };
+    }
+
+    const zReport = data as ZReport;
+
+    return {
+      success: true,
+      data: zReport,
+      message: `Z report #${zReport.report_number} closed`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get closed Z reports, newest first
+ * Limited to one store when storeId is given
+ */
+export async function getZReports(
+  storeId?: string,
+  limit: number = 50
+): Promise<ApiResponse<ZReport[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    let query = supabase
+      .from('z_reports')
+      .select(
+        `
+        *,
+        closer:closed_by (
+          id,
+          email,
+          full_name,
+          role
+        )
+        `
+      );
+
+    if (storeId) {
+      query = query.eq('store_id', storeId);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
@@ -0,0 +1,482 @@
+'use server';
+
+/**
+ * Server Actions for Stock Counts
+ * Stock takes and cycle counts, variance review and approval
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import {
+  ApiResponse,
+  CreateStockCountFormData,
+  StockCount,
+  StockCountEntry,
+  StockCountStatus,
+  StockCountVarianceLine,
+  StockCountVarianceReport,
+} from '@/lib/types';
+import { formatDecimal, generateOrderNumber } from '@/lib/utils';
+
+const STOCK_COUNT_RELATIONS = `
+  category:category_id (*),
+  lines:stock_count_lines (
+    *,
+    product:product_id (*)
+  )
+`;
+
+/**
+ * Hide expected quantities while a blind count is still being counted
+ */
+function maskBlindCount(count: StockCount): StockCount {
+  if (!count.is_blind || count.status !== 'counting') {
+    return count;
+  }
+
+  return {
+    ...count,
+    lines: (count.lines || []).map((line) => ({ ...line, expected_quantity: null })),
+  };
+}
+
+// ============================================================================
+// STOCK COUNT QUERIES
+// ============================================================================
+
+/**
+ * Get stock counts, newest first
+ */
+export async function getStockCounts(
+  storeId?: string,
+  status?: StockCountStatus
+): Promise<ApiResponse<StockCount[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    let query = supabase.from('stock_counts').select('*, category:category_id (*)');
+
+    if (storeId) {
+      query = query.eq('store_id', storeId);
+    }
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get stock count by ID with its lines
+ * Expected quantities are withheld while a blind count is open
+ */
+export async function getStockCountById(
+  stockCountId: string
+): Promise<ApiResponse<StockCount>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('stock_counts')
+      .select(`*, ${STOCK_COUNT_RELATIONS}`)
+      .eq('id', stockCountId)
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    const count = data as StockCount;
+    count.lines = (count.lines || []).sort((a, b) =>
+      (a.product?.name || '').localeCompare(b.product?.name || '')
+    );
+
+    return {
+      success: true,
+      data: maskBlindCount(count),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Variance report: expected vs counted per product and the cost impact
+ * Cost impact uses the product cost snapshotted when the count started
+ */
+export async function getStockCountVariance(
+  stockCountId: string
+): Promise<ApiResponse<StockCountVarianceReport>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('stock_counts')
+      .select(`*, ${STOCK_COUNT_RELATIONS}`)
+      .eq('id', stockCountId)
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    const count = data as StockCount;
+
+    if (count.is_blind && count.status === 'counting') {
+      return {
+        success: false,
+        error: 'Submit a blind count before reviewing variances',
+      };
+    }
+
+    // Gift cards hold no stock; approval skips any an older count listed
+    const lines: StockCountVarianceLine[] = (count.lines || [])
+      .filter((line) => !line.product?.is_gift_card)
+      .map((line) => {
+        const expected = line.expected_quantity ?? 0;
+        const variance = line.counted_quantity === null ? 0 : line.counted_quantity - expected;
+        return {
+          product_id: line.product_id,
+          product_name: line.product?.name || '',
+          sku: line.product?.sku || '',
+          expected_quantity: expected,
+          counted_quantity: line.counted_quantity,
+          variance,
+          unit_cost: line.unit_cost,
+          cost_impact: formatDecimal(variance * line.unit_cost),
+        };
+      });
+
+    // Largest cost impact first, in either direction
+    lines.sort((a, b) => Math.abs(b.cost_impact) - Math.abs(a.cost_impact));
+
+    const counted = lines.filter((line) => line.counted_quantity !== null);
+
+    return {
+      success: true,
+      data: {
+        stock_count: { ...count, lines: undefined },
+        lines,
+        counted_lines: counted.length,
+        uncounted_lines: lines.length - counted.length,
+        units_over: counted.reduce((sum, line) => sum + Math.max(line.variance, 0), 0),
+        units_short: counted.reduce((sum, line) => sum + Math.max(-line.variance, 0), 0),
+        total_cost_impact: formatDecimal(
+          lines.reduce((sum, line) => sum + line.cost_impact, 0)
+        ),
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+// ============================================================================
+// STOCK COUNT ACTIONS
+// ============================================================================
+
+/**
+ * Start a full or category stock count (Admin only)
+ * Runs through the start_stock_count database function, which snapshots
+ * expected quantities and costs for every product in scope
+ */
+export async function startStockCount(
+  data: CreateStockCountFormData,
+  userId: string
+): Promise<ApiResponse<StockCount>> {
+  try {
+    if (!data.store_id) {
+      return {
+        success: false,
+        error: 'Store is required',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: count, error } = await supabase.rpc('start_stock_count', {
+      p_count_number: generateOrderNumber('SC'),
+      p_store_id: data.store_id,
+      p_category_id: data.category_id || null,
+      p_is_blind: data.is_blind,
+      p_user_id: userId,
+      p_notes: data.notes?.trim() || null,
+    });
+
+    if (error || !count) {
+      return {
+        success: false,
+        error: error?.message || 'Failed to start stock count',
+      };
+    }
+
+    const stockCount = count as StockCount;
+
+    return {
+      success: true,
+      data: stockCount,
+      message: `Stock count ${stockCount.count_number} started`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Save counted quantities while a count is open
+ * Lines can be counted more than once; the latest count wins
+ */
+export async function recordStockCounts(
+  stockCountId: string,
+  entries: StockCountEntry[]
+): Promise<ApiResponse<null>> {
+  try {
+    if (!entries || entries.length === 0) {
+      return {
+        success: false,
+        error: 'Nothing to record',
+      };
+    }
+
+    if (
+      entries.some(
+        (entry) => !Number.isInteger(entry.counted_quantity) || entry.counted_quantity < 0
+      )
+    ) {
+      return {
+        success: false,
+        error: 'Counted quantities must be whole numbers of zero or more',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: count, error: countError } = await supabase
+      .from('stock_counts')
+      .select('status')
+      .eq('id', stockCountId)
+      .single();
+
+    if (countError) {
+      return {
+        success: false,
+        error: countError.message,
+      };
+    }
+
+    if (count.status !== 'counting') {
+      return {
+        success: false,
+        error: 'This count is no longer open',
+      };
+    }
+
+    const countedAt = new Date().toISOString();
+
+    for (const entry of entries) {
+      const { error } = await supabase
+        .from('stock_count_lines')
+        .update({ counted_quantity: entry.counted_quantity, counted_at: countedAt })
+        .eq('id', entry.line_id)
+        .eq('stock_count_id', stockCountId);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data: null,
+      message: `${entries.length} count(s) saved`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Submit a count for review, closing it to further counting
+ */
+export async function submitStockCount(
+  stockCountId: string
+): Promise<ApiResponse<StockCount>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { count: countedLines, error: linesError } = await supabase
+      .from('stock_count_lines')
+      .select('id', { count: 'exact', head: true })
+      .eq('stock_count_id', stockCountId)
+      .not('counted_quantity', 'is', null);
+
+    if (linesError) {
+      return {
+        success: false,
+        error: linesError.message,
+      };
+    }
+
+    if (!countedLines) {
+      return {
+        success: false,
+        error: 'Count at least one product before submitting',
+      };
+    }
+
+    const { data, error } = await supabase
+      .from('stock_counts')
+      .update({ status: 'submitted', submitted_at: new Date().toISOString() })
+      .eq('id', stockCountId)
+      .eq('status', 'counting')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: 'Only open counts can be submitted',
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: `Stock count ${data.count_number} submitted for approval`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Approve a submitted count (Admin only)
+ * Runs through the approve_stock_count database function, which posts
+ * every variance as an adjustment in one transaction
+ */
+export async function approveStockCount(
+  stockCountId: string,
+  userId: string
+): Promise<ApiResponse<StockCount>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc('approve_stock_count', {
+      p_stock_count_id: stockCountId,
+      p_user_id: userId,
+    });
+
+    if (error || !data) {
+      return {
+        success: false,
+        error: error?.message || 'Failed to approve stock count',
+      };
+    }
+
+    const stockCount = data as StockCount;
+
+    return {
+      success: true,
+      data: stockCount,
+      message: `Stock count ${stockCount.count_number} approved and stock adjusted`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Cancel an open or submitted count without adjusting stock
+ */
+export async function cancelStockCount(
+  stockCountId: string
+): Promise<ApiResponse<StockCount>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('stock_counts')
+      .update({ status: 'cancelled' })
+      .eq('id', stockCountId)
+      .in('status', ['counting', 'submitted'])
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: 'Only open or submitted counts can be cancelled',
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: `Stock count ${data.count_number} cancelled`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
@@ -0,0 +1,216 @@
+'use server';
+
+/**
+ * Server Actions for Stores
+ * Store locations that own stock, orders and cashiers
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { ApiResponse, Store, CreateStoreFormData } from '@/lib/types';
+
+// ============================================================================
+// STORE ACTIONS
+// ============================================================================
+
+/**
+ * Get all active stores
+ */
+export async function getStores(): Promise<ApiResponse<Store[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('stores')
+      .select('*')
+      .eq('is_active', true)
+      .order('name', { ascending: true });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Get store by ID
+ */
+export async function getStoreById(storeId: string): Promise<ApiResponse<Store>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('stores')
+      .select('*')
+      .eq('id', storeId)
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Create new store (Admin only)
+ */
+export async function createStore(data: CreateStoreFormData): Promise<ApiResponse<Store>> {
+  try {
+    if (!data.code || data.code.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Store code is required',
+      };
+    }
+
+    if (!data.name || data.name.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Store name is required',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: store, error } = await supabase
+      .from('stores')
+      .insert({
+        code: data.code.trim().toUpperCase(),
+        name: data.name.trim(),
+        address: data.address,
+        phone: data.phone,
+        time_zone: data.time_zone || 'UTC',
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: store,
+      message: 'Store created successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Update store (Admin only)
+ * A new time zone moves the store's sales days, so its daily_sales rollup
+ * is rebuilt
+ */
+export async function updateStore(
+  storeId: string,
+  updates: Partial<Store>
+): Promise<ApiResponse<Store>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('stores')
+      .update(updates)
+      .eq('id', storeId)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    if (updates.time_zone !== undefined) {
+      const { error: backfillError } = await supabase.rpc('backfill_daily_sales', {
+        p_store_id: storeId,
+      });
+
+      if (backfillError) {
+        return {
+          success: false,
+          error: backfillError.message,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data,
+      message: 'Store updated successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Assign a user to a store (Admin only)
+ */
+export async function assignUserToStore(
+  userId: string,
+  storeId: string | null
+): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ store_id: storeId })
+      .eq('id', userId);
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      message: 'User store updated',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
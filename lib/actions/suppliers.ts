@@ -0,0 +1,150 @@
+'use server';
+
+/**
+ * Server Actions for Suppliers
+ * Vendors that purchase orders are raised against
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { ApiResponse, CreateSupplierFormData, Supplier } from '@/lib/types';
+import { isValidEmail } from '@/lib/utils';
+
+// ============================================================================
+// SUPPLIER ACTIONS
+// ============================================================================
+
+/**
+ * Get suppliers, active ones only unless includeInactive is set
+ */
+export async function getSuppliers(
+  includeInactive: boolean = false
+): Promise<ApiResponse<Supplier[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    let query = supabase.from('suppliers').select('*');
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query.order('name', { ascending: true });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Create new supplier (Admin only)
+ */
+export async function createSupplier(
+  data: CreateSupplierFormData
+): Promise<ApiResponse<Supplier>> {
+  try {
+    if (!data.name || data.name.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Supplier name is required',
+      };
+    }
+
+    if (data.email && !isValidEmail(data.email.trim())) {
+      return {
+        success: false,
+        error: 'Invalid email address',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: supplier, error } = await supabase
+      .from('suppliers')
+      .insert({
+        name: data.name.trim(),
+        contact_name: data.contact_name?.trim() || null,
+        email: data.email?.trim() || null,
+        phone: data.phone?.trim() || null,
+        address: data.address?.trim() || null,
+        notes: data.notes?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: supplier,
+      message: 'Supplier created successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Update supplier (Admin only)
+ */
+export async function updateSupplier(
+  supplierId: string,
+  updates: Partial<Supplier>
+): Promise<ApiResponse<Supplier>> {
+  try {
+    if (updates.email && !isValidEmail(updates.email.trim())) {
+      return {
+        success: false,
+        error: 'Invalid email address',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('suppliers')
+      .update(updates)
+      .eq('id', supplierId)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: 'Supplier updated successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
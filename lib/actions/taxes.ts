@@ -0,0 +1,364 @@
+'use server';
+
+/**
+ * Server Actions for Taxes
+ * Tax rates and the tax classes that group them onto products
+ */
+
+import { createServerSupabaseClient } from '@/lib/supabase';
+import {
+  ApiResponse,
+  CreateTaxClassFormData,
+  CreateTaxRateFormData,
+  TaxClass,
+  TaxRate,
+} from '@/lib/types';
+
+type TaxClassRow = Omit<TaxClass, 'rates'> & {
+  rates: { sort_order: number; tax_rate: TaxRate | null }[] | null;
+};
+
+/**
+ * Flatten a class row's rate links into its active rates, in the order
+ * they are applied
+ */
+function toTaxClass(row: TaxClassRow): TaxClass {
+  const { rates, ...taxClass } = row;
+
+  return {
+    ...taxClass,
+    rates: (rates || [])
+      .filter((link) => link.tax_rate && link.tax_rate.is_active)
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map((link) => link.tax_rate!),
+  };
+}
+
+/**
+ * Check a rate's name and percentage
+ */
+function validateTaxRate(data: Partial<CreateTaxRateFormData>): string | null {
+  if (data.name !== undefined && data.name.trim().length === 0) {
+    return 'Tax name is required';
+  }
+  if (data.rate !== undefined && (isNaN(data.rate) || data.rate < 0 || data.rate > 100)) {
+    return 'Tax rate must be between 0 and 100';
+  }
+  return null;
+}
+
+// ============================================================================
+// TAX RATE ACTIONS
+// ============================================================================
+
+/**
+ * Get tax rates
+ * Active rates only unless includeInactive is set
+ */
+export async function getTaxRates(
+  includeInactive: boolean = false
+): Promise<ApiResponse<TaxRate[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    let query = supabase.from('tax_rates').select('*');
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query.order('name', { ascending: true });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: data || [],
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Create a tax rate (Admin only)
+ */
+export async function createTaxRate(data: CreateTaxRateFormData): Promise<ApiResponse<TaxRate>> {
+  try {
+    const validationError = validateTaxRate(data);
+    if (validationError) {
+      return {
+        success: false,
+        error: validationError,
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: taxRate, error } = await supabase
+      .from('tax_rates')
+      .insert({
+        name: data.name.trim(),
+        rate: data.rate,
+        is_compound: data.is_compound,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: taxRate,
+      message: 'Tax rate created successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Update a tax rate (Admin only)
+ * Past orders keep the rate they were charged
+ */
+export async function updateTaxRate(
+  taxRateId: string,
+  updates: Partial<Pick<TaxRate, 'name' | 'rate' | 'is_compound' | 'is_active'>>
+): Promise<ApiResponse<TaxRate>> {
+  try {
+    const validationError = validateTaxRate(updates);
+    if (validationError) {
+      return {
+        success: false,
+        error: validationError,
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('tax_rates')
+      .update(updates.name !== undefined ? { ...updates, name: updates.name.trim() } : updates)
+      .eq('id', taxRateId)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: 'Tax rate updated successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+// ============================================================================
+// TAX CLASS ACTIONS
+// ============================================================================
+
+/**
+ * Get tax classes with their active rates
+ */
+export async function getTaxClasses(): Promise<ApiResponse<TaxClass[]>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('tax_classes')
+      .select('*, rates:tax_class_rates (sort_order, tax_rate:tax_rate_id (*))')
+      .order('name', { ascending: true });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data: (data || []).map(toTaxClass),
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Create a tax class with its rates (Admin only)
+ */
+export async function createTaxClass(
+  data: CreateTaxClassFormData
+): Promise<ApiResponse<TaxClass>> {
+  try {
+    if (!data.name || data.name.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Tax class name is required',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data: taxClass, error } = await supabase
+      .from('tax_classes')
+      .insert({
+        name: data.name.trim(),
+        description: data.description?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    const ratesResult = await setTaxClassRates(taxClass.id, data.tax_rate_ids || []);
+    if (!ratesResult.success) {
+      return {
+        success: false,
+        error: `Tax class created but rates failed: ${ratesResult.error}`,
+      };
+    }
+
+    return {
+      success: true,
+      data: taxClass,
+      message: 'Tax class created successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Update a tax class's name or description (Admin only)
+ */
+export async function updateTaxClass(
+  taxClassId: string,
+  updates: Partial<Pick<TaxClass, 'name' | 'description'>>
+): Promise<ApiResponse<TaxClass>> {
+  try {
+    if (updates.name !== undefined && updates.name.trim().length === 0) {
+      return {
+        success: false,
+        error: 'Tax class name is required',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('tax_classes')
+      .update(updates)
+      .eq('id', taxClassId)
+      .select()
+      .single();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+      message: 'Tax class updated successfully',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
+
+/**
+ * Replace the rates in a tax class, applied in the given order (Admin only)
+ */
+export async function setTaxClassRates(
+  taxClassId: string,
+  taxRateIds: string[]
+): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createServerSupabaseClient();
+
+    const { error: deleteError } = await supabase
+      .from('tax_class_rates')
+      .delete()
+      .eq('tax_class_id', taxClassId);
+
+    if (deleteError) {
+      return {
+        success: false,
+        error: deleteError.message,
+      };
+    }
+
+    const links = Array.from(new Set(taxRateIds)).map((taxRateId, index) => ({
+      tax_class_id: taxClassId,
+      tax_rate_id: taxRateId,
+      sort_order: index,
+    }));
+
+    if (links.length > 0) {
+      const { error } = await supabase.from('tax_class_rates').insert(links);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data: null,
+      message: 'Tax class rates saved',
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+}
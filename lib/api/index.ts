@@ -0,0 +1,133 @@
+/**
+ * REST API Helpers
+ * Token auth, pagination, store scoping and error bodies for /api/v1 routes
+ * Helpers that can fail return a NextResponse to send back as-is
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyApiToken } from '@/lib/api/tokens';
+import { ApiErrorBody, ApiToken, ApiTokenScope, PaginationParams } from '@/lib/types';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@/lib/utils';
+
+const ERROR_CODES: Record<number, string> = {
+  400: 'bad_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  500: 'internal_error',
+};
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+/**
+ * Build an error response with the standard { error: { code, message } } body
+ */
+export const apiError = (
+  status: number,
+  message: string,
+  code: string = ERROR_CODES[status] || 'error'
+): NextResponse<ApiErrorBody> => {
+  return NextResponse.json({ error: { code, message } }, { status });
+};
+
+/**
+ * Build a 500 response from an unexpected exception
+ */
+export const apiUnexpectedError = (error: unknown): NextResponse<ApiErrorBody> => {
+  const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+  return apiError(500, message);
+};
+
+// ============================================================================
+// AUTH
+// ============================================================================
+
+/**
+ * Authenticate a request by its "Authorization: Bearer <token>" header
+ * Returns the token, or a 401/403 response
+ */
+export const authenticateRequest = async (
+  request: NextRequest,
+  scope: ApiTokenScope
+): Promise<ApiToken | NextResponse<ApiErrorBody>> => {
+  const header = request.headers.get('authorization') || '';
+  const [scheme, secret] = header.split(' ');
+
+  if (scheme?.toLowerCase() !== 'bearer' || !secret) {
+    return apiError(401, 'Missing bearer token');
+  }
+
+  const result = await verifyApiToken(secret);
+  if (!result.success || !result.data) {
+    return apiError(401, result.error || 'Invalid API token');
+  }
+
+  if (!result.data.scopes.includes(scope)) {
+    return apiError(403, `Token is missing the '${scope}' scope`);
+  }
+
+  return result.data;
+};
+
+/**
+ * Resolve the store a request acts on
+ * Store-bound tokens can only use their own store
+ */
+export const resolveStoreId = (
+  token: ApiToken,
+  requestedStoreId?: string | null
+): string | undefined | NextResponse<ApiErrorBody> => {
+  if (token.store_id) {
+    if (requestedStoreId && requestedStoreId !== token.store_id) {
+      return apiError(403, 'Token is not allowed to access this store');
+    }
+    return token.store_id;
+  }
+
+  return requestedStoreId || undefined;
+};
+
+// ============================================================================
+// REQUEST PARSING
+// ============================================================================
+
+/**
+ * Parse ?page= and ?limit= (1-based page, limit capped at MAX_PAGE_SIZE)
+ */
+export const parsePagination = (
+  searchParams: URLSearchParams
+): PaginationParams | NextResponse<ApiErrorBody> => {
+  const page = Number(searchParams.get('page') ?? 1);
+  const limit = Number(searchParams.get('limit') ?? DEFAULT_PAGE_SIZE);
+
+  if (!Number.isInteger(page) || page < 1) {
+    return apiError(400, 'page must be a positive integer');
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return apiError(400, `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  return { page, limit };
+};
+
+/**
+ * Parse a JSON object request body
+ * Only the object shape is checked; callers validate the fields they use
+ */
+export const readJsonBody = async <T extends object = Record<string, unknown>>(
+  request: NextRequest
+): Promise<T | NextResponse<ApiErrorBody>> => {
+  try {
+    const body = await request.json();
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return apiError(400, 'Request body must be a JSON object');
+    }
+    return body;
+  } catch {
+    return apiError(400, 'Request body must be valid JSON');
+  }
+};
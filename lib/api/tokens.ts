@@ -0,0 +1,82 @@
+/**
+ * API Token Verification
+ * Looks up the bearer tokens sent to /api/v1 routes. Not a 'use server'
+ * module, so verification is only reachable from route handlers and never
+ * exposed to the browser as a server action
+ */
+
+import { createHash } from 'crypto';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { ApiResponse, ApiToken } from '@/lib/types';
+
+// Columns safe to return; token_hash never leaves the server
+export const TOKEN_COLUMNS =
+  'id, name, token_prefix, user_id, store_id, scopes, expires_at, last_used_at, revoked_at, created_at';
+
+/**
+ * Hash a token secret for storage and lookup
+ */
+export const hashToken = (secret: string): string => {
+  return createHash('sha256').update(secret).digest('hex');
+};
+
+/**
+ * Look up a token by its secret
+ * Fails for unknown, revoked and expired tokens; records last use
+ */
+export const verifyApiToken = async (secret: string): Promise<ApiResponse<ApiToken>> => {
+  try {
+    if (!secret) {
+      return {
+        success: false,
+        error: 'API token is required',
+      };
+    }
+
+    const supabase = createServerSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('api_tokens')
+      .select(TOKEN_COLUMNS)
+      .eq('token_hash', hashToken(secret))
+      .maybeSingle();
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    const token = data as ApiToken | null;
+
+    if (!token || token.revoked_at) {
+      return {
+        success: false,
+        error: 'Invalid API token',
+      };
+    }
+
+    if (token.expires_at && new Date(token.expires_at) < new Date()) {
+      return {
+        success: false,
+        error: 'API token has expired',
+      };
+    }
+
+    await supabase
+      .from('api_tokens')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', token.id);
+
+    return {
+      success: true,
+      data: token,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error?.message || 'An unexpected error occurred',
+    };
+  }
+};
@@ -5,9 +5,19 @@
 
 'use client';
 
-import { useEffect, useState, useCallback, useContext, createContext } from 'react';
+import {
+  useEffect,
+  useState,
+  useCallback,
+  useContext,
+  createContext,
+  useSyncExternalStore,
+  useRef,
+} from 'react';
 import { createBrowserSupabaseClient } from '@/lib/supabase';
-import { Profile, AuthUser } from '@/lib/types';
+import { createOrder } from '@/lib/actions/orders';
+import { getQueuedSales, removeQueuedSale, saveQueuedSale } from '@/lib/offline';
+import { Profile, AuthUser, QueuedSale } from '@/lib/types';
 
 // ============================================================================
 // AUTH CONTEXT & HOOKS
@@ -391,3 +401,221 @@ export const useDebounce = <T,>(value: T, delay = 500) => {
 
   return debouncedValue;
 };
+
+// ============================================================================
+// OFFLINE HOOKS
+// ============================================================================
+
+const subscribeToOnlineStatus = (callback: () => void) => {
+  window.addEventListener('online', callback);
+  window.addEventListener('offline', callback);
+  return () => {
+    window.removeEventListener('online', callback);
+    window.removeEventListener('offline', callback);
+  };
+};
+
+/**
+ * Hook for the browser's online/offline status
+ */
+export const useOnlineStatus = () => {
+  return useSyncExternalStore(
+    subscribeToOnlineStatus,
+    () => navigator.onLine,
+    () => true
+  );
+};
+
+/**
+ * Hook for sales queued while offline
+ * Replays pending sales through createOrder when the connection returns;
+ * the sale id is the idempotency key, so a sale that reached the server
+ * before the connection dropped is not created twice. Sales the server
+ * rejects (e.g. stock ran out meanwhile) are kept as conflicts for review
+ */
+export const useOfflineQueue = () => {
+  const [sales, setSales] = useState<QueuedSale[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setSales(await getQueuedSales());
+  }, []);
+
+  const queueSale = useCallback(
+    async (sale: QueuedSale) => {
+      await saveQueuedSale(sale);
+      await refresh();
+    },
+    [refresh]
+  );
+
+  // The replay in progress; calls made meanwhile (mount, 'online', retry)
+  // share it instead of replaying the same sales concurrently
+  const syncRef = useRef<Promise<{ synced: number; conflicts: number }> | null>(null);
+  // Set when a call arrives mid-replay, so sales queued or retried since it
+  // started get another pass
+  const resyncRef = useRef(false);
+
+  const syncQueue = useCallback(async () => {
+    if (syncRef.current) {
+      resyncRef.current = true;
+      return syncRef.current;
+    }
+
+    const replay = async () => {
+      let synced = 0;
+      let conflicts = 0;
+      setIsSyncing(true);
+
+      try {
+        do {
+          resyncRef.current = false;
+          const queued = await getQueuedSales();
+          for (const sale of queued) {
+            if (sale.status === 'conflict') continue;
+
+            // Throws when still offline; remaining sales stay queued
+            const result = await createOrder(
+              sale.cashier_id,
+              sale.store_id,
+              sale.items,
+              sale.payments,
+              sale.notes,
+              {
+                idempotency_key: sale.id,
+                created_at: sale.created_at,
+                customer_id: sale.customer_id ?? null,
+              }
+            );
+
+            if (result.success) {
+              await removeQueuedSale(sale.id);
+              synced += 1;
+            } else {
+              await saveQueuedSale({
+                ...sale,
+                status: 'conflict',
+                error: result.error || 'Sale was rejected',
+                attempts: sale.attempts + 1,
+              });
+              conflicts += 1;
+            }
+          }
+        } while (resyncRef.current);
+      } catch {
+        // Connection lost mid-sync
+      } finally {
+        setIsSyncing(false);
+        await refresh();
+      }
+
+      return { synced, conflicts };
+    };
+
+    syncRef.current = replay();
+    try {
+      return await syncRef.current;
+    } finally {
+      syncRef.current = null;
+    }
+  }, [refresh]);
+
+  const retrySale = useCallback(
+    async (sale: QueuedSale) => {
+      await saveQueuedSale({ ...sale, status: 'pending', error: null });
+      return syncQueue();
+    },
+    [syncQueue]
+  );
+
+  const discardSale = useCallback(
+    async (saleId: string) => {
+      await removeQueuedSale(saleId);
+      await refresh();
+    },
+    [refresh]
+  );
+
+  // Load the queue on mount and replay it whenever the connection returns
+  useEffect(() => {
+    getQueuedSales().then((queued) => {
+      setSales(queued);
+      if (navigator.onLine && queued.some((sale) => sale.status === 'pending')) {
+        syncQueue();
+      }
+    });
+
+    const handleOnline = () => {
+      syncQueue();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [syncQueue]);
+
+  return {
+    sales,
+    pendingCount: sales.filter((sale) => sale.status === 'pending').length,
+    conflictCount: sales.filter((sale) => sale.status === 'conflict').length,
+    isSyncing,
+    queueSale,
+    syncQueue,
+    retrySale,
+    discardSale,
+  };
+};
+
+// ============================================================================
+// SCANNER HOOKS
+// ============================================================================
+
+interface BarcodeScannerOptions {
+  enabled?: boolean;
+  // Scanners type much faster than people; slower keystrokes reset the buffer
+  maxKeyIntervalMs?: number;
+  minLength?: number;
+}
+
+/**
+ * Hook for keyboard-wedge barcode scanners
+ * Collects fast keystroke bursts from anywhere on the page and calls onScan
+ * when the scanner sends Enter. Normal typing is too slow to trigger it
+ */
+export const useBarcodeScanner = (
+  onScan: (code: string) => void,
+  { enabled = true, maxKeyIntervalMs = 50, minLength = 4 }: BarcodeScannerOptions = {}
+) => {
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const now = event.timeStamp;
+      const isBurst = now - lastKeyAt <= maxKeyIntervalMs;
+      lastKeyAt = now;
+
+      if (event.key === 'Enter') {
+        if (isBurst && buffer.length >= minLength) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+        return;
+      }
+
+      if (event.key.length !== 1 || event.ctrlKey || event.metaKey || event.altKey) return;
+
+      buffer = isBurst ? buffer + event.key : event.key;
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, maxKeyIntervalMs, minLength]);
+};
@@ -0,0 +1,133 @@
+/**
+ * Offline Storage for the POS
+ * IndexedDB-backed catalog cache and queue of sales made while offline
+ * Browser only; every function resolves after its transaction completes
+ */
+
+import {
+  CachedCatalog,
+  ModifierGroup,
+  Product,
+  Promotion,
+  QueuedSale,
+  TaxClass,
+} from '@/lib/types';
+
+const DB_NAME = 'pos-offline';
+const DB_VERSION = 1;
+const CATALOG_STORE = 'catalog';
+const SALES_STORE = 'sales';
+
+type StoreName = typeof CATALOG_STORE | typeof SALES_STORE;
+
+/**
+ * Open (and on first use create) the offline database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CATALOG_STORE)) {
+        db.createObjectStore(CATALOG_STORE, { keyPath: 'store_id' });
+      }
+      if (!db.objectStoreNames.contains(SALES_STORE)) {
+        db.createObjectStore(SALES_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Run one request against an object store and resolve with its result
+ */
+const runRequest = async <T,>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result as T);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+// ============================================================================
+// CATALOG CACHE
+// ============================================================================
+
+/**
+ * Save a store's products, promotions, modifiers and taxes for offline use
+ */
+export const cacheCatalog = async (
+  storeId: string,
+  products: Product[],
+  promotions: Promotion[],
+  modifierGroups: ModifierGroup[] = [],
+  taxClasses: TaxClass[] = [],
+  pricesIncludeTax = false
+): Promise<void> => {
+  const catalog: CachedCatalog = {
+    store_id: storeId,
+    products,
+    promotions,
+    modifier_groups: modifierGroups,
+    tax_classes: taxClasses,
+    prices_include_tax: pricesIncludeTax,
+    cached_at: new Date().toISOString(),
+  };
+  await runRequest(CATALOG_STORE, 'readwrite', (store) => store.put(catalog));
+};
+
+/**
+ * Get a store's cached catalog, if one was saved
+ */
+export const getCachedCatalog = async (storeId: string): Promise<CachedCatalog | null> => {
+  const catalog = await runRequest<CachedCatalog | undefined>(CATALOG_STORE, 'readonly', (store) =>
+    store.get(storeId)
+  );
+  return catalog || null;
+};
+
+// ============================================================================
+// SALES QUEUE
+// ============================================================================
+
+/**
+ * Add or update a queued sale
+ */
+export const saveQueuedSale = async (sale: QueuedSale): Promise<void> => {
+  await runRequest(SALES_STORE, 'readwrite', (store) => store.put(sale));
+};
+
+/**
+ * Get all queued sales, oldest first
+ */
+export const getQueuedSales = async (): Promise<QueuedSale[]> => {
+  const sales = await runRequest<QueuedSale[]>(SALES_STORE, 'readonly', (store) =>
+    store.getAll()
+  );
+  return sales.sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+/**
+ * Remove a queued sale (synced or discarded)
+ */
+export const removeQueuedSale = async (saleId: string): Promise<void> => {
+  await runRequest(SALES_STORE, 'readwrite', (store) => store.delete(saleId));
+};
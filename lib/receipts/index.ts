@@ -0,0 +1,454 @@
+/**
+ * Receipt Rendering
+ * Builds receipt data from an order and renders it as thermal-friendly HTML,
+ * plain text, or an ESC/POS byte stream. All three share one row layout so a
+ * printed, emailed, or on-screen receipt reads the same
+ */
+
+import QRCode from 'qrcode';
+import {
+  Order,
+  ReceiptData,
+  ReceiptLine,
+  ReceiptSettings,
+  ReceiptTaxLine,
+  ReceiptWidth,
+  Store,
+} from '@/lib/types';
+import {
+  calculateTaxBreakdown,
+  formatCurrency,
+  formatDateTime,
+  formatDecimal,
+  formatPaymentMethod,
+} from '@/lib/utils';
+
+// Characters per line in the printer's standard font
+const COLUMNS: Record<ReceiptWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+// Printable area inside the paper's margins
+const PRINTABLE_WIDTH_MM: Record<ReceiptWidth, number> = {
+  58: 48,
+  80: 72,
+};
+
+type ReceiptRow =
+  | { kind: 'text'; text: string; align: 'left' | 'center'; bold?: boolean }
+  | { kind: 'divider' }
+  | { kind: 'qr'; data: string };
+
+// ============================================================================
+// RECEIPT DATA
+// ============================================================================
+
+/**
+ * Read a store's receipt template, with defaults when there is no store
+ */
+export const getReceiptSettings = (store: Store | null): ReceiptSettings => {
+  const toLines = (value: string | null | undefined) =>
+    (value || '').split('\n').map((line) => line.trim()).filter(Boolean);
+
+  return {
+    width: store?.receipt_width === 58 ? 58 : 80,
+    header_lines: toLines(store?.receipt_header),
+    footer_lines: store ? toLines(store.receipt_footer) : ['Thank you for your purchase!'],
+    show_tax_breakdown: store?.receipt_show_tax_breakdown ?? true,
+    show_qr_code: store?.receipt_show_qr_code ?? true,
+  };
+};
+
+/**
+ * Build receipt data for an order loaded with its items, payments and cashier
+ */
+export const buildReceipt = (
+  order: Order,
+  store: Store | null,
+  options: { isReprint?: boolean } = {}
+): ReceiptData => {
+  const items = order.items || [];
+
+  const lines: ReceiptLine[] = items.map((item) => ({
+    name: item.product?.name || 'Item',
+    sku: item.product?.sku || '',
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    discount_amount: item.discount_amount,
+    line_total: item.line_total,
+    modifiers: (item.modifiers || []).map((modifier) => ({
+      name: modifier.name,
+      price_delta: modifier.price_delta,
+    })),
+    gift_card_codes: (item.gift_card_entries || [])
+      .map((entry) => entry.gift_card?.code)
+      .filter((code): code is string => !!code),
+  }));
+
+  // Orders record each tax they were charged; older orders only carry a
+  // rate per line, charged after its discount, so group those the same way
+  const taxByRate = new Map<number, ReceiptTaxLine>();
+  if (!order.taxes || order.taxes.length === 0) {
+    items.forEach((item) => {
+      const { net, tax } = calculateTaxBreakdown(
+        formatDecimal(item.unit_price * item.quantity - item.discount_amount),
+        item.tax_rate,
+        order.prices_include_tax
+      );
+      const entry = taxByRate.get(item.tax_rate) || {
+        name: 'Tax',
+        tax_rate: item.tax_rate,
+        taxable_amount: 0,
+        tax_amount: 0,
+      };
+      entry.taxable_amount = formatDecimal(entry.taxable_amount + net);
+      entry.tax_amount = formatDecimal(entry.tax_amount + tax);
+      taxByRate.set(item.tax_rate, entry);
+    });
+  }
+
+  const taxLines: ReceiptTaxLine[] =
+    order.taxes && order.taxes.length > 0
+      ? order.taxes.map((tax) => ({
+          name: tax.name,
+          tax_rate: tax.rate,
+          taxable_amount: tax.taxable_amount,
+          tax_amount: tax.tax_amount,
+        }))
+      : [...taxByRate.values()];
+
+  const payments = (order.payments || []).map((payment) => ({
+    method: payment.method,
+    amount: payment.amount,
+    tendered_amount: payment.tendered_amount,
+  }));
+
+  const changeDue = formatDecimal(
+    payments.reduce(
+      (sum, payment) => sum + Math.max(0, (payment.tendered_amount ?? payment.amount) - payment.amount),
+      0
+    )
+  );
+
+  return {
+    order_number: order.order_number,
+    status: order.status,
+    created_at: order.created_at,
+    store_name: store?.name || 'Receipt',
+    store_address: store?.address || null,
+    store_phone: store?.phone || null,
+    cashier_name: order.cashier?.full_name || order.cashier?.email || null,
+    customer_name: order.customer?.name || null,
+    lines,
+    subtotal: order.subtotal,
+    discount_total: order.discount_total,
+    tax_total: order.tax_total,
+    total: order.total,
+    tax_breakdown: taxLines
+      .filter((entry) => entry.tax_rate > 0)
+      .sort((a, b) => a.tax_rate - b.tax_rate),
+    prices_include_tax: order.prices_include_tax,
+    payments,
+    change_due: changeDue,
+    is_reprint: options.isReprint ?? false,
+    settings: getReceiptSettings(store),
+  };
+};
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Place a label on the left and a value on the right of one line
+ */
+const twoColumns = (left: string, right: string, columns: number): string => {
+  const space = columns - right.length;
+  if (left.length >= space) {
+    return left.slice(0, Math.max(0, space - 1)).padEnd(space) + right;
+  }
+  return left.padEnd(space) + right;
+};
+
+/**
+ * Split text into lines no longer than the column count
+ */
+const wrap = (text: string, columns: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= columns) {
+      current += ' ' + word;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+    while (current.length > columns) {
+      lines.push(current.slice(0, columns));
+      current = current.slice(columns);
+    }
+  });
+
+  if (current) lines.push(current);
+  return lines;
+};
+
+const STATUS_LABELS: Partial<Record<ReceiptData['status'], string>> = {
+  pending: '*** PENDING ***',
+  partially_refunded: '*** PARTIALLY REFUNDED ***',
+  refunded: '*** REFUNDED ***',
+  cancelled: '*** CANCELLED ***',
+};
+
+/**
+ * Lay a receipt out as rows shared by every output format
+ */
+const layoutReceipt = (receipt: ReceiptData): ReceiptRow[] => {
+  const { settings } = receipt;
+  const columns = COLUMNS[settings.width];
+  const rows: ReceiptRow[] = [];
+  const center = (text: string, bold = false) =>
+    wrap(text, columns).forEach((line) => rows.push({ kind: 'text', text: line, align: 'center', bold }));
+  const left = (text: string, bold = false) =>
+    rows.push({ kind: 'text', text, align: 'left', bold });
+  const amount = (label: string, value: number, bold = false) =>
+    left(twoColumns(label, formatCurrency(value), columns), bold);
+
+  // Header
+  center(receipt.store_name, true);
+  if (receipt.store_address) center(receipt.store_address);
+  if (receipt.store_phone) center(receipt.store_phone);
+  settings.header_lines.forEach((line) => center(line));
+  if (receipt.is_reprint) center('*** REPRINT ***', true);
+  const statusLabel = STATUS_LABELS[receipt.status];
+  if (statusLabel) center(statusLabel, true);
+  rows.push({ kind: 'divider' });
+
+  left(`Order: ${receipt.order_number}`);
+  left(`Date: ${formatDateTime(receipt.created_at)}`);
+  if (receipt.cashier_name) left(`Cashier: ${receipt.cashier_name}`);
+  if (receipt.customer_name) left(`Customer: ${receipt.customer_name}`);
+  rows.push({ kind: 'divider' });
+
+  // Items
+  receipt.lines.forEach((line) => {
+    wrap(line.name, columns).forEach((text) => left(text));
+    // Modifier prices are already in the unit price, so list them for reference
+    line.modifiers.forEach((modifier) => {
+      const price = modifier.price_delta
+        ? ` (${modifier.price_delta > 0 ? '+' : '-'}${formatCurrency(Math.abs(modifier.price_delta))})`
+        : '';
+      wrap(`  + ${modifier.name}${price}`, columns).forEach((text) => left(text));
+    });
+    line.gift_card_codes.forEach((code) => left(`  Card ${code}`));
+    amount(
+      `  ${line.quantity} x ${formatCurrency(line.unit_price)}`,
+      formatDecimal(line.quantity * line.unit_price)
+    );
+    if (line.discount_amount > 0) {
+      amount('  Discount', -line.discount_amount);
+    }
+  });
+  rows.push({ kind: 'divider' });
+
+  // Totals
+  amount('Subtotal', receipt.subtotal);
+  if (receipt.discount_total > 0) amount('Discount', -receipt.discount_total);
+  // Tax-inclusive prices already contain the tax, so it is shown, not added
+  if (receipt.prices_include_tax) {
+    amount('TOTAL', receipt.total, true);
+    amount('Incl. tax', receipt.tax_total);
+  } else {
+    amount('Tax', receipt.tax_total);
+    amount('TOTAL', receipt.total, true);
+  }
+
+  if (settings.show_tax_breakdown && receipt.tax_breakdown.length > 0) {
+    rows.push({ kind: 'divider' });
+    receipt.tax_breakdown.forEach((entry) => {
+      left(
+        twoColumns(
+          `${entry.name} ${entry.tax_rate}% on ${formatCurrency(entry.taxable_amount)}`,
+          formatCurrency(entry.tax_amount),
+          columns
+        )
+      );
+    });
+  }
+  rows.push({ kind: 'divider' });
+
+  // Payments
+  receipt.payments.forEach((payment) => {
+    const label = formatPaymentMethod(payment.method);
+    if (payment.tendered_amount !== null && payment.tendered_amount > payment.amount) {
+      amount(`${label} tendered`, payment.tendered_amount);
+    } else {
+      amount(label, payment.amount);
+    }
+  });
+  if (receipt.change_due > 0) amount('Change', receipt.change_due);
+
+  // Footer
+  if (settings.footer_lines.length > 0) {
+    rows.push({ kind: 'divider' });
+    settings.footer_lines.forEach((line) => center(line));
+  }
+  if (settings.show_qr_code) {
+    rows.push({ kind: 'qr', data: receipt.order_number });
+  }
+
+  return rows;
+};
+
+// ============================================================================
+// RENDERERS
+// ============================================================================
+
+/**
+ * Render a receipt as fixed-width plain text (the QR code is omitted)
+ */
+export const renderReceiptText = (receipt: ReceiptData): string => {
+  const columns = COLUMNS[receipt.settings.width];
+
+  return layoutReceipt(receipt)
+    .flatMap((row) => {
+      if (row.kind === 'divider') return ['-'.repeat(columns)];
+      if (row.kind === 'qr') return [];
+      if (row.align === 'center') {
+        const padding = Math.floor((columns - row.text.length) / 2);
+        return [' '.repeat(Math.max(0, padding)) + row.text];
+      }
+      return [row.text];
+    })
+    .join('\n');
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Render a receipt as a standalone HTML document sized for thermal paper
+ * Styles are inline so the same document can be printed or emailed
+ */
+export const renderReceiptHtml = async (receipt: ReceiptData): Promise<string> => {
+  const { width } = receipt.settings;
+  const printableWidth = PRINTABLE_WIDTH_MM[width];
+  // A monospace glyph is about 0.6em wide; fit exactly one line of columns
+  const fontSize = (printableWidth / COLUMNS[width] / 0.6).toFixed(2);
+
+  const body: string[] = [];
+  for (const row of layoutReceipt(receipt)) {
+    if (row.kind === 'divider') {
+      body.push('<div class="divider"></div>');
+    } else if (row.kind === 'qr') {
+      const svg = await QRCode.toString(row.data, { type: 'svg', margin: 0 });
+      body.push(`<div class="qr">${svg}</div>`);
+    } else {
+      const classes = [row.align === 'center' ? 'center' : '', row.bold ? 'bold' : '']
+        .filter(Boolean)
+        .join(' ');
+      body.push(`<div class="${classes}">${escapeHtml(row.text) || '&nbsp;'}</div>`);
+    }
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Receipt ${escapeHtml(receipt.order_number)}</title>
+<style>
+  @page { size: ${width}mm auto; margin: 0; }
+  body { width: ${printableWidth}mm; margin: 0 auto; padding: 3mm 0; font-family: 'Courier New', monospace; font-size: ${fontSize}mm; line-height: 1.3; color: #000; }
+  div { white-space: pre; }
+  .center { text-align: center; }
+  .bold { font-weight: bold; }
+  .divider { border-top: 1px dashed #000; margin: 1mm 0; }
+  .qr { text-align: center; margin-top: 2mm; }
+  .qr svg { width: ${Math.round(printableWidth / 2)}mm; height: auto; }
+</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>`;
+};
+
+// ESC/POS command bytes
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/**
+ * Render a receipt as an ESC/POS byte stream for thermal printers
+ * Text is sent as ASCII; the QR code uses the printer's built-in encoder
+ */
+export const renderReceiptEscPos = (receipt: ReceiptData): Uint8Array => {
+  const columns = COLUMNS[receipt.settings.width];
+  const bytes: number[] = [];
+  const ascii = (text: string) => {
+    for (const char of text) {
+      const code = char.charCodeAt(0);
+      bytes.push(code >= 0x20 && code <= 0x7e ? code : 0x3f);
+    }
+  };
+
+  // Initialize printer
+  bytes.push(ESC, 0x40);
+
+  for (const row of layoutReceipt(receipt)) {
+    if (row.kind === 'divider') {
+      bytes.push(ESC, 0x61, 0);
+      ascii('-'.repeat(columns));
+      bytes.push(LF);
+    } else if (row.kind === 'qr') {
+      const data = Array.from(row.data, (char) => char.charCodeAt(0) & 0x7f);
+      const length = data.length + 3;
+      bytes.push(ESC, 0x61, 1);
+      // Model 2, module size 6, error correction M
+      bytes.push(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0);
+      bytes.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, 6);
+      bytes.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31);
+      // Store the data, then print it
+      bytes.push(GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30, ...data);
+      bytes.push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30);
+      bytes.push(LF);
+    } else {
+      bytes.push(ESC, 0x61, row.align === 'center' ? 1 : 0);
+      bytes.push(ESC, 0x45, row.bold ? 1 : 0);
+      ascii(row.text);
+      bytes.push(LF);
+    }
+  }
+
+  // Feed past the cutter and cut
+  bytes.push(ESC, 0x45, 0, ESC, 0x61, 0);
+  bytes.push(GS, 0x56, 0x42, 0);
+
+  return new Uint8Array(bytes);
+};
+
+// ============================================================================
+// PRINTING
+// ============================================================================
+
+/**
+ * Print a receipt from the browser through a pop-up window
+ */
+export const printReceipt = async (receipt: ReceiptData): Promise<void> => {
+  const html = await renderReceiptHtml(receipt);
+  const printWindow = window.open('', '', 'height=600,width=400');
+  if (!printWindow) return;
+
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
@@ -5,12 +5,110 @@
 
 export type UserRole = 'admin' | 'cashier';
 
-export type OrderStatus = 'pending' | 'completed' | 'cancelled';
+export type OrderStatus =
+  | 'pending'
+  | 'completed'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'cancelled';
 
-export type PaymentMethod = 'cash' | 'card' | 'mobile';
+// 'points' is a loyalty points redemption used as a tender; 'gift_card'
+// tenders carry the card code as their reference
+export type PaymentMethod =
+  | 'cash'
+  | 'card'
+  | 'mobile'
+  | 'points'
+  | 'gift_card'
+  | 'store_credit';
+
+export type OrderPaymentMethod = PaymentMethod | 'split';
 
 export type TransactionType = 'sale' | 'stock_in' | 'adjustment' | 'return';
 
+export type PromotionType = 'percentage' | 'fixed_amount' | 'buy_x_get_y';
+
+export type CashSessionStatus = 'open' | 'closed';
+
+export type CashMovementType = 'pay_in' | 'pay_out';
+
+export type ApiTokenScope = 'read' | 'write';
+
+export type QueuedSaleStatus = 'pending' | 'conflict';
+
+export type LoyaltyRuleType = 'earn_rate' | 'category_multiplier' | 'bonus_day' | 'redeem_rate';
+
+export type LoyaltyEntryType = 'earn' | 'redeem' | 'reversal' | 'adjustment';
+
+export type GiftCardEntryType =
+  | 'issue'
+  | 'reload'
+  | 'redeem'
+  | 'refund'
+  | 'reversal'
+  | 'adjustment';
+
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'sent'
+  | 'partially_received'
+  | 'received'
+  | 'closed';
+
+export type StockCountStatus = 'counting' | 'submitted' | 'approved' | 'cancelled';
+
+// 'x' reports are read mid-shift and change nothing; 'z' reports close the day
+export type SalesReportType = 'x' | 'z';
+
+export type MarginGroupBy = 'product' | 'category' | 'cashier' | 'day';
+
+export type AnalyticsRangePreset = 'today' | 'week' | 'month' | 'custom';
+
+// Compare with the same number of days just before, or a year earlier
+export type AnalyticsComparison = 'previous_period' | 'previous_year';
+
+// Product fields a catalog import column can be mapped to
+export type ProductImportField =
+  | 'sku'
+  | 'name'
+  | 'category'
+  | 'description'
+  | 'price'
+  | 'cost'
+  | 'tax_rate'
+  | 'reorder_level'
+  | 'quantity_on_hand';
+
+export type ProductImportAction = 'create' | 'update' | 'error';
+
+// Thermal paper width in millimetres
+export type ReceiptWidth = 58 | 80;
+
+// ============================================================================
+// STORE TYPES
+// ============================================================================
+
+export interface Store {
+  id: string;
+  code: string;
+  name: string;
+  address: string | null;
+  phone: string | null;
+  is_active: boolean;
+  receipt_header: string | null;
+  receipt_footer: string | null;
+  receipt_width: ReceiptWidth;
+  receipt_show_tax_breakdown: boolean;
+  receipt_show_qr_code: boolean;
+  // Shelf prices include tax; tax is extracted from them at checkout
+  prices_include_tax: boolean;
+  // IANA time zone; sales days in the daily rollup and dashboard run
+  // midnight to midnight here
+  time_zone: string;
+  created_at: string;
+  updated_at: string;
+}
+
 // ============================================================================
 // USER & AUTH TYPES
 // ============================================================================
@@ -32,6 +130,101 @@ export interface AuthUser {
   profile: Profile;
 }
 
+// ============================================================================
+// CUSTOMER TYPES
+// ============================================================================
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  is_tax_exempt: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LoyaltyRule {
+  id: string;
+  name: string;
+  rule_type: LoyaltyRuleType;
+  // Points per currency unit, multiplier, or currency value per point
+  value: number;
+  category_id: string | null;
+  // 0 = Sunday
+  day_of_week: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LoyaltyLedgerEntry {
+  id: string;
+  customer_id: string;
+  entry_type: LoyaltyEntryType;
+  // Signed: positive when points are added
+  points: number;
+  order_id: string | null;
+  notes: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface LoyaltyAccount {
+  customer_id: string;
+  balance: number;
+  // Currency value of the balance at the current redeem rate
+  balance_value: number;
+  // Latest entries, newest first
+  entries: LoyaltyLedgerEntry[];
+}
+
+// A gift card, or a customer's store credit account (used through the
+// customer rather than its code)
+export interface GiftCard {
+  id: string;
+  code: string;
+  customer_id: string | null;
+  is_store_credit: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  customer?: Customer | null;
+}
+
+export interface GiftCardLedgerEntry {
+  id: string;
+  gift_card_id: string;
+  entry_type: GiftCardEntryType;
+  // Signed: positive when value is added
+  amount: number;
+  order_id: string | null;
+  order_item_id: string | null;
+  return_id: string | null;
+  notes: string | null;
+  created_by: string;
+  created_at: string;
+  gift_card?: GiftCard;
+}
+
+export interface GiftCardAccount {
+  gift_card: GiftCard;
+  balance: number;
+  // Latest entries, newest first
+  entries: GiftCardLedgerEntry[];
+}
+
+export interface CustomerHistory {
+  customer: Customer;
+  // Latest sales, newest first; order_count counts them all
+  orders: Order[];
+  order_count: number;
+  // Completed sales less refunds
+  lifetime_spend: number;
+  last_order_at: string | null;
+}
+
 // ============================================================================
 // PRODUCT & INVENTORY TYPES
 // ============================================================================
@@ -46,15 +239,27 @@ export interface Category {
   updated_at: string;
 }
 
+export interface ProductOptionAxis {
+  name: string;
+  values: string[];
+}
+
 export interface Product {
   id: string;
   category_id: string;
+  // Set on variants; the parent carries the option axes
+  parent_id: string | null;
   sku: string;
   name: string;
   description: string | null;
   price: number;
   cost: number;
+  // Single rate used when the product has no tax class
   tax_rate: number;
+  tax_class_id: string | null;
+  // Sold at face value (price), untaxed, with no stock
+  is_gift_card: boolean;
+  // Stock at the requested store, or across all stores (from product_stock)
   quantity_on_hand: number;
   reorder_level: number;
   is_active: boolean;
@@ -62,10 +267,68 @@ export interface Product {
   created_at: string;
   updated_at: string;
   category?: Category;
+  // GTIN/UPC codes besides the SKU (from product_barcodes)
+  barcodes?: string[];
+  option_axes: ProductOptionAxis[] | null;
+  variant_options: Record<string, string> | null;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  // How many of the group's modifiers a line must / may take (null = any)
+  min_select: number;
+  max_select: number | null;
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  modifiers?: Modifier[];
+  // Products and categories the group is offered on (from modifier_group_links)
+  product_ids?: string[];
+  category_ids?: string[];
+}
+
+export interface Modifier {
+  id: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
+  // Stock consumed per unit sold, when the modifier is an ingredient
+  ingredient_product_id: string | null;
+  ingredient_quantity: number;
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface Promotion {
+  id: string;
+  name: string;
+  promotion_type: PromotionType;
+  value: number;
+  product_id: string | null;
+  category_id: string | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  min_subtotal: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProductStock {
+  store_id: string;
+  product_id: string;
+  quantity_on_hand: number;
+  updated_at: string;
 }
 
 export interface InventoryLog {
   id: string;
+  store_id: string;
   product_id: string;
   transaction_type: TransactionType;
   quantity_change: number;
@@ -77,6 +340,51 @@ export interface InventoryLog {
   product?: Product;
 }
 
+// ============================================================================
+// TAX TYPES
+// ============================================================================
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  // Percentage, e.g. 6.25
+  rate: number;
+  // Charged on the net amount plus the taxes applied before it
+  is_compound: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaxClass {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+  // Active rates in the order they are applied
+  rates?: TaxRate[];
+}
+
+// One tax applied to a line; tax_rate_id is null for a product's own tax_rate
+export interface TaxComponent {
+  tax_rate_id: string | null;
+  name: string;
+  rate: number;
+  is_compound: boolean;
+}
+
+export interface TaxBreakdownLine extends TaxComponent {
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+export interface OrderTax extends TaxBreakdownLine {
+  id: string;
+  order_id: string;
+  created_at: string;
+}
+
 // ============================================================================
 // ORDER & TRANSACTION TYPES
 // ============================================================================
@@ -87,28 +395,275 @@ export interface OrderItem {
   product_id: string;
   quantity: number;
   unit_price: number;
+  discount_amount: number;
+  promotion_id: string | null;
+  // Combined rate of the line's taxes, as a percentage of its net amount
   tax_rate: number;
   line_total: number;
+  // Cost of one unit when sold; null on parked carts and older orders
+  unit_cost: number | null;
   created_at: string;
   product?: Product;
+  modifiers?: OrderItemModifier[];
+  // Gift cards issued or reloaded by this line
+  gift_card_entries?: GiftCardLedgerEntry[];
+}
+
+export interface OrderItemModifier {
+  id: string;
+  order_item_id: string;
+  modifier_id: string | null;
+  name: string;
+  price_delta: number;
+  created_at: string;
 }
 
 export interface Order {
   id: string;
+  store_id: string;
   cashier_id: string;
+  customer_id: string | null;
   order_number: string;
   status: OrderStatus;
   subtotal: number;
+  discount_total: number;
   tax_total: number;
   total: number;
-  payment_method: PaymentMethod;
+  // Null only while the order is a parked (pending) cart
+  payment_method: OrderPaymentMethod | null;
   notes: string | null;
+  idempotency_key: string | null;
+  parked_label: string | null;
+  expires_at: string | null;
+  // Unit prices and line totals include tax; total is subtotal - discount
+  prices_include_tax: boolean;
+  // When the sale happened; earlier than inserted_at for offline sales
   created_at: string;
+  // When the server recorded the order; X/Z report periods go by this
+  inserted_at: string;
+  // When the order was voided; X/Z reports count the void then
+  cancelled_at: string | null;
   updated_at: string;
   items?: OrderItem[];
+  payments?: Payment[];
+  taxes?: OrderTax[];
+  cashier?: Profile;
+  customer?: Customer | null;
+}
+
+export interface Payment {
+  id: string;
+  order_id: string;
+  method: PaymentMethod;
+  amount: number;
+  tendered_amount: number | null;
+  reference: string | null;
+  created_at: string;
+}
+
+export interface PaymentTender {
+  method: PaymentMethod;
+  amount: number;
+  tendered_amount?: number;
+  reference?: string;
+}
+
+// ============================================================================
+// RETURN & REFUND TYPES
+// ============================================================================
+
+export interface OrderReturn {
+  id: string;
+  order_id: string;
+  processed_by: string;
+  reason: string;
+  refund_method: PaymentMethod;
+  refund_total: number;
+  created_at: string;
+  items?: ReturnItem[];
+  order?: Order;
+}
+
+export interface ReturnItem {
+  id: string;
+  return_id: string;
+  order_item_id: string;
+  product_id: string;
+  quantity: number;
+  refund_amount: number;
+  restock: boolean;
+  created_at: string;
+  product?: Product;
+}
+
+export interface ReturnItemInput {
+  order_item_id: string;
+  quantity: number;
+  restock: boolean;
+}
+
+export interface ReturnableOrderItem extends OrderItem {
+  returned_quantity: number;
+  returnable_quantity: number;
+}
+
+// ============================================================================
+// PURCHASING TYPES
+// ============================================================================
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  store_id: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  expected_at: string | null;
+  notes: string | null;
+  created_by: string;
+  sent_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  supplier?: Supplier;
+  lines?: PurchaseOrderLine[];
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  product_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  // Agreed cost, and the actual cost of the latest delivery
+  unit_cost: number;
+  received_unit_cost: number | null;
+  created_at: string;
+  product?: Product;
+}
+
+export interface ReceivePurchaseOrderLine {
+  line_id: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+// ============================================================================
+// STOCK COUNT TYPES
+// ============================================================================
+
+export interface StockCount {
+  id: string;
+  count_number: string;
+  store_id: string;
+  category_id: string | null;
+  status: StockCountStatus;
+  is_blind: boolean;
+  notes: string | null;
+  created_by: string;
+  submitted_at: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  category?: Category | null;
+  lines?: StockCountLine[];
+}
+
+export interface StockCountLine {
+  id: string;
+  stock_count_id: string;
+  product_id: string;
+  // Snapshot from when the count started; null while a blind count is open
+  expected_quantity: number | null;
+  counted_quantity: number | null;
+  unit_cost: number;
+  counted_at: string | null;
+  product?: Product;
+}
+
+export interface StockCountEntry {
+  line_id: string;
+  counted_quantity: number;
+}
+
+export interface StockCountVarianceLine {
+  product_id: string;
+  product_name: string;
+  sku: string;
+  expected_quantity: number;
+  counted_quantity: number | null;
+  variance: number;
+  unit_cost: number;
+  cost_impact: number;
+}
+
+export interface StockCountVarianceReport {
+  stock_count: StockCount;
+  lines: StockCountVarianceLine[];
+  counted_lines: number;
+  uncounted_lines: number;
+  units_over: number;
+  units_short: number;
+  total_cost_impact: number;
+}
+
+// ============================================================================
+// CASH DRAWER TYPES
+// ============================================================================
+
+export interface CashSession {
+  id: string;
+  cashier_id: string;
+  status: CashSessionStatus;
+  opening_float: number;
+  expected_amount: number | null;
+  counted_amount: number | null;
+  over_short: number | null;
+  notes: string | null;
+  opened_at: string;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  movements?: CashMovement[];
   cashier?: Profile;
 }
 
+export interface CashMovement {
+  id: string;
+  session_id: string;
+  movement_type: CashMovementType;
+  amount: number;
+  reason: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface CashSessionReport {
+  session: CashSession;
+  opening_float: number;
+  cash_sales: number;
+  pay_ins: number;
+  pay_outs: number;
+  cash_refunds: number;
+  expected_amount: number;
+  counted_amount: number | null;
+  over_short: number | null;
+  order_count: number;
+}
+
 // ============================================================================
 // POS CART TYPES
 // ============================================================================
@@ -117,13 +672,144 @@ export interface CartItem {
   product_id: string;
   quantity: number;
   product: Product;
+  discount_amount?: number;
+  promotion_id?: string | null;
+  // Chosen modifiers; their price deltas are added to the product price
+  modifiers?: CartItemModifier[];
+  // Taxes from the product's tax class (see applyTaxClasses); when unset the
+  // product's tax_rate is used
+  tax_rates?: TaxComponent[];
+  // Gift card lines only: the card to reload; a new card is issued per unit
+  // when unset
+  gift_card_code?: string;
+}
+
+export interface CartItemModifier {
+  modifier_id: string;
+  group_id: string;
+  name: string;
+  price_delta: number;
 }
 
 export interface Cart {
   items: CartItem[];
   subtotal: number;
+  discount_total: number;
   tax_total: number;
   total: number;
+  tax_breakdown: TaxBreakdownLine[];
+  // Prices include tax, so total is subtotal - discount
+  prices_include_tax: boolean;
+  applied_promotions: AppliedPromotion[];
+}
+
+export interface AppliedPromotion {
+  promotion_id: string;
+  name: string;
+  amount: number;
+}
+
+export interface CreateOrderOptions {
+  // Client-generated key; replaying it returns the existing order
+  idempotency_key?: string;
+  // When the sale actually happened (for sales queued offline)
+  created_at?: string;
+  customer_id?: string | null;
+}
+
+export interface ParkCartOptions {
+  // Shown in the parked carts list, e.g. the customer's name or table
+  label: string;
+  customer_id?: string | null;
+  notes?: string;
+}
+
+// ============================================================================
+// OFFLINE TYPES
+// ============================================================================
+
+export interface CachedCatalog {
+  store_id: string;
+  products: Product[];
+  promotions: Promotion[];
+  // Missing in catalogs cached before modifiers existed
+  modifier_groups?: ModifierGroup[];
+  // Missing in catalogs cached before tax classes existed
+  tax_classes?: TaxClass[];
+  prices_include_tax?: boolean;
+  cached_at: string;
+}
+
+export interface QueuedSale {
+  // Doubles as the order's idempotency key
+  id: string;
+  cashier_id: string;
+  store_id: string;
+  items: CartItem[];
+  payments: PaymentTender[];
+  notes?: string;
+  customer_id?: string | null;
+  total: number;
+  status: QueuedSaleStatus;
+  error: string | null;
+  attempts: number;
+  created_at: string;
+}
+
+// ============================================================================
+// RECEIPT TYPES
+// ============================================================================
+
+export interface ReceiptSettings {
+  width: ReceiptWidth;
+  // Extra lines printed under the store name / at the bottom
+  header_lines: string[];
+  footer_lines: string[];
+  show_tax_breakdown: boolean;
+  // QR code of the order number, for looking the order up on returns
+  show_qr_code: boolean;
+}
+
+export interface ReceiptLine {
+  name: string;
+  sku: string;
+  quantity: number;
+  // Includes modifier price deltas
+  unit_price: number;
+  discount_amount: number;
+  line_total: number;
+  modifiers: Array<{ name: string; price_delta: number }>;
+  // Gift cards issued or reloaded by the line
+  gift_card_codes: string[];
+}
+
+export interface ReceiptTaxLine {
+  name: string;
+  tax_rate: number;
+  taxable_amount: number;
+  tax_amount: number;
+}
+
+export interface ReceiptData {
+  order_number: string;
+  status: OrderStatus;
+  created_at: string;
+  store_name: string;
+  store_address: string | null;
+  store_phone: string | null;
+  cashier_name: string | null;
+  customer_name: string | null;
+  lines: ReceiptLine[];
+  subtotal: number;
+  discount_total: number;
+  tax_total: number;
+  total: number;
+  tax_breakdown: ReceiptTaxLine[];
+  prices_include_tax: boolean;
+  payments: Array<{ method: PaymentMethod; amount: number; tendered_amount: number | null }>;
+  change_due: number;
+  is_reprint: boolean;
+  settings: ReceiptSettings;
 }
 
 // ============================================================================
@@ -132,6 +818,8 @@ export interface Cart {
 
 export interface DailySales {
   id: string;
+  store_id: string;
+  // Day in the store's time zone, YYYY-MM-DD
   sale_date: string;
   total_sales: number;
   total_transactions: number;
@@ -141,6 +829,12 @@ export interface DailySales {
   updated_at: string;
 }
 
+// One day of the daily_sales rollup, summed over stores when not filtered
+export type DailySalesTotals = Pick<
+  DailySales,
+  'sale_date' | 'total_sales' | 'total_transactions' | 'total_items_sold' | 'avg_transaction'
+>;
+
 export interface SalesMetrics {
   daily_total: number;
   weekly_total: number;
@@ -152,6 +846,43 @@ export interface SalesMetrics {
   inventory_value: number;
 }
 
+export interface PaymentMethodSalesData {
+  payment_method: PaymentMethod;
+  amount: number;
+  // Orders paid at least in part with the method
+  transaction_count: number;
+}
+
+export interface HourlySalesData {
+  // 0 = Sunday
+  day_of_week: number;
+  hour: number;
+  order_count: number;
+  sales_total: number;
+}
+
+export interface CategorySalesData {
+  category_id: string | null;
+  category_name: string;
+  quantity: number;
+  sales_total: number;
+}
+
+// Sales for a period, aggregated by the sales_analytics database function
+export interface SalesAnalytics {
+  start_date: string;
+  end_date: string;
+  order_count: number;
+  sales_total: number;
+  item_count: number;
+  // Average order value and items per order
+  avg_basket_value: number;
+  avg_basket_size: number;
+  by_hour: HourlySalesData[];
+  by_category: CategorySalesData[];
+  by_payment_method: PaymentMethodSalesData[];
+}
+
 export interface ProductSalesData {
   product_id: string;
   product_name: string;
@@ -160,6 +891,117 @@ export interface ProductSalesData {
   product?: Product;
 }
 
+// Amounts are net of tax; sales are counted when sold, refunds when refunded
+export interface TaxLiabilityRow {
+  tax_rate: number;
+  sales: number;
+  sales_tax: number;
+  refunds: number;
+  refunds_tax: number;
+  net_sales: number;
+  net_tax: number;
+}
+
+export interface TaxLiabilityReport {
+  start_date: string;
+  end_date: string;
+  rows: TaxLiabilityRow[];
+  // Net sales charged tax, and charged none (exempt or zero-rated)
+  taxable_sales: number;
+  exempt_sales: number;
+  tax_collected: number;
+}
+
+export interface SalesReportTender {
+  method: PaymentMethod;
+  count: number;
+  amount: number;
+}
+
+export interface SalesReportCashier {
+  cashier_id: string;
+  name: string;
+  order_count: number;
+  item_count: number;
+  sales_total: number;
+}
+
+// X/Z report for one store, as built by the sales_report database function;
+// orders count in the period they were recorded, refunds in the period they
+// were given and voids in the period they were cancelled
+export interface SalesReport {
+  report_type: SalesReportType;
+  // Z reports only
+  report_number: number | null;
+  store_id: string;
+  store_name: string;
+  period_start: string;
+  period_end: string;
+  order_count: number;
+  item_count: number;
+  // Line amounts before discounts
+  gross_sales: number;
+  discount_total: number;
+  tax_total: number;
+  // What customers paid, tax included
+  sales_total: number;
+  refund_count: number;
+  refund_total: number;
+  net_sales: number;
+  // Orders cancelled in the period, whenever they were placed
+  void_count: number;
+  void_total: number;
+  taxes: TaxBreakdownLine[];
+  tenders: SalesReportTender[];
+  refunds: SalesReportTender[];
+  cashiers: SalesReportCashier[];
+}
+
+export interface ZReport {
+  id: string;
+  store_id: string;
+  report_number: number;
+  period_start: string;
+  period_end: string;
+  report: SalesReport;
+  net_sales: number;
+  order_count: number;
+  closed_by: string;
+  created_at: string;
+  closer?: Profile;
+}
+
+// Sales less refunds for one group of the margin report, as summed by the
+// margin_report database function. The key is the product, category or
+// cashier id, or the UTC day (YYYY-MM-DD)
+export interface MarginGroupTotals {
+  key: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  cogs: number;
+}
+
+// Revenue is net of tax; both revenue and COGS are net of refunds
+export interface MarginRow {
+  key: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  cogs: number;
+  gross_profit: number;
+  // Gross profit as a percentage of revenue; null without revenue
+  margin_percent: number | null;
+}
+
+export interface MarginReport {
+  start_date: string;
+  end_date: string;
+  group_by: MarginGroupBy;
+  rows: MarginRow[];
+  totals: MarginRow;
+}
+
 // ============================================================================
 // API RESPONSE TYPES
 // ============================================================================
@@ -179,6 +1021,55 @@ export interface PaginatedResponse<T> {
   hasMore: boolean;
 }
 
+export interface PaginationParams {
+  page: number;
+  limit: number;
+}
+
+export interface ApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  token_prefix: string;
+  user_id: string;
+  store_id: string | null;
+  scopes: ApiTokenScope[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface ProductFilters {
+  search?: string;
+  category_id?: string;
+  store_id?: string;
+}
+
+export interface OrderFilters {
+  status?: OrderStatus;
+  store_id?: string;
+  cashier_id?: string;
+  customer_id?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface StockFilters {
+  store_id?: string;
+  product_id?: string;
+}
+
+export interface StockLevel extends ProductStock {
+  product?: Pick<Product, 'id' | 'sku' | 'name' | 'reorder_level' | 'cost'>;
+}
+
 // ============================================================================
 // FORM TYPES
 // ============================================================================
@@ -201,12 +1092,130 @@ export interface CreateProductFormData {
   price: number;
   cost: number;
   tax_rate: number;
+  tax_class_id?: string | null;
+  is_gift_card?: boolean;
   reorder_level: number;
   image_url?: string;
+  barcodes?: string[];
+}
+
+// One spreadsheet row as text, keyed by the field its column is mapped to
+export interface ProductImportRow {
+  // Line in the file, counting the header as line 1
+  row_number: number;
+  values: Partial<Record<ProductImportField, string>>;
+}
+
+export interface ProductImportRowResult {
+  row_number: number;
+  sku: string;
+  name: string;
+  action: ProductImportAction;
+  errors: string[];
+}
+
+export interface ProductImportResult {
+  dry_run: boolean;
+  rows: ProductImportRowResult[];
+  created: number;
+  updated: number;
+  failed: number;
+  // Categories the import creates (dry run) or created
+  new_categories: string[];
+}
+
+export interface CreateTaxRateFormData {
+  name: string;
+  rate: number;
+  is_compound: boolean;
+}
+
+export interface CreateTaxClassFormData {
+  name: string;
+  description?: string;
+  // Applied in this order
+  tax_rate_ids: string[];
+}
+
+export interface CreateModifierGroupFormData {
+  name: string;
+  min_select: number;
+  max_select: number | null;
+  modifiers: Array<{
+    name: string;
+    price_delta: number;
+    ingredient_product_id?: string | null;
+    ingredient_quantity?: number;
+  }>;
+  product_ids?: string[];
+  category_ids?: string[];
+}
+
+export interface CreateSupplierFormData {
+  name: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+}
+
+export interface CreatePurchaseOrderFormData {
+  store_id: string;
+  supplier_id: string;
+  expected_at?: string;
+  notes?: string;
+  lines: Array<{ product_id: string; quantity_ordered: number; unit_cost: number }>;
+}
+
+export interface CreateStockCountFormData {
+  store_id: string;
+  category_id?: string;
+  is_blind: boolean;
+  notes?: string;
+}
+
+export interface CreateStoreFormData {
+  code: string;
+  name: string;
+  address?: string;
+  phone?: string;
+  time_zone?: string;
+}
+
+export interface CreatePromotionFormData {
+  name: string;
+  promotion_type: PromotionType;
+  value: number;
+  product_id?: string;
+  category_id?: string;
+  buy_quantity?: number;
+  get_quantity?: number;
+  min_subtotal?: number;
+  starts_at?: string;
+  ends_at?: string;
+}
+
+export interface CreateLoyaltyRuleFormData {
+  name: string;
+  rule_type: LoyaltyRuleType;
+  value: number;
+  category_id?: string;
+  day_of_week?: number;
+}
+
+export interface CreateCustomerFormData {
+  name: string;
+  phone?: string;
+  email?: string;
+  notes?: string;
+  is_tax_exempt?: boolean;
 }
 
 export interface CreateOrderFormData {
+  store_id: string;
+  customer_id?: string;
   items: CartItem[];
-  payment_method: PaymentMethod;
+  payments: PaymentTender[];
   notes?: string;
 }
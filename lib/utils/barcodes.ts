@@ -0,0 +1,54 @@
+/**
+ * Barcode Scanning Helpers
+ * Exact SKU/barcode matching against a loaded catalog and scan feedback tones
+ */
+
+import { Product } from '@/lib/types';
+
+/**
+ * Normalize a scanned or typed code for comparison
+ */
+export const normalizeCode = (code: string): string => {
+  return code.trim().toUpperCase();
+};
+
+/**
+ * Check whether a code exactly matches a product's SKU or one of its barcodes
+ */
+export const productMatchesCode = (product: Product, code: string): boolean => {
+  const normalized = normalizeCode(code);
+  if (!normalized) return false;
+  if (normalizeCode(product.sku) === normalized) return true;
+  return (product.barcodes || []).some((barcode) => normalizeCode(barcode) === normalized);
+};
+
+/**
+ * Find the active product with an exact SKU or barcode match
+ */
+export const findProductByCode = (products: Product[], code: string): Product | undefined => {
+  return products.find((product) => product.is_active && productMatchesCode(product, code));
+};
+
+/**
+ * Play a short beep for a scan: a high tone when found, a low buzz when not
+ * Does nothing outside the browser or when Web Audio is unavailable
+ */
+export const playScanTone = (kind: 'success' | 'error'): void => {
+  if (typeof window === 'undefined' || typeof window.AudioContext === 'undefined') return;
+
+  const context = new window.AudioContext();
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+
+  oscillator.type = kind === 'success' ? 'sine' : 'square';
+  oscillator.frequency.value = kind === 'success' ? 1200 : 220;
+  gain.gain.value = 0.1;
+
+  oscillator.connect(gain);
+  gain.connect(context.destination);
+  oscillator.start();
+  oscillator.stop(context.currentTime + (kind === 'success' ? 0.1 : 0.3));
+  oscillator.onended = () => {
+    context.close();
+  };
+};
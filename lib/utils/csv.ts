@@ -0,0 +1,88 @@
+/**
+ * CSV Helpers
+ * Build CSV text from rows and download it from the browser, and parse CSV
+ * text back into rows
+ */
+
+export type CSVValue = string | number | boolean | null | undefined;
+
+/**
+ * Quote a value when it contains a comma, quote or line break
+ */
+const escapeCSVValue = (value: CSVValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build CSV text from a header row and data rows
+ */
+export const toCSV = (headers: string[], rows: CSVValue[][]): string => {
+  return [headers, ...rows].map((row) => row.map(escapeCSVValue).join(',')).join('\r\n');
+};
+
+/**
+ * Save CSV text as a file (browser only)
+ */
+export const downloadCSV = (filename: string, csv: string): void => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Parse CSV text into rows of values
+ * Handles quoted values with commas, doubled quotes and line breaks, CRLF
+ * line endings and a leading byte order mark. Blank lines are kept as a
+ * row with one empty value, so row positions match the file's lines
+ */
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(value);
+    rows.push(row);
+    row = [];
+    value = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+
+  if (value !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
@@ -0,0 +1,35 @@
+/**
+ * Gift Card Helpers
+ * Code generation and lookup normalisation shared by the POS and the gift
+ * card actions
+ */
+
+import { CartItem } from '@/lib/types';
+
+// Letters and digits that cannot be misread for each other (no 0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * Generate a gift card code
+ * Format: GC-XXXX-XXXX-XXXX
+ */
+export const generateGiftCardCode = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  const characters = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+  const groups = [0, 4, 8].map((start) => characters.slice(start, start + 4).join(''));
+  return `GC-${groups.join('-')}`;
+};
+
+/**
+ * Normalise a typed or scanned code for lookup
+ */
+export const normalizeGiftCardCode = (code: string): string => {
+  return code.trim().toUpperCase();
+};
+
+/**
+ * Whether a cart item sells or reloads a gift card
+ */
+export const isGiftCardItem = (item: CartItem): boolean => {
+  return item.product.is_gift_card === true;
+};
@@ -3,6 +3,42 @@
  * Formatting, calculations, and data manipulation
  */
 
+import {
+  AnalyticsComparison,
+  AnalyticsRangePreset,
+  CartItem,
+  OrderStatus,
+  PaginatedResponse,
+  PaginationParams,
+  TaxBreakdownLine,
+  TaxComponent,
+} from '@/lib/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Order statuses that represent a completed sale
+ * Refunded orders still count as sales; the refunds are tracked on returns
+ */
+export const SALE_ORDER_STATUSES: OrderStatus[] = [
+  'completed',
+  'partially_refunded',
+  'refunded',
+];
+
+/**
+ * How long a parked cart is kept before it expires
+ */
+export const PARKED_CART_TTL_HOURS = 12;
+
+/**
+ * Page size limits for paginated lists
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
 // ============================================================================
 // CURRENCY & FORMATTING
 // ============================================================================
@@ -70,44 +106,195 @@ export const calculateTax = (amount: number, taxRate: number): number => {
 };
 
 /**
- * Calculate line total (unit_price * quantity)
+ * Taxes for a single percentage rate (a product's own tax_rate)
+ */
+export const toTaxComponents = (taxRate: number | TaxComponent[]): TaxComponent[] => {
+  if (Array.isArray(taxRate)) return taxRate;
+  return taxRate > 0 ? [{ tax_rate_id: null, name: 'Tax', rate: taxRate, is_compound: false }] : [];
+};
+
+/**
+ * Combined rate of a set of taxes, as a percentage of the net amount
+ * Compound rates are charged on the net amount plus the taxes before them
+ */
+export const getEffectiveTaxRate = (rates: TaxComponent[]): number => {
+  let taxes = 0;
+  rates.forEach((component) => {
+    taxes += (component.is_compound ? 1 + taxes : 1) * (component.rate / 100);
+  });
+  return Math.round(taxes * 1000000) / 10000;
+};
+
+/**
+ * Split an amount into net and tax, rounding each rate's tax
+ * When prices include tax the amount is gross and the tax is extracted from
+ * it, so net + tax always equals the amount charged
+ */
+export const calculateTaxBreakdown = (
+  amount: number,
+  taxRate: number | TaxComponent[],
+  pricesIncludeTax = false
+): { net: number; tax: number; lines: TaxBreakdownLine[] } => {
+  const rates = toTaxComponents(taxRate);
+  const net = pricesIncludeTax ? amount / (1 + getEffectiveTaxRate(rates) / 100) : amount;
+
+  let tax = 0;
+  const lines = rates.map((component) => {
+    const taxable = formatDecimal(component.is_compound ? net + tax : net);
+    const taxAmount = calculateTax(taxable, component.rate);
+    tax = formatDecimal(tax + taxAmount);
+    return { ...component, taxable_amount: taxable, tax_amount: taxAmount };
+  });
+
+  return {
+    net: formatDecimal(pricesIncludeTax ? amount - tax : amount),
+    tax,
+    lines,
+  };
+};
+
+/**
+ * Combine tax breakdown lines for the same rate
+ */
+export const mergeTaxBreakdown = (lines: TaxBreakdownLine[]): TaxBreakdownLine[] => {
+  const merged = new Map<string, TaxBreakdownLine>();
+  lines.forEach((line) => {
+    const key = [line.tax_rate_id, line.name, line.rate, line.is_compound].join('|');
+    const entry = merged.get(key);
+    if (entry) {
+      entry.taxable_amount = formatDecimal(entry.taxable_amount + line.taxable_amount);
+      entry.tax_amount = formatDecimal(entry.tax_amount + line.tax_amount);
+    } else {
+      merged.set(key, { ...line });
+    }
+  });
+  return [...merged.values()];
+};
+
+/**
+ * Calculate line total (unit_price * quantity, less discount)
+ * subtotal is the line's net amount; total is what the customer pays, which
+ * is the discounted amount itself when prices include tax
  */
 export const calculateLineTotal = (
   unitPrice: number,
   quantity: number,
-  taxRate: number
+  taxRate: number | TaxComponent[],
+  discountAmount = 0,
+  pricesIncludeTax = false
 ): { subtotal: number; tax: number; total: number } => {
-  const subtotal = formatDecimal(unitPrice * quantity);
-  const tax = calculateTax(subtotal, taxRate);
-  const total = formatDecimal(subtotal + tax);
+  const amount = formatDecimal(unitPrice * quantity - discountAmount);
+  const { net, tax } = calculateTaxBreakdown(amount, taxRate, pricesIncludeTax);
+  const total = pricesIncludeTax ? amount : formatDecimal(amount + tax);
 
-  return { subtotal, tax, total };
+  return { subtotal: net, tax, total };
+};
+
+/**
+ * Unit price of a cart item: the product price plus its modifiers' deltas
+ */
+export const getCartItemUnitPrice = (item: CartItem): number => {
+  return formatDecimal(
+    item.product.price +
+      (item.modifiers || []).reduce((sum, modifier) => sum + modifier.price_delta, 0)
+  );
 };
 
 /**
  * Calculate cart totals
+ * Tax is charged on each line after its discount, at the line's tax_rates
+ * when given or else its tax_rate. Modifier price deltas, when given, are
+ * added to the line's unit price. When prices include tax, subtotal and
+ * discount are gross amounts and the tax is already in them
  */
 export const calculateCartTotals = (
-  items: Array<{ quantity: number; unit_price: number; tax_rate: number }>
-): { subtotal: number; tax: number; total: number } => {
+  items: Array<{
+    quantity: number;
+    unit_price: number;
+    tax_rate: number;
+    tax_rates?: TaxComponent[];
+    discount_amount?: number;
+    modifiers?: Array<{ price_delta: number }>;
+  }>,
+  pricesIncludeTax = false
+): {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+  tax_breakdown: TaxBreakdownLine[];
+} => {
   let subtotal = 0;
+  let discount = 0;
   let tax = 0;
+  const taxLines: TaxBreakdownLine[] = [];
 
   items.forEach((item) => {
-    const itemSubtotal = item.quantity * item.unit_price;
-    const itemTax = calculateTax(itemSubtotal, item.tax_rate);
+    const unitPrice =
+      item.unit_price +
+      (item.modifiers || []).reduce((sum, modifier) => sum + modifier.price_delta, 0);
+    const itemSubtotal = item.quantity * unitPrice;
+    const itemDiscount = Math.min(item.discount_amount || 0, itemSubtotal);
+    const itemTax = calculateTaxBreakdown(
+      formatDecimal(itemSubtotal - itemDiscount),
+      item.tax_rates ?? item.tax_rate,
+      pricesIncludeTax
+    );
 
     subtotal += itemSubtotal;
-    tax += itemTax;
+    discount += itemDiscount;
+    tax += itemTax.tax;
+    taxLines.push(...itemTax.lines);
   });
 
   return {
     subtotal: formatDecimal(subtotal),
+    discount: formatDecimal(discount),
     tax: formatDecimal(tax),
-    total: formatDecimal(subtotal + tax),
+    total: formatDecimal(subtotal - discount + (pricesIncludeTax ? 0 : tax)),
+    tax_breakdown: mergeTaxBreakdown(taxLines),
   };
 };
 
+/**
+ * Remove tax from cart items (sales to tax-exempt customers)
+ * When prices include tax, the tax is also taken out of the prices
+ */
+export const removeTax = (items: CartItem[], pricesIncludeTax = false): CartItem[] => {
+  return items.map((item) => {
+    const factor = 1 + getEffectiveTaxRate(toTaxComponents(item.tax_rates ?? item.product.tax_rate)) / 100;
+    const toNet = (price: number) => (pricesIncludeTax ? formatDecimal(price / factor) : price);
+
+    return {
+      ...item,
+      product: { ...item.product, price: toNet(item.product.price), tax_rate: 0 },
+      ...(item.modifiers && {
+        modifiers: item.modifiers.map((modifier) => ({
+          ...modifier,
+          price_delta: toNet(modifier.price_delta),
+        })),
+      }),
+      tax_rates: [],
+    };
+  });
+};
+
+/**
+ * Calculate total of payment tenders
+ */
+export const calculateTenderedTotal = (
+  payments: Array<{ amount: number }>
+): number => {
+  return formatDecimal(payments.reduce((sum, payment) => sum + payment.amount, 0));
+};
+
+/**
+ * Calculate change due for cash handed over
+ */
+export const calculateChange = (tendered: number, amountDue: number): number => {
+  return formatDecimal(Math.max(0, tendered - amountDue));
+};
+
 /**
  * Calculate inventory value
  */
@@ -147,6 +334,22 @@ export const isValidSKU = (sku: string): boolean => {
   return sku.length > 0 && sku.length <= 50;
 };
 
+/**
+ * Validate a GTIN barcode (EAN-8, UPC-A, EAN-13 or GTIN-14) and its check digit
+ */
+export const isValidGTIN = (barcode: string): boolean => {
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(barcode)) return false;
+
+  const digits = barcode.split('').map(Number);
+  const checkDigit = digits.pop() as number;
+  // Weights alternate 3, 1, 3, ... from the digit next to the check digit
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+};
+
 /**
  * Validate price
  */
@@ -160,9 +363,9 @@ export const isValidPrice = (price: number): boolean => {
 
 /**
  * Generate unique order number
- * Format: ORD-YYYYMMDD-HHmmss-XXXX
+ * Format: ORD-YYYYMMDD-HHmmss-XXXX (prefix is configurable, e.g. PO)
  */
-export const generateOrderNumber = (): string => {
+export const generateOrderNumber = (prefix: string = 'ORD'): string => {
   const now = new Date();
   const date = now
     .toISOString()
@@ -177,7 +380,7 @@ export const generateOrderNumber = (): string => {
     .substring(2, 6)
     .padEnd(4, '0');
 
-  return `ORD-${date}-${time}-${random}`;
+  return `${prefix}-${date}-${time}-${random}`;
 };
 
 /**
@@ -195,6 +398,13 @@ export const capitalize = (str: string): string => {
   return str.charAt(0).toUpperCase() + str.slice(1);
 };
 
+/**
+ * Label for a payment method, e.g. "Gift card"
+ */
+export const formatPaymentMethod = (method: string): string => {
+  return capitalize(method.replace(/_/g, ' '));
+};
+
 // ============================================================================
 // ARRAY UTILITIES
 // ============================================================================
@@ -250,6 +460,35 @@ export const uniqueBy = <T,>(
   );
 };
 
+// ============================================================================
+// PAGINATION
+// ============================================================================
+
+/**
+ * Get the inclusive row range for a page (for Supabase .range())
+ */
+export const getPageRange = ({ page, limit }: PaginationParams) => {
+  const from = (page - 1) * limit;
+  return { from, to: from + limit - 1 };
+};
+
+/**
+ * Wrap one page of rows with its paging metadata
+ */
+export const toPaginatedResponse = <T,>(
+  data: T[],
+  total: number,
+  { page, limit }: PaginationParams
+): PaginatedResponse<T> => {
+  return {
+    data,
+    total,
+    page,
+    limit,
+    hasMore: page * limit < total,
+  };
+};
+
 // ============================================================================
 // DATE UTILITIES
 // ============================================================================
@@ -272,6 +511,16 @@ export const getEndOfDay = (date: Date = new Date()): Date => {
   return end;
 };
 
+/**
+ * Day of the week (0 = Sunday) of a moment in an IANA time zone, or in the
+ * local time zone when none is given
+ */
+export const getDayOfWeek = (date: Date = new Date(), timeZone?: string): number => {
+  if (!timeZone) return date.getDay();
+  const weekday = new Intl.DateTimeFormat('en-US', { weekday: 'short', timeZone }).format(date);
+  return ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(weekday);
+};
+
 /**
  * Get date range for period
  */
@@ -291,6 +540,63 @@ export const getDateRange = (period: 'day' | 'week' | 'month') => {
   }
 };
 
+/**
+ * Get date range for an analytics preset
+ * Custom ranges are local YYYY-MM-DD days, inclusive
+ */
+export const getAnalyticsRange = (
+  preset: AnalyticsRangePreset,
+  customStart = '',
+  customEnd = ''
+) => {
+  switch (preset) {
+    case 'today':
+      return getDateRange('day');
+    case 'week':
+      return getDateRange('week');
+    case 'month':
+      return getDateRange('month');
+    case 'custom':
+      return {
+        start: getStartOfDay(new Date(`${customStart}T00:00:00`)),
+        end: getEndOfDay(new Date(`${customEnd}T00:00:00`)),
+      };
+  }
+};
+
+/**
+ * Get the range to compare against: the same number of days just before
+ * the range, or the same days a year earlier
+ */
+export const getComparisonRange = (
+  range: { start: Date; end: Date },
+  comparison: AnalyticsComparison
+) => {
+  const start = new Date(range.start);
+  const end = new Date(range.end);
+
+  if (comparison === 'previous_year') {
+    start.setFullYear(start.getFullYear() - 1);
+    end.setFullYear(end.getFullYear() - 1);
+    return { start, end };
+  }
+
+  const days =
+    Math.round(
+      (getStartOfDay(range.end).getTime() - getStartOfDay(range.start).getTime()) / 86400000
+    ) + 1;
+  start.setDate(start.getDate() - days);
+  end.setDate(end.getDate() - days);
+  return { start, end };
+};
+
+/**
+ * Percentage change from previous to current; null when previous is zero
+ */
+export const getPercentChange = (current: number, previous: number): number | null => {
+  return previous === 0 ? null : formatDecimal(((current - previous) / previous) * 100);
+};
+
 // ============================================================================
 // ERROR HANDLING
 // ============================================================================
@@ -0,0 +1,100 @@
+/**
+ * Loyalty Points Rules
+ * Pure functions that work out points earned on a cart and the value of points
+ * - Points are earned on each line's amount after discounts, before tax
+ * - Category multipliers do not stack; the highest one for a line wins
+ * - Bonus days multiply the whole order's points (highest rule wins); the
+ *   day is the store's, not the terminal's or server's
+ * - Points paid for with points do not earn points
+ * - Gift cards earn nothing when sold; points are earned when they are spent
+ */
+
+import { CartItem, LoyaltyRule, LoyaltyRuleType } from '@/lib/types';
+import { calculateTaxBreakdown, formatDecimal, getCartItemUnitPrice } from '@/lib/utils';
+
+/**
+ * Get the value of the first active rule of a type (0 when there is none)
+ */
+const getRuleValue = (rules: LoyaltyRule[], ruleType: LoyaltyRuleType): number => {
+  const rule = rules.find((entry) => entry.is_active && entry.rule_type === ruleType);
+  return rule ? rule.value : 0;
+};
+
+/**
+ * Currency value of one point; 0 means points cannot be redeemed
+ */
+export const getRedeemRate = (rules: LoyaltyRule[]): number => {
+  return getRuleValue(rules, 'redeem_rate');
+};
+
+/**
+ * Currency value of a number of points
+ */
+export const pointsToAmount = (points: number, rules: LoyaltyRule[]): number => {
+  return formatDecimal(points * getRedeemRate(rules));
+};
+
+/**
+ * Points needed to pay an amount, or null when the amount is not a whole
+ * number of points or redemption is switched off
+ */
+export const amountToPoints = (amount: number, rules: LoyaltyRule[]): number | null => {
+  const rate = getRedeemRate(rules);
+  if (rate <= 0) return null;
+
+  const points = Math.round(amount / rate);
+  return Math.abs(points * rate - amount) < 0.005 ? points : null;
+};
+
+/**
+ * Calculate points earned on priced cart items (after promotions)
+ * paidWithPoints is the part of the order total paid with points; when prices
+ * include tax, the tax is taken out of each line before points are earned.
+ * dayOfWeek (0 = Sunday) is the day of the sale in the store's time zone
+ */
+export const calculatePointsEarned = (
+  items: CartItem[],
+  rules: LoyaltyRule[],
+  orderTotal: number,
+  paidWithPoints = 0,
+  pricesIncludeTax = false,
+  dayOfWeek: number = new Date().getDay()
+): number => {
+  const active = rules.filter((rule) => rule.is_active);
+  const earnRate = getRuleValue(active, 'earn_rate');
+  if (earnRate <= 0 || orderTotal <= 0) return 0;
+
+  const basePoints = items.reduce((sum, item) => {
+    if (item.product.is_gift_card) return sum;
+    const amount = formatDecimal(
+      getCartItemUnitPrice(item) * item.quantity - (item.discount_amount || 0)
+    );
+    const { net } = calculateTaxBreakdown(
+      amount,
+      item.tax_rates ?? item.product.tax_rate,
+      pricesIncludeTax
+    );
+    const multiplier = Math.max(
+      1,
+      ...active
+        .filter(
+          (rule) =>
+            rule.rule_type === 'category_multiplier' &&
+            rule.category_id === item.product.category_id
+        )
+        .map((rule) => rule.value)
+    );
+    return sum + Math.max(0, net) * earnRate * multiplier;
+  }, 0);
+
+  const dayMultiplier = Math.max(
+    1,
+    ...active
+      .filter((rule) => rule.rule_type === 'bonus_day' && rule.day_of_week === dayOfWeek)
+      .map((rule) => rule.value)
+  );
+
+  const eligibleShare = Math.max(0, (orderTotal - paidWithPoints) / orderTotal);
+
+  return Math.floor(basePoints * dayMultiplier * eligibleShare);
+};
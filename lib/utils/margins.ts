@@ -0,0 +1,106 @@
+/**
+ * Gross Margin Reports
+ * Pure functions that turn grouped sales and refund totals into revenue,
+ * cost of goods sold, gross profit and margin, plus sorting and CSV export
+ */
+
+import { MarginGroupBy, MarginGroupTotals, MarginReport, MarginRow } from '@/lib/types';
+import { formatDecimal } from '@/lib/utils';
+import { toCSV } from '@/lib/utils/csv';
+
+export const MARGIN_GROUP_LABELS: Record<MarginGroupBy, string> = {
+  product: 'Product',
+  category: 'Category',
+  cashier: 'Cashier',
+  day: 'Day',
+};
+
+/**
+ * Build a row from its totals, working out gross profit and margin
+ */
+const toMarginRow = (
+  key: string,
+  name: string,
+  quantity: number,
+  revenue: number,
+  cogs: number
+): MarginRow => {
+  const grossProfit = formatDecimal(revenue - cogs);
+  return {
+    key,
+    name,
+    quantity,
+    revenue: formatDecimal(revenue),
+    cogs: formatDecimal(cogs),
+    gross_profit: grossProfit,
+    margin_percent: revenue > 0 ? formatDecimal((grossProfit / revenue) * 100) : null,
+  };
+};
+
+/**
+ * Sort rows by a column; rows without a margin sort last either way
+ */
+export const sortMarginRows = (
+  rows: MarginRow[],
+  column: keyof MarginRow,
+  ascending: boolean
+): MarginRow[] => {
+  return [...rows].sort((a, b) => {
+    const left = a[column];
+    const right = b[column];
+    if (left === null) return right === null ? 0 : 1;
+    if (right === null) return -1;
+    const order =
+      typeof left === 'string' ? left.localeCompare(String(right)) : left - Number(right);
+    return ascending ? order : -order;
+  });
+};
+
+/**
+ * Build a margin report from its group totals. Days are listed in order,
+ * everything else by gross profit, highest first
+ */
+export const buildMarginReport = (
+  groupBy: MarginGroupBy,
+  startDate: string,
+  endDate: string,
+  groups: MarginGroupTotals[]
+): MarginReport => {
+  const rows = groups.map((group) =>
+    toMarginRow(group.key, group.name, group.quantity, group.revenue, group.cogs)
+  );
+
+  return {
+    start_date: startDate,
+    end_date: endDate,
+    group_by: groupBy,
+    rows:
+      groupBy === 'day'
+        ? sortMarginRows(rows, 'key', true)
+        : sortMarginRows(rows, 'gross_profit', false),
+    totals: toMarginRow(
+      'total',
+      'Total',
+      groups.reduce((sum, group) => sum + group.quantity, 0),
+      groups.reduce((sum, group) => sum + group.revenue, 0),
+      groups.reduce((sum, group) => sum + group.cogs, 0)
+    ),
+  };
+};
+
+/**
+ * Margin report as CSV, one row per group plus a totals row
+ */
+export const marginReportToCSV = (report: MarginReport, rows = report.rows): string => {
+  return toCSV(
+    [MARGIN_GROUP_LABELS[report.group_by], 'Units', 'Revenue', 'COGS', 'Gross profit', 'Margin (%)'],
+    [...rows, report.totals].map((row) => [
+      row.name,
+      row.quantity,
+      row.revenue,
+      row.cogs,
+      row.gross_profit,
+      row.margin_percent,
+    ])
+  );
+};
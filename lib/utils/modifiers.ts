@@ -0,0 +1,97 @@
+/**
+ * Product Modifier Rules
+ * Which modifier groups a product offers, selection limits and cart line
+ * identity for lines that differ only by their modifiers
+ */
+
+import { CartItem, CartItemModifier, ModifierGroup, Product } from '@/lib/types';
+
+/**
+ * Modifier groups offered on a product: linked to the product, to its
+ * parent (for variants) or to its category
+ */
+export const getModifierGroupsForProduct = (
+  groups: ModifierGroup[],
+  product: Product
+): ModifierGroup[] => {
+  return groups
+    .filter(
+      (group) =>
+        group.is_active &&
+        ((group.product_ids || []).includes(product.id) ||
+          (product.parent_id !== null && (group.product_ids || []).includes(product.parent_id)) ||
+          (group.category_ids || []).includes(product.category_id))
+    )
+    .sort((a, b) => a.sort_order - b.sort_order);
+};
+
+/**
+ * Check a line's chosen modifiers against its groups' min/max rules
+ * Returns an error message, or null when the selection is valid
+ */
+export const validateModifierSelection = (
+  groups: ModifierGroup[],
+  selected: CartItemModifier[]
+): string | null => {
+  for (const modifier of selected) {
+    const group = groups.find((candidate) => candidate.id === modifier.group_id);
+    if (!group || !(group.modifiers || []).some((option) => option.id === modifier.modifier_id)) {
+      return `${modifier.name} is not available on this product`;
+    }
+  }
+
+  if (new Set(selected.map((modifier) => modifier.modifier_id)).size !== selected.length) {
+    return 'Each modifier can only be chosen once';
+  }
+
+  for (const group of groups) {
+    const count = selected.filter((modifier) => modifier.group_id === group.id).length;
+    if (count < group.min_select) {
+      return group.min_select === 1
+        ? `Choose a ${group.name}`
+        : `Choose at least ${group.min_select} from ${group.name}`;
+    }
+    if (group.max_select !== null && count > group.max_select) {
+      return `Choose at most ${group.max_select} from ${group.name}`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Look up chosen modifiers by ID in the catalog's groups, with their
+ * current names and prices. Unknown or inactive IDs are left out
+ */
+export const resolveModifiers = (
+  groups: ModifierGroup[],
+  modifierIds: string[]
+): CartItemModifier[] => {
+  return modifierIds.flatMap((modifierId) => {
+    for (const group of groups) {
+      const modifier = (group.modifiers || []).find((option) => option.id === modifierId);
+      if (modifier) {
+        return [
+          {
+            modifier_id: modifier.id,
+            group_id: group.id,
+            name: modifier.name,
+            price_delta: modifier.price_delta,
+          },
+        ];
+      }
+    }
+    return [];
+  });
+};
+
+/**
+ * Key identifying a cart line: the same product with different modifiers,
+ * or a reload of a different gift card, is a separate line
+ */
+export const getCartItemKey = (
+  item: Pick<CartItem, 'product_id' | 'modifiers' | 'gift_card_code'>
+): string => {
+  const modifierIds = (item.modifiers || []).map((modifier) => modifier.modifier_id).sort();
+  return [item.product_id, ...modifierIds, ...(item.gift_card_code ? [item.gift_card_code] : [])].join(':');
+};
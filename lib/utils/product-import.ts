@@ -0,0 +1,156 @@
+/**
+ * Product Catalog Import & Export
+ * Pure functions that map spreadsheet columns to product fields, validate
+ * imported rows and lay out the catalog export. Exported headers are the
+ * ones guessColumnMapping recognises, so an export can be imported again
+ */
+
+import {
+  Category,
+  Product,
+  ProductImportField,
+  ProductImportRow,
+} from '@/lib/types';
+import { isValidPrice, isValidSKU } from '@/lib/utils';
+import { CSVValue } from '@/lib/utils/csv';
+
+export const PRODUCT_IMPORT_FIELDS: Array<{
+  field: ProductImportField;
+  label: string;
+  // Needed to create a product; updates only change the fields given
+  required: boolean;
+  // Header names (lower case) recognised for this field
+  aliases: string[];
+}> = [
+  { field: 'sku', label: 'SKU', required: true, aliases: ['sku', 'product code', 'item code'] },
+  { field: 'name', label: 'Name', required: true, aliases: ['name', 'product name', 'product', 'item'] },
+  { field: 'category', label: 'Category', required: true, aliases: ['category', 'category name'] },
+  { field: 'description', label: 'Description', required: false, aliases: ['description'] },
+  { field: 'price', label: 'Price', required: true, aliases: ['price', 'retail price', 'sell price'] },
+  { field: 'cost', label: 'Cost', required: false, aliases: ['cost', 'unit cost', 'cost price'] },
+  { field: 'tax_rate', label: 'Tax Rate', required: false, aliases: ['tax rate', 'tax', 'tax %'] },
+  { field: 'reorder_level', label: 'Reorder Level', required: false, aliases: ['reorder level', 'reorder point'] },
+  {
+    field: 'quantity_on_hand',
+    label: 'Stock',
+    required: false,
+    aliases: ['stock', 'quantity', 'quantity on hand', 'qty', 'on hand'],
+  },
+];
+
+// Column index in the file for each mapped field
+export type ProductImportMapping = Partial<Record<ProductImportField, number>>;
+
+/**
+ * Map columns to fields by their header names
+ */
+export const guessColumnMapping = (headers: string[]): ProductImportMapping => {
+  const normalized = headers.map((header) => header.trim().toLowerCase().replace(/[_\s]+/g, ' '));
+  const mapping: ProductImportMapping = {};
+
+  PRODUCT_IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const column = normalized.findIndex((header) => aliases.includes(header));
+    if (column >= 0) {
+      mapping[field] = column;
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Turn the file's data rows (after the header) into import rows through the
+ * column mapping. Blank rows are skipped but keep their line numbers
+ */
+export const toImportRows = (
+  dataRows: string[][],
+  mapping: ProductImportMapping
+): ProductImportRow[] => {
+  return dataRows
+    .map((cells, index) => {
+      const values: ProductImportRow['values'] = {};
+      (Object.keys(mapping) as ProductImportField[]).forEach((field) => {
+        const value = (cells[mapping[field] as number] ?? '').trim();
+        if (value !== '') {
+          values[field] = value;
+        }
+      });
+      return { row_number: index + 2, values };
+    })
+    .filter((row) => Object.keys(row.values).length > 0);
+};
+
+/**
+ * Parse a number from a cell, allowing a currency symbol, thousands
+ * separators and a trailing %. Blank cells are undefined
+ */
+export const parseImportNumber = (value?: string): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  return Number(value.replace(/[$€£,%\s]/g, ''));
+};
+
+/**
+ * Problems with an import row; a new product needs every required field
+ */
+export const validateImportRow = (row: ProductImportRow, isNew: boolean): string[] => {
+  const { values } = row;
+  const errors: string[] = [];
+
+  if (!values.sku || !isValidSKU(values.sku)) {
+    errors.push('SKU is required and must be at most 50 characters');
+  }
+
+  if (isNew) {
+    PRODUCT_IMPORT_FIELDS.filter(({ required, field }) => required && field !== 'sku').forEach(
+      ({ field, label }) => {
+        if (!values[field]) {
+          errors.push(`${label} is required for a new product`);
+        }
+      }
+    );
+  }
+
+  (['price', 'cost'] as const).forEach((field) => {
+    const amount = parseImportNumber(values[field]);
+    if (amount !== undefined && !isValidPrice(amount)) {
+      errors.push(`${field === 'price' ? 'Price' : 'Cost'} must be a non-negative number`);
+    }
+  });
+
+  const taxRate = parseImportNumber(values.tax_rate);
+  if (taxRate !== undefined && !(taxRate >= 0 && taxRate <= 100)) {
+    errors.push('Tax rate must be a percentage between 0 and 100');
+  }
+
+  (['reorder_level', 'quantity_on_hand'] as const).forEach((field) => {
+    const quantity = parseImportNumber(values[field]);
+    if (quantity !== undefined && !(Number.isInteger(quantity) && quantity >= 0)) {
+      errors.push(
+        `${field === 'reorder_level' ? 'Reorder level' : 'Stock'} must be a whole number of at least 0`
+      );
+    }
+  });
+
+  return errors;
+};
+
+export const PRODUCT_EXPORT_HEADERS = PRODUCT_IMPORT_FIELDS.map(({ label }) => label);
+
+/**
+ * Catalog export rows, in PRODUCT_EXPORT_HEADERS order
+ */
+export const toProductExportRows = (products: Product[], categories: Category[]): CSVValue[][] => {
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+
+  return products.map((product) => [
+    product.sku,
+    product.name,
+    categoryNames.get(product.category_id) ?? '',
+    product.description,
+    product.price,
+    product.cost,
+    product.tax_rate,
+    product.reorder_level,
+    product.quantity_on_hand,
+  ]);
+};
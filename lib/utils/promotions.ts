@@ -0,0 +1,207 @@
+/**
+ * Promotion Rules Engine
+ * Pure functions that apply promotions to cart items
+ * - Line promotions (product or category) do not stack; the best one wins
+ * - Order promotions apply to the subtotal after line discounts and are
+ *   spread across lines so tax is charged on the discounted amounts
+ * - Gift cards are sold at face value and never discounted
+ */
+
+import { AppliedPromotion, Cart, CartItem, Promotion } from '@/lib/types';
+import { calculateCartTotals, formatDecimal, getCartItemUnitPrice } from '@/lib/utils';
+
+/**
+ * Check whether a promotion is active at the given time
+ */
+export const isPromotionActive = (promotion: Promotion, now: Date = new Date()): boolean => {
+  if (!promotion.is_active) return false;
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) return false;
+  if (promotion.ends_at && new Date(promotion.ends_at) < now) return false;
+  return true;
+};
+
+/**
+ * Check whether a promotion targets a single line rather than the order
+ */
+export const isLinePromotion = (promotion: Promotion): boolean => {
+  return promotion.product_id !== null || promotion.category_id !== null;
+};
+
+/**
+ * Check whether a line promotion applies to a cart item
+ */
+export const promotionAppliesToItem = (promotion: Promotion, item: CartItem): boolean => {
+  if (item.product.is_gift_card) return false;
+  if (promotion.product_id) {
+    return promotion.product_id === item.product_id;
+  }
+  if (promotion.category_id) {
+    return promotion.category_id === item.product.category_id;
+  }
+  return false;
+};
+
+/**
+ * Calculate the discount a line promotion gives on a cart item
+ * - percentage: value % off the line
+ * - fixed_amount: value off each unit
+ * - buy_x_get_y: for every buy + get units, get units are value % off
+ *   (value 100 = free)
+ */
+export const calculateLineDiscount = (promotion: Promotion, item: CartItem): number => {
+  const unitPrice = getCartItemUnitPrice(item);
+  const lineSubtotal = unitPrice * item.quantity;
+  let discount = 0;
+
+  switch (promotion.promotion_type) {
+    case 'percentage':
+      discount = lineSubtotal * (promotion.value / 100);
+      break;
+    case 'fixed_amount':
+      discount = promotion.value * item.quantity;
+      break;
+    case 'buy_x_get_y': {
+      const buy = promotion.buy_quantity || 0;
+      const get = promotion.get_quantity || 0;
+      if (buy <= 0 || get <= 0) return 0;
+      const freeUnits = Math.floor(item.quantity / (buy + get)) * get;
+      discount = freeUnits * unitPrice * (promotion.value / 100);
+      break;
+    }
+  }
+
+  return formatDecimal(Math.min(Math.max(discount, 0), lineSubtotal));
+};
+
+/**
+ * Calculate the discount an order promotion gives on a subtotal
+ */
+export const calculateOrderDiscount = (promotion: Promotion, subtotal: number): number => {
+  if (subtotal < promotion.min_subtotal) return 0;
+
+  let discount = 0;
+  switch (promotion.promotion_type) {
+    case 'percentage':
+      discount = subtotal * (promotion.value / 100);
+      break;
+    case 'fixed_amount':
+      discount = promotion.value;
+      break;
+    case 'buy_x_get_y':
+      // Buy X get Y only makes sense against a product or category
+      return 0;
+  }
+
+  return formatDecimal(Math.min(Math.max(discount, 0), subtotal));
+};
+
+/**
+ * Apply promotions to cart items
+ * Returns a cart whose items carry discount_amount and promotion_id,
+ * with totals computed after discounts. Pass pricesIncludeTax for stores
+ * whose prices are gross, so tax is extracted rather than added
+ */
+export const applyPromotions = (
+  items: CartItem[],
+  promotions: Promotion[],
+  pricesIncludeTax = false,
+  now: Date = new Date()
+): Cart => {
+  const active = promotions.filter((promotion) => isPromotionActive(promotion, now));
+  const linePromotions = active.filter(isLinePromotion);
+  const orderPromotions = active.filter((promotion) => !isLinePromotion(promotion));
+  const applied: Record<string, AppliedPromotion> = {};
+
+  const recordApplied = (promotion: Promotion, amount: number) => {
+    if (amount <= 0) return;
+    if (!applied[promotion.id]) {
+      applied[promotion.id] = { promotion_id: promotion.id, name: promotion.name, amount: 0 };
+    }
+    applied[promotion.id].amount = formatDecimal(applied[promotion.id].amount + amount);
+  };
+
+  // Best line promotion per item
+  const discountedItems: CartItem[] = items.map((item) => {
+    let bestPromotion: Promotion | null = null;
+    let bestDiscount = 0;
+
+    for (const promotion of linePromotions) {
+      if (!promotionAppliesToItem(promotion, item)) continue;
+      if (getCartItemUnitPrice(item) * item.quantity < promotion.min_subtotal) continue;
+      const discount = calculateLineDiscount(promotion, item);
+      if (discount > bestDiscount) {
+        bestDiscount = discount;
+        bestPromotion = promotion;
+      }
+    }
+
+    if (bestPromotion) {
+      recordApplied(bestPromotion, bestDiscount);
+    }
+
+    return {
+      ...item,
+      discount_amount: bestDiscount,
+      promotion_id: bestPromotion ? bestPromotion.id : null,
+    };
+  });
+
+  // Best order promotion on the remaining subtotal
+  const netLines = discountedItems.map((item) =>
+    item.product.is_gift_card
+      ? 0
+      : getCartItemUnitPrice(item) * item.quantity - (item.discount_amount || 0)
+  );
+  const netSubtotal = formatDecimal(netLines.reduce((sum, net) => sum + net, 0));
+
+  let bestOrderPromotion: Promotion | null = null;
+  let orderDiscount = 0;
+  for (const promotion of orderPromotions) {
+    const discount = calculateOrderDiscount(promotion, netSubtotal);
+    if (discount > orderDiscount) {
+      orderDiscount = discount;
+      bestOrderPromotion = promotion;
+    }
+  }
+
+  if (bestOrderPromotion && netSubtotal > 0) {
+    recordApplied(bestOrderPromotion, orderDiscount);
+
+    // Spread the order discount across lines by net amount; the last
+    // discountable line takes the rounding remainder
+    let remaining = orderDiscount;
+    const lastIndex = netLines.reduce((last, net, index) => (net > 0 ? index : last), -1);
+    discountedItems.forEach((item, index) => {
+      if (netLines[index] <= 0) return;
+      const share =
+        index === lastIndex
+          ? remaining
+          : formatDecimal((orderDiscount * netLines[index]) / netSubtotal);
+      remaining = formatDecimal(remaining - share);
+      item.discount_amount = formatDecimal((item.discount_amount || 0) + share);
+    });
+  }
+
+  const totals = calculateCartTotals(
+    discountedItems.map((item) => ({
+      quantity: item.quantity,
+      unit_price: item.product.price,
+      tax_rate: item.product.tax_rate,
+      tax_rates: item.tax_rates,
+      discount_amount: item.discount_amount,
+      modifiers: item.modifiers,
+    })),
+    pricesIncludeTax
+  );
+
+  return {
+    items: discountedItems,
+    subtotal: totals.subtotal,
+    discount_total: totals.discount,
+    tax_total: totals.tax,
+    total: totals.total,
+    tax_breakdown: totals.tax_breakdown,
+    prices_include_tax: pricesIncludeTax,
+    applied_promotions: Object.values(applied),
+  };
+};
@@ -0,0 +1,142 @@
+/**
+ * X/Z Sales Reports
+ * The fixed-width text used to print and reprint a report and its CSV
+ * export; reports are totalled by the sales_report database function
+ */
+
+import { SalesReport } from '@/lib/types';
+import { formatCurrency, formatDateTime, formatPaymentMethod } from '@/lib/utils';
+import { toCSV } from '@/lib/utils/csv';
+
+// Characters per line on an 80 mm receipt printer
+const REPORT_COLUMNS = 48;
+
+/**
+ * Title of a report, e.g. "Z REPORT #12"
+ */
+export const getSalesReportTitle = (report: SalesReport): string => {
+  return report.report_type === 'z' ? `Z REPORT #${report.report_number ?? ''}` : 'X REPORT';
+};
+
+/**
+ * Render a report as fixed-width text for a receipt printer
+ */
+export const renderSalesReportText = (report: SalesReport): string => {
+  const lines: string[] = [];
+  const divider = () => lines.push('-'.repeat(REPORT_COLUMNS));
+  const center = (text: string) =>
+    lines.push(' '.repeat(Math.max(0, Math.floor((REPORT_COLUMNS - text.length) / 2))) + text);
+  const row = (label: string, value: string) => {
+    const space = REPORT_COLUMNS - value.length;
+    lines.push(label.slice(0, Math.max(0, space - 1)).padEnd(space) + value);
+  };
+  const amount = (label: string, value: number) => row(label, formatCurrency(value));
+
+  center(report.store_name);
+  center(getSalesReportTitle(report));
+  center(`${formatDateTime(report.period_start)} -`);
+  center(formatDateTime(report.period_end));
+  divider();
+
+  row('Orders', String(report.order_count));
+  row('Items sold', String(report.item_count));
+  amount('Gross sales', report.gross_sales);
+  amount('Discounts', -report.discount_total);
+  amount('Tax', report.tax_total);
+  amount('Sales total', report.sales_total);
+  amount(`Refunds (${report.refund_count})`, -report.refund_total);
+  amount('NET SALES', report.net_sales);
+  amount(`Voids (${report.void_count})`, report.void_total);
+  divider();
+
+  lines.push('TAX BY RATE');
+  report.taxes.forEach((tax) =>
+    amount(`${tax.name} ${tax.rate}% on ${formatCurrency(tax.taxable_amount)}`, tax.tax_amount)
+  );
+  divider();
+
+  lines.push('TENDERS');
+  report.tenders.forEach((tender) =>
+    amount(`${formatPaymentMethod(tender.method)} (${tender.count})`, tender.amount)
+  );
+  if (report.refunds.length > 0) {
+    lines.push('REFUNDS');
+    report.refunds.forEach((refund) =>
+      amount(`${formatPaymentMethod(refund.method)} (${refund.count})`, -refund.amount)
+    );
+  }
+  divider();
+
+  lines.push('CASHIERS (orders/items)');
+  report.cashiers.forEach((cashier) =>
+    amount(`${cashier.name} (${cashier.order_count}/${cashier.item_count})`, cashier.sales_total)
+  );
+
+  return lines.join('\n');
+};
+
+/**
+ * Report as CSV: one section per table, separated by blank rows
+ */
+export const salesReportToCSV = (report: SalesReport): string => {
+  return toCSV(
+    ['Section', 'Name', 'Count', 'Amount', 'Tax', 'Items'],
+    [
+      ['Report', getSalesReportTitle(report)],
+      ['Report', 'Store', null, report.store_name],
+      ['Report', 'From', null, report.period_start],
+      ['Report', 'To', null, report.period_end],
+      [],
+      ['Totals', 'Orders', report.order_count],
+      ['Totals', 'Items sold', report.item_count],
+      ['Totals', 'Gross sales', null, report.gross_sales],
+      ['Totals', 'Discounts', null, report.discount_total],
+      ['Totals', 'Tax', null, report.tax_total],
+      ['Totals', 'Sales total', null, report.sales_total],
+      ['Totals', 'Refunds', report.refund_count, report.refund_total],
+      ['Totals', 'Net sales', null, report.net_sales],
+      ['Totals', 'Voids', report.void_count, report.void_total],
+      [],
+      ...report.taxes.map((tax) => [
+        'Tax',
+        `${tax.name} ${tax.rate}%`,
+        null,
+        tax.taxable_amount,
+        tax.tax_amount,
+      ]),
+      [],
+      ...report.tenders.map((tender) => ['Tender', tender.method, tender.count, tender.amount]),
+      ...report.refunds.map((refund) => ['Refund', refund.method, refund.count, refund.amount]),
+      [],
+      ...report.cashiers.map((cashier) => [
+        'Cashier',
+        cashier.name,
+        cashier.order_count,
+        cashier.sales_total,
+        null,
+        cashier.item_count,
+      ]),
+    ]
+  );
+};
+
+/**
+ * Print a report from the browser through a pop-up window
+ */
+export const printSalesReport = (report: SalesReport): void => {
+  const text = renderSalesReportText(report)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+  const printWindow = window.open('', '', 'height=600,width=400');
+  if (!printWindow) return;
+
+  printWindow.document.write(
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${getSalesReportTitle(report)}</title>` +
+      `<style>body { margin: 0; } pre { font-family: 'Courier New', monospace; font-size: 12px; }</style>` +
+      `</head><body><pre>${text}</pre></body></html>`
+  );
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
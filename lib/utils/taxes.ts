@@ -0,0 +1,79 @@
+/**
+ * Tax Class Rules
+ * Which taxes a product is charged: the rates of its tax class, or its own
+ * tax_rate when it has none. Also exports the tax liability report
+ */
+
+import { CartItem, Product, TaxClass, TaxComponent, TaxLiabilityReport } from '@/lib/types';
+import { toTaxComponents } from '@/lib/utils';
+import { toCSV } from '@/lib/utils/csv';
+
+/**
+ * Taxes in a class, in the order they are applied
+ */
+export const getTaxClassComponents = (taxClass: TaxClass): TaxComponent[] => {
+  return (taxClass.rates || []).map((rate) => ({
+    tax_rate_id: rate.id,
+    name: rate.name,
+    rate: rate.rate,
+    is_compound: rate.is_compound,
+  }));
+};
+
+/**
+ * Taxes charged on a product, in the order they are applied
+ * Gift cards are stored value, so they are never taxed when sold
+ */
+export const getProductTaxRates = (product: Product, taxClasses: TaxClass[]): TaxComponent[] => {
+  if (product.is_gift_card) return [];
+
+  const taxClass = product.tax_class_id
+    ? taxClasses.find((candidate) => candidate.id === product.tax_class_id)
+    : undefined;
+
+  return taxClass ? getTaxClassComponents(taxClass) : toTaxComponents(product.tax_rate);
+};
+
+/**
+ * Set each cart item's taxes from its product's tax class
+ */
+export const applyTaxClasses = (items: CartItem[], taxClasses: TaxClass[]): CartItem[] => {
+  return items.map((item) => ({
+    ...item,
+    tax_rates: getProductTaxRates(item.product, taxClasses),
+  }));
+};
+
+/**
+ * Label for a tax class, e.g. "Standard (State 6% + City 1%)"
+ */
+export const describeTaxClass = (taxClass: TaxClass): string => {
+  const rates = (taxClass.rates || []).map(
+    (rate) => `${rate.name} ${rate.rate}%${rate.is_compound ? ' compound' : ''}`
+  );
+  return rates.length > 0 ? `${taxClass.name} (${rates.join(' + ')})` : taxClass.name;
+};
+
+/**
+ * Tax liability report as CSV, one row per rate plus a totals row
+ */
+export const taxLiabilityReportToCSV = (report: TaxLiabilityReport): string => {
+  return toCSV(
+    ['Tax rate (%)', 'Sales', 'Sales tax', 'Refunds', 'Refunded tax', 'Net sales', 'Net tax'],
+    [
+      ...report.rows.map((row) => [
+        row.tax_rate,
+        row.sales,
+        row.sales_tax,
+        row.refunds,
+        row.refunds_tax,
+        row.net_sales,
+        row.net_tax,
+      ]),
+      [],
+      ['Taxable sales', report.taxable_sales],
+      ['Exempt sales', report.exempt_sales],
+      ['Tax collected', report.tax_collected],
+    ]
+  );
+};
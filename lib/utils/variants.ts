@@ -0,0 +1,92 @@
+/**
+ * Product Variant Helpers
+ * Option axis combinations, variant labels and SKUs shared by the inventory
+ * screen, the POS variant picker and the product actions
+ */
+
+import { Product, ProductOptionAxis } from '@/lib/types';
+
+/**
+ * Whether a product is a parent sold through its variants
+ */
+export const hasVariants = (product: Product): boolean => {
+  return (product.option_axes || []).length > 0;
+};
+
+/**
+ * Every combination of option values, e.g. Size x Milk
+ * Axes with no values are ignored
+ */
+export const generateVariantCombinations = (
+  axes: ProductOptionAxis[]
+): Record<string, string>[] => {
+  return axes
+    .filter((axis) => axis.values.length > 0)
+    .reduce<Record<string, string>[]>(
+      (combinations, axis) =>
+        combinations.flatMap((combination) =>
+          axis.values.map((value) => ({ ...combination, [axis.name]: value }))
+        ),
+      [{}]
+    );
+};
+
+/**
+ * Human-readable label for a variant's options, e.g. "Large / Oat"
+ */
+export const variantLabel = (options: Record<string, string> | null): string => {
+  return Object.values(options || {}).join(' / ');
+};
+
+/**
+ * Default SKU for a variant: the parent SKU plus each option value,
+ * e.g. BEV001-LARGE-OAT
+ */
+export const variantSku = (parentSku: string, options: Record<string, string>): string => {
+  const suffix = Object.values(options)
+    .map((value) => value.toUpperCase().replace(/[^A-Z0-9]+/g, ''))
+    .filter(Boolean)
+    .join('-');
+  return suffix ? `${parentSku}-${suffix}` : parentSku;
+};
+
+/**
+ * Whether two variants have the same option values
+ */
+export const sameVariantOptions = (
+  a: Record<string, string> | null,
+  b: Record<string, string> | null
+): boolean => {
+  const aKeys = Object.keys(a || {});
+  const bKeys = Object.keys(b || {});
+  return aKeys.length === bKeys.length && aKeys.every((key) => a?.[key] === b?.[key]);
+};
+
+/**
+ * Parse option axes typed one per line as "Name: value, value"
+ */
+export const parseOptionAxes = (text: string): ProductOptionAxis[] => {
+  return text
+    .split('\n')
+    .map((line) => line.split(':'))
+    .filter((parts) => parts.length === 2 && parts[0].trim())
+    .map(([name, values]) => ({
+      name: name.trim(),
+      values: Array.from(
+        new Set(
+          values
+            .split(',')
+            .map((value) => value.trim())
+            .filter(Boolean)
+        )
+      ),
+    }))
+    .filter((axis) => axis.values.length > 0);
+};
+
+/**
+ * Format option axes back into the "Name: value, value" text form
+ */
+export const formatOptionAxes = (axes: ProductOptionAxis[] | null): string => {
+  return (axes || []).map((axis) => `${axis.name}: ${axis.values.join(', ')}`).join('\n');
+};
@@ -0,0 +1,77 @@
+/**
+ * Spreadsheet Helpers
+ * Read an uploaded CSV or XLSX file into rows of text, and download rows as
+ * an XLSX file (browser only). exceljs is loaded on first use so it stays
+ * out of pages that never touch a spreadsheet
+ */
+
+import { CSVValue, parseCSV } from '@/lib/utils/csv';
+
+/**
+ * Read the first worksheet of an XLSX file into rows of cell text
+ * Blank rows are kept as empty rows, so row positions match the sheet
+ */
+export const readXLSX = async (data: ArrayBuffer): Promise<string[][]> => {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  await workbook.xlsx.load(data);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow((row, rowNumber) => {
+    const values: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      values[column - 1] = cell.text;
+    });
+    rows[rowNumber - 1] = Array.from(values, (value) => value ?? '');
+  });
+
+  return Array.from(rows, (row) => row ?? []);
+};
+
+/**
+ * Read a .csv or .xlsx upload into rows of text
+ */
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.csv')) {
+    return parseCSV(await file.text());
+  }
+
+  if (name.endsWith('.xlsx')) {
+    return readXLSX(await file.arrayBuffer());
+  }
+
+  throw new Error('Choose a .csv or .xlsx file');
+};
+
+/**
+ * Save a header row and data rows as an XLSX file (browser only)
+ */
+export const downloadXLSX = async (
+  filename: string,
+  headers: string[],
+  rows: CSVValue[][],
+  sheetName = 'Sheet1'
+): Promise<void> => {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+
+  sheet.addRow(headers).font = { bold: true };
+  rows.forEach((row) => sheet.addRow(row.map((value) => value ?? null)));
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
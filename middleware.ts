@@ -13,10 +13,10 @@ export async function middleware(request: NextRequest) {
   const publicRoutes = ['/', '/auth/login', '/auth/signup'];
   
   // Admin-only routes
-  const adminRoutes = ['/dashboard', '/inventory', '/analytics', '/admin'];
+  const adminRoutes = ['/dashboard', '/inventory', '/purchasing', '/analytics', '/admin'];
   
   // POS routes (accessible by both admin and cashier)
-  const posRoutes = ['/pos'];
+  const posRoutes = ['/pos', '/customers'];
 
   // If it's a public route, allow access
   if (publicRoutes.includes(pathname)) {